@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Enables src/instrumentation.ts (background job startup)
+    instrumentationHook: true,
+  },
+};
 
 export default nextConfig;
@@ -0,0 +1,46 @@
+-- LIQUID ABT - Scheduled DCA Execution
+-- Adds DCA scheduling support to every existing tenant schema
+-- (new tenants get these objects from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    -- DCA frequency on treasury rules
+    EXECUTE format('ALTER TABLE %I.treasury_rules ADD COLUMN IF NOT EXISTS frequency TEXT CHECK (frequency IN (''daily'', ''weekly'', ''monthly''))', tenant_schema);
+
+    -- Scheduled purchases are not tied to a payment transaction
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ALTER COLUMN transaction_id DROP NOT NULL', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS schedule_reference TEXT UNIQUE', tenant_schema);
+
+    -- One execution record per rule per schedule period
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.dca_executions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        treasury_rule_id UUID NOT NULL REFERENCES %1$I.treasury_rules(id),
+        period_key TEXT NOT NULL,
+        scheduled_for TIMESTAMP NOT NULL,
+        status TEXT NOT NULL DEFAULT ''pending'' CHECK (status IN (''pending'', ''completed'', ''skipped'', ''failed'')),
+        amount_aud DECIMAL(15,2),
+        bitcoin_purchase_id UUID REFERENCES %1$I.bitcoin_purchases(id),
+        reason TEXT,
+        executed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (treasury_rule_id, period_key)
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.dca_executions(treasury_rule_id, scheduled_for DESC)',
+      'idx_' || tenant_schema || '_dca_executions_rule', tenant_schema);
+
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.triggers
+      WHERE trigger_schema = tenant_schema AND trigger_name = 'update_dca_executions_updated_at'
+    ) THEN
+      EXECUTE format('CREATE TRIGGER update_dca_executions_updated_at BEFORE UPDATE ON %I.dca_executions FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()', tenant_schema);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,18 @@
+-- LIQUID ABT - Conversion Decision Recording
+-- Stores the structured tier/volume limit decision on each tenant transaction
+-- (new tenants get this column from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.transactions ADD COLUMN IF NOT EXISTS conversion_decision JSONB', tenant_schema);
+
+    -- Rolling daily/monthly volume checks sum recent purchases
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.bitcoin_purchases(created_at DESC)',
+      'idx_' || tenant_schema || '_bitcoin_purchases_created', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,49 @@
+-- LIQUID ABT - Market-Timing Treasury Rules
+-- Adds the pending conversion pool and BTC price history to every existing tenant schema
+-- (new tenants get these objects from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    -- AUD held by market_timing rules until a buy trigger fires
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.market_timing_pool (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        treasury_rule_id UUID NOT NULL REFERENCES %1$I.treasury_rules(id),
+        transaction_id UUID UNIQUE REFERENCES %1$I.transactions(id),
+        amount_aud DECIMAL(15,2) NOT NULL,
+        status TEXT NOT NULL DEFAULT ''pending'' CHECK (status IN (''pending'', ''processing'', ''converted'', ''cancelled'')),
+        buy_trigger TEXT CHECK (buy_trigger IN (''price_band'', ''moving_average'', ''drawdown'', ''max_wait'')),
+        bitcoin_purchase_id UUID REFERENCES %1$I.bitcoin_purchases(id),
+        queued_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        converted_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    -- Price history for moving-average and drawdown triggers
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %I.btc_price_snapshots (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        price_aud DECIMAL(15,2) NOT NULL,
+        exchange_provider TEXT NOT NULL,
+        recorded_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.market_timing_pool(treasury_rule_id, status)',
+      'idx_' || tenant_schema || '_market_timing_pool_rule', tenant_schema);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.btc_price_snapshots(recorded_at DESC)',
+      'idx_' || tenant_schema || '_btc_price_snapshots_recorded', tenant_schema);
+
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.triggers
+      WHERE trigger_schema = tenant_schema AND trigger_name = 'update_market_timing_pool_updated_at'
+    ) THEN
+      EXECUTE format('CREATE TRIGGER update_market_timing_pool_updated_at BEFORE UPDATE ON %I.market_timing_pool FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()', tenant_schema);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,46 @@
+-- LIQUID ABT - Portfolio Rebalancing Rules
+-- Allows the 'rebalance' rule type and adds rebalancing trade history to every existing tenant schema
+-- (new tenants get these objects from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.treasury_rules DROP CONSTRAINT IF EXISTS treasury_rules_rule_type_check', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.treasury_rules ADD CONSTRAINT treasury_rules_rule_type_check CHECK (rule_type IN (''percentage'', ''threshold'', ''fixed_dca'', ''market_timing'', ''rebalance''))', tenant_schema);
+
+    -- One row per rebalancing trade
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.rebalance_executions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        treasury_rule_id UUID NOT NULL REFERENCES %1$I.treasury_rules(id),
+        btc_holdings DECIMAL(18,8) NOT NULL,
+        aud_balance DECIMAL(15,2) NOT NULL,
+        price_per_btc DECIMAL(15,2) NOT NULL,
+        allocation_before DECIMAL(5,4) NOT NULL,
+        target_allocation DECIMAL(5,4) NOT NULL,
+        side TEXT NOT NULL CHECK (side IN (''buy'', ''sell'')),
+        amount_aud DECIMAL(15,2) NOT NULL,
+        bitcoin_amount DECIMAL(18,8),
+        exchange_order_id TEXT,
+        bitcoin_purchase_id UUID REFERENCES %1$I.bitcoin_purchases(id),
+        status TEXT NOT NULL DEFAULT ''pending'' CHECK (status IN (''pending'', ''completed'', ''skipped'', ''failed'')),
+        reason TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.rebalance_executions(treasury_rule_id, created_at DESC)',
+      'idx_' || tenant_schema || '_rebalance_executions_rule', tenant_schema);
+
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.triggers
+      WHERE trigger_schema = tenant_schema AND trigger_name = 'update_rebalance_executions_updated_at'
+    ) THEN
+      EXECUTE format('CREATE TRIGGER update_rebalance_executions_updated_at BEFORE UPDATE ON %I.rebalance_executions FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()', tenant_schema);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,26 @@
+-- LIQUID ABT - Multi-Rule Composition
+-- Adds rule priority/combination mode and per-purchase evaluation traces to every existing tenant schema
+-- (new tenants get these objects from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.treasury_rules ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 100', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.treasury_rules ADD COLUMN IF NOT EXISTS combination_mode TEXT NOT NULL DEFAULT ''stack'' CHECK (combination_mode IN (''stack'', ''first_match''))', tenant_schema);
+
+    -- Existing tenants had a single effective rule (the newest); keep it in charge
+    EXECUTE format('
+      UPDATE %1$I.treasury_rules r SET priority = ranked.rn * 10
+      FROM (SELECT id, ROW_NUMBER() OVER (ORDER BY created_at DESC) AS rn FROM %1$I.treasury_rules) ranked
+      WHERE r.id = ranked.id', tenant_schema);
+
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS evaluation_trace JSONB', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.treasury_rules(is_active, priority)',
+      'idx_' || tenant_schema || '_treasury_rules_priority', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,15 @@
+-- LIQUID ABT - Treasury Rule Management
+-- Adds rule descriptions and soft delete to every existing tenant schema
+-- (new tenants get these columns from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.treasury_rules ADD COLUMN IF NOT EXISTS description TEXT', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.treasury_rules ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,93 @@
+-- LIQUID ABT - Treasury Rule Versioning
+-- Adds immutable, effective-dated rule versions to every existing tenant schema and
+-- backfills version 1 from each rule's current configuration
+-- (new tenants get these objects from TenantSchemaManager.createTenantSchema)
+
+CREATE OR REPLACE FUNCTION prevent_rule_version_modifications()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Treasury rule versions are immutable and cannot be deleted';
+  END IF;
+
+  IF OLD.effective_to IS NOT NULL
+    OR ROW(NEW.id, NEW.treasury_rule_id, NEW.version_number, NEW.configuration, NEW.change_type, NEW.changed_by, NEW.effective_from, NEW.created_at)
+      IS DISTINCT FROM ROW(OLD.id, OLD.treasury_rule_id, OLD.version_number, OLD.configuration, OLD.change_type, OLD.changed_by, OLD.effective_from, OLD.created_at)
+  THEN
+    RAISE EXCEPTION 'Treasury rule versions are immutable and cannot be updated';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.treasury_rules ADD COLUMN IF NOT EXISTS current_version_id UUID', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS rule_version_ids UUID[]', tenant_schema);
+
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.treasury_rule_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        treasury_rule_id UUID NOT NULL REFERENCES %1$I.treasury_rules(id),
+        version_number INTEGER NOT NULL,
+        configuration JSONB NOT NULL,
+        change_type TEXT NOT NULL CHECK (change_type IN (''create'', ''update'', ''activate'', ''deactivate'')),
+        changed_by TEXT,
+        effective_from TIMESTAMP NOT NULL DEFAULT NOW(),
+        effective_to TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (treasury_rule_id, version_number)
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.treasury_rule_versions(treasury_rule_id, effective_from DESC)',
+      'idx_' || tenant_schema || '_treasury_rule_versions_effective', tenant_schema);
+
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.triggers
+      WHERE trigger_schema = tenant_schema AND trigger_name = 'prevent_treasury_rule_version_modifications'
+    ) THEN
+      EXECUTE format('CREATE TRIGGER prevent_treasury_rule_version_modifications BEFORE UPDATE OR DELETE ON %I.treasury_rule_versions FOR EACH ROW EXECUTE PROCEDURE prevent_rule_version_modifications()', tenant_schema);
+    END IF;
+
+    -- Version 1 is the configuration as it stands today, effective from the rule's creation
+    EXECUTE format('
+      INSERT INTO %1$I.treasury_rule_versions (treasury_rule_id, version_number, configuration, change_type, effective_from, effective_to)
+      SELECT r.id, 1,
+        jsonb_build_object(
+          ''name'', r.name,
+          ''description'', r.description,
+          ''ruleType'', r.rule_type,
+          ''isActive'', r.is_active,
+          ''priority'', r.priority,
+          ''combinationMode'', r.combination_mode,
+          ''conversionPercentage'', r.conversion_percentage,
+          ''thresholdAmount'', r.threshold_amount,
+          ''fixedAmount'', r.fixed_amount,
+          ''frequency'', r.frequency,
+          ''minimumPurchase'', r.minimum_purchase,
+          ''maximumPurchase'', r.maximum_purchase,
+          ''bufferAmount'', r.buffer_amount,
+          ''cashFloor'', r.cash_floor,
+          ''btcAllocationMin'', r.btc_allocation_min,
+          ''btcAllocationMax'', r.btc_allocation_max,
+          ''withdrawalAddress'', r.withdrawal_address,
+          ''isAutoWithdrawal'', r.is_auto_withdrawal,
+          ''exchangeProvider'', r.exchange_provider,
+          ''settings'', r.settings
+        ),
+        ''create'', r.created_at, r.deleted_at
+      FROM %1$I.treasury_rules r
+      WHERE NOT EXISTS (SELECT 1 FROM %1$I.treasury_rule_versions v WHERE v.treasury_rule_id = r.id)', tenant_schema);
+
+    EXECUTE format('
+      UPDATE %1$I.treasury_rules r SET current_version_id = v.id
+      FROM %1$I.treasury_rule_versions v
+      WHERE v.treasury_rule_id = r.id AND v.version_number = 1 AND r.current_version_id IS NULL', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."tenants" ADD COLUMN     "approvalExpiryHours" INTEGER NOT NULL DEFAULT 48,
+ADD COLUMN     "approvalThresholdAUD" DOUBLE PRECISION,
+ADD COLUMN     "requiredApprovals" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,77 @@
+-- LIQUID ABT - Dual-Control Approval Workflows
+-- Adds approval requests, approver decisions and tenant notifications to every existing tenant schema
+-- (new tenants get these objects from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.approval_requests (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        request_type TEXT NOT NULL CHECK (request_type IN (''conversion'', ''withdrawal'')),
+        status TEXT NOT NULL DEFAULT ''pending'' CHECK (status IN (''pending'', ''approved'', ''rejected'', ''expired'', ''executed'', ''failed'')),
+        transaction_id UUID UNIQUE REFERENCES %1$I.transactions(id),
+        bitcoin_purchase_id UUID REFERENCES %1$I.bitcoin_purchases(id),
+        amount_aud DECIMAL(15,2),
+        bitcoin_amount DECIMAL(18,8),
+        destination_address TEXT,
+        details JSONB NOT NULL DEFAULT ''{}'',
+        reason TEXT NOT NULL,
+        required_approvals INTEGER NOT NULL DEFAULT 1,
+        requested_by TEXT,
+        expires_at TIMESTAMP NOT NULL,
+        rejected_by TEXT,
+        rejection_reason TEXT,
+        decided_at TIMESTAMP,
+        executed_at TIMESTAMP,
+        execution_error TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.approval_decisions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        approval_request_id UUID NOT NULL REFERENCES %1$I.approval_requests(id),
+        user_id TEXT NOT NULL,
+        decision TEXT NOT NULL CHECK (decision IN (''approve'', ''reject'')),
+        reason TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (approval_request_id, user_id)
+      )', tenant_schema);
+
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.notifications (
+        id SERIAL PRIMARY KEY,
+        tenant_id VARCHAR(255) NOT NULL,
+        user_id VARCHAR(255),
+        type VARCHAR(50) NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        message TEXT NOT NULL,
+        priority VARCHAR(10) DEFAULT ''normal'' CHECK (priority IN (''low'', ''normal'', ''high'', ''urgent'')),
+        read BOOLEAN DEFAULT false,
+        dismissed BOOLEAN DEFAULT false,
+        metadata JSONB,
+        expires_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.approval_requests(status, expires_at)',
+      'idx_' || tenant_schema || '_approval_requests_status', tenant_schema);
+    EXECUTE format('CREATE UNIQUE INDEX IF NOT EXISTS %I ON %I.approval_requests(bitcoin_purchase_id) WHERE request_type = ''withdrawal''',
+      'idx_' || tenant_schema || '_approval_requests_withdrawal', tenant_schema);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.notifications(user_id, created_at DESC)',
+      'idx_' || tenant_schema || '_notifications_user_created', tenant_schema);
+
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.triggers
+      WHERE trigger_schema = tenant_schema AND trigger_name = 'update_approval_requests_updated_at'
+    ) THEN
+      EXECUTE format('CREATE TRIGGER update_approval_requests_updated_at BEFORE UPDATE ON %I.approval_requests FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()', tenant_schema);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,15 @@
+-- LIQUID ABT - Order Execution Algorithms
+-- Records the execution algorithm and child-order fills of each Bitcoin purchase in every existing tenant schema
+-- (new tenants get these columns from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS execution_algorithm TEXT NOT NULL DEFAULT ''single''', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS child_orders JSONB', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,22 @@
+-- LIQUID ABT - Limit-Order Execution
+-- Tracks resting limit orders on Bitcoin purchases in every existing tenant schema so the
+-- limit-order reconciler can reprice, cancel or complete them
+-- (new tenants get these columns from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS limit_price DECIMAL(15,2)', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS limit_settings JSONB', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS order_expires_at TIMESTAMP', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS reprice_count INTEGER NOT NULL DEFAULT 0', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS pending_withdrawal_address TEXT', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.bitcoin_purchases(order_expires_at) WHERE execution_algorithm = ''limit'' AND status IN (''PENDING'', ''PROCESSING'')',
+      'idx_' || tenant_schema || '_bitcoin_purchases_open_limit', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,54 @@
+-- LIQUID ABT - Sell-Side Treasury Operations
+-- Allows take-profit rules and sale approval requests, and records Bitcoin disposals with the
+-- acquisition lots they consumed, in every existing tenant schema
+-- (new tenants get these objects from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.treasury_rules DROP CONSTRAINT IF EXISTS treasury_rules_rule_type_check', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.treasury_rules ADD CONSTRAINT treasury_rules_rule_type_check CHECK (rule_type IN (''percentage'', ''threshold'', ''fixed_dca'', ''market_timing'', ''rebalance'', ''take_profit''))', tenant_schema);
+
+    EXECUTE format('ALTER TABLE %I.approval_requests DROP CONSTRAINT IF EXISTS approval_requests_request_type_check', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.approval_requests ADD CONSTRAINT approval_requests_request_type_check CHECK (request_type IN (''conversion'', ''withdrawal'', ''sale''))', tenant_schema);
+
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.bitcoin_disposals (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        trigger TEXT NOT NULL CHECK (trigger IN (''take_profit'', ''liquidity'', ''rebalance'')),
+        treasury_rule_id UUID REFERENCES %1$I.treasury_rules(id),
+        approval_request_id UUID UNIQUE REFERENCES %1$I.approval_requests(id),
+        bitcoin_amount DECIMAL(18,8) NOT NULL,
+        proceeds_aud DECIMAL(15,2) NOT NULL,
+        price_per_btc DECIMAL(15,2) NOT NULL,
+        fees_aud DECIMAL(15,2) NOT NULL DEFAULT 0,
+        cost_basis_aud DECIMAL(15,2) NOT NULL,
+        realized_gain_aud DECIMAL(15,2) NOT NULL,
+        unmatched_bitcoin DECIMAL(18,8) NOT NULL DEFAULT 0,
+        exchange_order_id TEXT NOT NULL,
+        exchange_provider TEXT NOT NULL,
+        raw_exchange_data JSONB,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.bitcoin_disposal_lots (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        bitcoin_disposal_id UUID NOT NULL REFERENCES %1$I.bitcoin_disposals(id),
+        bitcoin_purchase_id UUID NOT NULL REFERENCES %1$I.bitcoin_purchases(id),
+        bitcoin_amount DECIMAL(18,8) NOT NULL,
+        cost_basis_aud DECIMAL(15,2) NOT NULL,
+        acquired_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.bitcoin_disposals(created_at DESC)',
+      'idx_' || tenant_schema || '_bitcoin_disposals_created', tenant_schema);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.bitcoin_disposal_lots(bitcoin_purchase_id)',
+      'idx_' || tenant_schema || '_bitcoin_disposal_lots_purchase', tenant_schema);
+  END LOOP;
+END $$;
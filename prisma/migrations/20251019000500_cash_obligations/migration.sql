@@ -0,0 +1,32 @@
+-- LIQUID ABT - Cash-Flow Obligations
+-- Adds the scheduled obligations calendar used for dynamic cash floors to every existing tenant schema
+-- (new tenants get this table from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %I.cash_obligations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name TEXT NOT NULL,
+        category TEXT NOT NULL DEFAULT ''other'' CHECK (category IN (''payroll'', ''bas'', ''tax'', ''supplier'', ''rent'', ''other'')),
+        amount_aud DECIMAL(15,2) NOT NULL,
+        due_date DATE NOT NULL,
+        recurrence TEXT NOT NULL DEFAULT ''none'' CHECK (recurrence IN (''none'', ''weekly'', ''fortnightly'', ''monthly'', ''quarterly'')),
+        recurrence_end_date DATE,
+        source TEXT NOT NULL DEFAULT ''manual'' CHECK (source IN (''manual'', ''csv'')),
+        notes TEXT,
+        created_by TEXT,
+        deleted_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.cash_obligations(due_date) WHERE deleted_at IS NULL',
+      'idx_' || tenant_schema || '_cash_obligations_due', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."RefundPolicy" AS ENUM ('SELL_BACK', 'OFFSET', 'RECORD_LIABILITY');
+
+-- AlterTable
+ALTER TABLE "public"."tenants" ADD COLUMN     "refundPolicy" "public"."RefundPolicy" NOT NULL DEFAULT 'RECORD_LIABILITY';
@@ -0,0 +1,43 @@
+-- LIQUID ABT - Refund and Chargeback Handling
+-- Records payment reversals and how their converted share was unwound, and allows refund
+-- sell-backs as disposals, in every existing tenant schema
+-- (new tenants get these objects from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.bitcoin_disposals DROP CONSTRAINT IF EXISTS bitcoin_disposals_trigger_check', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.bitcoin_disposals ADD CONSTRAINT bitcoin_disposals_trigger_check CHECK (trigger IN (''take_profit'', ''liquidity'', ''rebalance'', ''refund''))', tenant_schema);
+
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.payment_reversals (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        reversal_type TEXT NOT NULL CHECK (reversal_type IN (''refund'', ''chargeback'')),
+        external_id TEXT NOT NULL UNIQUE,
+        provider TEXT NOT NULL,
+        transaction_id UUID NOT NULL REFERENCES %1$I.transactions(id),
+        bitcoin_purchase_id UUID REFERENCES %1$I.bitcoin_purchases(id),
+        amount_aud DECIMAL(15,2) NOT NULL,
+        converted_aud DECIMAL(15,2) NOT NULL DEFAULT 0,
+        bitcoin_amount DECIMAL(18,8) NOT NULL DEFAULT 0,
+        policy TEXT NOT NULL CHECK (policy IN (''none'', ''sell_back'', ''offset'', ''liability'')),
+        status TEXT NOT NULL CHECK (status IN (''outstanding'', ''awaiting_sale'', ''settled'')),
+        outstanding_aud DECIMAL(15,2) NOT NULL DEFAULT 0,
+        approval_request_id UUID REFERENCES %1$I.approval_requests(id),
+        bitcoin_disposal_id UUID REFERENCES %1$I.bitcoin_disposals(id),
+        offset_applications JSONB NOT NULL DEFAULT ''[]'',
+        reason TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.payment_reversals(transaction_id)',
+      'idx_' || tenant_schema || '_payment_reversals_transaction', tenant_schema);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.payment_reversals(created_at) WHERE policy = ''offset'' AND outstanding_aud > 0',
+      'idx_' || tenant_schema || '_payment_reversals_offset', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,51 @@
+-- LIQUID ABT - Batched Conversion Windows
+-- Queues small conversions and records each transaction's pro-rata share of the batch
+-- purchase, in every existing tenant schema
+-- (new tenants get these objects from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.conversion_batch_entries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        transaction_id UUID NOT NULL UNIQUE REFERENCES %1$I.transactions(id),
+        amount_aud DECIMAL(15,2) NOT NULL,
+        remaining_aud DECIMAL(15,2) NOT NULL,
+        status TEXT NOT NULL DEFAULT ''pending'' CHECK (status IN (''pending'', ''processing'', ''converted'', ''cancelled'')),
+        window_minutes INTEGER NOT NULL,
+        flush_at_aud DECIMAL(15,2),
+        withdrawal_address TEXT,
+        execution JSONB,
+        rule_version_ids UUID[],
+        evaluation_trace JSONB,
+        queued_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        converted_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %1$I.conversion_batch_allocations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        batch_entry_id UUID NOT NULL REFERENCES %1$I.conversion_batch_entries(id),
+        transaction_id UUID NOT NULL REFERENCES %1$I.transactions(id),
+        bitcoin_purchase_id UUID NOT NULL REFERENCES %1$I.bitcoin_purchases(id),
+        amount_aud DECIMAL(15,2) NOT NULL,
+        bitcoin_amount DECIMAL(18,8) NOT NULL,
+        fees_aud DECIMAL(15,2) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.conversion_batch_entries(queued_at) WHERE status = ''pending''',
+      'idx_' || tenant_schema || '_conversion_batch_entries_pending', tenant_schema);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.conversion_batch_allocations(transaction_id)',
+      'idx_' || tenant_schema || '_conversion_batch_allocations_transaction', tenant_schema);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.conversion_batch_allocations(bitcoin_purchase_id)',
+      'idx_' || tenant_schema || '_conversion_batch_allocations_purchase', tenant_schema);
+  END LOOP;
+END $$;
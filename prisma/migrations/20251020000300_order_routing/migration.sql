@@ -0,0 +1,14 @@
+-- LIQUID ABT - Smart Order Routing
+-- Records the venue quotes and routing choice of each Bitcoin purchase in every existing tenant schema
+-- (new tenants get this column from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS routing_decision JSONB', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,46 @@
+-- LIQUID ABT - Market Circuit Breaker
+-- Creates circuit_breaker_events in Postgres (005_security_enhancements declares it with MySQL
+-- inline indexes, which Postgres rejects) and adds resume handling: halts either resume on their
+-- own once resume_after passes or wait for an administrator (resolved_by). Oracle price samples
+-- are kept in market_price_samples so every server instance sees the same rolling windows.
+
+CREATE TABLE IF NOT EXISTS circuit_breaker_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID,
+  event_type VARCHAR(50) NOT NULL CHECK (event_type IN ('PRICE_SPIKE', 'PRICE_DROP', 'FLASH_CRASH', 'HIGH_VOLATILITY', 'SOURCE_FAILURE')),
+  exchange VARCHAR(50) NOT NULL,
+  price_change DECIMAL(10,2),
+  price_before DECIMAL(15,2),
+  price_after DECIMAL(15,2),
+  time_window_minutes INTEGER,
+  sources_checked INTEGER,
+  sources_failed INTEGER,
+  action_taken VARCHAR(100),
+  metadata JSONB,
+  triggered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_events_triggered_at ON circuit_breaker_events (triggered_at);
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_events_event_type ON circuit_breaker_events (event_type);
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_events_exchange ON circuit_breaker_events (exchange);
+
+ALTER TABLE circuit_breaker_events ADD COLUMN IF NOT EXISTS resume_mode VARCHAR(10) NOT NULL DEFAULT 'manual'
+  CHECK (resume_mode IN ('auto', 'manual'));
+ALTER TABLE circuit_breaker_events ADD COLUMN IF NOT EXISTS resume_after TIMESTAMP WITH TIME ZONE;
+ALTER TABLE circuit_breaker_events ADD COLUMN IF NOT EXISTS resolved_by VARCHAR(255);
+
+-- Purchases check for unresolved halts on every conversion
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_events_active
+  ON circuit_breaker_events (tenant_id, triggered_at DESC) WHERE resolved_at IS NULL;
+
+-- Rolling oracle prices per scope ('global' or a tenant id)
+CREATE TABLE IF NOT EXISTS market_price_samples (
+  id BIGSERIAL PRIMARY KEY,
+  scope VARCHAR(64) NOT NULL,
+  price DECIMAL(15,2) NOT NULL,
+  sampled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_price_samples_scope_sampled_at
+  ON market_price_samples (scope, sampled_at);
@@ -0,0 +1,41 @@
+-- LIQUID ABT - Reconciliation Logs
+-- Creates the reconciliation_logs table (ReconciliationLog in schema.prisma) in every existing
+-- tenant schema, with the checkpoint columns used by exchange reconciliation
+-- (new tenants get this table from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('
+      CREATE TABLE IF NOT EXISTS %I.reconciliation_logs (
+        id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+        tenant_id TEXT NOT NULL,
+        reconciliation_type TEXT NOT NULL DEFAULT ''payment'' CHECK (reconciliation_type IN (''payment'', ''exchange'')),
+        exchange_provider TEXT,
+        period_start TIMESTAMP,
+        period_end TIMESTAMP,
+        total_payments INTEGER NOT NULL,
+        total_bitcoin_purchases INTEGER NOT NULL,
+        matched_pairs INTEGER NOT NULL,
+        orphaned_payments INTEGER NOT NULL,
+        orphaned_purchases INTEGER NOT NULL,
+        amount_mismatches INTEGER NOT NULL,
+        total_discrepancy_value DECIMAL(18,2) NOT NULL,
+        reconciliation_accuracy DECIMAL(5,2) NOT NULL,
+        critical_issues INTEGER NOT NULL DEFAULT 0,
+        oldest_orphan_age_minutes INTEGER NOT NULL DEFAULT 0,
+        orphan_details TEXT,
+        execution_time_ms INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.reconciliation_logs(reconciliation_type, exchange_provider, period_end)',
+      'idx_' || tenant_schema || '_reconciliation_logs_checkpoint', tenant_schema);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.reconciliation_logs(created_at)',
+      'idx_' || tenant_schema || '_reconciliation_logs_created', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,14 @@
+-- LIQUID ABT - Market Timing Pool Reversals
+-- Records the AUD taken out of pooled market-timing amounts by refunds and chargebacks in every
+-- existing tenant schema (new tenants get this column from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.market_timing_pool ADD COLUMN IF NOT EXISTS reversed_aud DECIMAL(15,2) NOT NULL DEFAULT 0', tenant_schema);
+  END LOOP;
+END $$;
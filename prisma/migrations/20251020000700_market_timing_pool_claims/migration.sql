@@ -0,0 +1,15 @@
+-- LIQUID ABT - Market Timing Pool Claims
+-- Tags claimed pool rows with the schedule reference of their purchase in every existing tenant
+-- schema, so claims left 'processing' by a failed run can be recovered
+-- (new tenants get this column from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.market_timing_pool ADD COLUMN IF NOT EXISTS claim_reference TEXT', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,20 @@
+-- LIQUID ABT - Purchase Status Casing
+-- Limit orders recorded PENDING/PROCESSING/COMPLETED/CANCELLED while market orders record
+-- lowercase statuses. Lowercases existing purchases in every existing tenant schema (COMPLETED
+-- becomes 'filled') and rebuilds the open limit-order index on the lowercase statuses
+-- (new tenants get the index from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('UPDATE %I.bitcoin_purchases SET status = CASE WHEN status = ''COMPLETED'' THEN ''filled'' ELSE LOWER(status) END WHERE status <> LOWER(status)', tenant_schema);
+
+    EXECUTE format('DROP INDEX IF EXISTS %I.%I', tenant_schema, 'idx_' || tenant_schema || '_bitcoin_purchases_open_limit');
+    EXECUTE format('CREATE INDEX %I ON %I.bitcoin_purchases(order_expires_at) WHERE execution_algorithm = ''limit'' AND status IN (''pending'', ''processing'')',
+      'idx_' || tenant_schema || '_bitcoin_purchases_open_limit', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,15 @@
+-- LIQUID ABT - Conversion Batch Claims
+-- Tags claimed batch entries with the schedule reference of their purchase in every existing
+-- tenant schema, so a flush that fails after buying is allocated instead of bought again
+-- (new tenants get this column from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.conversion_batch_entries ADD COLUMN IF NOT EXISTS claim_reference TEXT', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,19 @@
+-- LIQUID ABT - Algorithmic Parent Orders
+-- Keeps open TWAP and iceberg purchases in every existing tenant schema so the algorithmic order
+-- scheduler places their remaining child orders instead of the purchase waiting between slices
+-- (new tenants get these columns from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS parent_order JSONB', tenant_schema);
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS next_child_at TIMESTAMP', tenant_schema);
+
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I.bitcoin_purchases(next_child_at) WHERE execution_algorithm IN (''twap'', ''iceberg'') AND status IN (''pending'', ''processing'')',
+      'idx_' || tenant_schema || '_bitcoin_purchases_open_parent', tenant_schema);
+  END LOOP;
+END $$;
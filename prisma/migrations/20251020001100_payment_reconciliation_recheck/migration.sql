@@ -0,0 +1,15 @@
+-- LIQUID ABT - Payment Reconciliation Re-checks
+-- Records the oldest payment each payment reconciliation run left in progress, so the next run
+-- checks it again instead of the checkpoint moving past it
+-- (new tenants get this column from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.reconciliation_logs ADD COLUMN IF NOT EXISTS recheck_from TIMESTAMP', tenant_schema);
+  END LOOP;
+END $$;
@@ -0,0 +1,15 @@
+-- LIQUID ABT - Limit-Order Fallback Reference
+-- Marks a limit order's market fallback in every existing tenant schema before the order is sent,
+-- so the limit-order reconciler never sends a second fallback after a run dies part-way
+-- (new tenants get this column from TenantSchemaManager.createTenantSchema)
+
+DO $$
+DECLARE
+  tenant_schema TEXT;
+BEGIN
+  FOR tenant_schema IN
+    SELECT schema_name FROM information_schema.schemata WHERE schema_name LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format('ALTER TABLE %I.bitcoin_purchases ADD COLUMN IF NOT EXISTS fallback_reference TEXT', tenant_schema);
+  END LOOP;
+END $$;
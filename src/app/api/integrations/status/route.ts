@@ -5,6 +5,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { IntegrationConfig, checkEnvVars } from '@/lib/integrations/config';
 import { paymentProcessorFactory } from '@/lib/integrations/payment';
 import { FeatureFlags } from '@/lib/features';
+import { metricsCollector } from '@/lib/monitoring/metrics';
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,6 +21,7 @@ export async function GET(request: NextRequest) {
       bitcoin: getBitcoinIntegrationsStatus(),
       compliance: getComplianceIntegrationsStatus(),
       notifications: getNotificationIntegrationsStatus(),
+      apiHealth: metricsCollector.getSnapshot(), // Call outcomes, latency and circuit states in this server process
       summary: getSummary(),
     };
     
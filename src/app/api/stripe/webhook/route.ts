@@ -1,14 +1,19 @@
 // LIQUID ABT - Stripe Webhook Handler
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getMasterPrisma, tenantSchemaManager } from '@/lib/database/connection';
+import { tenantSchemaManager } from '@/lib/database/connection';
 import { StripeProcessor } from '@/lib/integrations/payments/stripe';
+import { paymentProcessorFactory } from '@/lib/integrations/payment';
+import { findTenantByStripeAccount } from '@/lib/integrations/payment/stripe/tenant-lookup';
 import { TreasuryProcessor } from '@/lib/treasury-engine/processor';
 import { 
   webhookIdempotencyMiddleware,
   completeWebhookProcessing 
 } from '@/lib/middleware/webhookIdempotency';
 
+// Stripe events that reverse a payment already recorded as a transaction
+const REVERSAL_EVENT_TYPES = ['charge.refunded', 'charge.dispute.created'];
+
 export async function POST(req: NextRequest): Promise<NextResponse> {
   let webhookEventId: string | null = null;
   const provider = 'stripe';
@@ -43,6 +48,35 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
     
     webhookEventId = idempotencyCheck.eventId;
 
+    // Refunds and chargebacks unwind treasury state for the connected account's tenant
+    if (REVERSAL_EVENT_TYPES.includes(webhookEvent.type)) {
+      const stripeIntegration = paymentProcessorFactory.get('stripe');
+
+      if (!stripeIntegration) {
+        return NextResponse.json(
+          { error: 'Stripe integration not available' },
+          { status: 503 }
+        );
+      }
+
+      // Verifies the signature and resolves the tenant from event.account
+      const result = await stripeIntegration.handleWebhook(payload, signature);
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to process ${webhookEvent.type}`);
+      }
+
+      if (webhookEventId) {
+        await completeWebhookProcessing(webhookEventId, provider);
+      }
+
+      return NextResponse.json({
+        received: true,
+        processed: result.processed,
+        eventId: webhookEventId
+      });
+    }
+
     // Process webhook with Stripe processor (this handles signature verification)
     const stripeProcessor = new StripeProcessor({});
     const transactions = await stripeProcessor.handleWebhook(payload, signature);
@@ -92,7 +126,8 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
           transactionId: transaction.id,
           tenantId: tenant.id,
           processed: true,
-          bitcoinPurchase: processingResult?.bitcoinPurchaseId || null
+          bitcoinPurchase: processingResult?.bitcoinPurchaseId || null,
+          approvalRequest: processingResult?.approvalRequestId || null
         });
 
       } catch (error) {
@@ -161,40 +196,6 @@ function extractAccountIdFromWebhook(payload: string): string | null {
   }
 }
 
-// Helper function to find tenant by Stripe account ID
-async function findTenantByStripeAccount(accountId: string) {
-  const prisma = getMasterPrisma();
-  
-  // First, get all tenants (we'll need to check their integrations)
-  const tenants = await prisma.tenant.findMany({
-    where: { isActive: true },
-    select: { id: true, schemaName: true }
-  });
-
-  // Check each tenant's integrations for matching Stripe account
-  for (const tenant of tenants) {
-    try {
-      const integrations = await tenantSchemaManager.queryTenantSchema(
-        tenant.id,
-        `SELECT settings FROM integrations 
-         WHERE provider = 'stripe' 
-         AND is_active = true 
-         AND settings->>'accountId' = $1`,
-        [accountId]
-      );
-
-      if (integrations.length > 0) {
-        return tenant;
-      }
-    } catch (error) {
-      console.error(`Error checking tenant ${tenant.id} for Stripe account:`, error);
-      continue;
-    }
-  }
-
-  return null;
-}
-
 // Helper function to store transaction in tenant's database
 async function storeTransactionInTenantDB(tenantId: string, transaction: any) {
   // Find the integration ID for Stripe
@@ -0,0 +1,62 @@
+// LIQUID ABT - Approve Request API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { ApprovalWorkflow } from '@/lib/treasury-engine/approvals';
+import { TreasuryProcessor } from '@/lib/treasury-engine/processor';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { approvalId: string };
+}
+
+// POST: Approve a pending request; executes it once enough approvers have approved
+async function handlePost(req: AuthenticatedRequest, approvalId: string): Promise<NextResponse> {
+  try {
+    const { tenantId, userId, role } = req.user;
+
+    let approval = await new ApprovalWorkflow(tenantId).approve(approvalId, {
+      userId,
+      role,
+      ...getAuditRequestContext(req)
+    });
+
+    if (approval.status === 'approved') {
+      approval = await new TreasuryProcessor(tenantId).executeApprovedRequest(approval);
+    }
+
+    return NextResponse.json({
+      success: true,
+      approval,
+      message: approval.status === 'pending'
+        ? `Approval recorded (${approval.decisions.length} of ${approval.requiredApprovals})`
+        : `Request ${approval.status}`
+    });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Approval error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to approve request' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handlePost(req, params.approvalId), {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,55 @@
+// LIQUID ABT - Reject Request API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { ApprovalWorkflow } from '@/lib/treasury-engine/approvals';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { approvalId: string };
+}
+
+// POST: Reject a pending request with a reason
+async function handlePost(req: AuthenticatedRequest, approvalId: string): Promise<NextResponse> {
+  try {
+    const { reason } = await req.json();
+
+    const approval = await new ApprovalWorkflow(req.user.tenantId).reject(
+      approvalId,
+      { userId: req.user.userId, ...getAuditRequestContext(req) },
+      typeof reason === 'string' ? reason : ''
+    );
+
+    return NextResponse.json({
+      success: true,
+      approval,
+      message: 'Request rejected'
+    });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Rejection error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to reject request' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handlePost(req, params.approvalId), {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
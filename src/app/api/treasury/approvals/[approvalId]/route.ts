@@ -0,0 +1,44 @@
+// LIQUID ABT - Approval Request API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { ApprovalWorkflow } from '@/lib/treasury-engine/approvals';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { approvalId: string };
+}
+
+// GET: Fetch an approval request with its decisions
+async function handleGet(req: AuthenticatedRequest, approvalId: string): Promise<NextResponse> {
+  try {
+    const approval = await new ApprovalWorkflow(req.user.tenantId).get(approvalId);
+
+    return NextResponse.json({ success: true, approval });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Approval request error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch approval request' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handleGet(req, params.approvalId), {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,47 @@
+// LIQUID ABT - Approval Requests API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { ApprovalStatus, ApprovalWorkflow } from '@/lib/treasury-engine/approvals';
+import { UserRole } from '@/types/database';
+
+const STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected', 'expired', 'executed', 'failed'];
+
+// GET: List approval requests, optionally filtered by ?status=
+async function handleGet(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const status = req.nextUrl.searchParams.get('status') as ApprovalStatus | null;
+
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const approvals = await new ApprovalWorkflow(req.user.tenantId).list(status || undefined);
+
+    return NextResponse.json({
+      success: true,
+      approvals,
+      total: approvals.length
+    });
+
+  } catch (error) {
+    console.error('Approval requests error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch approval requests' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handleGet, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,38 @@
+// LIQUID ABT - Conversion Batches API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { ConversionBatchLedger } from '@/lib/treasury-engine/conversion-batches';
+import { UserRole } from '@/types/database';
+
+// GET: Conversions queued in batches that have not been bought yet
+async function handleGet(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const entries = await new ConversionBatchLedger(req.user.tenantId).listPending();
+    const queuedAUD = Math.round(entries.reduce((sum, entry) => sum + entry.remainingAUD, 0) * 100) / 100;
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      queuedAUD,
+      total: entries.length
+    });
+
+  } catch (error) {
+    console.error('Conversion batches error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch conversion batches' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handleGet, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
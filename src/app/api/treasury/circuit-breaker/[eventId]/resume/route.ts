@@ -0,0 +1,56 @@
+// LIQUID ABT - Resume Purchases API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { marketCircuitBreaker } from '@/lib/treasury-engine/market-circuit-breaker';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { eventId: string };
+}
+
+// POST: Resume purchases halted by one of the tenant's own circuit breaker events
+// (platform-wide halts are resumed by operators, not tenants)
+async function handlePost(req: AuthenticatedRequest, eventId: string): Promise<NextResponse> {
+  try {
+    const { tenantId, userId } = req.user;
+
+    const event = await marketCircuitBreaker.resume(eventId, {
+      userId,
+      tenantId,
+      ...getAuditRequestContext(req)
+    });
+
+    return NextResponse.json({
+      success: true,
+      event,
+      message: `Purchases resumed after ${event.eventType}`
+    });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Circuit breaker resume error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to resume purchases' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handlePost(req, params.eventId), {
+    requiredRole: UserRole.OWNER,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
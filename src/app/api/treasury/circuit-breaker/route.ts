@@ -0,0 +1,42 @@
+// LIQUID ABT - Market Circuit Breaker API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { marketCircuitBreaker } from '@/lib/treasury-engine/market-circuit-breaker';
+import { UserRole } from '@/types/database';
+
+// GET: Whether purchases are halted, with recent circuit breaker events (tenant and platform-wide)
+async function handleGet(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const { tenantId } = req.user;
+    const [activeHalt, events] = await Promise.all([
+      marketCircuitBreaker.getActiveHalt(tenantId),
+      marketCircuitBreaker.listEvents(tenantId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      halted: Boolean(activeHalt),
+      activeHalt,
+      events,
+      total: events.length
+    });
+
+  } catch (error) {
+    console.error('Circuit breaker status error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch circuit breaker status' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handleGet, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,56 @@
+// LIQUID ABT - AUD Liquidity Draw API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { TreasuryDisposals } from '@/lib/treasury-engine/disposals';
+import { TreasuryProcessor } from '@/lib/treasury-engine/processor';
+import { UserRole } from '@/types/database';
+
+// POST: Request a sale of Bitcoin to raise { amountAUD, reason }; executes once an OWNER approves it
+async function handlePost(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const { tenantId, userId } = req.user;
+    const body = await req.json();
+
+    const exchangeProvider = await new TreasuryProcessor(tenantId).getExchangeProvider();
+    const approval = await new TreasuryDisposals(tenantId).requestLiquidityDraw(exchangeProvider, {
+      amountAUD: Number(body.amountAUD),
+      reason: typeof body.reason === 'string' ? body.reason : '',
+      requestedBy: userId
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        approval,
+        message: `Sale of ${approval.bitcoinAmount} BTC awaiting OWNER approval`
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Liquidity draw error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to request liquidity draw' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handlePost, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,38 @@
+// LIQUID ABT - Bitcoin Disposals API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { TreasuryDisposals } from '@/lib/treasury-engine/disposals';
+import { UserRole } from '@/types/database';
+
+// GET: Recorded Bitcoin sales with their matched acquisition lots, plus the cost basis still held
+async function handleGet(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const disposals = new TreasuryDisposals(req.user.tenantId);
+    const [history, costBasis] = await Promise.all([disposals.list(), disposals.getCostBasis()]);
+
+    return NextResponse.json({
+      success: true,
+      disposals: history,
+      costBasis,
+      total: history.length
+    });
+
+  } catch (error) {
+    console.error('Bitcoin disposals error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch Bitcoin disposals' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handleGet, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,104 @@
+// LIQUID ABT - Cash Obligation API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { CashObligationStore } from '@/lib/treasury-engine/cash-obligations';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { obligationId: string };
+}
+
+// GET: Fetch a single obligation
+async function handleGet(req: AuthenticatedRequest, obligationId: string): Promise<NextResponse> {
+  try {
+    const obligation = await new CashObligationStore(req.user.tenantId).get(obligationId);
+
+    return NextResponse.json({ success: true, obligation });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch cash obligation');
+  }
+}
+
+// PATCH: Update fields of an obligation
+async function handlePatch(req: AuthenticatedRequest, obligationId: string): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+
+    const obligation = await new CashObligationStore(req.user.tenantId).update(obligationId, body, {
+      userId: req.user.userId,
+      ...getAuditRequestContext(req)
+    });
+
+    return NextResponse.json({
+      success: true,
+      obligation,
+      message: 'Cash obligation updated successfully'
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to update cash obligation');
+  }
+}
+
+// DELETE: Remove an obligation from the cash floor
+async function handleDelete(req: AuthenticatedRequest, obligationId: string): Promise<NextResponse> {
+  try {
+    await new CashObligationStore(req.user.tenantId).remove(obligationId, {
+      userId: req.user.userId,
+      ...getAuditRequestContext(req)
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Cash obligation deleted successfully'
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete cash obligation');
+  }
+}
+
+function errorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof BaseError && error.isOperational) {
+    return NextResponse.json(
+      { error: error.message, details: error.context?.issues },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handleGet(req, params.obligationId), {
+    requiredRole: UserRole.USER,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handlePatch(req, params.obligationId), {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handleDelete(req, params.obligationId), {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,53 @@
+// LIQUID ABT - Cash Obligations CSV Import API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { CashObligationStore } from '@/lib/treasury-engine/cash-obligations';
+import { UserRole } from '@/types/database';
+
+// POST: Import an obligations calendar, sent as a text/csv body or as JSON { csv }
+async function handlePost(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const contentType = req.headers.get('content-type') || '';
+    const csv = contentType.includes('application/json')
+      ? String((await req.json()).csv || '')
+      : await req.text();
+
+    const result = await new CashObligationStore(req.user.tenantId).importCsv(csv, {
+      userId: req.user.userId,
+      ...getAuditRequestContext(req)
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: `Imported ${result.imported} cash obligation(s)`
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message, details: error.context?.issues },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Cash obligation import error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to import cash obligations' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handlePost, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,93 @@
+// LIQUID ABT - Cash Obligations API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { CashObligationStore } from '@/lib/treasury-engine/cash-obligations';
+import { UserRole } from '@/types/database';
+
+const DEFAULT_HORIZON_DAYS = 30;
+const MAX_HORIZON_DAYS = 365;
+
+// GET: List scheduled obligations and the total due in the next ?days= days (default 30)
+async function handleGet(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const days = Number(req.nextUrl.searchParams.get('days') || DEFAULT_HORIZON_DAYS);
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_HORIZON_DAYS) {
+      return NextResponse.json(
+        { error: `days must be a whole number between 1 and ${MAX_HORIZON_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const store = new CashObligationStore(req.user.tenantId);
+    const [obligations, upcoming] = await Promise.all([store.list(), store.getUpcoming(days)]);
+
+    return NextResponse.json({
+      success: true,
+      obligations,
+      upcoming,
+      total: obligations.length
+    });
+
+  } catch (error) {
+    console.error('Cash obligations error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch cash obligations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Add a scheduled obligation
+async function handlePost(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+
+    const obligation = await new CashObligationStore(req.user.tenantId).create(body, {
+      userId: req.user.userId,
+      ...getAuditRequestContext(req)
+    });
+
+    return NextResponse.json({
+      success: true,
+      obligation,
+      message: 'Cash obligation created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message, details: error.context?.issues },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Cash obligation creation error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to create cash obligation' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handleGet, {
+    requiredRole: UserRole.USER,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handlePost, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,44 @@
+// LIQUID ABT - Refund and Chargeback API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { PaymentReversals } from '@/lib/treasury-engine/payment-reversals';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { reversalId: string };
+}
+
+// GET: A single refund or chargeback with its transaction, purchase, sale and offsets
+async function handleGet(req: AuthenticatedRequest, reversalId: string): Promise<NextResponse> {
+  try {
+    const reversal = await new PaymentReversals(req.user.tenantId).get(reversalId);
+
+    return NextResponse.json({ success: true, reversal });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Payment reversal error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch refund or chargeback' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handleGet(req, params.reversalId), {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,74 @@
+// LIQUID ABT - Refund Policy API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { PaymentReversals } from '@/lib/treasury-engine/payment-reversals';
+import { UserRole } from '@/types/database';
+
+// GET: How refunds and chargebacks of converted payments are unwound
+async function handleGet(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const refundPolicy = await new PaymentReversals(req.user.tenantId).getPolicy();
+
+    return NextResponse.json({ success: true, refundPolicy });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch refund policy');
+  }
+}
+
+// PUT: Set { refundPolicy: SELL_BACK | OFFSET | RECORD_LIABILITY } for future refunds and chargebacks
+async function handlePut(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+
+    const refundPolicy = await new PaymentReversals(req.user.tenantId).setPolicy(body.refundPolicy, {
+      userId: req.user.userId,
+      ...getAuditRequestContext(req)
+    });
+
+    return NextResponse.json({
+      success: true,
+      refundPolicy,
+      message: 'Refund policy updated successfully'
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to update refund policy');
+  }
+}
+
+function errorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof BaseError && error.isOperational) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handleGet, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
+
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handlePut, {
+    requiredRole: UserRole.OWNER,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
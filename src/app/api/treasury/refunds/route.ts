@@ -0,0 +1,43 @@
+// LIQUID ABT - Refunds and Chargebacks API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { PaymentReversals } from '@/lib/treasury-engine/payment-reversals';
+import { UserRole } from '@/types/database';
+
+// GET: Recorded refunds and chargebacks, how each was unwound, and what is still owed
+async function handleGet(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const reversals = new PaymentReversals(req.user.tenantId);
+    const [history, summary, policy] = await Promise.all([
+      reversals.list(),
+      reversals.getSummary(),
+      reversals.getPolicy()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      reversals: history,
+      summary,
+      refundPolicy: policy,
+      total: history.length
+    });
+
+  } catch (error) {
+    console.error('Payment reversals error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch refunds and chargebacks' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handleGet, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,52 @@
+// LIQUID ABT - Activate Treasury Rule API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { TreasuryRuleStore } from '@/lib/treasury-engine/rule-store';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { ruleId: string };
+}
+
+// POST: Activate a treasury rule
+async function handlePost(req: AuthenticatedRequest, ruleId: string): Promise<NextResponse> {
+  try {
+    const rule = await new TreasuryRuleStore(req.user.tenantId).setActive(ruleId, true, {
+      userId: req.user.userId,
+      ...getAuditRequestContext(req)
+    });
+
+    return NextResponse.json({
+      success: true,
+      rule,
+      message: 'Treasury rule activated'
+    });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Treasury rule activate error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to activate treasury rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function POST(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handlePost(req, params.ruleId), {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
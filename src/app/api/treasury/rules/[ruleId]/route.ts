@@ -0,0 +1,104 @@
+// LIQUID ABT - Treasury Rule API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { TreasuryRuleStore } from '@/lib/treasury-engine/rule-store';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { ruleId: string };
+}
+
+// GET: Fetch a single treasury rule
+async function handleGet(req: AuthenticatedRequest, ruleId: string): Promise<NextResponse> {
+  try {
+    const rule = await new TreasuryRuleStore(req.user.tenantId).get(ruleId);
+
+    return NextResponse.json({ success: true, rule });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch treasury rule');
+  }
+}
+
+// PATCH: Update fields of a treasury rule
+async function handlePatch(req: AuthenticatedRequest, ruleId: string): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+
+    const rule = await new TreasuryRuleStore(req.user.tenantId).update(ruleId, body, {
+      userId: req.user.userId,
+      ...getAuditRequestContext(req)
+    });
+
+    return NextResponse.json({
+      success: true,
+      rule,
+      message: 'Treasury rule updated successfully'
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to update treasury rule');
+  }
+}
+
+// DELETE: Remove a treasury rule (kept for history, never evaluated again)
+async function handleDelete(req: AuthenticatedRequest, ruleId: string): Promise<NextResponse> {
+  try {
+    await new TreasuryRuleStore(req.user.tenantId).remove(ruleId, {
+      userId: req.user.userId,
+      ...getAuditRequestContext(req)
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Treasury rule deleted successfully'
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete treasury rule');
+  }
+}
+
+function errorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof BaseError && error.isOperational) {
+    return NextResponse.json(
+      { error: error.message, details: error.context?.issues },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handleGet(req, params.ruleId), {
+    requiredRole: UserRole.USER,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handlePatch(req, params.ruleId), {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handleDelete(req, params.ruleId), {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
@@ -0,0 +1,54 @@
+// LIQUID ABT - Treasury Rule Version Diff API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { TreasuryRuleStore } from '@/lib/treasury-engine/rule-store';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { ruleId: string };
+}
+
+// GET: Field-level changes between ?from=<version> and ?to=<version>
+async function handleGet(req: AuthenticatedRequest, ruleId: string): Promise<NextResponse> {
+  try {
+    const from = Number(req.nextUrl.searchParams.get('from'));
+    const to = Number(req.nextUrl.searchParams.get('to'));
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      return NextResponse.json(
+        { error: 'from and to must be version numbers' },
+        { status: 400 }
+      );
+    }
+
+    const diff = await new TreasuryRuleStore(req.user.tenantId).diffVersions(ruleId, from, to);
+
+    return NextResponse.json({ success: true, diff });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Treasury rule version diff error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to diff treasury rule versions' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handleGet(req, params.ruleId), {
+    requiredRole: UserRole.USER,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
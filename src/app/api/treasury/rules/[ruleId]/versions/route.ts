@@ -0,0 +1,65 @@
+// LIQUID ABT - Treasury Rule Version History API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { TreasuryRuleStore } from '@/lib/treasury-engine/rule-store';
+import { UserRole } from '@/types/database';
+
+interface RouteParams {
+  params: { ruleId: string };
+}
+
+// GET: Version history of a rule, or the version in effect at ?at=<ISO date>
+async function handleGet(req: AuthenticatedRequest, ruleId: string): Promise<NextResponse> {
+  try {
+    const store = new TreasuryRuleStore(req.user.tenantId);
+    const at = req.nextUrl.searchParams.get('at');
+
+    if (at) {
+      const atDate = new Date(at);
+
+      if (isNaN(atDate.getTime())) {
+        return NextResponse.json(
+          { error: 'at must be a valid date' },
+          { status: 400 }
+        );
+      }
+
+      const version = await store.getVersionAt(ruleId, atDate);
+      return NextResponse.json({ success: true, version });
+    }
+
+    const versions = await store.listVersions(ruleId);
+
+    return NextResponse.json({
+      success: true,
+      versions,
+      total: versions.length
+    });
+
+  } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Treasury rule versions error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch treasury rule versions' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest, { params }: RouteParams): Promise<NextResponse> {
+  const handler = await withAuth(req => handleGet(req, params.ruleId), {
+    requiredRole: UserRole.USER,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
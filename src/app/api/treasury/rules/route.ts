@@ -1,62 +1,26 @@
-// LIQUID ABT - Treasury Rules Management API (Mock for Testing)
+// LIQUID ABT - Treasury Rules Management API
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verify } from 'jsonwebtoken';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { getAuditRequestContext } from '@/lib/audit/audit-log';
+import { BaseError } from '@/lib/errors/CustomErrors';
+import { TreasuryRuleStore } from '@/lib/treasury-engine/rule-store';
+import { UserRole } from '@/types/database';
 
-// Mock treasury rules for testing
-const mockTreasuryRules = [
-  {
-    id: 'rule_test_1',
-    name: 'Demo 5% Conversion Rule',
-    type: 'percentage',
-    isActive: true,
-    configuration: {
-      percentage: 5,
-      minAmount: 100,
-      maxAmount: 10000
-    },
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    description: 'Convert 5% of each payment to Bitcoin'
-  }
-];
-
-export async function GET(request: NextRequest) {
+// GET: List the tenant's treasury rules in evaluation order
+async function handleGet(req: AuthenticatedRequest): Promise<NextResponse> {
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Access token required' },
-        { status: 401 }
-      );
-    }
-
-    const token = authHeader.substring(7);
-    const jwtSecret = process.env.JWT_SECRET || 'local-dev-secret-at-least-32-chars-change-in-production';
-    
-    // Verify and decode the JWT token
-    const decoded = verify(token, jwtSecret) as any;
-    
-    if (!decoded.user) {
-      return NextResponse.json(
-        { error: 'Invalid token or tenant' },
-        { status: 401 }
-      );
-    }
+    const rules = await new TreasuryRuleStore(req.user.tenantId).list();
 
-    console.log(`[Treasury Rules] Fetching rules for ${decoded.user.email} (${decoded.user.firstName} ${decoded.user.lastName})`);
-
-    // Return mock treasury rules
     return NextResponse.json({
       success: true,
-      rules: mockTreasuryRules,
-      total: mockTreasuryRules.length
+      rules,
+      total: rules.length
     });
 
   } catch (error) {
     console.error('Treasury rules error:', error);
-    
+
     return NextResponse.json(
       { error: 'Failed to fetch treasury rules' },
       { status: 500 }
@@ -64,67 +28,52 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+// POST: Create a treasury rule (inactive unless isActive is set)
+async function handlePost(req: AuthenticatedRequest): Promise<NextResponse> {
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Access token required' },
-        { status: 401 }
-      );
-    }
-
-    const token = authHeader.substring(7);
-    const jwtSecret = process.env.JWT_SECRET || 'local-dev-secret-at-least-32-chars-change-in-production';
-    
-    // Verify and decode the JWT token
-    const decoded = verify(token, jwtSecret) as any;
-    
-    if (!decoded.user) {
-      return NextResponse.json(
-        { error: 'Invalid token or tenant' },
-        { status: 401 }
-      );
-    }
+    const body = await req.json();
 
-    const body = await request.json();
-    const { name, type, configuration, description } = body;
-
-    if (!name || !type || !configuration) {
-      return NextResponse.json(
-        { error: 'Missing required fields: name, type, configuration' },
-        { status: 400 }
-      );
-    }
-
-    // Create mock treasury rule
-    const newRule = {
-      id: 'rule_test_' + Math.random().toString(36).substr(2, 9),
-      name,
-      type,
-      isActive: true,
-      configuration,
-      description: description || '',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-
-    console.log(`[Treasury Rules] Created new rule for ${decoded.user.email}: ${name}`);
+    const rule = await new TreasuryRuleStore(req.user.tenantId).create(body, {
+      userId: req.user.userId,
+      ...getAuditRequestContext(req)
+    });
 
-    // In production, this would be saved to the database
     return NextResponse.json({
       success: true,
-      rule: newRule,
+      rule,
       message: 'Treasury rule created successfully'
-    });
+    }, { status: 201 });
 
   } catch (error) {
+    if (error instanceof BaseError && error.isOperational) {
+      return NextResponse.json(
+        { error: error.message, details: error.context?.issues },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('Treasury rule creation error:', error);
-    
+
     return NextResponse.json(
       { error: 'Failed to create treasury rule' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Export handlers with authentication middleware
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handleGet, {
+    requiredRole: UserRole.USER,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handlePost, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
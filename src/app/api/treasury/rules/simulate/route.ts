@@ -0,0 +1,112 @@
+// LIQUID ABT - Treasury Rule Simulator API
+// Read-only backtest of candidate rules against the tenant's transaction history
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '@/lib/auth/middleware';
+import { HistoricalPriceFileError, SimulationCandidate, TreasurySimulator } from '@/lib/treasury-engine/simulator';
+import { treasuryRuleSchema } from '@/lib/treasury-engine/rule-validation';
+import { SubscriptionTier, UserRole } from '@/types/database';
+
+const MAX_CANDIDATES = 5;
+
+// POST: Simulate candidate rule sets side by side
+async function handlePost(req: AuthenticatedRequest): Promise<NextResponse> {
+  try {
+    const { tenantId } = req.user;
+    const body = await req.json();
+    const { candidates, from, to, feePercent, tier } = body;
+
+    if (!Array.isArray(candidates) || candidates.length === 0 || candidates.length > MAX_CANDIDATES) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_CANDIDATES} candidates are required` },
+        { status: 400 }
+      );
+    }
+
+    for (const candidate of candidates as SimulationCandidate[]) {
+      if (!candidate.label || !Array.isArray(candidate.rules) || candidate.rules.length === 0) {
+        return NextResponse.json(
+          { error: 'Each candidate needs a label and at least one rule' },
+          { status: 400 }
+        );
+      }
+
+      // Candidate rules are checked like saved rules; unnamed rules are labelled by the simulator
+      for (let index = 0; index < candidate.rules.length; index++) {
+        const result = treasuryRuleSchema.safeParse({ name: `${candidate.label} #${index + 1}`, ...candidate.rules[index] });
+
+        if (!result.success) {
+          const issue = result.error.issues[0];
+          return NextResponse.json(
+            {
+              error: `Rule ${index + 1} in candidate "${candidate.label}": ${issue.path.join('.') || 'rule'}: ${issue.message}`,
+              details: result.error.issues
+            },
+            { status: 400 }
+          );
+        }
+      }
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates' },
+        { status: 400 }
+      );
+    }
+
+    if (feePercent !== undefined && (typeof feePercent !== 'number' || feePercent < 0 || feePercent >= 100)) {
+      return NextResponse.json(
+        { error: 'feePercent must be a number between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
+    if (tier !== undefined && !Object.values(SubscriptionTier).includes(tier)) {
+      return NextResponse.json(
+        { error: `tier must be one of ${Object.values(SubscriptionTier).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await new TreasurySimulator(tenantId).run({
+      candidates,
+      from: fromDate,
+      to: toDate,
+      feePercent,
+      tier
+    });
+
+    return NextResponse.json({
+      success: true,
+      simulation: report
+    });
+
+  } catch (error) {
+    if (error instanceof HistoricalPriceFileError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 503 }
+      );
+    }
+
+    console.error('Treasury rule simulation error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to simulate treasury rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export handlers with authentication middleware
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const handler = await withAuth(handlePost, {
+    requiredRole: UserRole.ADMIN,
+    requireActiveTenant: true
+  });
+  return handler(request);
+}
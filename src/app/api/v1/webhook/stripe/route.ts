@@ -27,11 +27,8 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Get tenant ID from headers (if multi-tenant)
-    const tenantId = headersList.get('x-tenant-id');
-    
-    // Process webhook using the integration
-    const result = await stripeProcessor.handleWebhook(body, signature, tenantId);
+    // Process webhook using the integration (the tenant is resolved from the connected account)
+    const result = await stripeProcessor.handleWebhook(body, signature);
     
     if (!result.success) {
       return NextResponse.json(
@@ -1,10 +1,77 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Settings } from 'lucide-react';
 
+interface TreasuryRule {
+  id: string;
+  name: string;
+  ruleType: string;
+  isActive: boolean;
+  conversionPercentage: number | null;
+  thresholdAmount: number | null;
+  fixedAmount: number | null;
+  frequency: string | null;
+  btcAllocationMin: number | null;
+  btcAllocationMax: number | null;
+  settings: Record<string, unknown>;
+}
+
+function describeRule(rule: TreasuryRule): string {
+  switch (rule.ruleType) {
+    case 'percentage':
+      return `${rule.conversionPercentage}% of each payment converted to Bitcoin`;
+    case 'threshold':
+      return `Convert once the balance reaches $${rule.thresholdAmount?.toLocaleString()}`;
+    case 'fixed_dca':
+      return `$${rule.fixedAmount?.toLocaleString()} of Bitcoin bought ${rule.frequency}`;
+    case 'market_timing':
+      return `${rule.conversionPercentage}% of each payment, bought when price triggers are met`;
+    case 'rebalance':
+      return `Keep ${(rule.btcAllocationMin ?? 0) * 100}-${(rule.btcAllocationMax ?? 0) * 100}% of the treasury in Bitcoin`;
+    case 'take_profit':
+      return `Offer ${rule.settings?.sellPercent}% of holdings for sale at ${rule.settings?.costBasisMultiple}x cost basis (OWNER approval)`;
+    default:
+      return rule.ruleType;
+  }
+}
+
 export default function SettingsPage() {
+  const [rules, setRules] = useState<TreasuryRule[]>([]);
+  const [rulesLoading, setRulesLoading] = useState(true);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/treasury/rules', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+
+      const data = await response.json();
+      setRules(data.rules);
+    } catch (error) {
+      console.error('Failed to load treasury rules:', error);
+      setRulesError('Unable to load treasury rules');
+    } finally {
+      setRulesLoading(false);
+    }
+  };
+
+  const activeRules = rules.filter(rule => rule.isActive);
+
   return (
     <div className="space-y-8">
       <div>
@@ -22,10 +89,20 @@ export default function SettingsPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div>
-                <label className="text-sm font-medium">Revenue Conversion Rate</label>
-                <p className="text-sm text-muted-foreground">15% of revenue converted to Bitcoin</p>
-              </div>
+              {rulesLoading ? (
+                <p className="text-sm text-muted-foreground">Loading treasury rules...</p>
+              ) : rulesError ? (
+                <p className="text-sm text-muted-foreground">{rulesError}</p>
+              ) : activeRules.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No active treasury rules</p>
+              ) : (
+                activeRules.map(rule => (
+                  <div key={rule.id}>
+                    <label className="text-sm font-medium">{rule.name}</label>
+                    <p className="text-sm text-muted-foreground">{describeRule(rule)}</p>
+                  </div>
+                ))
+              )}
               <Button>Update Settings</Button>
             </div>
           </CardContent>
@@ -0,0 +1,26 @@
+// LIQUID ABT - Server Startup Hooks
+// Starts background jobs once per Node.js server process
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.ENABLE_BACKGROUND_JOBS !== 'true') {
+    return;
+  }
+
+  const jobs = await Promise.all([
+    import('@/lib/treasury-engine/dca-scheduler').then(({ dcaSchedulerJob }) => dcaSchedulerJob),
+    import('@/lib/treasury-engine/market-timing').then(({ marketTimingJob }) => marketTimingJob),
+    import('@/lib/treasury-engine/rebalancer').then(({ rebalancingJob }) => rebalancingJob),
+    import('@/lib/treasury-engine/take-profit').then(({ takeProfitJob }) => takeProfitJob),
+    import('@/lib/treasury-engine/approvals').then(({ approvalExpiryJob }) => approvalExpiryJob),
+    import('@/lib/treasury-engine/limit-order-reconciler').then(({ limitOrderReconcilerJob }) => limitOrderReconcilerJob),
+    import('@/lib/treasury-engine/algorithmic-order-scheduler').then(({ algorithmicOrderJob }) => algorithmicOrderJob),
+    import('@/lib/treasury-engine/conversion-batcher').then(({ conversionBatcherJob }) => conversionBatcherJob),
+    import('@/lib/treasury-engine/market-circuit-breaker').then(({ marketCircuitBreakerJob }) => marketCircuitBreakerJob),
+    import('@/lib/treasury-engine/exchange-reconciliation').then(({ exchangeReconciliationJob }) => exchangeReconciliationJob),
+    import('@/lib/treasury-engine/payment-reconciliation').then(({ paymentReconciliationJob }) => paymentReconciliationJob)
+  ]);
+
+  for (const job of jobs) {
+    job.start();
+  }
+}
@@ -0,0 +1,74 @@
+// LIQUID ABT - Audit Trail Writer
+// Appends entries to the immutable audit_logs table (see prisma/migrations/001_create_audit_logs.sql)
+
+import { v4 as uuidv4 } from 'uuid';
+import { NextRequest } from 'next/server';
+import { getConnectionPool } from '@/lib/database/connection';
+
+export type AuditEventType = 'create' | 'read' | 'update' | 'delete' | 'activate' | 'deactivate' | 'approve' | 'reject';
+export type AuditSeverity = 'info' | 'warning' | 'error' | 'critical';
+
+export interface AuditEvent {
+  tenantId: string;
+  userId?: string;
+  eventType: AuditEventType;
+  resourceType: string;
+  resourceId?: string;
+  action: string;
+  oldValues?: unknown;
+  newValues?: unknown;
+  metadata?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+  severity?: AuditSeverity;
+  complianceRelevant?: boolean;
+}
+
+/**
+ * Write an audit entry. The hash is generated by the table trigger and
+ * chained to the most recent entry.
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<string> {
+  const id = `audit_${uuidv4()}`;
+
+  await getConnectionPool().query(
+    `INSERT INTO audit_logs (
+      id, tenant_id, user_id, event_type, resource_type, resource_id, action,
+      old_values, new_values, metadata, ip_address, user_agent, severity,
+      compliance_relevant, hash, previous_hash
+    ) VALUES (
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, '',
+      (SELECT hash FROM audit_logs ORDER BY timestamp DESC LIMIT 1)
+    )`,
+    [
+      id,
+      event.tenantId,
+      event.userId || null,
+      event.eventType,
+      event.resourceType,
+      event.resourceId || null,
+      event.action,
+      event.oldValues !== undefined ? JSON.stringify(event.oldValues) : null,
+      event.newValues !== undefined ? JSON.stringify(event.newValues) : null,
+      event.metadata ? JSON.stringify(event.metadata) : null,
+      event.ipAddress || null,
+      event.userAgent || null,
+      event.severity || 'info',
+      event.complianceRelevant ?? false
+    ]
+  );
+
+  return id;
+}
+
+/**
+ * Client IP and user agent for audit entries
+ */
+export function getAuditRequestContext(req: NextRequest): { ipAddress?: string; userAgent?: string } {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+
+  return {
+    ipAddress: forwardedFor?.split(',')[0].trim() || req.headers.get('x-real-ip') || undefined,
+    userAgent: req.headers.get('user-agent') || undefined
+  };
+}
@@ -126,13 +126,21 @@ export class TenantSchemaManager {
         CREATE TABLE "${schemaName}".treasury_rules (
           id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
           name TEXT NOT NULL,
+          description TEXT,
           is_active BOOLEAN NOT NULL DEFAULT true,
+          deleted_at TIMESTAMP, -- Soft delete; deleted rules stay referenced by executions and purchases
+          current_version_id UUID, -- treasury_rule_versions row in effect
           
           -- Rule Configuration
-          rule_type TEXT NOT NULL CHECK (rule_type IN ('percentage', 'threshold', 'fixed_dca', 'market_timing')),
+          rule_type TEXT NOT NULL CHECK (rule_type IN ('percentage', 'threshold', 'fixed_dca', 'market_timing', 'rebalance', 'take_profit')),
           conversion_percentage DECIMAL(5,2), -- For percentage rules (e.g., 10.50%)
           threshold_amount DECIMAL(15,2), -- For threshold rules
           fixed_amount DECIMAL(15,2), -- For DCA rules
+          frequency TEXT CHECK (frequency IN ('daily', 'weekly', 'monthly')), -- For DCA rules
+          
+          -- Multi-rule Evaluation
+          priority INTEGER NOT NULL DEFAULT 100, -- Lower numbers are evaluated first
+          combination_mode TEXT NOT NULL DEFAULT 'stack' CHECK (combination_mode IN ('stack', 'first_match')),
           
           -- Purchase Limits
           minimum_purchase DECIMAL(15,2), -- Minimum purchase amount
@@ -151,7 +159,7 @@ export class TenantSchemaManager {
           min_transaction_amount DECIMAL(15,2),
           max_transaction_amount DECIMAL(15,2),
           cash_floor DECIMAL(15,2),
-          btc_allocation_min DECIMAL(5,4),
+          btc_allocation_min DECIMAL(5,4), -- Rebalance band as a fraction of portfolio value (e.g. 0.2000)
           btc_allocation_max DECIMAL(5,4),
           
           -- Timestamps
@@ -180,6 +188,7 @@ export class TenantSchemaManager {
           should_convert BOOLEAN NOT NULL DEFAULT false,
           conversion_amount DECIMAL(15,2),
           conversion_fee DECIMAL(15,2),
+          conversion_decision JSONB, -- Structured reason when tier/volume limits cap or reject a conversion
           
           -- Provider Details
           provider TEXT NOT NULL,
@@ -195,7 +204,8 @@ export class TenantSchemaManager {
       await client.query(`
         CREATE TABLE "${schemaName}".bitcoin_purchases (
           id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          transaction_id UUID UNIQUE NOT NULL REFERENCES "${schemaName}".transactions(id),
+          transaction_id UUID UNIQUE REFERENCES "${schemaName}".transactions(id),
+          schedule_reference TEXT UNIQUE, -- Set for scheduled (DCA) purchases instead of transaction_id
           
           -- Purchase Details
           amount_aud DECIMAL(15,2) NOT NULL,
@@ -210,6 +220,23 @@ export class TenantSchemaManager {
           
           -- Raw exchange response for debugging
           raw_exchange_data JSONB,
+          evaluation_trace JSONB, -- Which rules fired, their contributions and any limits applied
+          rule_version_ids UUID[], -- treasury_rule_versions that funded this purchase
+          execution_algorithm TEXT NOT NULL DEFAULT 'single', -- single, twap, iceberg or limit
+          child_orders JSONB, -- Per-child-order fills for sliced purchases
+          
+          -- Resting limit orders (execution_algorithm = 'limit'), managed by the limit-order reconciler
+          limit_price DECIMAL(15,2),
+          limit_settings JSONB, -- Execution settings the order was placed with
+          order_expires_at TIMESTAMP, -- When the open order is repriced or cancelled
+          reprice_count INTEGER NOT NULL DEFAULT 0,
+          fallback_reference TEXT, -- Market fallback order reference, set before the order is sent
+          pending_withdrawal_address TEXT, -- Auto-withdrawal to make once the order completes
+          routing_decision JSONB, -- Venue quotes and the routing choice when several exchanges are connected
+          
+          -- Open TWAP/iceberg purchases, managed by the algorithmic order scheduler
+          parent_order JSONB, -- Reference price, remaining child orders and settings
+          next_child_at TIMESTAMP, -- When the next child order is due
           
           -- Timestamps
           created_at TIMESTAMP NOT NULL DEFAULT NOW(),
@@ -244,6 +271,90 @@ export class TenantSchemaManager {
         )
       `);
 
+      // Create dca_executions table (one row per rule per schedule period)
+      await client.query(`
+        CREATE TABLE "${schemaName}".dca_executions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          treasury_rule_id UUID NOT NULL REFERENCES "${schemaName}".treasury_rules(id),
+          period_key TEXT NOT NULL, -- e.g. 2025-03-14, 2025-W11, 2025-03
+          scheduled_for TIMESTAMP NOT NULL,
+          
+          -- Execution Outcome
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'skipped', 'failed')),
+          amount_aud DECIMAL(15,2),
+          bitcoin_purchase_id UUID REFERENCES "${schemaName}".bitcoin_purchases(id),
+          reason TEXT,
+          
+          -- Timestamps
+          executed_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          
+          UNIQUE (treasury_rule_id, period_key)
+        )
+      `);
+
+      // Create market_timing_pool table (AUD held by market_timing rules until a buy trigger fires)
+      await client.query(`
+        CREATE TABLE "${schemaName}".market_timing_pool (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          treasury_rule_id UUID NOT NULL REFERENCES "${schemaName}".treasury_rules(id),
+          transaction_id UUID UNIQUE REFERENCES "${schemaName}".transactions(id), -- NULL for amounts carried over after a capped buy
+          amount_aud DECIMAL(15,2) NOT NULL,
+          reversed_aud DECIMAL(15,2) NOT NULL DEFAULT 0, -- Taken out by refunds and chargebacks before conversion
+          
+          -- Conversion Outcome
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'converted', 'cancelled')),
+          buy_trigger TEXT CHECK (buy_trigger IN ('price_band', 'moving_average', 'drawdown', 'max_wait')),
+          bitcoin_purchase_id UUID REFERENCES "${schemaName}".bitcoin_purchases(id),
+          claim_reference TEXT, -- Schedule reference of the purchase while the pool is 'processing'
+          
+          -- Timestamps
+          queued_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          converted_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create btc_price_snapshots table (price history for moving-average and drawdown triggers)
+      await client.query(`
+        CREATE TABLE "${schemaName}".btc_price_snapshots (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          price_aud DECIMAL(15,2) NOT NULL,
+          exchange_provider TEXT NOT NULL,
+          recorded_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create rebalance_executions table (one row per rebalancing trade)
+      await client.query(`
+        CREATE TABLE "${schemaName}".rebalance_executions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          treasury_rule_id UUID NOT NULL REFERENCES "${schemaName}".treasury_rules(id),
+          
+          -- Portfolio Snapshot
+          btc_holdings DECIMAL(18,8) NOT NULL,
+          aud_balance DECIMAL(15,2) NOT NULL,
+          price_per_btc DECIMAL(15,2) NOT NULL,
+          allocation_before DECIMAL(5,4) NOT NULL,
+          target_allocation DECIMAL(5,4) NOT NULL,
+          
+          -- Trade
+          side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+          amount_aud DECIMAL(15,2) NOT NULL,
+          bitcoin_amount DECIMAL(18,8),
+          exchange_order_id TEXT,
+          bitcoin_purchase_id UUID REFERENCES "${schemaName}".bitcoin_purchases(id),
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'skipped', 'failed')),
+          reason TEXT,
+          
+          -- Timestamps
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
       // Create processing_failures table
       await client.query(`
         CREATE TABLE "${schemaName}".processing_failures (
@@ -266,13 +377,288 @@ export class TenantSchemaManager {
         )
       `);
 
+      // Create treasury_rule_versions table (immutable history of every rule change)
+      await client.query(`
+        CREATE TABLE "${schemaName}".treasury_rule_versions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          treasury_rule_id UUID NOT NULL REFERENCES "${schemaName}".treasury_rules(id),
+          version_number INTEGER NOT NULL,
+          
+          -- Full rule configuration as saved
+          configuration JSONB NOT NULL,
+          change_type TEXT NOT NULL CHECK (change_type IN ('create', 'update', 'activate', 'deactivate')),
+          changed_by TEXT, -- User ID
+          
+          -- Effective Period
+          effective_from TIMESTAMP NOT NULL DEFAULT NOW(),
+          effective_to TIMESTAMP, -- NULL while this is the current version
+          
+          -- Timestamps
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          
+          UNIQUE (treasury_rule_id, version_number)
+        )
+      `);
+
+      // Create approval_requests table (dual-control for large conversions and new withdrawal addresses)
+      await client.query(`
+        CREATE TABLE "${schemaName}".approval_requests (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          request_type TEXT NOT NULL CHECK (request_type IN ('conversion', 'withdrawal', 'sale')),
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'executed', 'failed')),
+          
+          -- What is being approved
+          transaction_id UUID UNIQUE REFERENCES "${schemaName}".transactions(id), -- Conversions
+          bitcoin_purchase_id UUID REFERENCES "${schemaName}".bitcoin_purchases(id), -- Withdrawals; the resulting purchase for conversions
+          amount_aud DECIMAL(15,2),
+          bitcoin_amount DECIMAL(18,8),
+          destination_address TEXT,
+          details JSONB NOT NULL DEFAULT '{}', -- Evaluation trace, rule versions, etc.
+          reason TEXT NOT NULL, -- Why approval is required
+          
+          -- Approval Policy
+          required_approvals INTEGER NOT NULL DEFAULT 1,
+          requested_by TEXT, -- NULL when raised by the treasury engine
+          expires_at TIMESTAMP NOT NULL,
+          
+          -- Outcome
+          rejected_by TEXT,
+          rejection_reason TEXT,
+          decided_at TIMESTAMP,
+          executed_at TIMESTAMP,
+          execution_error TEXT,
+          
+          -- Timestamps
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create approval_decisions table (one per approver per request)
+      await client.query(`
+        CREATE TABLE "${schemaName}".approval_decisions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          approval_request_id UUID NOT NULL REFERENCES "${schemaName}".approval_requests(id),
+          user_id TEXT NOT NULL,
+          decision TEXT NOT NULL CHECK (decision IN ('approve', 'reject')),
+          reason TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          
+          UNIQUE (approval_request_id, user_id)
+        )
+      `);
+
+      // Create bitcoin_disposals table (every sale of Bitcoin, with proceeds and realised gain)
+      await client.query(`
+        CREATE TABLE "${schemaName}".bitcoin_disposals (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          trigger TEXT NOT NULL CHECK (trigger IN ('take_profit', 'liquidity', 'rebalance', 'refund')),
+          treasury_rule_id UUID REFERENCES "${schemaName}".treasury_rules(id),
+          approval_request_id UUID UNIQUE REFERENCES "${schemaName}".approval_requests(id),
+          
+          -- Sale Details
+          bitcoin_amount DECIMAL(18,8) NOT NULL,
+          proceeds_aud DECIMAL(15,2) NOT NULL, -- Gross, before fees
+          price_per_btc DECIMAL(15,2) NOT NULL,
+          fees_aud DECIMAL(15,2) NOT NULL DEFAULT 0,
+          
+          -- Cost Basis (FIFO over acquisition lots)
+          cost_basis_aud DECIMAL(15,2) NOT NULL,
+          realized_gain_aud DECIMAL(15,2) NOT NULL, -- Proceeds less fees and cost basis
+          unmatched_bitcoin DECIMAL(18,8) NOT NULL DEFAULT 0, -- Sold BTC with no recorded acquisition
+          
+          -- Exchange Details
+          exchange_order_id TEXT NOT NULL,
+          exchange_provider TEXT NOT NULL,
+          raw_exchange_data JSONB,
+          
+          -- Timestamps
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create bitcoin_disposal_lots table (acquisition lots each disposal consumed)
+      await client.query(`
+        CREATE TABLE "${schemaName}".bitcoin_disposal_lots (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          bitcoin_disposal_id UUID NOT NULL REFERENCES "${schemaName}".bitcoin_disposals(id),
+          bitcoin_purchase_id UUID NOT NULL REFERENCES "${schemaName}".bitcoin_purchases(id),
+          bitcoin_amount DECIMAL(18,8) NOT NULL,
+          cost_basis_aud DECIMAL(15,2) NOT NULL,
+          acquired_at TIMESTAMP NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create cash_obligations table (scheduled outflows that raise the cash floor)
+      await client.query(`
+        CREATE TABLE "${schemaName}".cash_obligations (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          name TEXT NOT NULL,
+          category TEXT NOT NULL DEFAULT 'other' CHECK (category IN ('payroll', 'bas', 'tax', 'supplier', 'rent', 'other')),
+          amount_aud DECIMAL(15,2) NOT NULL,
+          
+          -- Schedule
+          due_date DATE NOT NULL, -- First (or only) payment
+          recurrence TEXT NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'weekly', 'fortnightly', 'monthly', 'quarterly')),
+          recurrence_end_date DATE,
+          
+          source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+          notes TEXT,
+          created_by TEXT,
+          deleted_at TIMESTAMP,
+          
+          -- Timestamps
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create payment_reversals table (refunds and chargebacks, and how their converted share was unwound)
+      await client.query(`
+        CREATE TABLE "${schemaName}".payment_reversals (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          reversal_type TEXT NOT NULL CHECK (reversal_type IN ('refund', 'chargeback')),
+          external_id TEXT NOT NULL UNIQUE, -- Provider refund or dispute ID
+          provider TEXT NOT NULL,
+          transaction_id UUID NOT NULL REFERENCES "${schemaName}".transactions(id),
+          bitcoin_purchase_id UUID REFERENCES "${schemaName}".bitcoin_purchases(id), -- NULL when the payment was never converted
+          
+          -- Amounts
+          amount_aud DECIMAL(15,2) NOT NULL, -- Share of the payment reversed
+          converted_aud DECIMAL(15,2) NOT NULL DEFAULT 0, -- Part of that share which had been converted
+          bitcoin_amount DECIMAL(18,8) NOT NULL DEFAULT 0, -- Bitcoin bought with the converted part
+          
+          -- Unwinding
+          policy TEXT NOT NULL CHECK (policy IN ('none', 'sell_back', 'offset', 'liability')),
+          status TEXT NOT NULL CHECK (status IN ('outstanding', 'awaiting_sale', 'settled')),
+          outstanding_aud DECIMAL(15,2) NOT NULL DEFAULT 0, -- Still owed after sales and offsets
+          approval_request_id UUID REFERENCES "${schemaName}".approval_requests(id), -- Sell-back sale
+          bitcoin_disposal_id UUID REFERENCES "${schemaName}".bitcoin_disposals(id),
+          offset_applications JSONB NOT NULL DEFAULT '[]', -- Later conversions reduced to recover outstanding_aud
+          reason TEXT,
+          
+          -- Timestamps
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create conversion_batch_entries table (small conversions queued to be bought in one order)
+      await client.query(`
+        CREATE TABLE "${schemaName}".conversion_batch_entries (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          transaction_id UUID NOT NULL UNIQUE REFERENCES "${schemaName}".transactions(id),
+          amount_aud DECIMAL(15,2) NOT NULL, -- Conversion decided for the transaction
+          remaining_aud DECIMAL(15,2) NOT NULL, -- Not yet bought (reduced by fills and reversals)
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'converted', 'cancelled')),
+          claim_reference TEXT, -- Flush that claimed the entry; also the schedule_reference of its purchase
+          
+          -- Batch settings from the rule that fired
+          window_minutes INTEGER NOT NULL,
+          flush_at_aud DECIMAL(15,2),
+          withdrawal_address TEXT,
+          execution JSONB,
+          rule_version_ids UUID[],
+          evaluation_trace JSONB,
+          
+          -- Timestamps
+          queued_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          converted_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create conversion_batch_allocations table (each transaction's pro-rata share of a batch purchase)
+      await client.query(`
+        CREATE TABLE "${schemaName}".conversion_batch_allocations (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          batch_entry_id UUID NOT NULL REFERENCES "${schemaName}".conversion_batch_entries(id),
+          transaction_id UUID NOT NULL REFERENCES "${schemaName}".transactions(id),
+          bitcoin_purchase_id UUID NOT NULL REFERENCES "${schemaName}".bitcoin_purchases(id),
+          amount_aud DECIMAL(15,2) NOT NULL,
+          bitcoin_amount DECIMAL(18,8) NOT NULL,
+          fees_aud DECIMAL(15,2) NOT NULL DEFAULT 0,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create reconciliation_logs table (one row per payment or exchange reconciliation run)
+      await client.query(`
+        CREATE TABLE "${schemaName}".reconciliation_logs (
+          id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+          tenant_id TEXT NOT NULL,
+          reconciliation_type TEXT NOT NULL DEFAULT 'payment' CHECK (reconciliation_type IN ('payment', 'exchange')),
+          exchange_provider TEXT,
+          period_start TIMESTAMP,
+          period_end TIMESTAMP, -- Checkpoint: the next run starts here
+          
+          -- Counts (for exchange runs the payment side is the exchange's records)
+          total_payments INTEGER NOT NULL,
+          total_bitcoin_purchases INTEGER NOT NULL,
+          matched_pairs INTEGER NOT NULL,
+          orphaned_payments INTEGER NOT NULL,
+          orphaned_purchases INTEGER NOT NULL,
+          amount_mismatches INTEGER NOT NULL,
+          total_discrepancy_value DECIMAL(18,2) NOT NULL,
+          reconciliation_accuracy DECIMAL(5,2) NOT NULL,
+          critical_issues INTEGER NOT NULL DEFAULT 0,
+          oldest_orphan_age_minutes INTEGER NOT NULL DEFAULT 0,
+          orphan_details TEXT, -- JSON list of every unmatched or mismatched record
+          execution_time_ms INTEGER NOT NULL DEFAULT 0,
+          recheck_from TIMESTAMP, -- Payment runs: oldest payment still in progress, checked again by the next run
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Create notifications table
+      await client.query(`
+        CREATE TABLE "${schemaName}".notifications (
+          id SERIAL PRIMARY KEY,
+          tenant_id VARCHAR(255) NOT NULL,
+          user_id VARCHAR(255), -- NULL for tenant-wide notifications
+          type VARCHAR(50) NOT NULL,
+          title VARCHAR(255) NOT NULL,
+          message TEXT NOT NULL,
+          priority VARCHAR(10) DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+          read BOOLEAN DEFAULT false,
+          dismissed BOOLEAN DEFAULT false,
+          metadata JSONB,
+          expires_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
       // Create indexes for better performance
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_treasury_rules_priority ON "${schemaName}".treasury_rules(is_active, priority)`);
       await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_transactions_status ON "${schemaName}".transactions(status)`);
       await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_transactions_created ON "${schemaName}".transactions(created_at)`);
       await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_transactions_should_convert ON "${schemaName}".transactions(should_convert)`);
       await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_bitcoin_purchases_status ON "${schemaName}".bitcoin_purchases(status)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_bitcoin_purchases_created ON "${schemaName}".bitcoin_purchases(created_at DESC)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_bitcoin_purchases_open_limit ON "${schemaName}".bitcoin_purchases(order_expires_at) WHERE execution_algorithm = 'limit' AND status IN ('pending', 'processing')`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_bitcoin_purchases_open_parent ON "${schemaName}".bitcoin_purchases(next_child_at) WHERE execution_algorithm IN ('twap', 'iceberg') AND status IN ('pending', 'processing')`);
       await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_bitcoin_withdrawals_status ON "${schemaName}".bitcoin_withdrawals(status)`);
       await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_processing_failures_resolved ON "${schemaName}".processing_failures(is_resolved)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_dca_executions_rule ON "${schemaName}".dca_executions(treasury_rule_id, scheduled_for DESC)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_market_timing_pool_rule ON "${schemaName}".market_timing_pool(treasury_rule_id, status)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_btc_price_snapshots_recorded ON "${schemaName}".btc_price_snapshots(recorded_at DESC)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_rebalance_executions_rule ON "${schemaName}".rebalance_executions(treasury_rule_id, created_at DESC)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_approval_requests_status ON "${schemaName}".approval_requests(status, expires_at)`);
+      await client.query(`CREATE UNIQUE INDEX idx_${schemaName.replace('-', '_')}_approval_requests_withdrawal ON "${schemaName}".approval_requests(bitcoin_purchase_id) WHERE request_type = 'withdrawal'`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_bitcoin_disposals_created ON "${schemaName}".bitcoin_disposals(created_at DESC)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_bitcoin_disposal_lots_purchase ON "${schemaName}".bitcoin_disposal_lots(bitcoin_purchase_id)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_cash_obligations_due ON "${schemaName}".cash_obligations(due_date) WHERE deleted_at IS NULL`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_payment_reversals_transaction ON "${schemaName}".payment_reversals(transaction_id)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_payment_reversals_offset ON "${schemaName}".payment_reversals(created_at) WHERE policy = 'offset' AND outstanding_aud > 0`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_conversion_batch_entries_pending ON "${schemaName}".conversion_batch_entries(queued_at) WHERE status = 'pending'`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_conversion_batch_allocations_transaction ON "${schemaName}".conversion_batch_allocations(transaction_id)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_conversion_batch_allocations_purchase ON "${schemaName}".conversion_batch_allocations(bitcoin_purchase_id)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_reconciliation_logs_checkpoint ON "${schemaName}".reconciliation_logs(reconciliation_type, exchange_provider, period_end)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_reconciliation_logs_created ON "${schemaName}".reconciliation_logs(created_at)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_notifications_user_created ON "${schemaName}".notifications(user_id, created_at DESC)`);
+      await client.query(`CREATE INDEX idx_${schemaName.replace('-', '_')}_treasury_rule_versions_effective ON "${schemaName}".treasury_rule_versions(treasury_rule_id, effective_from DESC)`);
 
       // Create updated_at triggers
       await client.query(`
@@ -291,6 +677,33 @@ export class TenantSchemaManager {
       await client.query(`CREATE TRIGGER update_bitcoin_purchases_updated_at BEFORE UPDATE ON "${schemaName}".bitcoin_purchases FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()`);
       await client.query(`CREATE TRIGGER update_bitcoin_withdrawals_updated_at BEFORE UPDATE ON "${schemaName}".bitcoin_withdrawals FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()`);
       await client.query(`CREATE TRIGGER update_processing_failures_updated_at BEFORE UPDATE ON "${schemaName}".processing_failures FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()`);
+      await client.query(`CREATE TRIGGER update_dca_executions_updated_at BEFORE UPDATE ON "${schemaName}".dca_executions FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()`);
+      await client.query(`CREATE TRIGGER update_market_timing_pool_updated_at BEFORE UPDATE ON "${schemaName}".market_timing_pool FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()`);
+      await client.query(`CREATE TRIGGER update_rebalance_executions_updated_at BEFORE UPDATE ON "${schemaName}".rebalance_executions FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()`);
+      await client.query(`CREATE TRIGGER update_approval_requests_updated_at BEFORE UPDATE ON "${schemaName}".approval_requests FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column()`);
+
+      // Rule versions are immutable; the only permitted change is closing the current version
+      await client.query(`
+        CREATE OR REPLACE FUNCTION prevent_rule_version_modifications()
+        RETURNS TRIGGER AS $$
+        BEGIN
+          IF TG_OP = 'DELETE' THEN
+            RAISE EXCEPTION 'Treasury rule versions are immutable and cannot be deleted';
+          END IF;
+
+          IF OLD.effective_to IS NOT NULL
+            OR ROW(NEW.id, NEW.treasury_rule_id, NEW.version_number, NEW.configuration, NEW.change_type, NEW.changed_by, NEW.effective_from, NEW.created_at)
+              IS DISTINCT FROM ROW(OLD.id, OLD.treasury_rule_id, OLD.version_number, OLD.configuration, OLD.change_type, OLD.changed_by, OLD.effective_from, OLD.created_at)
+          THEN
+            RAISE EXCEPTION 'Treasury rule versions are immutable and cannot be updated';
+          END IF;
+
+          RETURN NEW;
+        END;
+        $$ language 'plpgsql';
+      `);
+
+      await client.query(`CREATE TRIGGER prevent_treasury_rule_version_modifications BEFORE UPDATE OR DELETE ON "${schemaName}".treasury_rule_versions FOR EACH ROW EXECUTE PROCEDURE prevent_rule_version_modifications()`);
 
         await client.query('COMMIT');
         console.log(`Successfully created tenant schema: ${schemaName}`);
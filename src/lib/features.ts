@@ -128,7 +128,7 @@ export const features: Record<string, FeatureConfig> = {
   // Phase 5 - Q2 2025
   zerocap: {
     enabled: false,
-    description: 'ZeroCap institutional Bitcoin liquidity (API v2)',
+    description: 'ZeroCap institutional Bitcoin liquidity (request-for-quote)',
     phase: 5,
     expectedDate: 'Q2 2025 (pending ZeroCap API v2 release)',
     dependencies: ['bitcoin_kraken'],
@@ -136,7 +136,7 @@ export const features: Record<string, FeatureConfig> = {
   
   independent_reserve: {
     enabled: false,
-    description: 'Independent Reserve Bitcoin exchange',
+    description: 'Independent Reserve Bitcoin exchange (AUD-native, AUSTRAC registered)',
     phase: 5,
     expectedDate: 'Q2 2025',
     dependencies: ['zerocap'],
@@ -150,6 +150,20 @@ export const features: Record<string, FeatureConfig> = {
     dependencies: ['independent_reserve'],
   },
   
+  swyftx: {
+    enabled: false,
+    description: 'Swyftx exchange integration',
+    phase: 5,
+    expectedDate: 'Q2 2025',
+  },
+  
+  coinbase: {
+    enabled: false,
+    description: 'Coinbase Advanced Trade exchange integration',
+    phase: 5,
+    expectedDate: 'Q2 2025',
+  },
+  
   professional_custody: {
     enabled: false,
     description: 'Professional custody solutions via ZeroCap',
@@ -241,6 +255,8 @@ export class FeatureFlags {
         zerocap: FeatureFlags.isEnabled('zerocap'),
         independent_reserve: FeatureFlags.isEnabled('independent_reserve'),
         btc_markets: FeatureFlags.isEnabled('btc_markets'),
+        swyftx: FeatureFlags.isEnabled('swyftx'),
+        coinbase: FeatureFlags.isEnabled('coinbase'),
       },
       compliance: {
         abn_verification: FeatureFlags.isEnabled('abn_verification'),
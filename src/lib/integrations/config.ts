@@ -91,8 +91,8 @@ export const IntegrationConfig: Record<string, Record<string, IntegrationConfig>
       enabled: false, // Phase 5 - Waiting for API v2
       name: 'ZeroCap',
       icon: '🏦',
-      description: 'Institutional Bitcoin liquidity provider',
-      requiredEnvVars: ['ZEROCAP_API_KEY', 'ZEROCAP_API_SECRET', 'ZEROCAP_WEBHOOK_SECRET'],
+      description: 'Institutional Bitcoin liquidity provider (request-for-quote execution)',
+      requiredEnvVars: ['ZEROCAP_API_KEY', 'ZEROCAP_API_SECRET'],
       comingSoon: 'Q2 2025 - Pending ZeroCap API v2 release',
       dependencies: ['bitcoin_kraken'],
       category: 'bitcoin',
@@ -101,7 +101,7 @@ export const IntegrationConfig: Record<string, Record<string, IntegrationConfig>
       enabled: false, // Phase 5
       name: 'Independent Reserve',
       icon: '🇦🇺',
-      description: 'Australian Bitcoin exchange',
+      description: 'AUSTRAC-registered Australian Bitcoin exchange (AUD-native)',
       requiredEnvVars: ['IR_API_KEY', 'IR_API_SECRET'],
       comingSoon: 'Q2 2025',
       dependencies: ['zerocap'],
@@ -111,12 +111,30 @@ export const IntegrationConfig: Record<string, Record<string, IntegrationConfig>
       enabled: false, // Phase 5
       name: 'BTC Markets',
       icon: '📈',
-      description: 'Australian cryptocurrency exchange',
+      description: 'Australian cryptocurrency exchange (withdrawals to whitelisted addresses only)',
       requiredEnvVars: ['BTC_MARKETS_API_KEY', 'BTC_MARKETS_API_SECRET'],
       comingSoon: 'Q2 2025',
       dependencies: ['independent_reserve'],
       category: 'bitcoin',
     },
+    swyftx: {
+      enabled: false, // Phase 5
+      name: 'Swyftx',
+      icon: '🦘',
+      description: 'Australian broker exchange (withdrawals to saved address book entries only)',
+      requiredEnvVars: ['SWYFTX_API_KEY'],
+      comingSoon: 'Q2 2025',
+      category: 'bitcoin',
+    },
+    coinbase: {
+      enabled: false, // Phase 5
+      name: 'Coinbase Advanced',
+      icon: '🔵',
+      description: 'Coinbase Advanced Trade with CDP API key authentication',
+      requiredEnvVars: ['COINBASE_API_KEY_NAME', 'COINBASE_API_PRIVATE_KEY'],
+      comingSoon: 'Q2 2025',
+      category: 'bitcoin',
+    },
   },
   
   compliance: {
@@ -0,0 +1,88 @@
+import { ExchangeError, InsufficientFundsError } from '../interface';
+import { BtcMarketsProvider } from '../btc-markets';
+import { BTC_MARKETS_STAND_IN_CREDENTIALS, BtcMarketsStandInServer } from '../mock/btc-markets-server';
+
+const WHITELISTED_ADDRESS = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+
+describe('BtcMarketsProvider (local stand-in)', () => {
+  let server: BtcMarketsStandInServer;
+  let provider: BtcMarketsProvider;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new BtcMarketsStandInServer({ price: 100000, spreadAUD: 25, takerFeeRate: 0.0085, whitelistedAddresses: [WHITELISTED_ADDRESS] });
+    baseUrl = await server.start();
+    provider = new BtcMarketsProvider({ ...BTC_MARKETS_STAND_IN_CREDENTIALS, baseUrl });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('fills AUD-sized market buys at the ask and parses fills and fees from the trades', async () => {
+    const result = await provider.createMarketOrder({ side: 'buy', symbol: 'BTC', value: 1000, currency: 'AUD' });
+
+    const filledAmount = Math.floor((1000 / 100025) * 1e8) / 1e8;
+    const totalValue = Math.round(filledAmount * 100025 * 100) / 100;
+
+    expect(result).toMatchObject({
+      status: 'filled',
+      side: 'buy',
+      amount: filledAmount,
+      filledAmount,
+      remainingAmount: 0,
+      totalValue
+    });
+    expect(result.averagePrice).toBeCloseTo(100025, 0);
+    expect(result.fees).toEqual([{ amount: Math.round(totalValue * 0.0085 * 100) / 100, currency: 'AUD', type: 'trading' }]);
+  });
+
+  it('leaves limit orders below the market open until the price crosses', async () => {
+    const placed = await provider.createLimitOrder({ side: 'buy', symbol: 'BTC', amount: 0.01, price: 99000, currency: 'AUD' });
+
+    expect(placed).toMatchObject({ status: 'open', filledAmount: 0, remainingAmount: 0.01, averagePrice: 99000 });
+
+    server.setPrice(98900);
+    const filled = await provider.getOrderStatus(placed.orderId);
+
+    expect(filled).toMatchObject({ status: 'filled', filledAmount: 0.01, averagePrice: 99000, totalValue: 990, isComplete: true });
+  });
+
+  it('returns the final state of cancelled orders', async () => {
+    const placed = await provider.createLimitOrder({ side: 'buy', symbol: 'BTC', amount: 0.01, price: 99000, currency: 'AUD' });
+    const cancelled = await provider.cancelOrder(placed.orderId);
+
+    expect(cancelled).toMatchObject({ status: 'cancelled', isCancelled: true, filledAmount: 0, remainingAmount: 0 });
+  });
+
+  it('maps insufficient funds rejections', async () => {
+    server.failNext('POST /v3/orders', 400, 'InsufficientFund', 'Insufficient AUD balance');
+
+    await expect(provider.createMarketOrder({ side: 'buy', symbol: 'BTC', value: 1000, currency: 'AUD' }))
+      .rejects.toBeInstanceOf(InsufficientFundsError);
+  });
+
+  it('withdraws to whitelisted addresses and tracks confirmation', async () => {
+    const withdrawal = await provider.withdrawBitcoin({ currency: 'BTC', amount: 0.01, address: WHITELISTED_ADDRESS });
+    expect(withdrawal).toMatchObject({ status: 'pending', amount: 0.01, address: WHITELISTED_ADDRESS });
+
+    server.confirmWithdrawal(withdrawal.withdrawalId, 'f'.repeat(64));
+    const status = await provider.getWithdrawalStatus(withdrawal.withdrawalId);
+
+    expect(status).toMatchObject({ status: 'confirmed', isComplete: true, txId: 'f'.repeat(64) });
+    expect(server.getBalances().btc).toBeCloseTo(0.5 - 0.01 - 0.0001, 8);
+  });
+
+  it('rejects requests signed with the wrong key', async () => {
+    const badlySigned = new BtcMarketsProvider({
+      apiKey: BTC_MARKETS_STAND_IN_CREDENTIALS.apiKey,
+      privateKey: Buffer.from('wrong-private-key').toString('base64'),
+      baseUrl
+    });
+
+    const error = await badlySigned.getBalance().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ExchangeError);
+    expect(error.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,106 @@
+import { ExchangeError } from '../interface';
+import { IndependentReserveProvider, INDEPENDENT_RESERVE_BASE_URL } from '../independent-reserve';
+import {
+  INDEPENDENT_RESERVE_FIXTURES,
+  IndependentReserveFixtureServer,
+  createIndependentReserveFixtureProvider
+} from '../mock/independent-reserve-fixtures';
+
+const MARKET_ORDER_GUID = 'c7347e4c-b865-4c94-8f74-d934d4b0b177';
+
+describe('IndependentReserveProvider (recorded fixtures)', () => {
+  let server: IndependentReserveFixtureServer;
+  let provider: IndependentReserveProvider;
+
+  beforeEach(() => {
+    server = new IndependentReserveFixtureServer();
+    provider = createIndependentReserveFixtureProvider(server);
+  });
+
+  it('places AUD-sized market buys and parses the fill from the order details', async () => {
+    const result = await provider.createMarketOrder({ side: 'buy', symbol: 'BTC', value: 1000, currency: 'AUD' });
+
+    expect(server.requests.map(request => request.path)).toEqual(['/Private/PlaceMarketOrder', '/Private/GetOrderDetails']);
+    expect(server.requests[0].params).toMatchObject({
+      orderType: 'MarketBid',
+      volume: '1000.00',
+      volumeCurrencyType: 'Secondary'
+    });
+
+    expect(result).toMatchObject({
+      orderId: MARKET_ORDER_GUID,
+      status: 'filled',
+      side: 'buy',
+      amount: 0.01015014,
+      filledAmount: 0.01015014,
+      remainingAmount: 0,
+      averagePrice: 97895.67,
+      totalValue: 993.66
+    });
+    expect(result.fees).toEqual([{ amount: 4.97, currency: 'AUD', type: 'trading' }]);
+  });
+
+  it('reports partial fills with the exchange-reported filled value', async () => {
+    server.respondWith('/Private/GetOrderDetails', {
+      ...INDEPENDENT_RESERVE_FIXTURES['/Private/GetOrderDetails'],
+      Status: 'PartiallyFilled',
+      VolumeFilled: 0.005,
+      Value: 489.48
+    });
+
+    const status = await provider.getOrderStatus(MARKET_ORDER_GUID);
+
+    expect(status.status).toBe('partially_filled');
+    expect(status.filledAmount).toBe(0.005);
+    expect(status.totalValue).toBe(489.48);
+    expect(status.amount).toBeCloseTo(1000 / 97895.67, 8);
+    expect(status.remainingAmount).toBeCloseTo(1000 / 97895.67 - 0.005, 8);
+    expect(status.isComplete).toBe(false);
+  });
+
+  it('treats a partially filled then cancelled order as terminal', async () => {
+    server.respondWith('/Private/GetOrderDetails', {
+      ...INDEPENDENT_RESERVE_FIXTURES['/Private/GetOrderDetails'],
+      Status: 'PartiallyFilledAndCancelled',
+      VolumeFilled: 0.005,
+      Value: 489.48
+    });
+
+    const status = await provider.getOrderStatus(MARKET_ORDER_GUID);
+
+    expect(status).toMatchObject({ status: 'cancelled', isCancelled: true, amount: 0.005, remainingAmount: 0 });
+  });
+
+  it('echoes the requested order GUID when looking up order details', async () => {
+    const status = await provider.getOrderStatus('5c8885cd-5384-4e05-b397-9f5119353e10');
+
+    expect(status.orderId).toBe('5c8885cd-5384-4e05-b397-9f5119353e10');
+    expect(server.requests[0].params.orderGuid).toBe('5c8885cd-5384-4e05-b397-9f5119353e10');
+  });
+
+  it('parses balances, price and withdrawal status', async () => {
+    const balance = await provider.getBalance();
+    expect(balance).toMatchObject({ available: 24650.37, total: 25644.87, btc: { available: 0.41837216 } });
+
+    const price = await provider.getCurrentPrice('AUD');
+    expect(price).toMatchObject({ price: 97870.55, bid: 97850.0, ask: 97892.1 });
+
+    const withdrawal = await provider.getWithdrawalStatus('dc932e19-562b-4c50-821e-a73fd048b93b');
+    expect(withdrawal).toMatchObject({ status: 'confirmed', isComplete: true });
+  });
+
+  it('rejects private requests signed with the wrong secret', async () => {
+    const badlySigned = new IndependentReserveProvider({
+      apiKey: 'fixture-api-key',
+      apiSecret: 'wrong-secret',
+      baseUrl: INDEPENDENT_RESERVE_BASE_URL,
+      fetch: server.fetch
+    });
+
+    const error = await badlySigned.getBalance().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ExchangeError);
+    expect(error.statusCode).toBe(401);
+    expect(server.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,890 @@
+// LIQUID ABT - BTC Markets Exchange Integration
+// BTC Markets v3 REST API. Private requests are signed with HMAC-SHA512 over
+// method + path + timestamp + body using the base64-decoded private key.
+
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { createEndpointRateLimit } from '../../middleware/rateLimiter';
+import {
+  ExchangeProvider,
+  ExchangeProviderType,
+  MarketPrice,
+  OrderBook,
+  MarketOrderRequest,
+  LimitOrderRequest,
+  OrderResult,
+  OrderStatus,
+  ExchangeBalance,
+  ExchangeTransaction,
+  WithdrawalRequest,
+  WithdrawalResult,
+  WithdrawalStatus,
+  TradingFees,
+  WithdrawalFees,
+  ExchangeError,
+  InsufficientFundsError,
+  OrderRejectedError,
+  OrderStatusType,
+  WithdrawalStatusType
+} from './interface';
+import { CircuitBreakerFactory } from '../../patterns/circuit-breaker';
+import { apiOperation, metricsCollector } from '../../monitoring/metrics';
+
+export const BTC_MARKETS_BASE_URL = 'https://api.btcmarkets.net';
+
+type RateLimitType = 'PUBLIC' | 'PRIVATE' | 'TRADING' | 'WITHDRAWAL';
+
+// Retry configuration
+interface RetryConfig {
+  maxRetries: number;
+  backoffMs: number;
+  retryOn: (error: unknown) => boolean;
+}
+
+// BTC Markets API rate limits (per 10 second window, as published for the v3 API)
+const BTC_MARKETS_RATE_LIMITS = {
+  PUBLIC: { maxRequests: 50, windowMs: 10 * 1000 },
+  PRIVATE: { maxRequests: 50, windowMs: 10 * 1000 },
+  TRADING: { maxRequests: 30, windowMs: 10 * 1000 },
+  WITHDRAWAL: { maxRequests: 10, windowMs: 10 * 1000 }
+};
+
+const HISTORY_PAGE_SIZE = 200;
+const HISTORY_MAX_PAGES = 10;
+
+// BTC Markets v3 response shapes (amounts are decimal strings)
+interface BtcMarketsTicker {
+  marketId: string;
+  bestBid: string;
+  bestAsk: string;
+  lastPrice: string;
+  volume24h: string;
+  price24h: string;
+  pricePct24h: string;
+  timestamp: string;
+}
+
+interface BtcMarketsOrderBook {
+  marketId: string;
+  bids: [string, string][];
+  asks: [string, string][];
+}
+
+interface BtcMarketsOrder {
+  orderId: string;
+  marketId: string;
+  side: 'Bid' | 'Ask';
+  type: string;
+  creationTime: string;
+  price?: string;
+  amount: string;
+  openAmount: string;
+  status: string;
+  clientOrderId?: string;
+  targetAmount?: string;
+}
+
+interface BtcMarketsTrade {
+  id: string;
+  marketId: string;
+  timestamp: string;
+  price: string;
+  amount: string;
+  side: 'Bid' | 'Ask';
+  fee: string;
+  orderId: string;
+  valueInQuoteAsset?: string;
+}
+
+interface BtcMarketsBalance {
+  assetName: string;
+  balance: string;
+  available: string;
+  locked: string;
+}
+
+interface BtcMarketsTransfer {
+  id: string;
+  assetName: string;
+  amount: string;
+  type: string;
+  creationTime: string;
+  status: string;
+  fee: string;
+  paymentDetail?: { address?: string; txId?: string };
+}
+
+interface BtcMarketsTradingFees {
+  feeByMarkets: Array<{ marketId: string; makerFeeRate: string; takerFeeRate: string }>;
+}
+
+interface BtcMarketsAsset {
+  assetName: string;
+  minWithdrawalAmount: string;
+  withdrawalFee: string;
+}
+
+export interface BtcMarketsCredentials {
+  apiKey?: string;
+  privateKey?: string; // Base64-encoded, as issued by BTC Markets
+  baseUrl?: string;
+  timeout?: number;
+  whitelistedAddresses?: string[]; // Checked locally before asking the exchange to withdraw
+}
+
+/**
+ * Sign a v3 request: base64(HMAC-SHA512(base64decode(privateKey), method + path + timestamp + body))
+ */
+export function signBtcMarketsRequest(method: string, path: string, timestamp: string, body: string, privateKey: string): string {
+  return crypto
+    .createHmac('sha512', Buffer.from(privateKey, 'base64'))
+    .update(method + path + timestamp + body)
+    .digest('base64');
+}
+
+export class BtcMarketsProvider implements ExchangeProvider {
+  public readonly name = 'BTC Markets';
+  public readonly type: ExchangeProviderType = 'btc_markets';
+
+  private readonly apiKey: string;
+  private readonly privateKey: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly whitelistedAddresses?: Set<string>;
+  private readonly circuitBreaker = CircuitBreakerFactory.createExchangeApiBreaker('btc_markets');
+  private readonly retryConfig: RetryConfig = {
+    maxRetries: 3,
+    backoffMs: 1000,
+    retryOn: (error: unknown) => {
+      // Retry on network errors, rate limits, and 5xx server errors
+      const { code, statusCode } = error as { code?: string; statusCode?: number };
+      return code === 'ECONNRESET' ||
+             code === 'ENOTFOUND' ||
+             code === 'ETIMEDOUT' ||
+             code === 'TIMEOUT' ||
+             statusCode === 429 ||
+             (statusCode !== undefined && statusCode >= 500 && statusCode < 600);
+    }
+  };
+
+  // Rate limiters for different API endpoint types
+  private readonly rateLimiters = {
+    PUBLIC: createEndpointRateLimit(
+      BTC_MARKETS_RATE_LIMITS.PUBLIC.maxRequests,
+      BTC_MARKETS_RATE_LIMITS.PUBLIC.windowMs,
+      'BTC Markets public API rate limit exceeded'
+    ),
+    PRIVATE: createEndpointRateLimit(
+      BTC_MARKETS_RATE_LIMITS.PRIVATE.maxRequests,
+      BTC_MARKETS_RATE_LIMITS.PRIVATE.windowMs,
+      'BTC Markets private API rate limit exceeded'
+    ),
+    TRADING: createEndpointRateLimit(
+      BTC_MARKETS_RATE_LIMITS.TRADING.maxRequests,
+      BTC_MARKETS_RATE_LIMITS.TRADING.windowMs,
+      'BTC Markets trading API rate limit exceeded'
+    ),
+    WITHDRAWAL: createEndpointRateLimit(
+      BTC_MARKETS_RATE_LIMITS.WITHDRAWAL.maxRequests,
+      BTC_MARKETS_RATE_LIMITS.WITHDRAWAL.windowMs,
+      'BTC Markets withdrawal API rate limit exceeded'
+    )
+  };
+
+  constructor(credentials: BtcMarketsCredentials = {}) {
+    this.apiKey = credentials.apiKey || process.env.BTC_MARKETS_API_KEY!;
+    this.privateKey = credentials.privateKey || process.env.BTC_MARKETS_API_SECRET!;
+    this.baseUrl = (credentials.baseUrl || process.env.BTC_MARKETS_API_URL || BTC_MARKETS_BASE_URL).replace(/\/$/, '');
+    this.timeoutMs = credentials.timeout || 15000;
+
+    if (credentials.whitelistedAddresses?.length) {
+      this.whitelistedAddresses = new Set(credentials.whitelistedAddresses);
+    }
+
+    if (!this.apiKey || !this.privateKey) {
+      throw new Error('BTC Markets API key and private key are required');
+    }
+  }
+
+  /**
+   * Get current Bitcoin price from the market ticker
+   */
+  async getCurrentPrice(currency = 'AUD'): Promise<MarketPrice> {
+    try {
+      const ticker = await this.withRetry(
+        () => this.makePublicRequest<BtcMarketsTicker>(`/v3/markets/${this.marketId(currency)}/ticker`),
+        'PUBLIC'
+      );
+
+      const price = parseFloat(ticker.lastPrice);
+      if (!price || price <= 0) {
+        throw new ExchangeError(`Invalid price data: ${ticker.lastPrice}`, 'INVALID_PRICE_DATA');
+      }
+
+      return {
+        symbol: 'BTC',
+        price,
+        currency,
+        timestamp: new Date(ticker.timestamp),
+        bid: parseFloat(ticker.bestBid) || price,
+        ask: parseFloat(ticker.bestAsk) || price,
+        volume24h: parseFloat(ticker.volume24h) || 0,
+        change24h: parseFloat(ticker.price24h) || 0,
+        changePercent24h: parseFloat(ticker.pricePct24h) || 0
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get current price', 'PRICE_FETCH_ERROR');
+    }
+  }
+
+  /**
+   * Get order book for BTC/AUD (pair in the form BTC-AUD or XBTAUD)
+   */
+  async getOrderBook(pair = 'BTC-AUD'): Promise<OrderBook> {
+    try {
+      const quote = pair.replace(/^(XBT|BTC)[-/]?/i, '') || 'AUD';
+      const book = await this.withRetry(
+        () => this.makePublicRequest<BtcMarketsOrderBook>(`/v3/markets/${this.marketId(quote)}/orderbook`, { level: '2' }),
+        'PUBLIC'
+      );
+
+      return {
+        symbol: book.marketId,
+        bids: book.bids.map(([price, amount]) => [parseFloat(price), parseFloat(amount)]),
+        asks: book.asks.map(([price, amount]) => [parseFloat(price), parseFloat(amount)]),
+        timestamp: new Date()
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get order book', 'ORDER_BOOK_ERROR');
+    }
+  }
+
+  /**
+   * Create market order. Buys sized in AUD use targetAmount so the exchange spends exactly that value.
+   */
+  async createMarketOrder(order: MarketOrderRequest): Promise<OrderResult> {
+    try {
+      this.validateOrder(order);
+
+      const body: Record<string, string> = {
+        marketId: this.marketId(order.currency),
+        type: 'Market',
+        side: order.side === 'buy' ? 'Bid' : 'Ask',
+        clientOrderId: crypto.randomUUID()
+      };
+
+      if (order.amount) {
+        body.amount = order.amount.toFixed(8);
+      } else {
+        body.targetAmount = order.value!.toFixed(2);
+      }
+
+      return await this.placeOrder(body);
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to create market order', 'ORDER_CREATION_ERROR');
+    }
+  }
+
+  /**
+   * Create limit order
+   */
+  async createLimitOrder(order: LimitOrderRequest): Promise<OrderResult> {
+    try {
+      this.validateOrder(order);
+
+      if (!order.price || order.price <= 0) {
+        throw new ExchangeError('Limit price must be positive', 'INVALID_PRICE');
+      }
+
+      const body: Record<string, string> = {
+        marketId: this.marketId(order.currency),
+        type: 'Limit',
+        side: order.side === 'buy' ? 'Bid' : 'Ask',
+        price: order.price.toFixed(2),
+        amount: (order.amount || order.value! / order.price).toFixed(8),
+        clientOrderId: crypto.randomUUID()
+      };
+
+      if (order.timeInForce) {
+        body.timeInForce = order.timeInForce;
+      }
+
+      const result = await this.placeOrder(body);
+      return { ...result, averagePrice: result.averagePrice || order.price };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to create limit order', 'LIMIT_ORDER_ERROR');
+    }
+  }
+
+  /**
+   * Get order status, with fills, average price and fees taken from the order's trades
+   */
+  async getOrderStatus(orderId: string): Promise<OrderStatus> {
+    try {
+      const [order, trades] = await Promise.all([
+        this.withRetry(() => this.makePrivateRequest<BtcMarketsOrder>('GET', `/v3/orders/${encodeURIComponent(orderId)}`)),
+        this.withRetry(() => this.makePrivateRequest<BtcMarketsTrade[]>('GET', '/v3/trades', { orderId }))
+      ]);
+
+      const status = this.convertOrderStatus(order.status);
+      const filledAmount = trades.reduce((sum, trade) => sum + parseFloat(trade.amount), 0);
+      const totalValue = trades.reduce((sum, trade) => sum + this.tradeValue(trade), 0);
+      const feesAUD = trades.reduce((sum, trade) => sum + parseFloat(trade.fee || '0'), 0);
+      const isTerminal = ['filled', 'cancelled', 'rejected'].includes(status);
+
+      // Orders sized by targetAmount only have a BTC amount once matched
+      const amount = parseFloat(order.amount) || filledAmount;
+
+      return {
+        orderId: order.orderId,
+        status,
+        side: order.side === 'Bid' ? 'buy' : 'sell',
+        symbol: 'BTC',
+        amount,
+        filledAmount,
+        remainingAmount: isTerminal ? 0 : parseFloat(order.openAmount || '0'),
+        averagePrice: filledAmount > 0 ? totalValue / filledAmount : parseFloat(order.price || '0'),
+        totalValue: Math.round(totalValue * 100) / 100,
+        fees: feesAUD > 0 ? [{
+          amount: Math.round(feesAUD * 100) / 100,
+          currency: order.marketId.split('-')[1] || 'AUD',
+          type: 'trading'
+        }] : [],
+        timestamp: new Date(order.creationTime),
+        isComplete: status === 'filled',
+        isCancelled: status === 'cancelled',
+        executionReports: trades.map(trade => ({
+          timestamp: new Date(trade.timestamp),
+          price: parseFloat(trade.price),
+          amount: parseFloat(trade.amount),
+          fee: { amount: parseFloat(trade.fee || '0'), currency: 'AUD', type: 'trading' as const }
+        })),
+        rawData: order
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get order status', 'ORDER_STATUS_ERROR');
+    }
+  }
+
+  /**
+   * Cancel an open order and return its final state (including any partial fill)
+   */
+  async cancelOrder(orderId: string): Promise<OrderStatus> {
+    try {
+      await this.withRetry(
+        () => this.makePrivateRequest('DELETE', `/v3/orders/${encodeURIComponent(orderId)}`),
+        'TRADING'
+      );
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to cancel order', 'ORDER_CANCEL_ERROR');
+    }
+
+    return this.getOrderStatus(orderId);
+  }
+
+  /**
+   * Get AUD and BTC balances
+   */
+  async getBalance(): Promise<ExchangeBalance> {
+    try {
+      const balances = await this.withRetry(() => this.makePrivateRequest<BtcMarketsBalance[]>('GET', '/v3/accounts/me/balances'));
+
+      const aud = balances.find(balance => balance.assetName === 'AUD');
+      const btc = balances.find(balance => balance.assetName === 'BTC');
+
+      return {
+        currency: 'AUD',
+        available: parseFloat(aud?.available || '0'),
+        total: parseFloat(aud?.balance || '0'),
+        reserved: parseFloat(aud?.locked || '0'),
+        btc: {
+          available: parseFloat(btc?.available || '0'),
+          total: parseFloat(btc?.balance || '0'),
+          reserved: parseFloat(btc?.locked || '0')
+        }
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get balance', 'BALANCE_ERROR');
+    }
+  }
+
+  /**
+   * Get BTC-AUD trades and BTC withdrawals, newest first
+   */
+  async getTransactionHistory(since?: Date): Promise<ExchangeTransaction[]> {
+    try {
+      const [trades, withdrawals] = await Promise.all([
+        this.fetchPages<BtcMarketsTrade>('/v3/trades', { marketId: this.marketId('AUD') }, trade => trade.timestamp, since),
+        this.fetchPages<BtcMarketsTransfer>('/v3/withdrawals', {}, transfer => transfer.creationTime, since)
+      ]);
+
+      const transactions: ExchangeTransaction[] = trades.map(trade => ({
+        id: trade.id,
+        type: 'trade' as const,
+        side: trade.side === 'Bid' ? 'buy' as const : 'sell' as const,
+        symbol: trade.marketId,
+        amount: parseFloat(trade.amount),
+        currency: 'BTC',
+        price: parseFloat(trade.price),
+        totalValue: Math.round(this.tradeValue(trade) * 100) / 100,
+        fees: [{ amount: parseFloat(trade.fee || '0'), currency: 'AUD', type: 'trading' as const }],
+        status: 'completed' as const,
+        timestamp: new Date(trade.timestamp),
+        orderId: trade.orderId,
+        rawData: trade
+      }));
+
+      for (const withdrawal of withdrawals.filter(transfer => transfer.assetName === 'BTC')) {
+        const status = this.convertWithdrawalStatus(withdrawal.status);
+
+        transactions.push({
+          id: withdrawal.id,
+          type: 'withdrawal',
+          amount: parseFloat(withdrawal.amount),
+          currency: 'BTC',
+          fees: [{ amount: parseFloat(withdrawal.fee || '0'), currency: 'BTC', type: 'withdrawal' }],
+          status: status === 'confirmed' ? 'completed' : status === 'failed' || status === 'cancelled' ? 'failed' : 'pending',
+          timestamp: new Date(withdrawal.creationTime),
+          rawData: withdrawal
+        });
+      }
+
+      return transactions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get transaction history', 'TRANSACTION_HISTORY_ERROR');
+    }
+  }
+
+  /**
+   * Withdraw Bitcoin. BTC Markets only releases API withdrawals to addresses whitelisted in the account.
+   */
+  async withdrawBitcoin(request: WithdrawalRequest): Promise<WithdrawalResult> {
+    try {
+      this.validateWithdrawalRequest(request);
+
+      if (this.whitelistedAddresses && !this.whitelistedAddresses.has(request.address)) {
+        throw new ExchangeError(
+          `Address ${request.address} is not whitelisted for BTC Markets withdrawals`,
+          'ADDRESS_NOT_WHITELISTED'
+        );
+      }
+
+      const fees = await this.getWithdrawalFees();
+      if (request.amount < fees.btc.minimum) {
+        throw new ExchangeError(
+          `Withdrawal amount ${request.amount} BTC is below minimum ${fees.btc.minimum} BTC`,
+          'BELOW_MINIMUM_WITHDRAWAL'
+        );
+      }
+
+      const body: Record<string, string> = {
+        assetName: 'BTC',
+        amount: request.amount.toFixed(8),
+        toAddress: request.address
+      };
+
+      if (request.description) {
+        body.description = request.description;
+      }
+
+      // Not retried: a timed-out withdrawal may still have been accepted
+      const response = await this.withRetry(
+        () => this.makePrivateRequest<BtcMarketsTransfer>('POST', '/v3/withdrawals', undefined, body),
+        'WITHDRAWAL',
+        0
+      );
+
+      return {
+        ...this.toWithdrawalResult(response, request.address),
+        estimatedConfirmationTime: 60 // ~1 hour for Bitcoin
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to withdraw Bitcoin', 'WITHDRAWAL_ERROR');
+    }
+  }
+
+  /**
+   * Get withdrawal status
+   */
+  async getWithdrawalStatus(withdrawalId: string): Promise<WithdrawalStatus> {
+    try {
+      const response = await this.withRetry(
+        () => this.makePrivateRequest<BtcMarketsTransfer>('GET', `/v3/withdrawals/${encodeURIComponent(withdrawalId)}`)
+      );
+
+      const result = this.toWithdrawalResult(response);
+
+      return {
+        ...result,
+        isComplete: result.status === 'confirmed',
+        failureReason: result.status === 'failed' ? response.status : undefined
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get withdrawal status', 'WITHDRAWAL_STATUS_ERROR');
+    }
+  }
+
+  /**
+   * Get the account's BTC-AUD fee schedule (rates are returned as fractions)
+   */
+  async getTradingFees(): Promise<TradingFees> {
+    try {
+      const response = await this.withRetry(() => this.makePrivateRequest<BtcMarketsTradingFees>('GET', '/v3/accounts/me/trading-fees'));
+      const market = response.feeByMarkets.find(fee => fee.marketId === this.marketId('AUD'));
+
+      if (!market) {
+        throw new ExchangeError('No fee schedule for BTC-AUD', 'NO_FEE_DATA');
+      }
+
+      return {
+        maker: Math.round(parseFloat(market.makerFeeRate) * 1e6) / 1e4,
+        taker: Math.round(parseFloat(market.takerFeeRate) * 1e6) / 1e4,
+        currency: 'percentage'
+      };
+    } catch {
+      // Return published base-tier fees if API call fails
+      return {
+        maker: 0.85,
+        taker: 0.85,
+        currency: 'percentage'
+      };
+    }
+  }
+
+  /**
+   * Get Bitcoin withdrawal fee and minimum from the asset list
+   */
+  async getWithdrawalFees(): Promise<WithdrawalFees> {
+    try {
+      const assets = await this.withRetry(() => this.makePublicRequest<BtcMarketsAsset[]>('/v3/assets'), 'PUBLIC');
+      const btc = assets.find(asset => asset.assetName === 'BTC');
+
+      if (!btc) {
+        throw new ExchangeError('No asset data for BTC', 'NO_FEE_DATA');
+      }
+
+      return {
+        btc: {
+          fixed: parseFloat(btc.withdrawalFee),
+          minimum: parseFloat(btc.minWithdrawalAmount)
+        }
+      };
+    } catch {
+      return {
+        btc: {
+          fixed: 0.0001,
+          minimum: 0.001
+        }
+      };
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Place an order and return its state. Only rate-limit rejections are retried, as those
+   * never reach the matching engine.
+   */
+  private async placeOrder(body: Record<string, string>): Promise<OrderResult> {
+    const response = await this.withRetry(
+      () => this.makePrivateRequest<BtcMarketsOrder>('POST', '/v3/orders', undefined, body),
+      'TRADING',
+      this.retryConfig.maxRetries,
+      error => (error as { statusCode?: number }).statusCode === 429
+    );
+
+    if (!response.orderId) {
+      throw new OrderRejectedError('Order was rejected by exchange');
+    }
+
+    if (response.status === 'Failed') {
+      throw new OrderRejectedError('Order failed on exchange', response.orderId);
+    }
+
+    const status = await this.getOrderStatus(response.orderId);
+
+    return {
+      orderId: status.orderId,
+      status: status.status,
+      side: status.side,
+      symbol: status.symbol,
+      amount: status.amount,
+      filledAmount: status.filledAmount,
+      remainingAmount: status.remainingAmount,
+      averagePrice: status.averagePrice,
+      totalValue: status.totalValue,
+      fees: status.fees,
+      timestamp: new Date(),
+      rawData: response
+    };
+  }
+
+  /**
+   * Page back through a list endpoint (newest first) until records predate `since`
+   */
+  private async fetchPages<T extends { id: string }>(
+    path: string,
+    query: Record<string, string>,
+    timestampOf: (record: T) => string,
+    since?: Date
+  ): Promise<T[]> {
+    const records: T[] = [];
+    let before: string | undefined;
+
+    for (let page = 0; page < HISTORY_MAX_PAGES; page++) {
+      const params: Record<string, string> = { ...query, limit: String(HISTORY_PAGE_SIZE) };
+      if (before) {
+        params.before = before;
+      }
+
+      const batch = await this.withRetry(() => this.makePrivateRequest<T[]>('GET', path, params));
+      const inRange = since ? batch.filter(record => new Date(timestampOf(record)) >= since) : batch;
+      records.push(...inRange);
+
+      if (batch.length < HISTORY_PAGE_SIZE || inRange.length < batch.length) {
+        break;
+      }
+
+      before = batch[batch.length - 1].id;
+    }
+
+    return records;
+  }
+
+  private async makePublicRequest<T>(path: string, query: Record<string, string> = {}): Promise<T> {
+    const search = new URLSearchParams(query).toString();
+    return this.send<T>(`${this.baseUrl}${path}${search ? `?${search}` : ''}`, { method: 'GET' });
+  }
+
+  private async makePrivateRequest<T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    query: Record<string, string> = {},
+    body?: Record<string, string>
+  ): Promise<T> {
+    const timestamp = Date.now().toString();
+    const payload = body ? JSON.stringify(body) : '';
+    const search = new URLSearchParams(query).toString();
+
+    // The signature covers the path only, never the query string
+    return this.send<T>(`${this.baseUrl}${path}${search ? `?${search}` : ''}`, {
+      method,
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'BM-AUTH-APIKEY': this.apiKey,
+        'BM-AUTH-TIMESTAMP': timestamp,
+        'BM-AUTH-SIGNATURE': signBtcMarketsRequest(method, path, timestamp, payload, this.privateKey)
+      },
+      body: payload || undefined
+    });
+  }
+
+  private async send<T>(url: string, init: RequestInit): Promise<T> {
+    return this.circuitBreaker.execute(() =>
+      metricsCollector.trackApiCall(this.circuitBreaker.name, apiOperation(init.method, url), () => this.sendRequest<T>(url, init))
+    );
+  }
+
+  private async sendRequest<T>(url: string, init: RequestInit): Promise<T> {
+    // Proper AbortController implementation
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: controller.signal,
+        headers: {
+          ...init.headers,
+          'User-Agent': 'LIQUID-ABT/1.0 (Australian Bitcoin Treasury)'
+        }
+      });
+
+      const text = await response.text();
+      const data = text ? JSON.parse(text) : null;
+
+      if (!response.ok) {
+        const errorCode: string = data?.code || 'UnknownError';
+        const errorMessage: string = data?.message || response.statusText;
+
+        if (errorCode === 'InsufficientFund') {
+          throw new InsufficientFundsError(0, 0, 'AUD');
+        }
+
+        throw new ExchangeError(
+          `BTC Markets API error: ${errorCode} - ${errorMessage}`,
+          this.getErrorCode(errorCode, response.status),
+          response.status,
+          data
+        );
+      }
+
+      return data as T;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ExchangeError('Request timeout', 'TIMEOUT');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private marketId(currency: string): string {
+    return `BTC-${currency.toUpperCase()}`;
+  }
+
+  private tradeValue(trade: BtcMarketsTrade): number {
+    return trade.valueInQuoteAsset
+      ? parseFloat(trade.valueInQuoteAsset)
+      : parseFloat(trade.amount) * parseFloat(trade.price);
+  }
+
+  private toWithdrawalResult(response: BtcMarketsTransfer, address?: string): WithdrawalResult {
+    return {
+      withdrawalId: response.id,
+      status: this.convertWithdrawalStatus(response.status),
+      currency: 'BTC',
+      amount: parseFloat(response.amount),
+      address: response.paymentDetail?.address || address || '',
+      txId: response.paymentDetail?.txId || undefined,
+      fees: [{
+        amount: parseFloat(response.fee || '0'),
+        currency: 'BTC',
+        type: 'withdrawal'
+      }],
+      timestamp: new Date(response.creationTime),
+      rawData: response
+    };
+  }
+
+  private convertOrderStatus(status: string): OrderStatusType {
+    const statusMap: Record<string, OrderStatusType> = {
+      'Accepted': 'pending',
+      'Placed': 'open',
+      'Partially Matched': 'partially_filled',
+      'Fully Matched': 'filled',
+      'Cancelled': 'cancelled',
+      'Partially Cancelled': 'cancelled',
+      'Failed': 'rejected'
+    };
+
+    return statusMap[status] || 'pending';
+  }
+
+  private convertWithdrawalStatus(status: string): WithdrawalStatusType {
+    const statusMap: Record<string, WithdrawalStatusType> = {
+      'Pending Authorization': 'pending',
+      'Accepted': 'processing',
+      'Pending': 'processing',
+      'Complete': 'confirmed',
+      'Cancelled': 'cancelled',
+      'Failed': 'failed'
+    };
+
+    return statusMap[status] || 'pending';
+  }
+
+  // Validation helpers
+  private validateOrder(order: MarketOrderRequest): void {
+    if (!order.side || !['buy', 'sell'].includes(order.side)) {
+      throw new ExchangeError('Order side must be "buy" or "sell"', 'INVALID_SIDE');
+    }
+
+    if (!order.symbol || order.symbol !== 'BTC') {
+      throw new ExchangeError('Only BTC trading is supported', 'UNSUPPORTED_SYMBOL');
+    }
+
+    if (!order.currency || typeof order.currency !== 'string') {
+      throw new ExchangeError('Order currency is required', 'MISSING_CURRENCY');
+    }
+
+    if (!(order.amount && order.amount > 0) && !(order.value && order.value > 0)) {
+      throw new ExchangeError('Either a positive amount or value must be specified', 'MISSING_ORDER_SIZE');
+    }
+  }
+
+  private validateWithdrawalRequest(request: WithdrawalRequest): void {
+    if (!request.address || typeof request.address !== 'string') {
+      throw new ExchangeError('Withdrawal address is required', 'MISSING_ADDRESS');
+    }
+
+    if (!request.amount || request.amount <= 0) {
+      throw new ExchangeError('Withdrawal amount must be positive', 'INVALID_AMOUNT');
+    }
+
+    if (request.currency !== 'BTC') {
+      throw new ExchangeError('Only BTC withdrawals are supported', 'UNSUPPORTED_CURRENCY');
+    }
+  }
+
+  // Error code mapping
+  private getErrorCode(errorCode: string, statusCode: number): string {
+    if (statusCode === 429) return 'RATE_LIMIT_EXCEEDED';
+    if (errorCode === 'InvalidAuthTimestamp') return 'INVALID_NONCE';
+    if (errorCode === 'InvalidAuthSignature') return 'INVALID_SIGNATURE';
+    if (errorCode === 'InvalidApiKey' || errorCode === 'Forbidden' || statusCode === 401 || statusCode === 403) return 'PERMISSION_DENIED';
+    if (errorCode === 'OrderNotFound' || errorCode === 'NotFound' || statusCode === 404) return 'NOT_FOUND';
+    if (errorCode === 'AddressNotWhitelisted') return 'ADDRESS_NOT_WHITELISTED';
+    if (errorCode === 'InvalidAddress') return 'INVALID_ADDRESS';
+    if (errorCode === 'InvalidMarket') return 'UNKNOWN_PAIR';
+    return 'API_ERROR';
+  }
+
+  private wrapError(error: unknown, message: string, code: string): ExchangeError {
+    if (error instanceof ExchangeError) {
+      return error;
+    }
+    return new ExchangeError(`${message}: ${error instanceof Error ? error.message : 'Unknown error'}`, code);
+  }
+
+  // Retry mechanism with exponential backoff
+  private async withRetry<T>(
+    operation: () => Promise<T>,
+    rateLimitType: RateLimitType = 'PRIVATE',
+    maxRetries: number = this.retryConfig.maxRetries,
+    retryOn: (error: unknown) => boolean = this.retryConfig.retryOn
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        // Apply rate limiting before each attempt
+        await this.applyRateLimit(rateLimitType);
+
+        return await operation();
+      } catch (error) {
+        lastError = error;
+
+        // Don't retry if it's not a retriable error
+        if (!retryOn(error) || attempt === maxRetries) {
+          throw error;
+        }
+
+        // Exponential backoff with jitter
+        const backoffMs = this.retryConfig.backoffMs * Math.pow(2, attempt) + Math.random() * 1000;
+        await new Promise(resolve => setTimeout(resolve, backoffMs));
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Rate limiting implementation
+  private async applyRateLimit(type: RateLimitType): Promise<void> {
+    // Skip rate limiting in test environment
+    if (process.env.NODE_ENV === 'test') {
+      return;
+    }
+
+    // The limiter keys on path, so each endpoint type gets its own budget
+    const response = await this.rateLimiters[type](
+      new NextRequest(`${BTC_MARKETS_BASE_URL}/rate-limit/${type.toLowerCase()}`, { method: 'POST' })
+    );
+
+    if (response?.status === 429) {
+      throw new ExchangeError(`Rate limit exceeded for ${type} API`, 'RATE_LIMIT_EXCEEDED', 429);
+    }
+  }
+}
@@ -0,0 +1,830 @@
+// LIQUID ABT - Coinbase Advanced Trade Integration
+// Trading goes through the Advanced Trade (brokerage) API; on-chain sends still use the v2
+// accounts API. Both authenticate with a short-lived ES256 JWT signed by a CDP API key.
+
+import { randomBytes, randomUUID } from 'crypto';
+import { sign } from 'jsonwebtoken';
+import {
+  ExchangeProvider,
+  ExchangeProviderType,
+  MarketPrice,
+  OrderBook,
+  MarketOrderRequest,
+  LimitOrderRequest,
+  OrderResult,
+  OrderStatus,
+  ExchangeBalance,
+  ExchangeTransaction,
+  WithdrawalRequest,
+  WithdrawalResult,
+  WithdrawalStatus,
+  TradingFees,
+  WithdrawalFees,
+  ExchangeError,
+  InsufficientFundsError,
+  OrderRejectedError,
+  OrderStatusType,
+  WithdrawalStatusType
+} from './interface';
+import { CircuitBreakerFactory } from '../../patterns/circuit-breaker';
+import { apiOperation, metricsCollector } from '../../monitoring/metrics';
+
+// Retry configuration
+interface RetryConfig {
+  maxRetries: number;
+  backoffMs: number;
+  retryOn: (error: unknown) => boolean;
+}
+
+export const COINBASE_API_HOST = 'api.coinbase.com';
+const BROKERAGE_PATH = '/api/v3/brokerage';
+
+// CDP JWTs are valid for two minutes; a fresh one is signed for every request
+const JWT_LIFETIME_SECONDS = 120;
+
+// Coinbase does not expose BTC network fees ahead of a send; this is a typical estimate
+const BTC_WITHDRAWAL_FEE_ESTIMATE = 0.0001;
+const MINIMUM_BTC_WITHDRAWAL = 0.0001;
+
+const DEFAULT_TRADING_FEES: TradingFees = { maker: 0.4, taker: 0.6, currency: 'percentage' };
+
+// Coinbase response shapes (amounts are decimal strings)
+interface CoinbaseProduct {
+  product_id: string;
+  price: string;
+  price_percentage_change_24h: string;
+  volume_24h: string;
+}
+
+interface CoinbasePriceBook {
+  product_id: string;
+  bids: Array<{ price: string; size: string }>;
+  asks: Array<{ price: string; size: string }>;
+  time?: string;
+}
+
+// Keyed by order type, e.g. { market_market_ioc: { quote_size: '1000.00' } }
+type CoinbaseOrderConfiguration = Record<string, Record<string, string | boolean>>;
+
+interface CoinbaseCreateOrderResponse {
+  success: boolean;
+  success_response?: { order_id: string; product_id: string; side: string; client_order_id: string };
+  error_response?: { error: string; message: string; error_details?: string; preview_failure_reason?: string };
+}
+
+interface CoinbaseOrder {
+  order_id: string;
+  product_id: string;
+  side: 'BUY' | 'SELL';
+  status: string;
+  created_time: string;
+  filled_size: string;
+  average_filled_price: string;
+  filled_value: string;
+  total_fees: string;
+  completion_percentage?: string;
+  reject_reason?: string;
+  cancel_message?: string;
+  order_configuration: Record<string, { base_size?: string; quote_size?: string; limit_price?: string }>;
+}
+
+interface CoinbaseAccount {
+  uuid: string;
+  currency: string;
+  available_balance: { value: string; currency: string };
+  hold: { value: string; currency: string };
+}
+
+interface CoinbaseFill {
+  entry_id: string;
+  trade_id: string;
+  order_id: string;
+  trade_time: string;
+  price: string;
+  size: string;
+  commission: string;
+  product_id: string;
+  side: 'BUY' | 'SELL';
+  size_in_quote: boolean;
+}
+
+interface CoinbaseTransactionSummary {
+  fee_tier: { maker_fee_rate: string; taker_fee_rate: string };
+}
+
+interface CoinbaseSend {
+  id: string;
+  type: string;
+  status: string;
+  amount: { amount: string; currency: string };
+  created_at: string;
+  network?: { status?: string; hash?: string; transaction_fee?: { amount: string; currency: string } };
+  to?: { address?: string };
+}
+
+export interface CoinbaseCredentials {
+  apiKey?: string;      // CDP key name: organizations/{org_id}/apiKeys/{key_id}
+  apiKeyName?: string;
+  privateKey?: string;  // EC private key (PEM)
+  baseUrl?: string;
+  timeout?: number;
+}
+
+function toNumber(value: string | undefined | null): number {
+  return value ? parseFloat(value) || 0 : 0;
+}
+
+/**
+ * Sign a CDP API JWT for one request. The `uri` claim binds the token to the method and path.
+ */
+export function signCoinbaseJwt(keyName: string, privateKey: string, method: string, host: string, path: string): string {
+  const now = Math.floor(Date.now() / 1000);
+
+  return sign(
+    {
+      sub: keyName,
+      iss: 'cdp',
+      nbf: now,
+      exp: now + JWT_LIFETIME_SECONDS,
+      uri: `${method} ${host}${path}`
+    },
+    privateKey,
+    {
+      algorithm: 'ES256',
+      header: { alg: 'ES256', kid: keyName, nonce: randomBytes(16).toString('hex') } as { alg: 'ES256'; kid: string }
+    }
+  );
+}
+
+export class CoinbaseProvider implements ExchangeProvider {
+  public readonly name = 'Coinbase Advanced';
+  public readonly type: ExchangeProviderType = 'coinbase';
+
+  private readonly keyName: string;
+  private readonly privateKey: string;
+  private readonly baseUrl: string;
+  private readonly host: string;
+  private readonly timeoutMs: number;
+  private btcAccountId?: string;
+  private readonly circuitBreaker = CircuitBreakerFactory.createExchangeApiBreaker('coinbase');
+  private readonly retryConfig: RetryConfig = {
+    maxRetries: 3,
+    backoffMs: 1000,
+    retryOn: (error: unknown) => {
+      // Retry on network errors, rate limits, and 5xx server errors
+      const { code, statusCode } = error as { code?: string; statusCode?: number };
+      return code === 'ECONNRESET' ||
+             code === 'ENOTFOUND' ||
+             code === 'ETIMEDOUT' ||
+             code === 'TIMEOUT' ||
+             statusCode === 429 ||
+             (statusCode !== undefined && statusCode >= 500 && statusCode < 600);
+    }
+  };
+
+  constructor(credentials: CoinbaseCredentials = {}) {
+    this.keyName = credentials.apiKeyName || credentials.apiKey || process.env.COINBASE_API_KEY_NAME!;
+    // PEM keys stored in env vars usually have escaped newlines
+    this.privateKey = (credentials.privateKey || process.env.COINBASE_API_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+    this.baseUrl = (credentials.baseUrl || `https://${COINBASE_API_HOST}`).replace(/\/$/, '');
+    this.host = new URL(this.baseUrl).host;
+    this.timeoutMs = credentials.timeout || 15000;
+
+    if (!this.keyName || !this.privateKey) {
+      throw new Error('Coinbase API key name and private key are required');
+    }
+  }
+
+  /**
+   * Get current Bitcoin price
+   */
+  async getCurrentPrice(currency = 'AUD'): Promise<MarketPrice> {
+    try {
+      const productId = this.productId(currency);
+      const [product, book] = await Promise.all([
+        this.withRetry(() => this.brokerage<CoinbaseProduct>('GET', `/products/${productId}`)),
+        this.withRetry(() => this.brokerage<{ pricebook: CoinbasePriceBook }>('GET', `/product_book?product_id=${productId}&limit=1`))
+      ]);
+
+      const price = toNumber(product.price);
+      if (!price || price <= 0) {
+        throw new ExchangeError(`Invalid price data: ${product.price}`, 'INVALID_PRICE_DATA');
+      }
+
+      const changePercent = toNumber(product.price_percentage_change_24h);
+
+      return {
+        symbol: 'BTC',
+        price,
+        currency,
+        timestamp: new Date(),
+        volume24h: toNumber(product.volume_24h),
+        change24h: price - price / (1 + changePercent / 100),
+        changePercent24h: changePercent,
+        bid: toNumber(book.pricebook.bids[0]?.price) || price,
+        ask: toNumber(book.pricebook.asks[0]?.price) || price
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get current price', 'PRICE_FETCH_ERROR');
+    }
+  }
+
+  /**
+   * Get order book depth
+   */
+  async getOrderBook(pair = 'XBTAUD'): Promise<OrderBook> {
+    try {
+      const quote = pair.replace(/^(XBT|BTC)[-/]?/i, '') || 'AUD';
+      const productId = this.productId(quote);
+      const response = await this.withRetry(() => this.brokerage<{ pricebook: CoinbasePriceBook }>(
+        'GET',
+        `/product_book?product_id=${productId}&limit=50`
+      ));
+      const level = (entry: { price: string; size: string }): [number, number] =>
+        [toNumber(entry.price), toNumber(entry.size)];
+
+      return {
+        symbol: pair,
+        bids: response.pricebook.bids.map(level),
+        asks: response.pricebook.asks.map(level),
+        timestamp: response.pricebook.time ? new Date(response.pricebook.time) : new Date()
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get order book', 'ORDER_BOOK_ERROR');
+    }
+  }
+
+  /**
+   * Create market order. Buys sized by value spend quote currency; otherwise size is in BTC.
+   */
+  async createMarketOrder(order: MarketOrderRequest): Promise<OrderResult> {
+    try {
+      this.validateOrder(order);
+
+      const sizing: Record<string, string> = order.amount
+        ? { base_size: order.amount.toFixed(8) }
+        : { quote_size: order.value!.toFixed(2) };
+
+      return await this.placeOrder(order, { market_market_ioc: sizing });
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to create market order', 'ORDER_CREATION_ERROR');
+    }
+  }
+
+  /**
+   * Create limit order (GTC by default; IOC and FOK map to Coinbase's dedicated configurations)
+   */
+  async createLimitOrder(order: LimitOrderRequest): Promise<OrderResult> {
+    try {
+      this.validateOrder(order);
+
+      if (!order.price || order.price <= 0) {
+        throw new ExchangeError('Limit price must be positive', 'INVALID_PRICE');
+      }
+
+      const limit = {
+        base_size: (order.amount || order.value! / order.price).toFixed(8),
+        limit_price: order.price.toFixed(2)
+      };
+      const configuration: CoinbaseOrderConfiguration =
+        order.timeInForce === 'IOC' ? { sor_limit_ioc: limit } :
+        order.timeInForce === 'FOK' ? { limit_limit_fok: limit } :
+        { limit_limit_gtc: { ...limit, post_only: false } };
+
+      const result = await this.placeOrder(order, configuration);
+      return { ...result, averagePrice: result.averagePrice || order.price };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to create limit order', 'LIMIT_ORDER_ERROR');
+    }
+  }
+
+  /**
+   * Get order status by order ID
+   */
+  async getOrderStatus(orderId: string): Promise<OrderStatus> {
+    try {
+      const response = await this.withRetry(() => this.brokerage<{ order: CoinbaseOrder }>(
+        'GET',
+        `/orders/historical/${encodeURIComponent(orderId)}`
+      ));
+      return this.toOrderStatus(response.order);
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get order status', 'ORDER_STATUS_ERROR');
+    }
+  }
+
+  /**
+   * Cancel an open order and return its final state (including any partial fill)
+   */
+  async cancelOrder(orderId: string): Promise<OrderStatus> {
+    try {
+      const response = await this.withRetry(() => this.brokerage<{ results: Array<{ success: boolean; failure_reason?: string; order_id: string }> }>(
+        'POST',
+        '/orders/batch_cancel',
+        { order_ids: [orderId] }
+      ));
+      const result = response.results?.[0];
+
+      // Already-filled or already-cancelled orders report a failure reason; the status below is authoritative
+      if (result && !result.success && result.failure_reason === 'UNKNOWN_CANCEL_ORDER') {
+        throw new ExchangeError(`Order ${orderId} not found`, 'NOT_FOUND', 404);
+      }
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to cancel order', 'ORDER_CANCEL_ERROR');
+    }
+
+    return this.getOrderStatus(orderId);
+  }
+
+  /**
+   * Get AUD and BTC balances
+   */
+  async getBalance(): Promise<ExchangeBalance> {
+    try {
+      const accounts = await this.getAccounts();
+      const find = (currency: string) => accounts.find(account => account.currency === currency);
+
+      const aud = find('AUD');
+      const btc = find('BTC');
+      const audAvailable = toNumber(aud?.available_balance.value);
+      const audHold = toNumber(aud?.hold.value);
+      const btcAvailable = toNumber(btc?.available_balance.value);
+      const btcHold = toNumber(btc?.hold.value);
+
+      return {
+        currency: 'AUD',
+        available: audAvailable,
+        total: audAvailable + audHold,
+        btc: {
+          available: btcAvailable,
+          total: btcAvailable + btcHold,
+          reserved: btcHold
+        }
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get balance', 'BALANCE_ERROR');
+    }
+  }
+
+  /**
+   * Get BTC fills, newest first
+   */
+  async getTransactionHistory(since?: Date): Promise<ExchangeTransaction[]> {
+    try {
+      const transactions: ExchangeTransaction[] = [];
+      let cursor = '';
+
+      do {
+        const query = new URLSearchParams({ limit: '100' });
+        if (since) query.set('start_sequence_timestamp', since.toISOString());
+        if (cursor) query.set('cursor', cursor);
+
+        const response = await this.withRetry(() => this.brokerage<{ fills: CoinbaseFill[]; cursor?: string }>(
+          'GET',
+          `/orders/historical/fills?${query.toString()}`
+        ));
+
+        for (const fill of response.fills || []) {
+          const [base, quote] = fill.product_id.split('-');
+          if (base !== 'BTC') continue;
+
+          const price = toNumber(fill.price);
+          const size = toNumber(fill.size);
+          // Fills sized in quote currency report size as the quote amount
+          const amount = fill.size_in_quote ? size / price : size;
+
+          transactions.push({
+            id: fill.entry_id || fill.trade_id,
+            type: 'trade',
+            side: fill.side === 'BUY' ? 'buy' : 'sell',
+            symbol: `BTC/${quote}`,
+            amount,
+            currency: 'BTC',
+            price,
+            totalValue: amount * price,
+            fees: [{ amount: toNumber(fill.commission), currency: quote, type: 'trading' }],
+            status: 'completed',
+            timestamp: new Date(fill.trade_time),
+            orderId: fill.order_id,
+            rawData: fill
+          });
+        }
+
+        cursor = response.cursor || '';
+      } while (cursor);
+
+      return transactions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get transaction history', 'TRANSACTION_HISTORY_ERROR');
+    }
+  }
+
+  /**
+   * Send Bitcoin on-chain from the BTC account
+   */
+  async withdrawBitcoin(request: WithdrawalRequest): Promise<WithdrawalResult> {
+    try {
+      this.validateWithdrawalRequest(request);
+
+      const fees = await this.getWithdrawalFees();
+      if (request.amount < fees.btc.minimum) {
+        throw new ExchangeError(
+          `Withdrawal amount ${request.amount} BTC is below minimum ${fees.btc.minimum} BTC`,
+          'BELOW_MINIMUM_WITHDRAWAL'
+        );
+      }
+
+      const accountId = await this.getBtcAccountId();
+
+      // Not retried: the idempotency key protects against duplicates, but a timed-out send
+      // should be confirmed via getWithdrawalStatus rather than replayed blindly
+      const response = await this.request<{ data: CoinbaseSend }>(
+        'POST',
+        `/v2/accounts/${accountId}/transactions`,
+        {
+          type: 'send',
+          to: request.address,
+          amount: request.amount.toFixed(8),
+          currency: 'BTC',
+          description: request.description,
+          idem: randomUUID()
+        }
+      );
+
+      return {
+        ...this.toWithdrawalResult(response.data, request.address),
+        amount: request.amount,
+        estimatedConfirmationTime: 60 // ~1 hour for Bitcoin
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to withdraw Bitcoin', 'WITHDRAWAL_ERROR');
+    }
+  }
+
+  /**
+   * Get withdrawal status
+   */
+  async getWithdrawalStatus(withdrawalId: string): Promise<WithdrawalStatus> {
+    try {
+      const accountId = await this.getBtcAccountId();
+      const response = await this.withRetry(() => this.request<{ data: CoinbaseSend }>(
+        'GET',
+        `/v2/accounts/${accountId}/transactions/${encodeURIComponent(withdrawalId)}`
+      ));
+      const result = this.toWithdrawalResult(response.data);
+
+      return {
+        ...result,
+        amount: Math.abs(result.amount),
+        confirmations: result.status === 'confirmed' ? 1 : 0,
+        isComplete: result.status === 'confirmed',
+        failureReason: result.status === 'failed' ? response.data.status : undefined
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get withdrawal status', 'WITHDRAWAL_STATUS_ERROR');
+    }
+  }
+
+  /**
+   * Get trading fees for the account's current volume tier
+   */
+  async getTradingFees(): Promise<TradingFees> {
+    try {
+      const summary = await this.withRetry(() => this.brokerage<CoinbaseTransactionSummary>('GET', '/transaction_summary'));
+
+      return {
+        maker: Math.round(toNumber(summary.fee_tier.maker_fee_rate) * 10000) / 100,
+        taker: Math.round(toNumber(summary.fee_tier.taker_fee_rate) * 10000) / 100,
+        currency: 'percentage'
+      };
+    } catch {
+      // Fallback to Coinbase's entry-tier fees
+      return DEFAULT_TRADING_FEES;
+    }
+  }
+
+  /**
+   * Get withdrawal fees (network fees are estimated by Coinbase at send time)
+   */
+  async getWithdrawalFees(): Promise<WithdrawalFees> {
+    return {
+      btc: {
+        fixed: BTC_WITHDRAWAL_FEE_ESTIMATE,
+        minimum: MINIMUM_BTC_WITHDRAWAL
+      }
+    };
+  }
+
+  // Private helper methods
+
+  private productId(currency: string): string {
+    return `BTC-${currency.toUpperCase()}`;
+  }
+
+  private async placeOrder(
+    order: MarketOrderRequest,
+    configuration: CoinbaseOrderConfiguration
+  ): Promise<OrderResult> {
+    // Only rate limits are retried: any other failure may have reached the matching engine
+    const response = await this.withRetry(
+      () => this.brokerage<CoinbaseCreateOrderResponse>('POST', '/orders', {
+        client_order_id: randomUUID(),
+        product_id: this.productId(order.currency),
+        side: order.side === 'buy' ? 'BUY' : 'SELL',
+        order_configuration: configuration
+      }),
+      error => (error as { statusCode?: number }).statusCode === 429
+    );
+
+    if (!response.success || !response.success_response) {
+      const failure = response.error_response;
+      const reason = failure?.preview_failure_reason || failure?.error || 'UNKNOWN_FAILURE_REASON';
+
+      if (/INSUFFICIENT_FUND/i.test(reason)) {
+        throw new InsufficientFundsError(0, 0, order.currency);
+      }
+
+      throw new OrderRejectedError(failure?.message || failure?.error_details || reason);
+    }
+
+    const status = await this.getOrderStatus(response.success_response.order_id);
+
+    if (status.status === 'rejected') {
+      throw new OrderRejectedError('Order failed on exchange', status.orderId);
+    }
+
+    return {
+      orderId: status.orderId,
+      status: status.status,
+      side: status.side,
+      symbol: status.symbol,
+      amount: status.amount,
+      filledAmount: status.filledAmount,
+      remainingAmount: status.remainingAmount,
+      averagePrice: status.averagePrice,
+      totalValue: status.totalValue,
+      fees: status.fees,
+      timestamp: new Date(),
+      rawData: response
+    };
+  }
+
+  private toOrderStatus(order: CoinbaseOrder): OrderStatus {
+    const status = this.convertOrderStatus(order);
+    const config = Object.values(order.order_configuration || {})[0] || {};
+    const filledAmount = toNumber(order.filled_size);
+    const averagePrice = toNumber(order.average_filled_price) || toNumber(config.limit_price);
+    const amount = config.base_size
+      ? toNumber(config.base_size)
+      : status === 'filled' || !averagePrice ? filledAmount : toNumber(config.quote_size) / averagePrice;
+    const isTerminal = ['filled', 'cancelled', 'rejected'].includes(status);
+    const quote = order.product_id.split('-')[1] || 'AUD';
+    const totalFees = toNumber(order.total_fees);
+
+    return {
+      orderId: order.order_id,
+      status,
+      side: order.side === 'BUY' ? 'buy' : 'sell',
+      symbol: 'BTC',
+      amount,
+      filledAmount,
+      remainingAmount: isTerminal ? 0 : Math.max(0, amount - filledAmount),
+      averagePrice,
+      totalValue: toNumber(order.filled_value) || filledAmount * averagePrice,
+      fees: totalFees > 0 ? [{ amount: totalFees, currency: quote, type: 'trading' }] : [],
+      timestamp: new Date(order.created_time),
+      isComplete: status === 'filled',
+      isCancelled: status === 'cancelled',
+      rawData: order
+    };
+  }
+
+  private toWithdrawalResult(send: CoinbaseSend, address?: string): WithdrawalResult {
+    const networkFee = send.network?.transaction_fee;
+
+    return {
+      withdrawalId: send.id,
+      status: this.convertWithdrawalStatus(send.status),
+      currency: 'BTC',
+      // Sends are recorded as negative amounts on the sending account
+      amount: Math.abs(toNumber(send.amount.amount)),
+      address: send.to?.address || address || '',
+      txId: send.network?.hash,
+      fees: [{
+        amount: networkFee ? toNumber(networkFee.amount) : BTC_WITHDRAWAL_FEE_ESTIMATE,
+        currency: 'BTC',
+        type: 'withdrawal'
+      }],
+      timestamp: new Date(send.created_at),
+      rawData: send
+    };
+  }
+
+  private async getAccounts(): Promise<CoinbaseAccount[]> {
+    const accounts: CoinbaseAccount[] = [];
+    let cursor = '';
+
+    do {
+      const response = await this.withRetry(() => this.brokerage<{ accounts: CoinbaseAccount[]; has_next: boolean; cursor: string }>(
+        'GET',
+        `/accounts?limit=250${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`
+      ));
+      accounts.push(...(response.accounts || []));
+      cursor = response.has_next ? response.cursor : '';
+    } while (cursor);
+
+    return accounts;
+  }
+
+  private async getBtcAccountId(): Promise<string> {
+    if (!this.btcAccountId) {
+      const btc = (await this.getAccounts()).find(account => account.currency === 'BTC');
+
+      if (!btc) {
+        throw new ExchangeError('No BTC account found on Coinbase', 'NOT_FOUND', 404);
+      }
+
+      this.btcAccountId = btc.uuid;
+    }
+
+    return this.btcAccountId;
+  }
+
+  private brokerage<T>(method: 'GET' | 'POST', path: string, body?: Record<string, unknown>): Promise<T> {
+    return this.request<T>(method, `${BROKERAGE_PATH}${path}`, body);
+  }
+
+  private async request<T>(method: 'GET' | 'POST', pathWithQuery: string, body?: Record<string, unknown>): Promise<T> {
+    return this.circuitBreaker.execute(() =>
+      metricsCollector.trackApiCall(this.circuitBreaker.name, apiOperation(method, pathWithQuery), () => this.sendRequest<T>(method, pathWithQuery, body))
+    );
+  }
+
+  private async sendRequest<T>(method: 'GET' | 'POST', pathWithQuery: string, body?: Record<string, unknown>): Promise<T> {
+    // The JWT uri claim covers the path only, not the query string
+    const path = pathWithQuery.split('?')[0];
+    const token = signCoinbaseJwt(this.keyName, this.privateKey, method, this.host, path);
+
+    // Proper AbortController implementation
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${pathWithQuery}`, {
+        method,
+        signal: controller.signal,
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+          'User-Agent': 'LIQUID-ABT/1.0 (Australian Bitcoin Treasury)'
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+
+      const text = await response.text();
+      const data = text ? JSON.parse(text) : null;
+
+      if (!response.ok) {
+        // Advanced Trade returns {error, message}; v2 returns {errors: [{id, message}]}
+        const errorName: string = data?.error || data?.errors?.[0]?.id || 'UnknownError';
+        const errorMessage: string = data?.message || data?.errors?.[0]?.message || response.statusText;
+
+        if (/insufficient/i.test(`${errorName} ${errorMessage}`)) {
+          throw new InsufficientFundsError(0, 0, 'AUD');
+        }
+
+        throw new ExchangeError(
+          `Coinbase API error: ${errorName} - ${errorMessage}`,
+          this.getErrorCode(`${errorName} ${errorMessage}`, response.status),
+          response.status,
+          data
+        );
+      }
+
+      return data as T;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ExchangeError('Request timeout', 'TIMEOUT');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private convertOrderStatus(order: CoinbaseOrder): OrderStatusType {
+    const filled = toNumber(order.filled_size) > 0;
+
+    switch (order.status) {
+      case 'PENDING':
+      case 'QUEUED':
+        return 'pending';
+      case 'OPEN':
+        return filled ? 'partially_filled' : 'open';
+      case 'FILLED':
+        return 'filled';
+      case 'CANCELLED':
+      case 'CANCEL_QUEUED':
+      case 'EXPIRED':
+        return 'cancelled';
+      case 'FAILED':
+        return 'rejected';
+      default:
+        return 'pending';
+    }
+  }
+
+  private convertWithdrawalStatus(status: string): WithdrawalStatusType {
+    const statusMap: Record<string, WithdrawalStatusType> = {
+      'pending': 'pending',
+      'waiting_for_signature': 'pending',
+      'waiting_for_clearing': 'processing',
+      'off_blockchain': 'processing',
+      'completed': 'confirmed',
+      'failed': 'failed',
+      'expired': 'failed',
+      'canceled': 'cancelled'
+    };
+
+    return statusMap[status] || 'pending';
+  }
+
+  // Validation helpers
+  private validateOrder(order: MarketOrderRequest): void {
+    if (!order.side || !['buy', 'sell'].includes(order.side)) {
+      throw new ExchangeError('Order side must be "buy" or "sell"', 'INVALID_SIDE');
+    }
+
+    if (!order.symbol || order.symbol !== 'BTC') {
+      throw new ExchangeError('Only BTC trading is supported', 'UNSUPPORTED_SYMBOL');
+    }
+
+    if (!order.currency) {
+      throw new ExchangeError('Order currency is required', 'MISSING_CURRENCY');
+    }
+
+    if (!(order.amount && order.amount > 0) && !(order.value && order.value > 0)) {
+      throw new ExchangeError('Either a positive amount or value must be specified', 'MISSING_ORDER_SIZE');
+    }
+  }
+
+  private validateWithdrawalRequest(request: WithdrawalRequest): void {
+    if (!request.address || typeof request.address !== 'string') {
+      throw new ExchangeError('Withdrawal address is required', 'MISSING_ADDRESS');
+    }
+
+    if (!request.amount || request.amount <= 0) {
+      throw new ExchangeError('Withdrawal amount must be positive', 'INVALID_AMOUNT');
+    }
+
+    if (request.currency !== 'BTC') {
+      throw new ExchangeError('Only BTC withdrawals are supported', 'UNSUPPORTED_CURRENCY');
+    }
+  }
+
+  // Error code mapping
+  private getErrorCode(error: string, statusCode: number): string {
+    if (statusCode === 429 || /rate_limit|rate limit/i.test(error)) return 'RATE_LIMIT_EXCEEDED';
+    if (statusCode === 401 || /unauthenticated|invalid.*(token|signature)/i.test(error)) return 'INVALID_SIGNATURE';
+    if (statusCode === 403 || /permission/i.test(error)) return 'PERMISSION_DENIED';
+    if (statusCode === 404 || /not_found/i.test(error)) return 'NOT_FOUND';
+    if (/address/i.test(error)) return 'INVALID_ADDRESS';
+    if (/product/i.test(error)) return 'UNKNOWN_PAIR';
+    return 'API_ERROR';
+  }
+
+  private wrapError(error: unknown, message: string, code: string): ExchangeError {
+    if (error instanceof ExchangeError) {
+      return error;
+    }
+    return new ExchangeError(`${message}: ${error instanceof Error ? error.message : 'Unknown error'}`, code);
+  }
+
+  // Retry mechanism with exponential backoff
+  private async withRetry<T>(
+    operation: () => Promise<T>,
+    retryOn: (error: unknown) => boolean = this.retryConfig.retryOn
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error;
+
+        // Don't retry if it's not a retriable error
+        if (!retryOn(error) || attempt === this.retryConfig.maxRetries) {
+          throw error;
+        }
+
+        // Exponential backoff with jitter
+        const backoffMs = this.retryConfig.backoffMs * Math.pow(2, attempt) + Math.random() * 1000;
+        await new Promise(resolve => setTimeout(resolve, backoffMs));
+      }
+    }
+
+    throw lastError;
+  }
+}
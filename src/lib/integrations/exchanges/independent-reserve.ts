@@ -0,0 +1,797 @@
+// LIQUID ABT - Independent Reserve Exchange Integration
+// AUD-native, AUSTRAC-registered Australian exchange. Public endpoints are plain GETs; private
+// endpoints are JSON POSTs signed with HMAC-SHA256 over the URL, API key, nonce and parameters.
+
+import crypto from 'crypto';
+import {
+  ExchangeProvider,
+  ExchangeProviderType,
+  MarketPrice,
+  OrderBook,
+  MarketOrderRequest,
+  LimitOrderRequest,
+  OrderResult,
+  OrderStatus,
+  ExchangeBalance,
+  ExchangeTransaction,
+  WithdrawalRequest,
+  WithdrawalResult,
+  WithdrawalStatus,
+  TradingFees,
+  WithdrawalFees,
+  OrderFee,
+  ExchangeError,
+  InsufficientFundsError,
+  OrderRejectedError,
+  OrderStatusType,
+  WithdrawalStatusType
+} from './interface';
+import { CircuitBreakerFactory } from '../../patterns/circuit-breaker';
+import { apiOperation, metricsCollector } from '../../monitoring/metrics';
+
+/**
+ * Fetch-compatible transport, so recorded fixtures can stand in for the live API
+ */
+export type IndependentReserveFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface IndependentReserveCredentials {
+  apiKey?: string;
+  apiSecret?: string;
+  privateKey?: string; // Alias of apiSecret, matching how exchange integrations store secrets
+  baseUrl?: string;
+  timeout?: number;
+  fetch?: IndependentReserveFetch;
+}
+
+export const INDEPENDENT_RESERVE_BASE_URL = 'https://api.independentreserve.com';
+
+// Independent Reserve response shapes (only the fields this provider reads)
+type IrNumber = number | string | null;
+
+interface IrMarketSummary {
+  LastPrice: IrNumber;
+  DayAvgPrice: IrNumber;
+  CurrentHighestBidPrice: IrNumber;
+  CurrentLowestOfferPrice: IrNumber;
+  DayVolumeXbt: IrNumber;
+  CreatedTimestampUtc?: string;
+}
+
+interface IrOrderBook {
+  BuyOrders?: Array<{ Price: IrNumber; Volume: IrNumber }>;
+  SellOrders?: Array<{ Price: IrNumber; Volume: IrNumber }>;
+  CreatedTimestampUtc?: string;
+}
+
+interface IrOrder {
+  OrderGuid: string;
+  CreatedTimestampUtc: string;
+  Type: string;
+  VolumeOrdered: IrNumber;
+  VolumeFilled: IrNumber;
+  Price: IrNumber;
+  AvgPrice: IrNumber;
+  Status: string;
+  SecondaryCurrencyCode?: string;
+  VolumeCurrencyType?: 'Primary' | 'Secondary';
+  Value?: IrNumber;
+  FeePercent?: IrNumber;
+}
+
+interface IrAccount {
+  CurrencyCode: string;
+  AvailableBalance: IrNumber;
+  TotalBalance: IrNumber;
+}
+
+interface IrTrade {
+  TradeGuid: string;
+  TradeTimestampUtc: string;
+  OrderGuid: string;
+  OrderType: string;
+  VolumeTraded: IrNumber;
+  Price: IrNumber;
+  PrimaryCurrencyCode: string;
+  SecondaryCurrencyCode: string;
+  TradeFee?: IrNumber;
+  TradeFeeCurrencyCode?: string;
+}
+
+interface IrTradePage {
+  Data?: IrTrade[];
+  TotalPages?: number;
+}
+
+interface IrCryptoWithdrawal {
+  TransactionGuid: string;
+  CreatedTimestampUtc: string;
+  Amount?: { Total: IrNumber; Fee: IrNumber };
+  Destination?: { Address: string };
+  Status: string;
+  Transaction?: { Hash: string } | null;
+}
+
+interface IrFee {
+  CurrencyCode: string;
+  Fee: IrNumber;
+}
+
+const PRIMARY_CURRENCY = 'Xbt';
+const HISTORY_PAGE_SIZE = 50;
+const HISTORY_MAX_PAGES = 10;
+
+// Published defaults, used when the fee endpoints are unavailable
+const DEFAULT_BROKERAGE_FEE_PERCENT = 0.5;
+const DEFAULT_BTC_WITHDRAWAL_FEE = 0.0001;
+const MINIMUM_BTC_WITHDRAWAL = 0.0002;
+
+/**
+ * Sign a private request. The message is the full URL followed by apiKey, nonce and each
+ * parameter as key=value, comma separated and in the same order as the request body.
+ */
+export function signIndependentReserveRequest(
+  url: string,
+  apiKey: string,
+  nonce: number,
+  params: Record<string, string | number>,
+  apiSecret: string
+): string {
+  const message = [
+    url,
+    `apiKey=${apiKey}`,
+    `nonce=${nonce}`,
+    ...Object.entries(params).map(([key, value]) => `${key}=${value}`)
+  ].join(',');
+
+  return crypto.createHmac('sha256', Buffer.from(apiSecret, 'utf8')).update(message).digest('hex').toUpperCase();
+}
+
+function toNumber(value: IrNumber | undefined): number {
+  return value === null || value === undefined ? 0 : parseFloat(String(value)) || 0;
+}
+
+export class IndependentReserveProvider implements ExchangeProvider {
+  public readonly name = 'Independent Reserve';
+  public readonly type: ExchangeProviderType = 'independent_reserve';
+
+  private readonly apiKey: string;
+  private readonly apiSecret: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly fetchFn: IndependentReserveFetch;
+  private lastNonce = 0;
+  private readonly circuitBreaker = CircuitBreakerFactory.createExchangeApiBreaker('independent_reserve');
+
+  constructor(credentials: IndependentReserveCredentials = {}) {
+    this.apiKey = credentials.apiKey || process.env.IR_API_KEY!;
+    this.apiSecret = credentials.apiSecret || credentials.privateKey || process.env.IR_API_SECRET!;
+    this.baseUrl = (credentials.baseUrl || process.env.IR_API_URL || INDEPENDENT_RESERVE_BASE_URL).replace(/\/$/, '');
+    this.timeoutMs = credentials.timeout || 15000;
+    this.fetchFn = credentials.fetch || ((url, init) => fetch(url, init));
+
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('Independent Reserve API key and secret are required');
+    }
+  }
+
+  /**
+   * Get current Bitcoin price from the market summary
+   */
+  async getCurrentPrice(currency = 'AUD'): Promise<MarketPrice> {
+    try {
+      const summary = await this.withRetry(() => this.makePublicRequest<IrMarketSummary>('GetMarketSummary', {
+        primaryCurrencyCode: PRIMARY_CURRENCY,
+        secondaryCurrencyCode: this.toCurrencyCode(currency)
+      }));
+
+      const price = toNumber(summary.LastPrice);
+      if (!price || price <= 0) {
+        throw new ExchangeError(`Invalid price data: ${summary.LastPrice}`, 'INVALID_PRICE_DATA');
+      }
+
+      const dayAverage = toNumber(summary.DayAvgPrice);
+      const change24h = dayAverage > 0 ? price - dayAverage : 0;
+
+      return {
+        symbol: 'BTC',
+        price,
+        currency,
+        timestamp: summary.CreatedTimestampUtc ? new Date(summary.CreatedTimestampUtc) : new Date(),
+        bid: toNumber(summary.CurrentHighestBidPrice) || price,
+        ask: toNumber(summary.CurrentLowestOfferPrice) || price,
+        volume24h: toNumber(summary.DayVolumeXbt),
+        change24h,
+        changePercent24h: dayAverage > 0 ? (change24h / dayAverage) * 100 : 0
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get current price', 'PRICE_FETCH_ERROR');
+    }
+  }
+
+  /**
+   * Get order book for BTC/AUD (pair in the form XBTAUD or BTC/AUD)
+   */
+  async getOrderBook(pair = 'XBTAUD'): Promise<OrderBook> {
+    try {
+      const secondary = pair.replace(/^(XBT|BTC)\/?/i, '') || 'AUD';
+      const book = await this.withRetry(() => this.makePublicRequest<IrOrderBook>('GetOrderBook', {
+        primaryCurrencyCode: PRIMARY_CURRENCY,
+        secondaryCurrencyCode: this.toCurrencyCode(secondary)
+      }));
+
+      const toLevel = (order: { Price: IrNumber; Volume: IrNumber }): [number, number] => [
+        toNumber(order.Price),
+        toNumber(order.Volume)
+      ];
+
+      return {
+        symbol: pair,
+        bids: (book.BuyOrders || []).map(toLevel),
+        asks: (book.SellOrders || []).map(toLevel),
+        timestamp: book.CreatedTimestampUtc ? new Date(book.CreatedTimestampUtc) : new Date()
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get order book', 'ORDER_BOOK_ERROR');
+    }
+  }
+
+  /**
+   * Create market order, sized in BTC (amount) or AUD (value)
+   */
+  async createMarketOrder(order: MarketOrderRequest): Promise<OrderResult> {
+    try {
+      this.validateOrder(order);
+
+      const params: Record<string, string | number> = {
+        primaryCurrencyCode: PRIMARY_CURRENCY,
+        secondaryCurrencyCode: this.toCurrencyCode(order.currency),
+        orderType: order.side === 'buy' ? 'MarketBid' : 'MarketOffer'
+      };
+
+      if (order.value) {
+        params.volume = order.value.toFixed(2);
+        params.volumeCurrencyType = 'Secondary';
+      } else {
+        params.volume = order.amount!.toFixed(8);
+        params.volumeCurrencyType = 'Primary';
+      }
+
+      // Order placement is not retried: a timeout may still have placed the order
+      const response = await this.makePrivateRequest<IrOrder>('PlaceMarketOrder', params);
+
+      if (!response.OrderGuid) {
+        throw new OrderRejectedError('Market order was rejected by exchange');
+      }
+
+      const status = await this.getOrderStatus(response.OrderGuid);
+      return { ...this.toOrderResult(status), rawData: response };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to create market order', 'ORDER_CREATION_ERROR');
+    }
+  }
+
+  /**
+   * Create limit order
+   */
+  async createLimitOrder(order: LimitOrderRequest): Promise<OrderResult> {
+    try {
+      this.validateOrder(order);
+
+      if (!order.price || order.price <= 0) {
+        throw new ExchangeError('Limit price must be positive', 'INVALID_PRICE');
+      }
+
+      const volume = order.amount || (order.value! / order.price);
+
+      const params: Record<string, string | number> = {
+        primaryCurrencyCode: PRIMARY_CURRENCY,
+        secondaryCurrencyCode: this.toCurrencyCode(order.currency),
+        orderType: order.side === 'buy' ? 'LimitBid' : 'LimitOffer',
+        price: order.price.toFixed(2),
+        volume: volume.toFixed(8)
+      };
+
+      if (order.timeInForce) {
+        params.timeInForce = { GTC: 'Gtc', IOC: 'Ioc', FOK: 'Fok' }[order.timeInForce];
+      }
+
+      const response = await this.makePrivateRequest<IrOrder>('PlaceLimitOrder', params);
+
+      if (!response.OrderGuid) {
+        throw new OrderRejectedError('Limit order was rejected by exchange');
+      }
+
+      const status = await this.getOrderStatus(response.OrderGuid);
+      return { ...this.toOrderResult(status), averagePrice: status.averagePrice || order.price, rawData: response };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to create limit order', 'LIMIT_ORDER_ERROR');
+    }
+  }
+
+  /**
+   * Get order status by order GUID
+   */
+  async getOrderStatus(orderId: string): Promise<OrderStatus> {
+    try {
+      const orderData = await this.withRetry(() => this.makePrivateRequest<IrOrder>('GetOrderDetails', { orderGuid: orderId }));
+
+      const status = this.convertOrderStatus(orderData.Status);
+      const filledAmount = toNumber(orderData.VolumeFilled);
+      const averagePrice = toNumber(orderData.AvgPrice) || toNumber(orderData.Price);
+      const isTerminal = !['open', 'partially_filled', 'pending'].includes(status);
+
+      // Orders sized in AUD only have a BTC amount once filled
+      const orderedInSecondary = orderData.VolumeCurrencyType === 'Secondary';
+      const amount = orderedInSecondary
+        ? (isTerminal || !averagePrice ? filledAmount : toNumber(orderData.VolumeOrdered) / averagePrice)
+        : toNumber(orderData.VolumeOrdered);
+
+      const totalValue = orderData.Value !== undefined && orderData.Value !== null
+        ? toNumber(orderData.Value)
+        : Math.round(filledAmount * averagePrice * 100) / 100;
+
+      const fees: OrderFee[] = orderData.FeePercent
+        ? [{
+            amount: Math.round(totalValue * toNumber(orderData.FeePercent) * 100) / 100,
+            currency: orderData.SecondaryCurrencyCode?.toUpperCase() || 'AUD',
+            type: 'trading'
+          }]
+        : [];
+
+      return {
+        orderId,
+        status,
+        side: /Bid$/.test(orderData.Type) ? 'buy' : 'sell',
+        symbol: 'BTC',
+        amount,
+        filledAmount,
+        remainingAmount: isTerminal ? 0 : Math.max(0, amount - filledAmount),
+        averagePrice,
+        totalValue,
+        fees,
+        timestamp: new Date(orderData.CreatedTimestampUtc),
+        isComplete: status === 'filled',
+        isCancelled: status === 'cancelled',
+        rawData: orderData
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get order status', 'ORDER_STATUS_ERROR');
+    }
+  }
+
+  /**
+   * Cancel an open order and return its final state (including any partial fill)
+   */
+  async cancelOrder(orderId: string): Promise<OrderStatus> {
+    try {
+      await this.makePrivateRequest('CancelOrder', { orderGuid: orderId });
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to cancel order', 'ORDER_CANCEL_ERROR');
+    }
+
+    return this.getOrderStatus(orderId);
+  }
+
+  /**
+   * Get AUD and BTC account balances
+   */
+  async getBalance(): Promise<ExchangeBalance> {
+    try {
+      const accounts = await this.withRetry(() => this.makePrivateRequest<IrAccount[]>('GetAccounts'));
+
+      const find = (code: string) => accounts.find(account => account.CurrencyCode.toLowerCase() === code.toLowerCase());
+      const aud = find('Aud');
+      const btc = find(PRIMARY_CURRENCY);
+
+      const audAvailable = toNumber(aud?.AvailableBalance);
+      const audTotal = toNumber(aud?.TotalBalance);
+      const btcAvailable = toNumber(btc?.AvailableBalance);
+      const btcTotal = toNumber(btc?.TotalBalance);
+
+      return {
+        currency: 'AUD',
+        available: audAvailable,
+        total: audTotal,
+        reserved: Math.max(0, audTotal - audAvailable),
+        btc: {
+          available: btcAvailable,
+          total: btcTotal,
+          reserved: Math.max(0, btcTotal - btcAvailable)
+        }
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get balance', 'BALANCE_ERROR');
+    }
+  }
+
+  /**
+   * Get trade history, newest first. Pages back until trades predate `since`.
+   */
+  async getTransactionHistory(since?: Date): Promise<ExchangeTransaction[]> {
+    try {
+      const transactions: ExchangeTransaction[] = [];
+
+      for (let pageIndex = 1; pageIndex <= HISTORY_MAX_PAGES; pageIndex++) {
+        const page = await this.withRetry(() => this.makePrivateRequest<IrTradePage>('GetTrades', {
+          pageIndex,
+          pageSize: HISTORY_PAGE_SIZE
+        }));
+
+        let reachedSince = false;
+
+        for (const trade of page.Data || []) {
+          const timestamp = new Date(trade.TradeTimestampUtc);
+
+          if (since && timestamp < since) {
+            reachedSince = true;
+            continue;
+          }
+
+          const amount = toNumber(trade.VolumeTraded);
+          const price = toNumber(trade.Price);
+          const side = /Bid$/.test(trade.OrderType) ? 'buy' : 'sell';
+
+          transactions.push({
+            id: trade.TradeGuid,
+            type: 'trade',
+            side,
+            symbol: `${trade.PrimaryCurrencyCode}/${trade.SecondaryCurrencyCode}`.toUpperCase(),
+            amount,
+            currency: 'BTC',
+            price,
+            totalValue: Math.round(amount * price * 100) / 100,
+            fees: trade.TradeFee !== undefined && trade.TradeFee !== null ? [{
+              amount: toNumber(trade.TradeFee),
+              currency: trade.TradeFeeCurrencyCode?.toUpperCase() || 'AUD',
+              type: 'trading'
+            }] : undefined,
+            status: 'completed',
+            timestamp,
+            orderId: trade.OrderGuid,
+            rawData: trade
+          });
+        }
+
+        if (reachedSince || pageIndex >= (page.TotalPages || 0)) {
+          break;
+        }
+      }
+
+      return transactions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get transaction history', 'TRANSACTION_HISTORY_ERROR');
+    }
+  }
+
+  /**
+   * Withdraw Bitcoin to an external address
+   */
+  async withdrawBitcoin(request: WithdrawalRequest): Promise<WithdrawalResult> {
+    try {
+      this.validateWithdrawalRequest(request);
+
+      const fees = await this.getWithdrawalFees();
+      if (request.amount < fees.btc.minimum) {
+        throw new ExchangeError(
+          `Withdrawal amount ${request.amount} BTC is below minimum ${fees.btc.minimum} BTC`,
+          'BELOW_MINIMUM_WITHDRAWAL'
+        );
+      }
+
+      const params: Record<string, string | number> = {
+        primaryCurrencyCode: PRIMARY_CURRENCY,
+        withdrawalAddress: request.address,
+        amount: request.amount.toFixed(8)
+      };
+
+      if (request.description) {
+        params.comment = request.description;
+      }
+
+      const response = await this.makePrivateRequest<IrCryptoWithdrawal>('WithdrawCrypto', params);
+
+      if (!response.TransactionGuid) {
+        throw new ExchangeError('Withdrawal request failed - no transaction ID returned', 'WITHDRAWAL_FAILED');
+      }
+
+      return {
+        ...this.toWithdrawalResult(response, request.address),
+        fees: [{
+          amount: response.Amount ? toNumber(response.Amount.Fee) : fees.btc.fixed,
+          currency: 'BTC',
+          type: 'withdrawal'
+        }],
+        estimatedConfirmationTime: 60 // ~1 hour for Bitcoin
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to withdraw Bitcoin', 'WITHDRAWAL_ERROR');
+    }
+  }
+
+  /**
+   * Get withdrawal status by transaction GUID
+   */
+  async getWithdrawalStatus(withdrawalId: string): Promise<WithdrawalStatus> {
+    try {
+      const response = await this.withRetry(() => this.makePrivateRequest<IrCryptoWithdrawal>('GetCryptoWithdrawal', {
+        transactionGuid: withdrawalId,
+        primaryCurrencyCode: PRIMARY_CURRENCY
+      }));
+
+      const result = this.toWithdrawalResult(response);
+
+      return {
+        ...result,
+        isComplete: result.status === 'confirmed',
+        failureReason: result.status === 'failed' ? response.Status : undefined
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get withdrawal status', 'WITHDRAWAL_STATUS_ERROR');
+    }
+  }
+
+  /**
+   * Get brokerage fees. Independent Reserve charges the same rate to makers and takers.
+   */
+  async getTradingFees(): Promise<TradingFees> {
+    try {
+      const fees = await this.makePrivateRequest<IrFee[]>('GetBrokerageFees');
+      const btcFee = fees.find(fee => fee.CurrencyCode.toLowerCase() === PRIMARY_CURRENCY.toLowerCase());
+      const percent = btcFee ? toNumber(btcFee.Fee) * 100 : DEFAULT_BROKERAGE_FEE_PERCENT;
+
+      return { maker: percent, taker: percent, currency: 'percentage' };
+    } catch {
+      // Return default fees if API call fails
+      return {
+        maker: DEFAULT_BROKERAGE_FEE_PERCENT,
+        taker: DEFAULT_BROKERAGE_FEE_PERCENT,
+        currency: 'percentage'
+      };
+    }
+  }
+
+  /**
+   * Get Bitcoin withdrawal fees
+   */
+  async getWithdrawalFees(): Promise<WithdrawalFees> {
+    try {
+      const fees = await this.makePublicRequest<IrFee[]>('GetCryptoWithdrawalFees');
+      const btcFee = fees.find(fee => fee.CurrencyCode.toLowerCase() === PRIMARY_CURRENCY.toLowerCase());
+
+      return {
+        btc: {
+          fixed: btcFee ? toNumber(btcFee.Fee) : DEFAULT_BTC_WITHDRAWAL_FEE,
+          minimum: MINIMUM_BTC_WITHDRAWAL
+        }
+      };
+    } catch {
+      // Fall back to the published fee if the API call fails
+      return {
+        btc: {
+          fixed: DEFAULT_BTC_WITHDRAWAL_FEE,
+          minimum: MINIMUM_BTC_WITHDRAWAL
+        }
+      };
+    }
+  }
+
+  // Private helper methods
+
+  private async makePublicRequest<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+    const url = `${this.baseUrl}/Public/${endpoint}${query ? `?${query}` : ''}`;
+
+    return this.send<T>(url, { method: 'GET' });
+  }
+
+  private async makePrivateRequest<T>(endpoint: string, params: Record<string, string | number> = {}): Promise<T> {
+    const url = `${this.baseUrl}/Private/${endpoint}`;
+    const nonce = this.nextNonce();
+    const signature = signIndependentReserveRequest(url, this.apiKey, nonce, params, this.apiSecret);
+
+    return this.send<T>(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ apiKey: this.apiKey, nonce, signature, ...params })
+    });
+  }
+
+  private async send<T>(url: string, init: RequestInit): Promise<T> {
+    return this.circuitBreaker.execute(() =>
+      metricsCollector.trackApiCall(this.circuitBreaker.name, apiOperation(init.method, url), () => this.sendRequest<T>(url, init))
+    );
+  }
+
+  private async sendRequest<T>(url: string, init: RequestInit): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.fetchFn(url, {
+        ...init,
+        signal: controller.signal,
+        headers: {
+          ...init.headers,
+          'User-Agent': 'LIQUID-ABT/1.0 (Australian Bitcoin Treasury)'
+        }
+      });
+
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        const errorMessage: string = data?.Message || response.statusText || `HTTP ${response.status}`;
+
+        if (/insufficient/i.test(errorMessage)) {
+          throw new InsufficientFundsError(0, 0, 'AUD');
+        }
+
+        throw new ExchangeError(
+          `Independent Reserve API error: ${errorMessage}`,
+          this.getErrorCode(errorMessage, response.status),
+          response.status,
+          data
+        );
+      }
+
+      return data;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ExchangeError('Request timeout', 'TIMEOUT');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Nonces must strictly increase per API key
+   */
+  private nextNonce(): number {
+    this.lastNonce = Math.max(Date.now(), this.lastNonce + 1);
+    return this.lastNonce;
+  }
+
+  private toCurrencyCode(currency: string): string {
+    const upper = currency.toUpperCase();
+    if (upper === 'BTC' || upper === 'XBT') {
+      return PRIMARY_CURRENCY;
+    }
+    return upper.charAt(0) + upper.slice(1).toLowerCase();
+  }
+
+  private toOrderResult(status: OrderStatus): OrderResult {
+    return {
+      orderId: status.orderId,
+      status: status.status,
+      side: status.side,
+      symbol: status.symbol,
+      amount: status.amount,
+      filledAmount: status.filledAmount,
+      remainingAmount: status.remainingAmount,
+      averagePrice: status.averagePrice,
+      totalValue: status.totalValue,
+      fees: status.fees,
+      timestamp: new Date()
+    };
+  }
+
+  private toWithdrawalResult(response: IrCryptoWithdrawal, address?: string): WithdrawalResult {
+    return {
+      withdrawalId: response.TransactionGuid,
+      status: this.convertWithdrawalStatus(response.Status),
+      currency: 'BTC',
+      amount: toNumber(response.Amount?.Total),
+      address: response.Destination?.Address || address || '',
+      txId: response.Transaction?.Hash || undefined,
+      fees: [{
+        amount: toNumber(response.Amount?.Fee),
+        currency: 'BTC',
+        type: 'withdrawal'
+      }],
+      timestamp: new Date(response.CreatedTimestampUtc),
+      rawData: response
+    };
+  }
+
+  private convertOrderStatus(status: string): OrderStatusType {
+    const statusMap: Record<string, OrderStatusType> = {
+      'Open': 'open',
+      'PartiallyFilled': 'partially_filled',
+      'Filled': 'filled',
+      'PartiallyFilledAndCancelled': 'cancelled',
+      'Cancelled': 'cancelled',
+      'PartiallyFilledAndExpired': 'cancelled',
+      'Expired': 'cancelled',
+      'PartiallyFilledAndFailed': 'rejected',
+      'Failed': 'rejected'
+    };
+
+    return statusMap[status] || 'pending';
+  }
+
+  private convertWithdrawalStatus(status: string): WithdrawalStatusType {
+    const statusMap: Record<string, WithdrawalStatusType> = {
+      'Pending': 'pending',
+      'Unconfirmed': 'processing',
+      'Submitted': 'processing',
+      'Sent': 'sent',
+      'Confirmed': 'confirmed',
+      'Completed': 'confirmed',
+      'Failed': 'failed',
+      'Rejected': 'failed',
+      'Cancelled': 'cancelled'
+    };
+
+    return statusMap[status] || 'pending';
+  }
+
+  private validateOrder(order: MarketOrderRequest): void {
+    if (!order.side || !['buy', 'sell'].includes(order.side)) {
+      throw new ExchangeError('Order side must be "buy" or "sell"', 'INVALID_SIDE');
+    }
+
+    if (!order.symbol || order.symbol !== 'BTC') {
+      throw new ExchangeError('Only BTC trading is supported', 'UNSUPPORTED_SYMBOL');
+    }
+
+    if (!order.currency || order.currency.toUpperCase() !== 'AUD') {
+      throw new ExchangeError('Only AUD trading is supported', 'UNSUPPORTED_CURRENCY');
+    }
+
+    if (!(order.amount && order.amount > 0) && !(order.value && order.value > 0)) {
+      throw new ExchangeError('Either a positive amount or value must be specified', 'MISSING_ORDER_SIZE');
+    }
+  }
+
+  private validateWithdrawalRequest(request: WithdrawalRequest): void {
+    if (!request.address || typeof request.address !== 'string') {
+      throw new ExchangeError('Withdrawal address is required', 'MISSING_ADDRESS');
+    }
+
+    if (!request.amount || request.amount <= 0) {
+      throw new ExchangeError('Withdrawal amount must be positive', 'INVALID_AMOUNT');
+    }
+
+    if (request.currency !== 'BTC') {
+      throw new ExchangeError('Only BTC withdrawals are supported', 'UNSUPPORTED_CURRENCY');
+    }
+  }
+
+  private getErrorCode(errorMessage: string, statusCode: number): string {
+    if (statusCode === 429 || /rate limit/i.test(errorMessage)) return 'RATE_LIMIT_EXCEEDED';
+    if (/nonce/i.test(errorMessage)) return 'INVALID_NONCE';
+    if (/signature/i.test(errorMessage)) return 'INVALID_SIGNATURE';
+    if (/address/i.test(errorMessage)) return 'INVALID_ADDRESS';
+    if (statusCode === 401 || statusCode === 403) return 'PERMISSION_DENIED';
+    if (statusCode === 404) return 'NOT_FOUND';
+    return 'API_ERROR';
+  }
+
+  private wrapError(error: unknown, message: string, code: string): ExchangeError {
+    if (error instanceof ExchangeError) {
+      return error;
+    }
+    return new ExchangeError(`${message}: ${error instanceof Error ? error.message : 'Unknown error'}`, code);
+  }
+
+  // Retry reads on network errors, rate limits and 5xx responses with exponential backoff
+  private async withRetry<T>(operation: () => Promise<T>, maxRetries = 3): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        const statusCode = error instanceof ExchangeError ? error.statusCode : undefined;
+        const code = (error as { code?: string })?.code;
+        const retriable = code === 'ECONNRESET' || code === 'ETIMEDOUT' || code === 'TIMEOUT' ||
+          statusCode === 429 || (statusCode !== undefined && statusCode >= 500);
+
+        if (!retriable || attempt >= maxRetries) {
+          throw error;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 500 * Math.pow(2, attempt)));
+      }
+    }
+  }
+}
@@ -12,6 +12,7 @@ export interface ExchangeProvider {
   createMarketOrder(order: MarketOrderRequest): Promise<OrderResult>;
   createLimitOrder(order: LimitOrderRequest): Promise<OrderResult>;
   getOrderStatus(orderId: string): Promise<OrderStatus>;
+  cancelOrder(orderId: string): Promise<OrderStatus>;
   
   // Account Operations
   getBalance(): Promise<ExchangeBalance>;
@@ -26,7 +27,7 @@ export interface ExchangeProvider {
   getWithdrawalFees(): Promise<WithdrawalFees>;
 }
 
-export type ExchangeProviderType = 'kraken' | 'zerocap' | 'swyftx' | 'coinbase' | 'mock';
+export type ExchangeProviderType = 'kraken' | 'independent_reserve' | 'btc_markets' | 'zerocap' | 'swyftx' | 'coinbase' | 'mock';
 
 export interface MarketPrice {
   symbol: string;
@@ -222,7 +223,13 @@ export class OrderRejectedError extends ExchangeError {
 
 // Import actual implementations
 import { KrakenProvider } from './kraken';
+import { IndependentReserveProvider } from './independent-reserve';
+import { BtcMarketsProvider } from './btc-markets';
+import { SwyftxProvider } from './swyftx';
+import { CoinbaseProvider } from './coinbase';
+import { ZeroCapProvider } from './zerocap';
 import { MockExchangeProvider } from './mock/index';
+import { createIndependentReserveFixtureProvider } from './mock/independent-reserve-fixtures';
 
 // Factory for creating exchange providers
 export class ExchangeProviderFactory {
@@ -243,6 +250,15 @@ export class ExchangeProviderFactory {
     switch (type) {
       case 'kraken':
         return new KrakenProvider(credentials);
+      case 'independent_reserve':
+        // Recorded API responses for offline development (IR_USE_FIXTURES=true). Only the
+        // environment can enable this: credentials carry tenant integration settings.
+        if (process.env.IR_USE_FIXTURES === 'true') {
+          return createIndependentReserveFixtureProvider();
+        }
+        return new IndependentReserveProvider(credentials);
+      case 'btc_markets':
+        return new BtcMarketsProvider(credentials);
       case 'mock':
         const mockConfig = {
           mockPrice: parseFloat(process.env.MOCK_BTC_PRICE || '50000'),
@@ -250,11 +266,11 @@ export class ExchangeProviderFactory {
         };
         return new MockExchangeProvider(mockConfig);
       case 'zerocap':
-        throw new Error('ZeroCap integration not yet implemented (coming with API v2)');
+        return new ZeroCapProvider(credentials);
       case 'swyftx':
-        throw new Error('Swyftx integration not yet implemented');
+        return new SwyftxProvider(credentials);
       case 'coinbase':
-        throw new Error('Coinbase integration not yet implemented');
+        return new CoinbaseProvider(credentials);
       default:
         throw new Error(`Unknown exchange provider type: ${type}`);
     }
@@ -399,6 +399,22 @@ export class KrakenProvider implements ExchangeProvider {
     }
   }
 
+  /**
+   * Cancel an open order and return its final state (including any partial fill)
+   */
+  async cancelOrder(orderId: string): Promise<OrderStatus> {
+    try {
+      await this.makePrivateRequest('CancelOrder', { txid: orderId });
+    } catch (error) {
+      throw new ExchangeError(
+        `Failed to cancel order: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'ORDER_CANCEL_ERROR'
+      );
+    }
+
+    return this.getOrderStatus(orderId);
+  }
+
   /**
    * Get account balance
    */
@@ -525,7 +541,7 @@ export class KrakenProvider implements ExchangeProvider {
           fees: [{
             amount: fees.btc.fixed,
             currency: 'BTC',
-            type: 'withdrawal'
+            type: 'withdrawal' as const
           }],
           estimatedConfirmationTime: 60, // ~1 hour for Bitcoin
           timestamp: new Date(),
@@ -0,0 +1,458 @@
+// LIQUID ABT - BTC Markets Local Stand-in
+// In-process HTTP server speaking the BTC Markets v3 endpoints BtcMarketsProvider uses.
+// It checks request signatures, keeps balances, orders, trades and withdrawals in memory,
+// and fills market orders against a configurable price. Point the provider at it with
+// `baseUrl: await server.start()` (or BTC_MARKETS_API_URL).
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { signBtcMarketsRequest } from '../btc-markets';
+
+export const BTC_MARKETS_STAND_IN_CREDENTIALS = {
+  apiKey: 'stand-in-api-key',
+  privateKey: Buffer.from('stand-in-private-key').toString('base64')
+};
+
+export interface BtcMarketsStandInConfig {
+  price?: number;          // Last traded price in AUD
+  spreadAUD?: number;      // Distance from price to best bid/ask
+  takerFeeRate?: number;   // Fraction, e.g. 0.0085
+  balances?: { aud: number; btc: number };
+  whitelistedAddresses?: string[];
+}
+
+interface StoredOrder {
+  orderId: string;
+  marketId: string;
+  side: 'Bid' | 'Ask';
+  type: 'Market' | 'Limit';
+  creationTime: string;
+  price?: string;
+  amount: string;
+  openAmount: string;
+  status: string;
+  clientOrderId?: string;
+  targetAmount?: string;
+}
+
+interface StoredTrade {
+  id: string;
+  marketId: string;
+  timestamp: string;
+  price: string;
+  amount: string;
+  side: 'Bid' | 'Ask';
+  fee: string;
+  orderId: string;
+  valueInQuoteAsset: string;
+}
+
+interface StoredWithdrawal {
+  id: string;
+  assetName: string;
+  amount: string;
+  type: 'Withdraw';
+  creationTime: string;
+  status: string;
+  fee: string;
+  paymentDetail: { address: string; txId?: string };
+}
+
+interface StandInResponse {
+  status: number;
+  body: unknown;
+}
+
+const MARKET_ID = 'BTC-AUD';
+const WITHDRAWAL_FEE = 0.0001;
+const MIN_WITHDRAWAL = 0.001;
+
+function decimal(value: number, places: number): string {
+  return value.toFixed(places);
+}
+
+function apiError(status: number, code: string, message: string): StandInResponse {
+  return { status, body: { code, message } };
+}
+
+export class BtcMarketsStandInServer {
+  private server?: http.Server;
+  private price: number;
+  private readonly spreadAUD: number;
+  private readonly takerFeeRate: number;
+  private readonly balances: { aud: number; btc: number };
+  private readonly whitelist: Set<string>;
+  private readonly orders = new Map<string, StoredOrder>();
+  private readonly trades: StoredTrade[] = [];
+  private readonly withdrawals = new Map<string, StoredWithdrawal>();
+  private readonly failures = new Map<string, StandInResponse>();
+
+  constructor(config: BtcMarketsStandInConfig = {}) {
+    this.price = config.price ?? 100000;
+    this.spreadAUD = config.spreadAUD ?? 25;
+    this.takerFeeRate = config.takerFeeRate ?? 0.0085;
+    this.balances = { ...(config.balances ?? { aud: 50000, btc: 0.5 }) };
+    this.whitelist = new Set(config.whitelistedAddresses ?? []);
+  }
+
+  /**
+   * Listen on a random local port and return the base URL to give the provider
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const result = this.handle(req, Buffer.concat(chunks).toString('utf8'));
+        res.writeHead(result.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(result.body));
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => this.server!.close(error => (error ? reject(error) : resolve())));
+    this.server = undefined;
+  }
+
+  setPrice(price: number): void {
+    this.price = price;
+    this.fillRestingOrders();
+  }
+
+  whitelistAddress(address: string): void {
+    this.whitelist.add(address);
+  }
+
+  /**
+   * Fail the next request to `METHOD /path` (e.g. 'POST /v3/orders') with the given status and error code
+   */
+  failNext(route: string, status: number, code: string, message = code): void {
+    this.failures.set(route, apiError(status, code, message));
+  }
+
+  /**
+   * Complete a pending withdrawal as if it had been broadcast and confirmed
+   */
+  confirmWithdrawal(withdrawalId: string, txId: string = crypto.randomBytes(32).toString('hex')): void {
+    const withdrawal = this.withdrawals.get(withdrawalId);
+    if (withdrawal) {
+      withdrawal.status = 'Complete';
+      withdrawal.paymentDetail.txId = txId;
+    }
+  }
+
+  getBalances(): { aud: number; btc: number } {
+    return { ...this.balances };
+  }
+
+  private handle(req: http.IncomingMessage, body: string): StandInResponse {
+    const method = req.method || 'GET';
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    const path = url.pathname;
+
+    const failure = this.failures.get(`${method} ${path}`);
+    if (failure) {
+      this.failures.delete(`${method} ${path}`);
+      return failure;
+    }
+
+    if (path.startsWith('/v3/markets/') || path === '/v3/assets') {
+      return this.handlePublic(path);
+    }
+
+    const authError = this.authenticate(req, method, path, body);
+    if (authError) {
+      return authError;
+    }
+
+    const params = body ? JSON.parse(body) : {};
+    const orderMatch = path.match(/^\/v3\/orders\/([^/]+)$/);
+    const withdrawalMatch = path.match(/^\/v3\/withdrawals\/([^/]+)$/);
+
+    if (method === 'POST' && path === '/v3/orders') return this.placeOrder(params);
+    if (method === 'GET' && orderMatch) return this.getOrder(orderMatch[1]);
+    if (method === 'DELETE' && orderMatch) return this.cancelOrder(orderMatch[1]);
+    if (method === 'GET' && path === '/v3/trades') return this.listTrades(url.searchParams);
+    if (method === 'GET' && path === '/v3/accounts/me/balances') return this.listBalances();
+    if (method === 'GET' && path === '/v3/accounts/me/trading-fees') return this.tradingFees();
+    if (method === 'POST' && path === '/v3/withdrawals') return this.withdraw(params);
+    if (method === 'GET' && path === '/v3/withdrawals') return this.listWithdrawals(url.searchParams);
+    if (method === 'GET' && withdrawalMatch) return this.getWithdrawal(withdrawalMatch[1]);
+
+    return apiError(404, 'NotFound', `No stand-in route for ${method} ${path}`);
+  }
+
+  private handlePublic(path: string): StandInResponse {
+    if (path === '/v3/assets') {
+      return {
+        status: 200,
+        body: [
+          { assetName: 'BTC', minWithdrawalAmount: decimal(MIN_WITHDRAWAL, 8), withdrawalFee: decimal(WITHDRAWAL_FEE, 8) },
+          { assetName: 'AUD', minWithdrawalAmount: '1.00', withdrawalFee: '0.00' }
+        ]
+      };
+    }
+
+    if (path === `/v3/markets/${MARKET_ID}/ticker`) {
+      return {
+        status: 200,
+        body: {
+          marketId: MARKET_ID,
+          bestBid: decimal(this.price - this.spreadAUD, 2),
+          bestAsk: decimal(this.price + this.spreadAUD, 2),
+          lastPrice: decimal(this.price, 2),
+          volume24h: '84.21300000',
+          price24h: '0.00',
+          pricePct24h: '0.00',
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+
+    if (path === `/v3/markets/${MARKET_ID}/orderbook`) {
+      const levels = [0, 1, 2].map(level => level * this.spreadAUD);
+      return {
+        status: 200,
+        body: {
+          marketId: MARKET_ID,
+          snapshotId: Date.now(),
+          bids: levels.map(offset => [decimal(this.price - this.spreadAUD - offset, 2), '0.50000000']),
+          asks: levels.map(offset => [decimal(this.price + this.spreadAUD + offset, 2), '0.50000000'])
+        }
+      };
+    }
+
+    return apiError(400, 'InvalidMarket', 'Unknown market');
+  }
+
+  private authenticate(req: http.IncomingMessage, method: string, path: string, body: string): StandInResponse | null {
+    const apiKey = req.headers['bm-auth-apikey'];
+    const timestamp = String(req.headers['bm-auth-timestamp'] || '');
+    const signature = req.headers['bm-auth-signature'];
+
+    if (apiKey !== BTC_MARKETS_STAND_IN_CREDENTIALS.apiKey) {
+      return apiError(401, 'InvalidApiKey', 'API key is invalid');
+    }
+
+    if (!timestamp || Math.abs(Date.now() - parseInt(timestamp, 10)) > 10000) {
+      return apiError(400, 'InvalidAuthTimestamp', 'Authentication timestamp is outside the allowed window');
+    }
+
+    const expected = signBtcMarketsRequest(method, path, timestamp, body, BTC_MARKETS_STAND_IN_CREDENTIALS.privateKey);
+    if (signature !== expected) {
+      return apiError(401, 'InvalidAuthSignature', 'Authentication signature is invalid');
+    }
+
+    return null;
+  }
+
+  private placeOrder(params: Record<string, string>): StandInResponse {
+    if (params.marketId !== MARKET_ID) {
+      return apiError(400, 'InvalidMarket', 'Unknown market');
+    }
+
+    const order: StoredOrder = {
+      orderId: String(1000000 + this.orders.size + 1),
+      marketId: MARKET_ID,
+      side: params.side === 'Ask' ? 'Ask' : 'Bid',
+      type: params.type === 'Limit' ? 'Limit' : 'Market',
+      creationTime: new Date().toISOString(),
+      price: params.price,
+      amount: params.amount || '0',
+      openAmount: params.amount || '0',
+      status: 'Accepted',
+      clientOrderId: params.clientOrderId,
+      targetAmount: params.targetAmount
+    };
+
+    const fillPrice = order.side === 'Bid' ? this.price + this.spreadAUD : this.price - this.spreadAUD;
+    const amount = order.targetAmount
+      ? Math.floor((parseFloat(order.targetAmount) / fillPrice) * 1e8) / 1e8
+      : parseFloat(order.amount);
+    const reservePrice = order.type === 'Limit' ? parseFloat(order.price || '0') : fillPrice;
+
+    if (order.side === 'Bid' && amount * reservePrice * (1 + this.takerFeeRate) > this.balances.aud) {
+      return apiError(400, 'InsufficientFund', 'Insufficient AUD balance');
+    }
+
+    if (order.side === 'Ask' && amount > this.balances.btc) {
+      return apiError(400, 'InsufficientFund', 'Insufficient BTC balance');
+    }
+
+    order.amount = decimal(amount, 8);
+    order.openAmount = order.amount;
+    order.status = 'Placed';
+    this.orders.set(order.orderId, order);
+
+    if (order.type === 'Market' || this.crosses(order)) {
+      this.fill(order, fillPrice);
+    }
+
+    return { status: 200, body: order };
+  }
+
+  private getOrder(orderId: string): StandInResponse {
+    const order = this.orders.get(orderId);
+    return order ? { status: 200, body: order } : apiError(404, 'OrderNotFound', `Order ${orderId} not found`);
+  }
+
+  private cancelOrder(orderId: string): StandInResponse {
+    const order = this.orders.get(orderId);
+
+    if (!order) {
+      return apiError(404, 'OrderNotFound', `Order ${orderId} not found`);
+    }
+
+    if (order.status === 'Placed') {
+      order.status = 'Cancelled';
+    } else if (order.status === 'Partially Matched') {
+      order.status = 'Partially Cancelled';
+    } else {
+      return apiError(400, 'OrderAlreadyCancelled', `Order ${orderId} is ${order.status}`);
+    }
+
+    return { status: 200, body: { orderId: order.orderId, clientOrderId: order.clientOrderId } };
+  }
+
+  private listTrades(query: URLSearchParams): StandInResponse {
+    const orderId = query.get('orderId');
+    const trades = this.trades
+      .filter(trade => !orderId || trade.orderId === orderId)
+      .slice()
+      .reverse();
+
+    return { status: 200, body: this.page(trades, query) };
+  }
+
+  private listBalances(): StandInResponse {
+    const lockedAUD = Array.from(this.orders.values())
+      .filter(order => order.side === 'Bid' && ['Placed', 'Partially Matched'].includes(order.status))
+      .reduce((sum, order) => sum + parseFloat(order.openAmount) * parseFloat(order.price || '0'), 0);
+
+    return {
+      status: 200,
+      body: [
+        { assetName: 'AUD', balance: decimal(this.balances.aud, 2), available: decimal(this.balances.aud - lockedAUD, 2), locked: decimal(lockedAUD, 2) },
+        { assetName: 'BTC', balance: decimal(this.balances.btc, 8), available: decimal(this.balances.btc, 8), locked: '0.00000000' }
+      ]
+    };
+  }
+
+  private tradingFees(): StandInResponse {
+    return {
+      status: 200,
+      body: {
+        volume30Day: '0.00',
+        feeByMarkets: [
+          { marketId: MARKET_ID, makerFeeRate: decimal(this.takerFeeRate, 4), takerFeeRate: decimal(this.takerFeeRate, 4) }
+        ]
+      }
+    };
+  }
+
+  private withdraw(params: Record<string, string>): StandInResponse {
+    const amount = parseFloat(params.amount);
+
+    if (params.assetName !== 'BTC') {
+      return apiError(400, 'InvalidAsset', 'Only BTC withdrawals are supported by the stand-in');
+    }
+
+    if (!this.whitelist.has(params.toAddress)) {
+      return apiError(400, 'AddressNotWhitelisted', `Address ${params.toAddress} is not whitelisted`);
+    }
+
+    if (amount < MIN_WITHDRAWAL) {
+      return apiError(400, 'InvalidAmount', `Minimum withdrawal is ${MIN_WITHDRAWAL} BTC`);
+    }
+
+    if (amount + WITHDRAWAL_FEE > this.balances.btc) {
+      return apiError(400, 'InsufficientFund', 'Insufficient BTC balance');
+    }
+
+    this.balances.btc -= amount + WITHDRAWAL_FEE;
+
+    const withdrawal: StoredWithdrawal = {
+      id: String(5000000 + this.withdrawals.size + 1),
+      assetName: 'BTC',
+      amount: decimal(amount, 8),
+      type: 'Withdraw',
+      creationTime: new Date().toISOString(),
+      status: 'Pending Authorization',
+      fee: decimal(WITHDRAWAL_FEE, 8),
+      paymentDetail: { address: params.toAddress }
+    };
+
+    this.withdrawals.set(withdrawal.id, withdrawal);
+    return { status: 200, body: withdrawal };
+  }
+
+  private listWithdrawals(query: URLSearchParams): StandInResponse {
+    return { status: 200, body: this.page(Array.from(this.withdrawals.values()).reverse(), query) };
+  }
+
+  private getWithdrawal(withdrawalId: string): StandInResponse {
+    const withdrawal = this.withdrawals.get(withdrawalId);
+    return withdrawal ? { status: 200, body: withdrawal } : apiError(404, 'NotFound', `Withdrawal ${withdrawalId} not found`);
+  }
+
+  /**
+   * Newest-first paging with the v3 `before` (record id) and `limit` parameters
+   */
+  private page<T extends { id: string }>(records: T[], query: URLSearchParams): T[] {
+    const before = query.get('before');
+    const limit = parseInt(query.get('limit') || '100', 10);
+    const start = before ? records.findIndex(record => record.id === before) + 1 : 0;
+    return records.slice(start, start + limit);
+  }
+
+  private crosses(order: StoredOrder): boolean {
+    const limit = parseFloat(order.price || '0');
+    return order.side === 'Bid' ? limit >= this.price + this.spreadAUD : limit <= this.price - this.spreadAUD;
+  }
+
+  private fillRestingOrders(): void {
+    for (const order of Array.from(this.orders.values())) {
+      if (order.type === 'Limit' && order.status === 'Placed' && this.crosses(order)) {
+        this.fill(order, parseFloat(order.price!));
+      }
+    }
+  }
+
+  private fill(order: StoredOrder, price: number): void {
+    const amount = parseFloat(order.openAmount);
+    const value = Math.round(amount * price * 100) / 100;
+    const fee = Math.round(value * this.takerFeeRate * 100) / 100;
+
+    if (order.side === 'Bid') {
+      this.balances.aud -= value + fee;
+      this.balances.btc += amount;
+    } else {
+      this.balances.aud += value - fee;
+      this.balances.btc -= amount;
+    }
+
+    this.trades.push({
+      id: String(9000000 + this.trades.length + 1),
+      marketId: order.marketId,
+      timestamp: new Date().toISOString(),
+      price: decimal(price, 2),
+      amount: decimal(amount, 8),
+      side: order.side,
+      fee: decimal(fee, 2),
+      orderId: order.orderId,
+      valueInQuoteAsset: decimal(value, 2)
+    });
+
+    order.openAmount = '0.00000000';
+    order.status = 'Fully Matched';
+  }
+}
@@ -0,0 +1,265 @@
+// LIQUID ABT - Independent Reserve Recorded Fixtures
+// Replays recorded Independent Reserve API responses so the real provider (request building,
+// HMAC signing and response parsing) can be exercised offline. Private requests are checked
+// against the fixture credentials, so a signing regression fails here the same way it would live.
+
+import {
+  IndependentReserveFetch,
+  IndependentReserveProvider,
+  INDEPENDENT_RESERVE_BASE_URL,
+  signIndependentReserveRequest
+} from '../independent-reserve';
+
+export const INDEPENDENT_RESERVE_FIXTURE_CREDENTIALS = {
+  apiKey: 'fixture-api-key',
+  apiSecret: 'fixture-api-secret'
+};
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  params: Record<string, string | number>;
+}
+
+type FixtureBody = Record<string, unknown> | Array<Record<string, unknown>>;
+
+// Responses recorded from the Independent Reserve API (identifiers and balances anonymised)
+export const INDEPENDENT_RESERVE_FIXTURES: Record<string, FixtureBody> = {
+  '/Public/GetMarketSummary': {
+    DayHighestPrice: 98650.0,
+    DayLowestPrice: 96120.5,
+    DayAvgPrice: 97410.22,
+    DayVolumeXbt: 61.70913452,
+    DayVolumeXbtInSecondaryCurrrency: 6011488.51,
+    CurrentLowestOfferPrice: 97892.1,
+    CurrentHighestBidPrice: 97850.0,
+    LastPrice: 97870.55,
+    PrimaryCurrencyCode: 'Xbt',
+    SecondaryCurrencyCode: 'Aud',
+    CreatedTimestampUtc: '2025-10-20T01:12:45.3412741Z'
+  },
+  '/Public/GetOrderBook': {
+    BuyOrders: [
+      { OrderType: 'LimitBid', Price: 97850.0, Volume: 0.25 },
+      { OrderType: 'LimitBid', Price: 97820.0, Volume: 0.8 },
+      { OrderType: 'LimitBid', Price: 97775.5, Volume: 1.42 }
+    ],
+    SellOrders: [
+      { OrderType: 'LimitOffer', Price: 97892.1, Volume: 0.31 },
+      { OrderType: 'LimitOffer', Price: 97930.0, Volume: 0.65 },
+      { OrderType: 'LimitOffer', Price: 98010.25, Volume: 2.1 }
+    ],
+    PrimaryCurrencyCode: 'Xbt',
+    SecondaryCurrencyCode: 'Aud',
+    CreatedTimestampUtc: '2025-10-20T01:12:45.5518223Z'
+  },
+  '/Public/GetCryptoWithdrawalFees': [
+    { CurrencyCode: 'Xbt', Fee: 0.0001 }
+  ],
+  '/Private/PlaceMarketOrder': {
+    OrderGuid: 'c7347e4c-b865-4c94-8f74-d934d4b0b177',
+    CreatedTimestampUtc: '2025-10-20T01:13:02.1093446Z',
+    Type: 'MarketBid',
+    VolumeOrdered: 1000.0,
+    VolumeFilled: 0,
+    Price: null,
+    AvgPrice: null,
+    ReservedAmount: 1000.0,
+    Status: 'Open',
+    PrimaryCurrencyCode: 'Xbt',
+    SecondaryCurrencyCode: 'Aud',
+    VolumeCurrencyType: 'Secondary'
+  },
+  '/Private/PlaceLimitOrder': {
+    OrderGuid: '5c8885cd-5384-4e05-b397-9f5119353e10',
+    CreatedTimestampUtc: '2025-10-20T01:14:10.4421984Z',
+    Type: 'LimitBid',
+    VolumeOrdered: 0.0102,
+    VolumeFilled: 0,
+    Price: 97500.0,
+    AvgPrice: null,
+    ReservedAmount: 994.5,
+    Status: 'Open',
+    PrimaryCurrencyCode: 'Xbt',
+    SecondaryCurrencyCode: 'Aud',
+    VolumeCurrencyType: 'Primary'
+  },
+  '/Private/GetOrderDetails': {
+    OrderGuid: 'c7347e4c-b865-4c94-8f74-d934d4b0b177',
+    CreatedTimestampUtc: '2025-10-20T01:13:02.1093446Z',
+    Type: 'MarketBid',
+    VolumeOrdered: 1000.0,
+    VolumeFilled: 0.01015014,
+    Price: null,
+    AvgPrice: 97895.67,
+    ReservedAmount: 0,
+    Status: 'Filled',
+    PrimaryCurrencyCode: 'Xbt',
+    SecondaryCurrencyCode: 'Aud',
+    VolumeCurrencyType: 'Secondary',
+    Value: 993.66,
+    FeePercent: 0.005
+  },
+  '/Private/CancelOrder': {
+    OrderGuid: '5c8885cd-5384-4e05-b397-9f5119353e10',
+    CreatedTimestampUtc: '2025-10-20T01:14:10.4421984Z',
+    Type: 'LimitBid',
+    VolumeOrdered: 0.0102,
+    VolumeFilled: 0,
+    Price: 97500.0,
+    AvgPrice: null,
+    ReservedAmount: 0,
+    Status: 'Cancelled',
+    PrimaryCurrencyCode: 'Xbt',
+    SecondaryCurrencyCode: 'Aud',
+    VolumeCurrencyType: 'Primary'
+  },
+  '/Private/GetAccounts': [
+    { AccountGuid: '66dcac65-bf07-4e68-ad46-838f51100424', AccountStatus: 'Active', AvailableBalance: 24650.37, CurrencyCode: 'Aud', TotalBalance: 25644.87 },
+    { AccountGuid: '49994921-60ec-4e5f-8e9e-8c1a4f1c6b64', AccountStatus: 'Active', AvailableBalance: 0.41837216, CurrencyCode: 'Xbt', TotalBalance: 0.41837216 }
+  ],
+  '/Private/GetTrades': {
+    Data: [
+      {
+        TradeGuid: '593e609d-041a-4f46-a41d-2cb8e908973f',
+        TradeTimestampUtc: '2025-10-20T01:13:02.3761104Z',
+        OrderGuid: 'c7347e4c-b865-4c94-8f74-d934d4b0b177',
+        OrderType: 'MarketBid',
+        OrderTimestampUtc: '2025-10-20T01:13:02.1093446Z',
+        VolumeTraded: 0.01015014,
+        Price: 97895.67,
+        PrimaryCurrencyCode: 'Xbt',
+        SecondaryCurrencyCode: 'Aud',
+        TradeFee: 4.97,
+        TradeFeeCurrencyCode: 'Aud'
+      },
+      {
+        TradeGuid: '0e5a9d7e-3f53-4a3b-9b0c-5d8f1a7f2c11',
+        TradeTimestampUtc: '2025-10-18T22:40:11.0021547Z',
+        OrderGuid: 'a1d1c0f2-7b1e-4a8e-a0f5-7f0bb4b7e9d2',
+        OrderType: 'LimitBid',
+        OrderTimestampUtc: '2025-10-18T22:31:54.8810023Z',
+        VolumeTraded: 0.05132,
+        Price: 96410.0,
+        PrimaryCurrencyCode: 'Xbt',
+        SecondaryCurrencyCode: 'Aud',
+        TradeFee: 24.74,
+        TradeFeeCurrencyCode: 'Aud'
+      }
+    ],
+    PageSize: 50,
+    TotalItems: 2,
+    TotalPages: 1
+  },
+  '/Private/WithdrawCrypto': {
+    TransactionGuid: 'dc932e19-562b-4c50-821e-a73fd048b93b',
+    PrimaryCurrencyCode: 'Xbt',
+    CreatedTimestampUtc: '2025-10-20T01:20:31.8834221Z',
+    Amount: { Total: 0.01, Fee: 0.0001 },
+    Destination: { Address: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', Tag: null },
+    Status: 'Pending',
+    Transaction: null
+  },
+  '/Private/GetCryptoWithdrawal': {
+    TransactionGuid: 'dc932e19-562b-4c50-821e-a73fd048b93b',
+    PrimaryCurrencyCode: 'Xbt',
+    CreatedTimestampUtc: '2025-10-20T01:20:31.8834221Z',
+    Amount: { Total: 0.01, Fee: 0.0001 },
+    Destination: { Address: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', Tag: null },
+    Status: 'Confirmed',
+    Transaction: { Hash: '5e1c2b6c5c1b7f4e9f0b3c3a2d6c0a5f8e7d9b1a3c5e7f9a1b3d5f7a9c1e3b5d', OutputIndex: 0 }
+  },
+  '/Private/GetBrokerageFees': [
+    { CurrencyCode: 'Xbt', Fee: 0.005 }
+  ]
+};
+
+// Request fields echoed back into the recorded response, so lookups by ID round-trip
+const ECHOED_FIELDS: Record<string, string> = {
+  orderGuid: 'OrderGuid',
+  transactionGuid: 'TransactionGuid'
+};
+
+/**
+ * Fetch-compatible stand-in for the Independent Reserve API that serves recorded responses
+ */
+export class IndependentReserveFixtureServer {
+  readonly requests: RecordedRequest[] = [];
+  private readonly overrides = new Map<string, { status: number; body: FixtureBody }>();
+
+  /**
+   * Serve a different response (e.g. an error) for one endpoint path, such as '/Private/PlaceMarketOrder'
+   */
+  respondWith(path: string, body: FixtureBody, status = 200): void {
+    this.overrides.set(path, { status, body });
+  }
+
+  readonly fetch: IndependentReserveFetch = async (url, init) => {
+    const parsed = new URL(url);
+    const path = parsed.pathname;
+    const method = init?.method || 'GET';
+    let params: Record<string, string | number> = Object.fromEntries(parsed.searchParams.entries());
+
+    if (method === 'POST') {
+      const { apiKey, nonce, signature, ...body } = JSON.parse(String(init?.body || '{}'));
+      params = body;
+
+      const expected = signIndependentReserveRequest(
+        `${parsed.origin}${path}`,
+        apiKey,
+        nonce,
+        body,
+        INDEPENDENT_RESERVE_FIXTURE_CREDENTIALS.apiSecret
+      );
+
+      if (apiKey !== INDEPENDENT_RESERVE_FIXTURE_CREDENTIALS.apiKey || signature !== expected) {
+        return this.respond(401, { Message: 'Invalid API key or signature' });
+      }
+    }
+
+    this.requests.push({ method, path, params });
+
+    const override = this.overrides.get(path);
+    if (override) {
+      return this.respond(override.status, override.body);
+    }
+
+    const fixture = INDEPENDENT_RESERVE_FIXTURES[path];
+    if (!fixture) {
+      return this.respond(404, { Message: `No recorded response for ${path}` });
+    }
+
+    if (Array.isArray(fixture)) {
+      return this.respond(200, fixture);
+    }
+
+    const body: Record<string, unknown> = { ...fixture };
+    for (const [param, field] of Object.entries(ECHOED_FIELDS)) {
+      if (params[param] !== undefined && field in body) {
+        body[field] = params[param];
+      }
+    }
+
+    return this.respond(200, body);
+  };
+
+  private respond(status: number, body: FixtureBody): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Independent Reserve provider wired to recorded fixtures instead of the live API
+ */
+export function createIndependentReserveFixtureProvider(
+  server: IndependentReserveFixtureServer = new IndependentReserveFixtureServer()
+): IndependentReserveProvider {
+  return new IndependentReserveProvider({
+    ...INDEPENDENT_RESERVE_FIXTURE_CREDENTIALS,
+    baseUrl: INDEPENDENT_RESERVE_BASE_URL,
+    fetch: server.fetch
+  });
+}
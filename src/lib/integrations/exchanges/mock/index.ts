@@ -377,6 +377,26 @@ export class MockExchangeProvider implements ExchangeProvider {
     return { ...order }; // Return a copy
   }
 
+  /**
+   * Cancel order (mocked)
+   */
+  async cancelOrder(orderId: string): Promise<OrderStatus> {
+    await this.simulateLatency();
+    this.checkForSimulatedErrors();
+
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new ExchangeError(`Order ${orderId} not found`, 'ORDER_NOT_FOUND');
+    }
+
+    if (!order.isComplete) {
+      order.status = 'cancelled';
+      order.isCancelled = true;
+    }
+
+    return { ...order };
+  }
+
   /**
    * Get account balance (mocked)
    */
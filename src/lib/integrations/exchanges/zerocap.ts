@@ -0,0 +1,719 @@
+// LIQUID ABT - ZeroCap Exchange Integration
+// ZeroCap is an institutional OTC desk: trades are executed by requesting a firm quote (RFQ)
+// and accepting it before it expires. There is no public order book or resting order; limit
+// orders are filled only if the firm quote is within the limit.
+
+import { createHmac } from 'crypto';
+import {
+  ExchangeProvider,
+  ExchangeProviderType,
+  MarketPrice,
+  OrderBook,
+  MarketOrderRequest,
+  LimitOrderRequest,
+  OrderResult,
+  OrderStatus,
+  ExchangeBalance,
+  ExchangeTransaction,
+  WithdrawalRequest,
+  WithdrawalResult,
+  WithdrawalStatus,
+  TradingFees,
+  WithdrawalFees,
+  ExchangeError,
+  InsufficientFundsError,
+  OrderRejectedError,
+  OrderStatusType,
+  WithdrawalStatusType
+} from './interface';
+import { CircuitBreakerFactory } from '../../patterns/circuit-breaker';
+import { apiOperation, metricsCollector } from '../../monitoring/metrics';
+
+// Retry configuration
+interface RetryConfig {
+  maxRetries: number;
+  backoffMs: number;
+  retryOn: (error: unknown) => boolean;
+}
+
+export const ZEROCAP_BASE_URL = 'https://api.zerocap.com';
+
+// Quotes that were not accepted are reported with this order ID prefix; they never trade
+const QUOTE_ORDER_PREFIX = 'quote:';
+
+// The indicative price is firm up to this size; the synthetic book offers it at bid and ask
+const QUOTE_DEPTH_BTC = 25;
+
+// ZeroCap prices its spread into the quote and charges no separate trading fee
+const DEFAULT_WITHDRAWAL_FEES: WithdrawalFees = { btc: { fixed: 0.0002, minimum: 0.001 } };
+
+// ZeroCap response shapes (amounts are decimal strings)
+interface ZeroCapPrice {
+  symbol: string;
+  bid: string;
+  ask: string;
+  mid: string;
+  change_24h_pct?: string;
+  timestamp: string;
+}
+
+interface ZeroCapQuote {
+  quote_id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  price: string;
+  quantity: string;
+  notional: string;
+  expires_at: string;
+}
+
+interface ZeroCapTrade {
+  trade_id: string;
+  quote_id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  status: string;
+  price: string;
+  quantity: string;
+  notional: string;
+  fee: string;
+  fee_currency: string;
+  executed_at: string;
+  reject_reason?: string;
+}
+
+interface ZeroCapBalance {
+  asset: string;
+  available: string;
+  total: string;
+}
+
+interface ZeroCapWithdrawal {
+  withdrawal_id: string;
+  status: string;
+  asset: string;
+  amount: string;
+  address: string;
+  fee: string;
+  tx_hash?: string | null;
+  confirmations?: number;
+  failure_reason?: string;
+  created_at: string;
+}
+
+interface ZeroCapFees {
+  withdrawal: Record<string, { fee: string; minimum: string }>;
+}
+
+export interface ZeroCapCredentials {
+  apiKey?: string;
+  apiSecret?: string;
+  privateKey?: string; // Alias for apiSecret (tenant integrations store the secret as privateKey)
+  baseUrl?: string;
+  timeout?: number;
+}
+
+function toNumber(value: string | undefined | null): number {
+  return value ? parseFloat(value) || 0 : 0;
+}
+
+/**
+ * Hex HMAC-SHA256 of timestamp + method + path + body, as ZeroCap expects in X-ZC-SIGNATURE
+ */
+export function signZeroCapRequest(method: string, path: string, timestamp: string, body: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}${method}${path}${body}`).digest('hex');
+}
+
+export class ZeroCapProvider implements ExchangeProvider {
+  public readonly name = 'ZeroCap';
+  public readonly type: ExchangeProviderType = 'zerocap';
+
+  private readonly apiKey: string;
+  private readonly apiSecret: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly circuitBreaker = CircuitBreakerFactory.createExchangeApiBreaker('zerocap');
+  private readonly retryConfig: RetryConfig = {
+    maxRetries: 3,
+    backoffMs: 1000,
+    retryOn: (error: unknown) => {
+      // Retry on network errors, rate limits, and 5xx server errors
+      const { code, statusCode } = error as { code?: string; statusCode?: number };
+      return code === 'ECONNRESET' ||
+             code === 'ENOTFOUND' ||
+             code === 'ETIMEDOUT' ||
+             code === 'TIMEOUT' ||
+             statusCode === 429 ||
+             (statusCode !== undefined && statusCode >= 500 && statusCode < 600);
+    }
+  };
+
+  constructor(credentials: ZeroCapCredentials = {}) {
+    this.apiKey = credentials.apiKey || process.env.ZEROCAP_API_KEY!;
+    this.apiSecret = credentials.apiSecret || credentials.privateKey || process.env.ZEROCAP_API_SECRET!;
+    this.baseUrl = (credentials.baseUrl || process.env.ZEROCAP_API_URL || ZEROCAP_BASE_URL).replace(/\/$/, '');
+    this.timeoutMs = credentials.timeout || 15000;
+
+    if (!this.apiKey || !this.apiSecret) {
+      throw new Error('ZeroCap API credentials are required');
+    }
+  }
+
+  /**
+   * Get the indicative Bitcoin price
+   */
+  async getCurrentPrice(currency = 'AUD'): Promise<MarketPrice> {
+    try {
+      const quote = await this.getIndicativePrice(currency);
+      const price = toNumber(quote.mid);
+
+      if (!price || price <= 0) {
+        throw new ExchangeError(`Invalid price data: ${quote.mid}`, 'INVALID_PRICE_DATA');
+      }
+
+      const changePercent = toNumber(quote.change_24h_pct);
+
+      return {
+        symbol: 'BTC',
+        price,
+        currency,
+        timestamp: new Date(quote.timestamp),
+        bid: toNumber(quote.bid),
+        ask: toNumber(quote.ask),
+        change24h: price - price / (1 + changePercent / 100),
+        changePercent24h: changePercent
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get current price', 'PRICE_FETCH_ERROR');
+    }
+  }
+
+  /**
+   * Single-level book at the indicative bid and ask (OTC desks do not publish depth)
+   */
+  async getOrderBook(pair = 'XBTAUD'): Promise<OrderBook> {
+    try {
+      const quote = pair.replace(/^(XBT|BTC)[-/]?/i, '') || 'AUD';
+      const price = await this.getIndicativePrice(quote);
+
+      return {
+        symbol: pair,
+        bids: [[toNumber(price.bid), QUOTE_DEPTH_BTC]],
+        asks: [[toNumber(price.ask), QUOTE_DEPTH_BTC]],
+        timestamp: new Date(price.timestamp)
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get order book', 'ORDER_BOOK_ERROR');
+    }
+  }
+
+  /**
+   * Request a firm quote and accept it immediately
+   */
+  async createMarketOrder(order: MarketOrderRequest): Promise<OrderResult> {
+    try {
+      this.validateOrder(order);
+
+      const quote = await this.requestQuote(order);
+      return await this.acceptQuote(quote);
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to create market order', 'ORDER_CREATION_ERROR');
+    }
+  }
+
+  /**
+   * Request a firm quote and accept it only if it is within the limit price. Quotes outside
+   * the limit are left to expire and reported as a cancelled order with nothing filled.
+   */
+  async createLimitOrder(order: LimitOrderRequest): Promise<OrderResult> {
+    try {
+      this.validateOrder(order);
+
+      if (!order.price || order.price <= 0) {
+        throw new ExchangeError('Limit price must be positive', 'INVALID_PRICE');
+      }
+
+      const quote = await this.requestQuote({ ...order, amount: order.amount || order.value! / order.price, value: undefined });
+      const quotedPrice = toNumber(quote.price);
+      const withinLimit = order.side === 'buy' ? quotedPrice <= order.price : quotedPrice >= order.price;
+
+      if (withinLimit) {
+        return await this.acceptQuote(quote);
+      }
+
+      return {
+        orderId: `${QUOTE_ORDER_PREFIX}${quote.quote_id}`,
+        status: 'cancelled',
+        side: order.side,
+        symbol: 'BTC',
+        amount: toNumber(quote.quantity),
+        filledAmount: 0,
+        remainingAmount: 0,
+        averagePrice: order.price,
+        totalValue: 0,
+        fees: [],
+        timestamp: new Date(),
+        rawData: quote
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to create limit order', 'LIMIT_ORDER_ERROR');
+    }
+  }
+
+  /**
+   * Get the status of an accepted quote's trade
+   */
+  async getOrderStatus(orderId: string): Promise<OrderStatus> {
+    if (orderId.startsWith(QUOTE_ORDER_PREFIX)) {
+      return this.expiredQuoteStatus(orderId);
+    }
+
+    try {
+      const trade = await this.withRetry(() => this.request<ZeroCapTrade>('GET', `/v2/trades/${encodeURIComponent(orderId)}`));
+      return this.toOrderStatus(trade);
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get order status', 'ORDER_STATUS_ERROR');
+    }
+  }
+
+  /**
+   * Accepted quotes settle immediately and cannot be cancelled; this returns the final state
+   */
+  async cancelOrder(orderId: string): Promise<OrderStatus> {
+    return this.getOrderStatus(orderId);
+  }
+
+  /**
+   * Get AUD and BTC balances
+   */
+  async getBalance(): Promise<ExchangeBalance> {
+    try {
+      const balances = await this.withRetry(() => this.request<ZeroCapBalance[]>('GET', '/v2/balances'));
+      const find = (asset: string) => balances.find(balance => balance.asset === asset);
+
+      const aud = find('AUD');
+      const btc = find('BTC');
+      const btcAvailable = toNumber(btc?.available);
+      const btcTotal = toNumber(btc?.total);
+
+      return {
+        currency: 'AUD',
+        available: toNumber(aud?.available),
+        total: toNumber(aud?.total),
+        btc: {
+          available: btcAvailable,
+          total: btcTotal,
+          reserved: Math.max(0, btcTotal - btcAvailable)
+        }
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get balance', 'BALANCE_ERROR');
+    }
+  }
+
+  /**
+   * Get settled BTC trades, newest first
+   */
+  async getTransactionHistory(since?: Date): Promise<ExchangeTransaction[]> {
+    try {
+      const transactions: ExchangeTransaction[] = [];
+      let cursor = '';
+
+      do {
+        const query = new URLSearchParams({ limit: '100' });
+        if (since) query.set('since', since.toISOString());
+        if (cursor) query.set('cursor', cursor);
+
+        const response = await this.withRetry(() => this.request<{ trades: ZeroCapTrade[]; next_cursor?: string | null }>(
+          'GET',
+          `/v2/trades?${query.toString()}`
+        ));
+
+        for (const trade of response.trades || []) {
+          const [base, quote] = trade.symbol.split('-');
+          if (base !== 'BTC' || this.convertOrderStatus(trade.status) !== 'filled') continue;
+
+          transactions.push({
+            id: trade.trade_id,
+            type: 'trade',
+            side: trade.side,
+            symbol: `BTC/${quote}`,
+            amount: toNumber(trade.quantity),
+            currency: 'BTC',
+            price: toNumber(trade.price),
+            totalValue: toNumber(trade.notional),
+            fees: [{ amount: toNumber(trade.fee), currency: trade.fee_currency || quote, type: 'trading' }],
+            status: 'completed',
+            timestamp: new Date(trade.executed_at),
+            orderId: trade.trade_id,
+            rawData: trade
+          });
+        }
+
+        cursor = response.next_cursor || '';
+      } while (cursor);
+
+      return transactions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get transaction history', 'TRANSACTION_HISTORY_ERROR');
+    }
+  }
+
+  /**
+   * Withdraw Bitcoin to a whitelisted address
+   */
+  async withdrawBitcoin(request: WithdrawalRequest): Promise<WithdrawalResult> {
+    try {
+      this.validateWithdrawalRequest(request);
+
+      const fees = await this.getWithdrawalFees();
+      if (request.amount < fees.btc.minimum) {
+        throw new ExchangeError(
+          `Withdrawal amount ${request.amount} BTC is below minimum ${fees.btc.minimum} BTC`,
+          'BELOW_MINIMUM_WITHDRAWAL'
+        );
+      }
+
+      // Not retried: a timed-out withdrawal may still have been accepted
+      const response = await this.request<ZeroCapWithdrawal>('POST', '/v2/withdrawals', {
+        asset: 'BTC',
+        amount: request.amount.toFixed(8),
+        address: request.address,
+        client_reference: request.description
+      });
+
+      return {
+        ...this.toWithdrawalResult(response),
+        estimatedConfirmationTime: 60 // ~1 hour for Bitcoin
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to withdraw Bitcoin', 'WITHDRAWAL_ERROR');
+    }
+  }
+
+  /**
+   * Get withdrawal status
+   */
+  async getWithdrawalStatus(withdrawalId: string): Promise<WithdrawalStatus> {
+    try {
+      const withdrawal = await this.withRetry(() => this.request<ZeroCapWithdrawal>(
+        'GET',
+        `/v2/withdrawals/${encodeURIComponent(withdrawalId)}`
+      ));
+      const result = this.toWithdrawalResult(withdrawal);
+
+      return {
+        ...result,
+        confirmations: withdrawal.confirmations,
+        isComplete: result.status === 'confirmed',
+        failureReason: withdrawal.failure_reason
+      };
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to get withdrawal status', 'WITHDRAWAL_STATUS_ERROR');
+    }
+  }
+
+  /**
+   * ZeroCap's spread is priced into each quote; there is no separate maker/taker fee
+   */
+  async getTradingFees(): Promise<TradingFees> {
+    return {
+      maker: 0,
+      taker: 0,
+      currency: 'percentage'
+    };
+  }
+
+  /**
+   * Get withdrawal fees
+   */
+  async getWithdrawalFees(): Promise<WithdrawalFees> {
+    try {
+      const fees = await this.withRetry(() => this.request<ZeroCapFees>('GET', '/v2/fees'));
+      const btc = fees.withdrawal?.BTC;
+
+      if (!btc) {
+        return DEFAULT_WITHDRAWAL_FEES;
+      }
+
+      return {
+        btc: {
+          fixed: toNumber(btc.fee),
+          minimum: toNumber(btc.minimum)
+        }
+      };
+    } catch {
+      // Fallback to ZeroCap's published BTC withdrawal fee
+      return DEFAULT_WITHDRAWAL_FEES;
+    }
+  }
+
+  // Private helper methods
+
+  private symbol(currency: string): string {
+    return `BTC-${currency.toUpperCase()}`;
+  }
+
+  private async getIndicativePrice(currency: string): Promise<ZeroCapPrice> {
+    return this.withRetry(() => this.request<ZeroCapPrice>('GET', `/v2/prices/${this.symbol(currency)}`));
+  }
+
+  private async requestQuote(order: MarketOrderRequest): Promise<ZeroCapQuote> {
+    // Sized in BTC when an amount is given, otherwise by AUD notional
+    return this.withRetry(() => this.request<ZeroCapQuote>('POST', '/v2/rfq', {
+      symbol: this.symbol(order.currency),
+      side: order.side,
+      ...(order.amount ? { quantity: order.amount.toFixed(8) } : { notional: order.value!.toFixed(2) })
+    }));
+  }
+
+  private async acceptQuote(quote: ZeroCapQuote): Promise<OrderResult> {
+    // Not retried: a timed-out accept may still have traded
+    const trade = await this.request<ZeroCapTrade>('POST', `/v2/rfq/${encodeURIComponent(quote.quote_id)}/accept`, {});
+    const status = this.toOrderStatus(trade);
+
+    if (status.status === 'rejected') {
+      throw new OrderRejectedError(trade.reject_reason || 'Quote acceptance rejected', trade.trade_id);
+    }
+
+    return {
+      orderId: status.orderId,
+      status: status.status,
+      side: status.side,
+      symbol: status.symbol,
+      amount: status.amount,
+      filledAmount: status.filledAmount,
+      remainingAmount: status.remainingAmount,
+      averagePrice: status.averagePrice,
+      totalValue: status.totalValue,
+      fees: status.fees,
+      timestamp: new Date(trade.executed_at),
+      rawData: { quote, trade }
+    };
+  }
+
+  private toOrderStatus(trade: ZeroCapTrade): OrderStatus {
+    const status = this.convertOrderStatus(trade.status);
+    const quantity = toNumber(trade.quantity);
+    const filledAmount = status === 'filled' ? quantity : 0;
+    const fee = toNumber(trade.fee);
+
+    return {
+      orderId: trade.trade_id,
+      status,
+      side: trade.side,
+      symbol: 'BTC',
+      amount: quantity,
+      filledAmount,
+      remainingAmount: status === 'pending' ? quantity : 0,
+      averagePrice: toNumber(trade.price),
+      totalValue: status === 'filled' ? toNumber(trade.notional) : 0,
+      fees: fee > 0 ? [{ amount: fee, currency: trade.fee_currency, type: 'trading' }] : [],
+      timestamp: new Date(trade.executed_at),
+      isComplete: status === 'filled',
+      isCancelled: status === 'cancelled',
+      rawData: trade
+    };
+  }
+
+  private expiredQuoteStatus(orderId: string): OrderStatus {
+    return {
+      orderId,
+      status: 'cancelled',
+      side: 'buy',
+      symbol: 'BTC',
+      amount: 0,
+      filledAmount: 0,
+      remainingAmount: 0,
+      averagePrice: 0,
+      totalValue: 0,
+      fees: [],
+      timestamp: new Date(),
+      isComplete: false,
+      isCancelled: true
+    };
+  }
+
+  private toWithdrawalResult(withdrawal: ZeroCapWithdrawal): WithdrawalResult {
+    return {
+      withdrawalId: withdrawal.withdrawal_id,
+      status: this.convertWithdrawalStatus(withdrawal.status),
+      currency: 'BTC',
+      amount: toNumber(withdrawal.amount),
+      address: withdrawal.address,
+      txId: withdrawal.tx_hash || undefined,
+      fees: [{ amount: toNumber(withdrawal.fee), currency: 'BTC', type: 'withdrawal' }],
+      timestamp: new Date(withdrawal.created_at),
+      rawData: withdrawal
+    };
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: Record<string, string | undefined>): Promise<T> {
+    return this.circuitBreaker.execute(() =>
+      metricsCollector.trackApiCall(this.circuitBreaker.name, apiOperation(method, path), () => this.sendRequest<T>(method, path, body))
+    );
+  }
+
+  private async sendRequest<T>(method: 'GET' | 'POST', path: string, body?: Record<string, string | undefined>): Promise<T> {
+    const payload = body ? JSON.stringify(body) : '';
+    const timestamp = Date.now().toString();
+
+    // Proper AbortController implementation
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        signal: controller.signal,
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          'X-ZC-API-KEY': this.apiKey,
+          'X-ZC-TIMESTAMP': timestamp,
+          'X-ZC-SIGNATURE': signZeroCapRequest(method, path, timestamp, payload, this.apiSecret),
+          'User-Agent': 'LIQUID-ABT/1.0 (Australian Bitcoin Treasury)'
+        },
+        body: body ? payload : undefined
+      });
+
+      const text = await response.text();
+      const data = text ? JSON.parse(text) : null;
+
+      if (!response.ok) {
+        const errorCode: string = data?.code || 'UnknownError';
+        const errorMessage: string = data?.message || response.statusText;
+
+        if (/insufficient/i.test(`${errorCode} ${errorMessage}`)) {
+          throw new InsufficientFundsError(0, 0, 'AUD');
+        }
+
+        if (/quote/i.test(errorCode) && response.status < 500 && response.status !== 429) {
+          throw new OrderRejectedError(errorMessage);
+        }
+
+        throw new ExchangeError(
+          `ZeroCap API error: ${errorCode} - ${errorMessage}`,
+          this.getErrorCode(`${errorCode} ${errorMessage}`, response.status),
+          response.status,
+          data
+        );
+      }
+
+      return data as T;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ExchangeError('Request timeout', 'TIMEOUT');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private convertOrderStatus(status: string): OrderStatusType {
+    const statusMap: Record<string, OrderStatusType> = {
+      'pending': 'pending',
+      'settling': 'filled',
+      'filled': 'filled',
+      'settled': 'filled',
+      'rejected': 'rejected',
+      'expired': 'cancelled',
+      'cancelled': 'cancelled'
+    };
+
+    return statusMap[status] || 'pending';
+  }
+
+  private convertWithdrawalStatus(status: string): WithdrawalStatusType {
+    const statusMap: Record<string, WithdrawalStatusType> = {
+      'pending': 'pending',
+      'approved': 'processing',
+      'processing': 'processing',
+      'broadcast': 'sent',
+      'completed': 'confirmed',
+      'failed': 'failed',
+      'rejected': 'failed',
+      'cancelled': 'cancelled'
+    };
+
+    return statusMap[status] || 'pending';
+  }
+
+  // Validation helpers
+  private validateOrder(order: MarketOrderRequest): void {
+    if (!order.side || !['buy', 'sell'].includes(order.side)) {
+      throw new ExchangeError('Order side must be "buy" or "sell"', 'INVALID_SIDE');
+    }
+
+    if (!order.symbol || order.symbol !== 'BTC') {
+      throw new ExchangeError('Only BTC trading is supported', 'UNSUPPORTED_SYMBOL');
+    }
+
+    if (!order.currency) {
+      throw new ExchangeError('Order currency is required', 'MISSING_CURRENCY');
+    }
+
+    if (!(order.amount && order.amount > 0) && !(order.value && order.value > 0)) {
+      throw new ExchangeError('Either a positive amount or value must be specified', 'MISSING_ORDER_SIZE');
+    }
+  }
+
+  private validateWithdrawalRequest(request: WithdrawalRequest): void {
+    if (!request.address || typeof request.address !== 'string') {
+      throw new ExchangeError('Withdrawal address is required', 'MISSING_ADDRESS');
+    }
+
+    if (!request.amount || request.amount <= 0) {
+      throw new ExchangeError('Withdrawal amount must be positive', 'INVALID_AMOUNT');
+    }
+
+    if (request.currency !== 'BTC') {
+      throw new ExchangeError('Only BTC withdrawals are supported', 'UNSUPPORTED_CURRENCY');
+    }
+  }
+
+  // Error code mapping
+  private getErrorCode(error: string, statusCode: number): string {
+    if (statusCode === 429 || /rate.?limit/i.test(error)) return 'RATE_LIMIT_EXCEEDED';
+    if (/timestamp/i.test(error)) return 'INVALID_NONCE';
+    if (statusCode === 401 || /signature/i.test(error)) return 'INVALID_SIGNATURE';
+    if (statusCode === 403) return 'PERMISSION_DENIED';
+    if (statusCode === 404) return 'NOT_FOUND';
+    if (/whitelist/i.test(error)) return 'ADDRESS_NOT_WHITELISTED';
+    if (/address/i.test(error)) return 'INVALID_ADDRESS';
+    if (/symbol/i.test(error)) return 'UNKNOWN_PAIR';
+    return 'API_ERROR';
+  }
+
+  private wrapError(error: unknown, message: string, code: string): ExchangeError {
+    if (error instanceof ExchangeError) {
+      return error;
+    }
+    return new ExchangeError(`${message}: ${error instanceof Error ? error.message : 'Unknown error'}`, code);
+  }
+
+  // Retry mechanism with exponential backoff
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error;
+
+        // Don't retry if it's not a retriable error
+        if (!this.retryConfig.retryOn(error) || attempt === this.retryConfig.maxRetries) {
+          throw error;
+        }
+
+        // Exponential backoff with jitter
+        const backoffMs = this.retryConfig.backoffMs * Math.pow(2, attempt) + Math.random() * 1000;
+        await new Promise(resolve => setTimeout(resolve, backoffMs));
+      }
+    }
+
+    throw lastError;
+  }
+}
@@ -11,11 +11,16 @@ import {
   formatStripeError,
   sanitizeStripeDataForLogging 
 } from './stripe/helpers';
+import { PaymentReversals } from '@/lib/treasury-engine/payment-reversals';
+import { findTenantByStripeAccount } from './stripe/tenant-lookup';
+import { CircuitBreakerFactory } from '@/lib/patterns/circuit-breaker';
+import { metricsCollector } from '@/lib/monitoring/metrics';
 
 export class StripeIntegration implements PaymentProcessor {
   name = 'Stripe';
   isEnabled = true;
   private stripe: Stripe;
+  private circuitBreaker = CircuitBreakerFactory.createPaymentApiBreaker('stripe');
   private rateLimitedUntil: number = 0;
   private processedEvents: Set<string> = new Set();
   
@@ -33,12 +38,12 @@ export class StripeIntegration implements PaymentProcessor {
   async connect(tenantId: string): Promise<OAuthResult> {
     try {
       // For Stripe Connect, we need to create an account link
-      const accountLink = await this.stripe.accountLinks.create({
+      const accountLink = await this.callStripe('accountLinks.create', () => this.stripe.accountLinks.create({
         account: tenantId,
         refresh_url: `${process.env.NEXT_PUBLIC_DOMAIN}/integrations/stripe/refresh`,
         return_url: `${process.env.NEXT_PUBLIC_DOMAIN}/integrations/stripe/return`,
         type: 'account_onboarding',
-      });
+      }));
       
       return {
         success: true,
@@ -109,6 +114,16 @@ export class StripeIntegration implements PaymentProcessor {
           console.log(`Checkout session completed: ${session.id}`);
           break;
           
+        case 'charge.refunded':
+          transactionId = (event.data.object as Stripe.Charge).id;
+          await this.handleChargeRefunded(event, tenantId);
+          break;
+          
+        case 'charge.dispute.created':
+          transactionId = (event.data.object as Stripe.Dispute).id;
+          await this.handleDisputeCreated(event, tenantId);
+          break;
+          
         default:
           console.log(`Unhandled Stripe event type: ${event.type}`);
           return { success: true, processed: false };
@@ -133,14 +148,14 @@ export class StripeIntegration implements PaymentProcessor {
   
   async getTransactions(tenantId: string, from: Date, to: Date): Promise<Transaction[]> {
     try {
-      const charges = await this.stripe.charges.list({
+      const charges = await this.callStripe('charges.list', () => this.stripe.charges.list({
         created: {
           gte: Math.floor(from.getTime() / 1000),
           lte: Math.floor(to.getTime() / 1000),
         },
         limit: 100,
         // In a real implementation, you would filter by the tenant's connected account
-      });
+      }));
       
       return charges.data.map(charge => ({
         id: charge.id,
@@ -171,7 +186,7 @@ export class StripeIntegration implements PaymentProcessor {
   
   async getBalance(tenantId: string): Promise<Balance> {
     try {
-      const balance = await this.stripe.balance.retrieve();
+      const balance = await this.callStripe('balance.retrieve', () => this.stripe.balance.retrieve());
       
       const available = balance.available.reduce((sum, b) => sum + b.amount, 0) / 100;
       const pending = balance.pending.reduce((sum, b) => sum + b.amount, 0) / 100;
@@ -196,10 +211,10 @@ export class StripeIntegration implements PaymentProcessor {
   
   async createRefund(transactionId: string, amount?: number): Promise<{ success: boolean; refundId?: string; error?: string }> {
     try {
-      const refund = await this.stripe.refunds.create({
+      const refund = await this.callStripe('refunds.create', () => this.stripe.refunds.create({
         charge: transactionId,
         amount: amount ? Math.round(amount * 100) : undefined, // Convert to cents if specified
-      });
+      }));
       
       return {
         success: true,
@@ -216,7 +231,7 @@ export class StripeIntegration implements PaymentProcessor {
   
   async getAccountInfo(tenantId: string): Promise<{ name: string; email: string; status: string; country: string }> {
     try {
-      const account = await this.stripe.accounts.retrieve(tenantId);
+      const account = await this.callStripe('accounts.retrieve', () => this.stripe.accounts.retrieve(tenantId));
       
       return {
         name: account.business_profile?.name || account.settings?.dashboard?.display_name || 'Unknown',
@@ -236,7 +251,7 @@ export class StripeIntegration implements PaymentProcessor {
   
   async healthCheck(): Promise<boolean> {
     try {
-      await this.stripe.balance.retrieve();
+      await this.callStripe('balance.retrieve', () => this.stripe.balance.retrieve());
       return true;
     } catch (error) {
       console.error('Stripe health check failed:', error);
@@ -315,9 +330,10 @@ export class StripeIntegration implements PaymentProcessor {
   }
   
   /**
-   * Process webhook events with idempotency and business logic
+   * Process webhook events with idempotency and business logic. Refunds and chargebacks
+   * update treasury state for the given tenant, or the tenant connected to event.account.
    */
-  async processWebhookEvent(event: Stripe.Event): Promise<{
+  async processWebhookEvent(event: Stripe.Event, tenantId?: string): Promise<{
     processed: boolean;
     duplicate?: boolean;
     bitcoinPurchaseAmount?: number;
@@ -342,7 +358,10 @@ export class StripeIntegration implements PaymentProcessor {
           return await this.handleChargeSucceeded(event);
           
         case 'charge.refunded':
-          return await this.handleChargeRefunded(event);
+          return await this.handleChargeRefunded(event, tenantId);
+          
+        case 'charge.dispute.created':
+          return await this.handleDisputeCreated(event, tenantId);
           
         case 'invoice.payment_succeeded':
           return await this.handleInvoicePaymentSucceeded(event);
@@ -363,9 +382,9 @@ export class StripeIntegration implements PaymentProcessor {
    */
   async getAllTransactions(tenantId: string, options: { limit?: number } = {}): Promise<Transaction[]> {
     try {
-      const charges = await this.stripe.charges.list({
+      const charges = await this.callStripe('charges.list', () => this.stripe.charges.list({
         limit: options.limit || 100,
-      });
+      }));
       
       return charges.data.map(charge => this.mapStripeChargeToTransaction(charge));
     } catch (error) {
@@ -453,7 +472,7 @@ export class StripeIntegration implements PaymentProcessor {
     
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
-        return await apiCall();
+        return await this.callStripe('apiCall', apiCall);
       } catch (error: any) {
         if (error.type === 'StripeRateLimitError') {
           this.rateLimitedUntil = Date.now() + (60 * 1000); // 1 minute
@@ -488,6 +507,7 @@ export class StripeIntegration implements PaymentProcessor {
         'payment_intent.succeeded',
         'charge.succeeded',
         'charge.refunded',
+        'charge.dispute.created',
         'invoice.payment_succeeded',
       ],
     };
@@ -495,6 +515,13 @@ export class StripeIntegration implements PaymentProcessor {
   
   // Private helper methods
   
+  /**
+   * Stripe API call through the shared Stripe circuit breaker, with latency and outcome metrics
+   */
+  private callStripe<T>(operation: string, apiCall: () => Promise<T>): Promise<T> {
+    return this.circuitBreaker.execute(() => metricsCollector.trackApiCall(this.circuitBreaker.name, operation, apiCall));
+  }
+  
   private async handlePaymentIntentSucceeded(event: Stripe.Event): Promise<{
     processed: boolean;
     bitcoinPurchaseAmount?: number;
@@ -529,37 +556,117 @@ export class StripeIntegration implements PaymentProcessor {
     };
   }
   
-  private async handleChargeRefunded(event: Stripe.Event): Promise<{
+  /**
+   * Record each refund on the charge against the original transaction; the tenant's refund
+   * policy decides how the converted share is unwound. bitcoinAdjustment is the converted AUD
+   * covered by all refunds on the charge so far.
+   */
+  private async handleChargeRefunded(event: Stripe.Event, tenantId?: string): Promise<{
     processed: boolean;
     refundProcessed: boolean;
     bitcoinAdjustment?: number;
   }> {
     const charge = event.data.object as Stripe.Charge;
     const refundAmount = charge.amount_refunded / 100; // Convert from cents to dollars
+    tenantId = await this.resolveTenantId(event, tenantId);
     
-    try {
-      // Get the original conversion percentage from metadata or database
-      const originalConversionPercentage = extractStripeMetadata(charge, 'conversionPercentage', '0');
-      const conversionRate = parseFloat(originalConversionPercentage) / 100;
-      
-      // Calculate Bitcoin adjustment based on original conversion rate
-      const bitcoinAdjustment = refundAmount * conversionRate;
+    if (!tenantId) {
+      console.warn(`Refund of $${refundAmount} on charge ${charge.id} from no known tenant (account ${event.account || 'none'}) - treasury state not updated`);
+      return { processed: true, refundProcessed: false };
+    }
+    
+    const reversals = new PaymentReversals(tenantId);
+    const refunds = await this.listChargeRefunds(charge, event.account);
+    let bitcoinAdjustment = 0;
+    
+    for (const refund of refunds) {
+      if (refund.status === 'failed' || refund.status === 'canceled') {
+        continue;
+      }
       
-      console.log(`Processing refund: $${refundAmount}, Bitcoin adjustment: $${bitcoinAdjustment} (${originalConversionPercentage}% conversion rate)`);
+      const reversal = await reversals.recordReversal({
+        reversalType: 'refund',
+        externalId: refund.id,
+        provider: 'stripe',
+        paymentExternalIds: getChargePaymentIds(charge),
+        amount: refund.amount,
+        paymentAmount: charge.amount,
+        reason: refund.reason || undefined
+      });
       
-      return {
-        processed: true,
-        refundProcessed: true,
-        bitcoinAdjustment: bitcoinAdjustment > 0 ? bitcoinAdjustment : undefined,
-      };
-    } catch (error) {
-      console.error('Error calculating Bitcoin adjustment for refund:', error);
-      return {
-        processed: true,
-        refundProcessed: true,
-        // No Bitcoin adjustment if we can't calculate it properly
-      };
+      bitcoinAdjustment += reversal?.convertedAUD || 0;
     }
+    
+    console.log(`Processed refund: $${refundAmount} on charge ${charge.id}, converted share unwound: $${bitcoinAdjustment}`);
+    
+    return {
+      processed: true,
+      refundProcessed: true,
+      bitcoinAdjustment: bitcoinAdjustment > 0 ? Math.round(bitcoinAdjustment * 100) / 100 : undefined,
+    };
+  }
+  
+  /**
+   * Chargebacks are treated like refunds of the disputed amount once the dispute is opened
+   */
+  private async handleDisputeCreated(event: Stripe.Event, tenantId?: string): Promise<{
+    processed: boolean;
+    refundProcessed: boolean;
+    bitcoinAdjustment?: number;
+  }> {
+    const dispute = event.data.object as Stripe.Dispute;
+    tenantId = await this.resolveTenantId(event, tenantId);
+    
+    if (!tenantId) {
+      console.warn(`Dispute ${dispute.id} from no known tenant (account ${event.account || 'none'}) - treasury state not updated`);
+      return { processed: true, refundProcessed: false };
+    }
+    
+    const disputedCharge = dispute.charge;
+    const charge = typeof disputedCharge === 'string'
+      ? await this.callStripe('charges.retrieve', () => this.stripe.charges.retrieve(disputedCharge, {}, event.account ? { stripeAccount: event.account } : undefined))
+      : disputedCharge;
+    
+    const reversal = await new PaymentReversals(tenantId).recordReversal({
+      reversalType: 'chargeback',
+      externalId: dispute.id,
+      provider: 'stripe',
+      paymentExternalIds: getChargePaymentIds(charge),
+      amount: dispute.amount,
+      paymentAmount: charge.amount,
+      reason: dispute.reason
+    });
+    
+    return {
+      processed: true,
+      refundProcessed: reversal !== null,
+      bitcoinAdjustment: reversal && reversal.convertedAUD > 0 ? reversal.convertedAUD : undefined,
+    };
+  }
+  
+  /**
+   * Stripe sends Connect events for the connected account, never our tenant ID
+   */
+  private async resolveTenantId(event: Stripe.Event, tenantId?: string): Promise<string | undefined> {
+    if (tenantId || !event.account) {
+      return tenantId;
+    }
+    
+    const tenant = await findTenantByStripeAccount(event.account);
+    return tenant?.id;
+  }
+  
+  private async listChargeRefunds(charge: Stripe.Charge, account?: string): Promise<Stripe.Refund[]> {
+    if (charge.refunds && !charge.refunds.has_more) {
+      return charge.refunds.data;
+    }
+    
+    const refunds = await this.callStripe('refunds.list', () => this.stripe.refunds.list(
+      { charge: charge.id, limit: 100 },
+      account ? { stripeAccount: account } : undefined
+    ));
+    
+    return refunds.data;
   }
   
   private async handleInvoicePaymentSucceeded(event: Stripe.Event): Promise<{
@@ -594,4 +701,17 @@ export class StripeIntegration implements PaymentProcessor {
       },
     };
   }
+}
+
+/**
+ * IDs the original payment may have been stored under
+ */
+function getChargePaymentIds(charge: Stripe.Charge): string[] {
+  const ids = [charge.id];
+  
+  if (charge.payment_intent) {
+    ids.push(typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent.id);
+  }
+  
+  return ids;
 }
\ No newline at end of file
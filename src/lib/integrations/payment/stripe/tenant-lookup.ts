@@ -0,0 +1,40 @@
+// LIQUID ABT - Stripe Tenant Lookup
+// Resolves the tenant behind a Stripe Connect account (event.account on webhook events)
+
+import { getMasterPrisma, tenantSchemaManager } from '@/lib/database/connection';
+
+/**
+ * The active tenant whose Stripe integration is connected to accountId, or null
+ */
+export async function findTenantByStripeAccount(accountId: string): Promise<{ id: string; schemaName: string } | null> {
+  const prisma = getMasterPrisma();
+  
+  // First, get all tenants (we'll need to check their integrations)
+  const tenants = await prisma.tenant.findMany({
+    where: { isActive: true },
+    select: { id: true, schemaName: true }
+  });
+
+  // Check each tenant's integrations for matching Stripe account
+  for (const tenant of tenants) {
+    try {
+      const integrations = await tenantSchemaManager.queryTenantSchema(
+        tenant.id,
+        `SELECT settings FROM integrations 
+         WHERE provider = 'stripe' 
+         AND is_active = true 
+         AND settings->>'accountId' = $1`,
+        [accountId]
+      );
+
+      if (integrations.length > 0) {
+        return tenant;
+      }
+    } catch (error) {
+      console.error(`Error checking tenant ${tenant.id} for Stripe account:`, error);
+      continue;
+    }
+  }
+
+  return null;
+}
@@ -79,8 +79,11 @@ function cleanupMemoryStore() {
   }
 }
 
-// Set up periodic cleanup for memory store (every 5 minutes)
-setInterval(cleanupMemoryStore, 5 * 60 * 1000);
+// Set up periodic cleanup for memory store (every 5 minutes), without keeping scripts and test runs alive
+const cleanupTimer = setInterval(cleanupMemoryStore, 5 * 60 * 1000);
+if (typeof cleanupTimer === 'object' && typeof cleanupTimer.unref === 'function') {
+  cleanupTimer.unref();
+}
 
 /**
  * Default key generator - uses IP address and user agent
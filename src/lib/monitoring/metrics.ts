@@ -0,0 +1,213 @@
+// LIQUID ABT - Metrics Collector
+// In-process counters and latency histograms for external API calls (exchanges, Stripe) and
+// circuit breaker state, exported in Prometheus text format.
+
+import { CircuitState, circuitBreakerRegistry } from '../patterns/circuit-breaker';
+
+export type MetricLabels = Record<string, string>;
+
+export interface ApiCallSummary {
+  dependency: string;  // e.g. 'exchange:btc_markets', 'payment:stripe'
+  operation: string;
+  calls: number;
+  successes: number;
+  failures: number;
+  averageMs: number;
+  maxMs: number;
+  lastStatusCode?: number;
+  lastCalledAt: string;
+}
+
+export interface MetricsSnapshot {
+  apiCalls: ApiCallSummary[];
+  circuits: Array<{ name: string; state: CircuitState; transitions: number }>;
+  collectedAt: string;
+}
+
+interface ApiCallStats {
+  calls: number;
+  successes: number;
+  failures: number;
+  totalMs: number;
+  maxMs: number;
+  buckets: number[]; // Cumulative counts per LATENCY_BUCKETS_MS upper bound
+  lastStatusCode?: number;
+  lastCalledAt: number;
+}
+
+const LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000];
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { CLOSED: 0, HALF_OPEN: 1, OPEN: 2 };
+
+/**
+ * Wall-clock timer for one operation. finish() may be called more than once (e.g. per failed
+ * attempt and again on success) and always returns the time since the timer started.
+ */
+export class PerformanceTimer {
+  private readonly startedAt = Date.now();
+
+  constructor(public readonly name: string) {}
+
+  finish(): number {
+    return Date.now() - this.startedAt;
+  }
+}
+
+class MetricsCollector {
+  private apiCalls = new Map<string, ApiCallStats>();
+  private circuitStates = new Map<string, { state: CircuitState; transitions: number }>();
+
+  /**
+   * Record one exchange API call. Kraken passes its method name only; other providers also
+   * pass the exchange.
+   */
+  recordExchangeApiCall(operation: string, durationMs: number, success: boolean, statusCode?: number, exchange = 'kraken'): void {
+    this.recordApiCall(`exchange:${exchange}`, operation, durationMs, success, statusCode);
+  }
+
+  recordPaymentApiCall(operation: string, durationMs: number, success: boolean, statusCode?: number, processor = 'stripe'): void {
+    this.recordApiCall(`payment:${processor}`, operation, durationMs, success, statusCode);
+  }
+
+  recordApiCall(dependency: string, operation: string, durationMs: number, success: boolean, statusCode?: number): void {
+    const key = `${dependency}|${operation}`;
+    const stats = this.apiCalls.get(key) || {
+      calls: 0,
+      successes: 0,
+      failures: 0,
+      totalMs: 0,
+      maxMs: 0,
+      buckets: LATENCY_BUCKETS_MS.map(() => 0),
+      lastCalledAt: 0
+    };
+
+    stats.calls++;
+    stats[success ? 'successes' : 'failures']++;
+    stats.totalMs += durationMs;
+    stats.maxMs = Math.max(stats.maxMs, durationMs);
+    LATENCY_BUCKETS_MS.forEach((bound, index) => {
+      if (durationMs <= bound) {
+        stats.buckets[index]++;
+      }
+    });
+    stats.lastStatusCode = statusCode ?? stats.lastStatusCode;
+    stats.lastCalledAt = Date.now();
+
+    this.apiCalls.set(key, stats);
+  }
+
+  /**
+   * Time an API call and record its outcome (the error's HTTP status, when it has one)
+   */
+  async trackApiCall<T>(dependency: string, operation: string, call: () => Promise<T>): Promise<T> {
+    const timer = new PerformanceTimer(`${dependency}:${operation}`);
+
+    try {
+      const result = await call();
+      this.recordApiCall(dependency, operation, timer.finish(), true);
+      return result;
+    } catch (error) {
+      this.recordApiCall(dependency, operation, timer.finish(), false, getStatusCode(error));
+      throw error;
+    }
+  }
+
+  recordCircuitState(name: string, state: CircuitState): void {
+    const current = this.circuitStates.get(name);
+    this.circuitStates.set(name, { state, transitions: (current?.transitions || 0) + 1 });
+  }
+
+  getSnapshot(): MetricsSnapshot {
+    return {
+      apiCalls: Array.from(this.apiCalls.entries()).map(([key, stats]) => {
+        const [dependency, operation] = key.split('|');
+        return {
+          dependency,
+          operation,
+          calls: stats.calls,
+          successes: stats.successes,
+          failures: stats.failures,
+          averageMs: Math.round(stats.totalMs / stats.calls),
+          maxMs: stats.maxMs,
+          lastStatusCode: stats.lastStatusCode,
+          lastCalledAt: new Date(stats.lastCalledAt).toISOString()
+        };
+      }),
+      circuits: circuitBreakerRegistry.getAllStatuses().map(status => ({
+        name: status.name,
+        state: status.state,
+        transitions: this.circuitStates.get(status.name)?.transitions || 0
+      })),
+      collectedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Prometheus text exposition of every metric
+   */
+  toPrometheus(): string {
+    const lines: string[] = [
+      '# HELP liquid_api_calls_total External API calls by outcome',
+      '# TYPE liquid_api_calls_total counter'
+    ];
+    const entries = Array.from(this.apiCalls.entries()).map(([key, stats]) => {
+      const [dependency, operation] = key.split('|');
+      return { labels: { dependency, operation }, stats };
+    });
+
+    for (const { labels, stats } of entries) {
+      lines.push(`liquid_api_calls_total${formatLabels({ ...labels, outcome: 'success' })} ${stats.successes}`);
+      lines.push(`liquid_api_calls_total${formatLabels({ ...labels, outcome: 'failure' })} ${stats.failures}`);
+    }
+
+    lines.push('# HELP liquid_api_call_duration_ms External API call latency', '# TYPE liquid_api_call_duration_ms histogram');
+    for (const { labels, stats } of entries) {
+      LATENCY_BUCKETS_MS.forEach((bound, index) => {
+        lines.push(`liquid_api_call_duration_ms_bucket${formatLabels({ ...labels, le: String(bound) })} ${stats.buckets[index]}`);
+      });
+      lines.push(`liquid_api_call_duration_ms_bucket${formatLabels({ ...labels, le: '+Inf' })} ${stats.calls}`);
+      lines.push(`liquid_api_call_duration_ms_sum${formatLabels(labels)} ${stats.totalMs}`);
+      lines.push(`liquid_api_call_duration_ms_count${formatLabels(labels)} ${stats.calls}`);
+    }
+
+    lines.push('# HELP liquid_circuit_state Circuit breaker state (0 closed, 1 half-open, 2 open)', '# TYPE liquid_circuit_state gauge');
+    for (const status of circuitBreakerRegistry.getAllStatuses()) {
+      lines.push(`liquid_circuit_state${formatLabels({ circuit: status.name })} ${CIRCUIT_STATE_VALUES[status.state]}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  reset(): void {
+    this.apiCalls.clear();
+    this.circuitStates.clear();
+  }
+}
+
+/**
+ * Operation label for an HTTP call: method and path, with query strings and identifiers removed
+ * so per-order paths share one series
+ */
+export function apiOperation(method: string | undefined, url: string): string {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+  const normalized = path
+    .split('/')
+    .map(segment => /^[0-9a-f-]{16,}$/i.test(segment) || /\d{4,}/.test(segment) ? ':id' : segment)
+    .join('/');
+
+  return `${(method || 'GET').toUpperCase()} ${normalized}`;
+}
+
+function getStatusCode(error: unknown): number | undefined {
+  const { statusCode, status } = (error || {}) as { statusCode?: unknown; status?: unknown };
+  return typeof statusCode === 'number' ? statusCode : typeof status === 'number' ? status : undefined;
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+export const metricsCollector = new MetricsCollector();
+
+// Every breaker's state changes are counted here
+circuitBreakerRegistry.onStateChange(change => metricsCollector.recordCircuitState(change.name, change.to));
@@ -0,0 +1,39 @@
+// LIQUID ABT - Tenant Notifications
+// Writes dashboard notifications to the tenant's notifications table
+
+import { tenantSchemaManager } from '@/lib/database/connection';
+
+export type NotificationPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface TenantNotification {
+  userId?: string; // Omit for a tenant-wide notification
+  type: string;
+  title: string;
+  message: string;
+  priority?: NotificationPriority;
+  metadata?: Record<string, unknown>;
+  expiresAt?: Date;
+}
+
+/**
+ * Create one notification per recipient (or a single tenant-wide one when no user is given)
+ */
+export async function createTenantNotifications(tenantId: string, notifications: TenantNotification[]): Promise<void> {
+  for (const notification of notifications) {
+    await tenantSchemaManager.queryTenantSchema(
+      tenantId,
+      `INSERT INTO notifications (tenant_id, user_id, type, title, message, priority, metadata, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        tenantId,
+        notification.userId || null,
+        notification.type,
+        notification.title,
+        notification.message,
+        notification.priority || 'normal',
+        notification.metadata ? JSON.stringify(notification.metadata) : null,
+        notification.expiresAt || null
+      ]
+    );
+  }
+}
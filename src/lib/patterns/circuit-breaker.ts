@@ -0,0 +1,352 @@
+// LIQUID ABT - Circuit Breaker
+// Stops calling a failing dependency (exchange or payment API) for a while instead of piling
+// retries onto an outage. CLOSED passes calls through and counts failures; enough failures
+// within the window OPEN the circuit and calls fail fast; after the reset timeout a few trial
+// calls run HALF_OPEN and either close the circuit again or re-open it.
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;   // Failures within the window that open the circuit
+  failureWindowMs: number;
+  resetTimeoutMs: number;     // Time spent OPEN before trial calls are allowed
+  halfOpenMaxCalls: number;   // Concurrent trial calls while HALF_OPEN
+  successThreshold: number;   // Successful trial calls that close the circuit
+  callTimeoutMs?: number;     // Calls slower than this count as failures
+  isFailure: (error: unknown) => boolean; // Errors that say nothing about the dependency's health are ignored
+}
+
+export interface CircuitStateChange {
+  name: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+  failures: number;
+  at: Date;
+}
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  failures: number;      // Within the current window
+  openedAt?: string;
+  retryAt?: string;      // When trial calls will be allowed
+  totalCalls: number;
+  totalFailures: number;
+  totalRejected: number; // Calls refused while OPEN
+}
+
+export type CircuitStateListener = (change: CircuitStateChange) => void;
+
+/**
+ * Thrown instead of calling the dependency while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly code = 'CIRCUIT_OPEN';
+
+  constructor(public readonly circuit: string, public readonly retryAfterMs: number) {
+    super(`${circuit} is unavailable (circuit open); retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'TIMEOUT', 'NETWORK_ERROR'];
+const STRIPE_OUTAGE_TYPES = ['StripeConnectionError', 'StripeAPIError', 'StripeRateLimitError'];
+
+/**
+ * Network failures, timeouts, rate limiting and 5xx responses count against a dependency;
+ * validation, authentication and business errors (insufficient funds, rejected orders) do not,
+ * so one tenant's bad credentials cannot open the circuit for everyone.
+ */
+export function isServiceFailure(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { code, name, message, type, statusCode, status } = error as {
+    code?: unknown; name?: unknown; message?: unknown; type?: unknown; statusCode?: unknown; status?: unknown;
+  };
+  const httpStatus = typeof statusCode === 'number' ? statusCode : typeof status === 'number' ? status : undefined;
+
+  if (httpStatus !== undefined) {
+    return httpStatus >= 500 || httpStatus === 429;
+  }
+
+  return NETWORK_ERROR_CODES.includes(String(code)) ||
+    STRIPE_OUTAGE_TYPES.includes(String(type)) ||
+    name === 'AbortError' ||
+    name === 'TimeoutError' ||
+    (name === 'TypeError' && message === 'fetch failed'); // undici network failure
+}
+
+const DEFAULT_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  failureWindowMs: 60 * 1000,
+  resetTimeoutMs: 30 * 1000,
+  halfOpenMaxCalls: 1,
+  successThreshold: 2,
+  isFailure: isServiceFailure
+};
+
+export class CircuitBreaker {
+  readonly name: string;
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = 'CLOSED';
+  private failureTimes: number[] = [];
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+  private halfOpenSuccesses = 0;
+  private totals = { calls: 0, failures: 0, rejected: 0 };
+  private listeners: CircuitStateListener[] = [];
+
+  constructor(name: string, config: Partial<CircuitBreakerConfig> = {}) {
+    this.name = name;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Run the call through the circuit. Throws CircuitOpenError without calling while OPEN.
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    this.beforeCall();
+    this.totals.calls++;
+
+    const trial = this.state === 'HALF_OPEN';
+    if (trial) {
+      this.halfOpenCalls++;
+    }
+
+    try {
+      const result = await this.withTimeout(operation);
+      this.onSuccess(trial);
+      return result;
+    } catch (error) {
+      if (this.config.isFailure(error)) {
+        this.onFailure(trial, error);
+      } else {
+        // The dependency answered; only its health is tracked here
+        this.onSuccess(trial);
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.halfOpenCalls--;
+      }
+    }
+  }
+
+  getState(): CircuitState {
+    // An expired OPEN circuit reports HALF_OPEN once a call would be allowed through
+    if (this.state === 'OPEN' && Date.now() - this.openedAt >= this.config.resetTimeoutMs) {
+      return 'HALF_OPEN';
+    }
+    return this.state;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    this.pruneFailures();
+
+    return {
+      name: this.name,
+      state: this.getState(),
+      failures: this.failureTimes.length,
+      openedAt: this.state === 'OPEN' ? new Date(this.openedAt).toISOString() : undefined,
+      retryAt: this.state === 'OPEN' ? new Date(this.openedAt + this.config.resetTimeoutMs).toISOString() : undefined,
+      totalCalls: this.totals.calls,
+      totalFailures: this.totals.failures,
+      totalRejected: this.totals.rejected
+    };
+  }
+
+  /**
+   * Subscribe to state changes; returns an unsubscribe function
+   */
+  onStateChange(listener: CircuitStateListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Force the circuit closed (operator override)
+   */
+  reset(): void {
+    this.failureTimes = [];
+    this.transition('CLOSED', 'Manual reset');
+  }
+
+  private beforeCall(): void {
+    if (this.state === 'OPEN') {
+      const elapsed = Date.now() - this.openedAt;
+
+      if (elapsed < this.config.resetTimeoutMs) {
+        this.totals.rejected++;
+        throw new CircuitOpenError(this.name, this.config.resetTimeoutMs - elapsed);
+      }
+
+      this.transition('HALF_OPEN', 'Reset timeout elapsed');
+    }
+
+    if (this.state === 'HALF_OPEN' && this.halfOpenCalls >= this.config.halfOpenMaxCalls) {
+      this.totals.rejected++;
+      throw new CircuitOpenError(this.name, this.config.resetTimeoutMs);
+    }
+  }
+
+  private onSuccess(trial: boolean): void {
+    if (trial && this.state === 'HALF_OPEN') {
+      this.halfOpenSuccesses++;
+
+      if (this.halfOpenSuccesses >= this.config.successThreshold) {
+        this.failureTimes = [];
+        this.transition('CLOSED', `${this.halfOpenSuccesses} trial calls succeeded`);
+      }
+    }
+  }
+
+  private onFailure(trial: boolean, error: unknown): void {
+    this.totals.failures++;
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+
+    if (trial || this.state === 'HALF_OPEN') {
+      this.open(`Trial call failed: ${reason}`);
+      return;
+    }
+
+    this.failureTimes.push(Date.now());
+    this.pruneFailures();
+
+    if (this.state === 'CLOSED' && this.failureTimes.length >= this.config.failureThreshold) {
+      this.open(`${this.failureTimes.length} failures within ${this.config.failureWindowMs / 1000}s: ${reason}`);
+    }
+  }
+
+  private open(reason: string): void {
+    this.openedAt = Date.now();
+    this.transition('OPEN', reason);
+  }
+
+  private transition(to: CircuitState, reason: string): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+
+    this.state = to;
+    this.halfOpenSuccesses = 0;
+
+    const change: CircuitStateChange = { name: this.name, from, to, reason, failures: this.failureTimes.length, at: new Date() };
+    const log = to === 'OPEN' ? console.warn : console.log;
+    log(`Circuit ${this.name}: ${from} -> ${to} (${reason})`);
+
+    for (const listener of this.listeners.concat(circuitBreakerRegistry.getListeners())) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error(`Circuit ${this.name} state listener failed:`, error);
+      }
+    }
+  }
+
+  private pruneFailures(): void {
+    const cutoff = Date.now() - this.config.failureWindowMs;
+    this.failureTimes = this.failureTimes.filter(time => time >= cutoff);
+  }
+
+  private async withTimeout<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.config.callTimeoutMs) {
+      return operation();
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        const error = new Error(`${this.name} call timed out after ${this.config.callTimeoutMs}ms`);
+        error.name = 'TimeoutError';
+        reject(error);
+      }, this.config.callTimeoutMs);
+    });
+
+    try {
+      return await Promise.race([operation(), timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * One breaker per dependency, shared by every client of it in this process
+ */
+class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private listeners: CircuitStateListener[] = [];
+
+  getOrCreate(name: string, config: Partial<CircuitBreakerConfig> = {}): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, config);
+      this.breakers.set(name, breaker);
+    }
+
+    return breaker;
+  }
+
+  get(name: string): CircuitBreaker | undefined {
+    return this.breakers.get(name);
+  }
+
+  getAllStatuses(): CircuitBreakerStatus[] {
+    return Array.from(this.breakers.values()).map(breaker => breaker.getStatus());
+  }
+
+  /**
+   * Listen to state changes of every breaker; returns an unsubscribe function
+   */
+  onStateChange(listener: CircuitStateListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  getListeners(): CircuitStateListener[] {
+    return this.listeners;
+  }
+}
+
+export const circuitBreakerRegistry = new CircuitBreakerRegistry();
+
+// Per-dependency settings. Order placement is never retried by the providers, so exchanges
+// open a little sooner than payment APIs, whose webhooks are retried by Stripe itself.
+const DEPENDENCY_CONFIGS: Record<string, Partial<CircuitBreakerConfig>> = {
+  exchange: { failureThreshold: 5, failureWindowMs: 60 * 1000, resetTimeoutMs: 30 * 1000, successThreshold: 2 },
+  zerocap: { resetTimeoutMs: 60 * 1000 }, // RFQ desk: quotes are slow to recover after an outage
+  payment: { failureThreshold: 8, failureWindowMs: 60 * 1000, resetTimeoutMs: 20 * 1000, successThreshold: 1 }
+};
+
+export class CircuitBreakerFactory {
+  /**
+   * Shared breaker for an exchange API (e.g. 'kraken', 'btc_markets')
+   */
+  static createExchangeApiBreaker(exchange: string, overrides: Partial<CircuitBreakerConfig> = {}): CircuitBreaker {
+    return circuitBreakerRegistry.getOrCreate(`exchange:${exchange}`, {
+      ...DEPENDENCY_CONFIGS.exchange,
+      ...DEPENDENCY_CONFIGS[exchange],
+      ...overrides
+    });
+  }
+
+  /**
+   * Shared breaker for a payment processor API (e.g. 'stripe')
+   */
+  static createPaymentApiBreaker(processor: string, overrides: Partial<CircuitBreakerConfig> = {}): CircuitBreaker {
+    return circuitBreakerRegistry.getOrCreate(`payment:${processor}`, {
+      ...DEPENDENCY_CONFIGS.payment,
+      ...DEPENDENCY_CONFIGS[processor],
+      ...overrides
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { ExchangeProvider, ExchangeProviderFactory, ExchangeProviderType } from '@/lib/integrations/exchanges/interface';
+import { PriceOracle, PriceOracleError, PriceOracleSettings, createPriceOracle } from '../price-oracle';
+import { FixturePriceFeed, PRICE_FEED_FIXTURES, createFixturePriceOracle } from '../mock/price-feed-fixtures';
+
+const SETTINGS: PriceOracleSettings = {
+  method: 'median',
+  maxAgeSeconds: 120,
+  maxDeviationPercent: 1,
+  minimumSources: 2,
+  timeoutMs: 1000
+};
+
+describe('PriceOracle', () => {
+  it('combines agreeing sources into a median reference price', async () => {
+    const reference = await createFixturePriceOracle('agreeing', SETTINGS).getReferencePrice('AUD');
+
+    expect(reference.price).toBe(97870.55);
+    expect(reference.agreeingSources).toBe(5);
+    expect(reference.sources.every(source => !source.rejectedReason)).toBe(true);
+  });
+
+  it('rejects a source quoting away from the median as an outlier', async () => {
+    const reference = await createFixturePriceOracle('outlier', SETTINGS).getReferencePrice('AUD');
+    const swyftx = reference.sources.find(source => source.source === 'swyftx');
+
+    expect(swyftx?.rejectedReason).toBe('outlier');
+    expect(reference.agreeingSources).toBe(4);
+  });
+
+  it('rejects stale quotes', async () => {
+    const reference = await createFixturePriceOracle('stale', SETTINGS).getReferencePrice('AUD');
+    const independentReserve = reference.sources.find(source => source.source === 'independent_reserve');
+
+    expect(independentReserve?.rejectedReason).toBe('stale');
+    expect(reference.agreeingSources).toBe(4);
+  });
+
+  it('records failing sources as errors and prices from the rest', async () => {
+    const reference = await createFixturePriceOracle('failing', SETTINGS).getReferencePrice('AUD');
+    const failed = reference.sources.filter(source => source.rejectedReason === 'error').map(source => source.source);
+
+    expect(failed.sort()).toEqual(['btc_markets', 'coinbase']);
+    expect(reference.agreeingSources).toBe(3);
+  });
+
+  it('throws when fewer than the minimum number of sources agree', async () => {
+    const oracle = createFixturePriceOracle('divergent', SETTINGS);
+
+    await expect(oracle.getReferencePrice('AUD')).rejects.toThrow(PriceOracleError);
+    await expect(oracle.getReferencePrice('AUD')).rejects.toThrow(/Only 0 of 2 required/);
+  });
+
+  it('fails closed when fewer feeds than the minimum are configured', async () => {
+    const oracle = new PriceOracle([new FixturePriceFeed(PRICE_FEED_FIXTURES.agreeing[0])], { ...SETTINGS, minimumSources: 3 });
+
+    await expect(oracle.getReferencePrice('AUD')).rejects.toThrow(/Only 1 of 3 required BTC\/AUD price sources agree \(1 configured\)/);
+  });
+
+  it('tops up a tenant with too few exchanges with the platform reference feeds', async () => {
+    const fixtures = PRICE_FEED_FIXTURES.agreeing;
+    const provider = (type: ExchangeProviderType) => {
+      const fixture = fixtures.find(f => f.source === type) || fixtures[0];
+      return { type, getCurrentPrice: (currency: string) => new FixturePriceFeed({ ...fixture, source: type }).getCurrentPrice(currency) } as unknown as ExchangeProvider;
+    };
+    const create = jest.spyOn(ExchangeProviderFactory, 'create').mockImplementation(type => {
+      if (type === 'zerocap') {
+        throw new Error('No platform credentials');
+      }
+      return provider(type);
+    });
+
+    try {
+      const reference = await createPriceOracle([provider('kraken')], SETTINGS).getReferencePrice('AUD');
+
+      expect(reference.sources.map(source => source.source)).toEqual(['kraken', 'independent_reserve', 'btc_markets', 'swyftx', 'coinbase']);
+      expect(create).not.toHaveBeenCalledWith('kraken');
+    } finally {
+      create.mockRestore();
+    }
+  });
+
+  it('uses the fixture feeds when PRICE_ORACLE_USE_FIXTURES is set', async () => {
+    process.env.PRICE_ORACLE_USE_FIXTURES = 'true';
+    process.env.PRICE_ORACLE_FIXTURE_SCENARIO = 'stale';
+
+    try {
+      const reference = await createPriceOracle([], SETTINGS).getReferencePrice('AUD');
+      expect(reference.sources.map(source => source.source)).toContain('independent_reserve');
+      expect(reference.agreeingSources).toBe(4);
+    } finally {
+      delete process.env.PRICE_ORACLE_USE_FIXTURES;
+      delete process.env.PRICE_ORACLE_FIXTURE_SCENARIO;
+    }
+  });
+});
@@ -0,0 +1,58 @@
+// LIQUID ABT - Exchange Rate Service
+// Fiat cross rates implied by the price oracle's BTC quotes (e.g. USD→AUD = BTC/AUD ÷ BTC/USD),
+// used to convert Stripe payments settled in foreign currencies.
+
+import { PriceOracle, createPlatformPriceOracle } from './price-oracle';
+
+const RATE_CACHE_SECONDS = 60;
+
+export interface ConversionResult {
+  amount: number;
+  rate: number;
+}
+
+export class ExchangeRateService {
+  private static oracle: PriceOracle | null = null;
+  private static prices = new Map<string, { price: number; expiresAt: number }>();
+
+  /**
+   * Convert amount between fiat currencies
+   */
+  static async convertAmount(amount: number, fromCurrency: string, toCurrency: string): Promise<ConversionResult> {
+    const rate = await this.getRate(fromCurrency, toCurrency);
+    return { amount: amount * rate, rate };
+  }
+
+  static async getRate(fromCurrency: string, toCurrency: string): Promise<number> {
+    const from = fromCurrency.toUpperCase();
+    const to = toCurrency.toUpperCase();
+
+    if (from === to) {
+      return 1;
+    }
+
+    const [fromPrice, toPrice] = await Promise.all([this.getBitcoinPrice(from), this.getBitcoinPrice(to)]);
+    return Math.round((toPrice / fromPrice) * 1e6) / 1e6;
+  }
+
+  private static async getBitcoinPrice(currency: string): Promise<number> {
+    const cached = this.prices.get(currency);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.price;
+    }
+
+    const reference = await this.getOracle().getReferencePrice(currency);
+    this.prices.set(currency, { price: reference.price, expiresAt: Date.now() + RATE_CACHE_SECONDS * 1000 });
+    return reference.price;
+  }
+
+  private static getOracle(): PriceOracle {
+    if (!this.oracle) {
+      // Conversions need as many agreeing sources as purchases; currencies too few platform
+      // exchanges quote cannot be converted
+      this.oracle = createPlatformPriceOracle();
+    }
+
+    return this.oracle;
+  }
+}
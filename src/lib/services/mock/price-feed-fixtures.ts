@@ -0,0 +1,76 @@
+// LIQUID ABT - Price Oracle Fixture Feeds
+// Recorded BTC/AUD quotes from each exchange, grouped into scenarios that exercise the oracle's
+// rejection rules (outliers, stale quotes, failing sources) without any network access.
+
+import { MarketPrice } from '@/lib/integrations/exchanges/interface';
+import { PriceFeed, PriceOracle, PriceOracleSettings, getPriceOracleSettings } from '../price-oracle';
+
+export interface FixtureQuote {
+  source: string;
+  price?: number;      // Omitted when the source fails
+  volume24h?: number;
+  ageSeconds?: number; // Quote age relative to the request
+  error?: string;
+}
+
+export type PriceFeedScenario = 'agreeing' | 'outlier' | 'stale' | 'failing' | 'divergent';
+
+// Quotes recorded within the same minute across venues (2025-10-20 01:12 UTC)
+const AGREEING: FixtureQuote[] = [
+  { source: 'kraken', price: 97861.4, volume24h: 48.21, ageSeconds: 2 },
+  { source: 'independent_reserve', price: 97870.55, volume24h: 61.71, ageSeconds: 4 },
+  { source: 'btc_markets', price: 97905.0, volume24h: 112.38, ageSeconds: 1 },
+  { source: 'swyftx', price: 97944.12, volume24h: 35.02, ageSeconds: 3 },
+  { source: 'coinbase', price: 97812.87, volume24h: 9.4, ageSeconds: 2 }
+];
+
+export const PRICE_FEED_FIXTURES: Record<PriceFeedScenario, FixtureQuote[]> = {
+  agreeing: AGREEING,
+  // Swyftx quoting 3% rich
+  outlier: AGREEING.map(quote => quote.source === 'swyftx' ? { ...quote, price: 100880.0 } : quote),
+  // Independent Reserve's ticker stopped updating ten minutes ago
+  stale: AGREEING.map(quote => quote.source === 'independent_reserve' ? { ...quote, ageSeconds: 600 } : quote),
+  // Coinbase and BTC Markets are down
+  failing: AGREEING.map(quote => ['coinbase', 'btc_markets'].includes(quote.source)
+    ? { source: quote.source, error: 'Service unavailable' }
+    : quote),
+  // Only two venues answer and they are 4% apart
+  divergent: [
+    { source: 'kraken', price: 97861.4, volume24h: 48.21, ageSeconds: 2 },
+    { source: 'btc_markets', price: 101800.0, volume24h: 112.38, ageSeconds: 1 },
+    { source: 'swyftx', error: 'Request timed out' }
+  ]
+};
+
+export class FixturePriceFeed implements PriceFeed {
+  readonly source: string;
+
+  constructor(private fixture: FixtureQuote) {
+    this.source = fixture.source;
+  }
+
+  async getCurrentPrice(currency: string): Promise<MarketPrice> {
+    if (this.fixture.error || this.fixture.price === undefined) {
+      throw new Error(this.fixture.error || 'No price recorded');
+    }
+
+    return {
+      symbol: 'BTC',
+      price: this.fixture.price,
+      currency,
+      timestamp: new Date(Date.now() - (this.fixture.ageSeconds || 0) * 1000),
+      volume24h: this.fixture.volume24h
+    };
+  }
+}
+
+/**
+ * Oracle over one fixture scenario (PRICE_ORACLE_FIXTURE_SCENARIO, default agreeing)
+ */
+export function createFixturePriceOracle(
+  scenario: PriceFeedScenario = (process.env.PRICE_ORACLE_FIXTURE_SCENARIO as PriceFeedScenario) || 'agreeing',
+  settings: PriceOracleSettings = getPriceOracleSettings()
+): PriceOracle {
+  const fixtures = PRICE_FEED_FIXTURES[scenario] || PRICE_FEED_FIXTURES.agreeing;
+  return new PriceOracle(fixtures.map(fixture => new FixturePriceFeed(fixture)), settings);
+}
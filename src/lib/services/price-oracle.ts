@@ -0,0 +1,257 @@
+// LIQUID ABT - BTC Price Oracle
+// Combines the current price from every configured exchange into one reference price. Sources
+// that error, are stale or sit too far from the median are rejected; purchases are refused when
+// fewer than the minimum number of sources agree. Tenants with fewer exchanges than the minimum
+// are topped up with the platform's reference feeds.
+
+import { ExchangeProvider, ExchangeProviderFactory, ExchangeProviderType, MarketPrice } from '@/lib/integrations/exchanges/interface';
+import { BusinessLogicError } from '@/lib/errors/CustomErrors';
+import { createFixturePriceOracle } from './mock/price-feed-fixtures';
+
+export type PriceOracleMethod = 'median' | 'vwap';
+
+export interface PriceOracleSettings {
+  method: PriceOracleMethod;
+  maxAgeSeconds: number;        // Quotes older than this are stale
+  maxDeviationPercent: number;  // From the median of fresh quotes
+  minimumSources: number;       // Agreeing sources required
+  timeoutMs: number;            // Per-source request timeout
+}
+
+/**
+ * Anything that can quote BTC; exchange providers are adapted with exchangePriceFeed
+ */
+export interface PriceFeed {
+  readonly source: string;
+  getCurrentPrice(currency: string): Promise<MarketPrice>;
+}
+
+export interface PriceSourceQuote {
+  source: string;
+  price: number;
+  volume24h?: number;
+  timestamp?: string;
+  ageSeconds?: number;
+  deviationPercent?: number; // From the median of fresh quotes
+  rejectedReason?: 'error' | 'invalid' | 'stale' | 'outlier';
+  error?: string;
+}
+
+export interface ReferencePrice {
+  currency: string;
+  price: number;
+  method: PriceOracleMethod;
+  agreeingSources: number;
+  confidence: number; // 0-1: share of sources that agree, reduced by their spread
+  timestamp: string;
+  sources: PriceSourceQuote[];
+}
+
+/**
+ * Raised when too few sources agree on the price to trade on it
+ */
+export class PriceOracleError extends BusinessLogicError {
+  constructor(message: string, public readonly sources: PriceSourceQuote[]) {
+    super(message, { context: { sources } });
+  }
+}
+
+const DEFAULT_SETTINGS: PriceOracleSettings = {
+  method: 'median',
+  maxAgeSeconds: 120,
+  maxDeviationPercent: 1,
+  minimumSources: 2,
+  timeoutMs: 10000
+};
+
+/**
+ * Oracle settings from PRICE_ORACLE_* environment variables
+ */
+export function getPriceOracleSettings(): PriceOracleSettings {
+  const positive = (value: string | undefined): number | undefined => Number(value) > 0 ? Number(value) : undefined;
+
+  return {
+    method: process.env.PRICE_ORACLE_METHOD === 'vwap' ? 'vwap' : DEFAULT_SETTINGS.method,
+    maxAgeSeconds: positive(process.env.PRICE_ORACLE_MAX_AGE_SECONDS) || DEFAULT_SETTINGS.maxAgeSeconds,
+    maxDeviationPercent: positive(process.env.PRICE_ORACLE_MAX_DEVIATION_PERCENT) || DEFAULT_SETTINGS.maxDeviationPercent,
+    minimumSources: Math.floor(positive(process.env.PRICE_ORACLE_MIN_SOURCES) || DEFAULT_SETTINGS.minimumSources),
+    timeoutMs: DEFAULT_SETTINGS.timeoutMs
+  };
+}
+
+export function exchangePriceFeed(provider: ExchangeProvider): PriceFeed {
+  return {
+    source: provider.type,
+    getCurrentPrice: currency => provider.getCurrentPrice(currency)
+  };
+}
+
+/**
+ * Oracle over the given exchanges, topped up with the platform's reference feeds when they are
+ * fewer than the required sources. Uses recorded fixture feeds instead when
+ * PRICE_ORACLE_USE_FIXTURES=true (offline development and tests).
+ */
+export function createPriceOracle(providers: ExchangeProvider[], settings: PriceOracleSettings = getPriceOracleSettings()): PriceOracle {
+  if (process.env.PRICE_ORACLE_USE_FIXTURES === 'true') {
+    return createFixturePriceOracle(undefined, settings);
+  }
+
+  const feeds = uniqueProviders(providers);
+
+  if (feeds.length < settings.minimumSources) {
+    feeds.push(...getPlatformPriceProviders(feeds.map(provider => provider.type)));
+  }
+
+  return new PriceOracle(uniqueProviders(feeds).map(exchangePriceFeed), settings);
+}
+
+// Exchanges with platform-level credentials in the environment quote for the platform oracle
+const PLATFORM_PRICE_SOURCES: ExchangeProviderType[] = ['kraken', 'independent_reserve', 'btc_markets', 'swyftx', 'coinbase', 'zerocap'];
+
+/**
+ * Oracle over every exchange the platform itself has credentials for (no tenant context)
+ */
+export function createPlatformPriceOracle(settings: PriceOracleSettings = getPriceOracleSettings()): PriceOracle {
+  if (process.env.PRICE_ORACLE_USE_FIXTURES === 'true') {
+    return createFixturePriceOracle(undefined, settings);
+  }
+
+  return new PriceOracle(uniqueProviders(getPlatformPriceProviders()).map(exchangePriceFeed), settings);
+}
+
+/**
+ * Providers for the platform's price sources, skipping excluded exchanges and those without
+ * platform credentials
+ */
+function getPlatformPriceProviders(exclude: ExchangeProviderType[] = []): ExchangeProvider[] {
+  const providers: ExchangeProvider[] = [];
+
+  for (const type of PLATFORM_PRICE_SOURCES.filter(source => !exclude.includes(source))) {
+    try {
+      providers.push(ExchangeProviderFactory.create(type));
+    } catch {
+      // No platform credentials for this exchange
+    }
+  }
+
+  return providers;
+}
+
+function uniqueProviders(providers: ExchangeProvider[]): ExchangeProvider[] {
+  return providers.filter((provider, index) => providers.findIndex(p => p.type === provider.type) === index);
+}
+
+export class PriceOracle {
+  private feeds: PriceFeed[];
+  private settings: PriceOracleSettings;
+
+  constructor(feeds: PriceFeed[], settings: PriceOracleSettings = getPriceOracleSettings()) {
+    this.feeds = feeds;
+    this.settings = settings;
+  }
+
+  /**
+   * Reference BTC price in currency. Throws PriceOracleError when fewer than the minimum
+   * number of sources agree.
+   */
+  async getReferencePrice(currency = 'AUD', now: Date = new Date()): Promise<ReferencePrice> {
+    const quotes = await Promise.all(this.feeds.map(feed => this.quote(feed, currency, now)));
+    const fresh = quotes.filter(quote => !quote.rejectedReason);
+    const median = medianOf(fresh.map(quote => quote.price));
+
+    for (const quote of fresh) {
+      quote.deviationPercent = Math.round(((quote.price - median) / median) * 10000) / 100;
+      if (Math.abs(quote.deviationPercent) > this.settings.maxDeviationPercent) {
+        quote.rejectedReason = 'outlier';
+      }
+    }
+
+    const agreeing = fresh.filter(quote => !quote.rejectedReason);
+    // Fails closed: with fewer feeds than the minimum, no price is ever good enough
+    const required = Math.max(1, this.settings.minimumSources);
+
+    if (agreeing.length < required) {
+      const rejected = quotes
+        .filter(quote => quote.rejectedReason)
+        .map(quote => `${quote.source} (${quote.rejectedReason})`);
+      throw new PriceOracleError(
+        `Only ${agreeing.length} of ${required} required BTC/${currency} price sources agree` +
+          (this.feeds.length < required ? ` (${this.feeds.length} configured)` : '') +
+          (rejected.length > 0 ? `; rejected: ${rejected.join(', ')}` : ''),
+        quotes
+      );
+    }
+
+    const price = this.combine(agreeing);
+    const spread = Math.max(...agreeing.map(quote => Math.abs(((quote.price - price) / price) * 100)));
+    const coverage = agreeing.length / Math.max(this.feeds.length, this.settings.minimumSources);
+    const confidence = coverage * (1 - Math.min(1, spread / this.settings.maxDeviationPercent) / 2);
+
+    return {
+      currency,
+      price: Math.round(price * 100) / 100,
+      method: this.settings.method,
+      agreeingSources: agreeing.length,
+      confidence: Math.round(confidence * 100) / 100,
+      timestamp: now.toISOString(),
+      sources: quotes
+    };
+  }
+
+  private combine(quotes: PriceSourceQuote[]): number {
+    if (this.settings.method === 'vwap') {
+      const totalVolume = quotes.reduce((sum, quote) => sum + (quote.volume24h || 0), 0);
+
+      // Without volume from every source the weights would be meaningless
+      if (totalVolume > 0 && quotes.every(quote => (quote.volume24h || 0) > 0)) {
+        return quotes.reduce((sum, quote) => sum + quote.price * quote.volume24h!, 0) / totalVolume;
+      }
+    }
+
+    return medianOf(quotes.map(quote => quote.price));
+  }
+
+  private async quote(feed: PriceFeed, currency: string, now: Date): Promise<PriceSourceQuote> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('Price request timed out')), this.settings.timeoutMs);
+      });
+      const market = await Promise.race([feed.getCurrentPrice(currency), timeout]);
+      const timestamp = new Date(market.timestamp);
+      const ageSeconds = Math.max(0, Math.round((now.getTime() - timestamp.getTime()) / 1000));
+
+      const quote: PriceSourceQuote = {
+        source: feed.source,
+        price: market.price,
+        volume24h: market.volume24h,
+        timestamp: timestamp.toISOString(),
+        ageSeconds
+      };
+
+      if (!(market.price > 0) || market.currency.toUpperCase() !== currency.toUpperCase()) {
+        quote.rejectedReason = 'invalid';
+      } else if (ageSeconds > this.settings.maxAgeSeconds) {
+        quote.rejectedReason = 'stale';
+      }
+
+      return quote;
+    } catch (error) {
+      return {
+        source: feed.source,
+        price: 0,
+        rejectedReason: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,155 @@
+import { FakeTenantDb } from './fake-tenant-db';
+
+const mockDb = new FakeTenantDb();
+const mockCreateMarketOrder = jest.fn();
+const mockWithdrawCompletedPurchase = jest.fn();
+const mockGetActiveHalt = jest.fn();
+
+jest.mock('@/lib/database/connection', () => ({
+  tenantSchemaManager: {
+    queryTenantSchema: (tenantId: string, sql: string, params?: unknown[]) => mockDb.tenantSchemaManager.queryTenantSchema(tenantId, sql, params),
+    getTenantClient: (tenantId: string) => mockDb.tenantSchemaManager.getTenantClient(tenantId)
+  },
+  getMasterPrisma: jest.fn()
+}));
+
+jest.mock('../processor', () => ({
+  TreasuryProcessor: jest.fn().mockImplementation(() => ({
+    getExchangeProvider: async () => ({
+      type: 'kraken',
+      getOrderBook: async () => ({ symbol: 'XBTAUD', bids: [], asks: [[100000, 10]], timestamp: new Date() }),
+      createMarketOrder: mockCreateMarketOrder
+    }),
+    withdrawCompletedPurchase: mockWithdrawCompletedPurchase
+  }))
+}));
+
+jest.mock('../market-circuit-breaker', () => ({
+  marketCircuitBreaker: { getActiveHalt: (tenantId: string) => mockGetActiveHalt(tenantId) }
+}));
+
+import { AlgorithmicOrderScheduler } from '../algorithmic-order-scheduler';
+import { ChildOrderFill, ExecutionSettings, ParentOrderRecord, parseExecutionSettings } from '../execution-algorithms';
+
+const NOW = new Date('2025-10-20T00:05:00Z');
+const TWAP = parseExecutionSettings({ algorithm: 'twap', sliceCount: 3, intervalSeconds: 60, maxSlippagePercent: 1 }) as ExecutionSettings;
+
+const FIRST_CHILD: ChildOrderFill = {
+  sequence: 1,
+  orderId: 'order-1',
+  orderType: 'market',
+  requestedAUD: 1000,
+  filledBTC: 0.01,
+  filledAUD: 1000,
+  averagePrice: 100000,
+  status: 'filled',
+  fees: [{ amount: 2, currency: 'AUD', type: 'trading' }],
+  executedAt: '2025-10-20T00:04:00Z'
+};
+
+function givenDueOrder(parent: Partial<ParentOrderRecord> = {}): void {
+  const row = {
+    id: 'purchase-1',
+    exchange_provider: 'kraken',
+    parent_order: { algorithm: 'twap', referencePrice: 100000, requestedAUD: 3000, remainingSlices: [1000, 1000], settings: TWAP, ...parent },
+    child_orders: [FIRST_CHILD],
+    pending_withdrawal_address: 'bc1qexample'
+  };
+
+  mockDb
+    .on(/SELECT id FROM bitcoin_purchases/, [{ id: row.id }])
+    .on(/SET next_child_at = \$2/, [row]);
+}
+
+function fillMarketOrder(): void {
+  mockCreateMarketOrder.mockImplementation(async (order: { value: number }) => ({
+    orderId: `order-${mockCreateMarketOrder.mock.calls.length + 1}`,
+    status: 'filled',
+    side: 'buy',
+    symbol: 'BTC',
+    amount: order.value / 100000,
+    filledAmount: order.value / 100000,
+    averagePrice: 100000,
+    totalValue: order.value,
+    fees: [{ amount: 2, currency: 'AUD', type: 'trading' }],
+    timestamp: new Date()
+  }));
+}
+
+describe('AlgorithmicOrderScheduler', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    mockDb.reset();
+    mockCreateMarketOrder.mockReset();
+    mockWithdrawCompletedPurchase.mockReset();
+    mockGetActiveHalt.mockReset().mockResolvedValue(null);
+  });
+
+  it('marks the child order before placing it and schedules the next one', async () => {
+    givenDueOrder();
+    fillMarketOrder();
+
+    const summary = await new AlgorithmicOrderScheduler('tenant-1').runDueOrders(NOW);
+
+    const saves = mockDb.executed(/SET status = \$2, child_orders = \$3, parent_order = \$4/);
+    expect(JSON.parse(saves[0].params[3] as string)).toMatchObject({ placingSequence: 2, remainingSlices: [1000, 1000] });
+
+    const after = JSON.parse(saves[1].params[3] as string);
+    expect(after.placingSequence).toBeUndefined();
+    expect(after.remainingSlices).toEqual([1000]);
+    expect(JSON.parse(saves[1].params[2] as string)).toHaveLength(2);
+    expect(saves[1].params[4]).toEqual(new Date(NOW.getTime() + 60000));
+
+    expect(mockCreateMarketOrder).toHaveBeenCalledTimes(1);
+    expect(summary).toMatchObject({ checked: 1, continued: 1 });
+  });
+
+  it('completes the purchase and withdraws once the last child order fills', async () => {
+    givenDueOrder({ remainingSlices: [2000] });
+    fillMarketOrder();
+
+    const summary = await new AlgorithmicOrderScheduler('tenant-1').runDueOrders(NOW);
+
+    const [completion] = mockDb.executed(/SET status = \$2, amount_aud = \$3/);
+    expect(completion.params.slice(0, 6)).toEqual(['purchase-1', 'filled', 3000, 0.03, 100000, 4]);
+    expect(mockWithdrawCompletedPurchase).toHaveBeenCalledWith('purchase-1', 0.03, 'bc1qexample');
+    expect(summary.completed).toBe(1);
+  });
+
+  it('does not place a child order again when the last one was sent but not recorded', async () => {
+    givenDueOrder({ placingSequence: 2 });
+
+    const summary = await new AlgorithmicOrderScheduler('tenant-1').runDueOrders(NOW);
+
+    expect(mockCreateMarketOrder).not.toHaveBeenCalled();
+    const [completion] = mockDb.executed(/SET status = \$2, amount_aud = \$3/);
+    expect(completion.params.slice(0, 4)).toEqual(['purchase-1', 'partially_filled', 1000, 0.01]);
+    expect(mockWithdrawCompletedPurchase).not.toHaveBeenCalled();
+    expect(summary.completed).toBe(1);
+  });
+
+  it('skips an order another run has already claimed', async () => {
+    givenDueOrder();
+    mockDb.on(/SET next_child_at = \$2/, []);
+
+    const summary = await new AlgorithmicOrderScheduler('tenant-1').runDueOrders(NOW);
+
+    expect(mockCreateMarketOrder).not.toHaveBeenCalled();
+    expect(summary.checked).toBe(0);
+  });
+
+  it('stops placing child orders while purchases are halted', async () => {
+    givenDueOrder();
+    mockGetActiveHalt.mockResolvedValue({ eventType: 'FLASH_CRASH' });
+
+    await new AlgorithmicOrderScheduler('tenant-1').runDueOrders(NOW);
+
+    expect(mockCreateMarketOrder).not.toHaveBeenCalled();
+    expect(mockDb.executed(/SET status = \$2, amount_aud = \$3/)[0].params[1]).toBe('partially_filled');
+  });
+});
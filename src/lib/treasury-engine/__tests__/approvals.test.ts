@@ -0,0 +1,69 @@
+import { FakeTenantDb } from './fake-tenant-db';
+
+const mockDb = new FakeTenantDb();
+const mockCreateTenantNotifications = jest.fn();
+
+jest.mock('@/lib/database/connection', () => ({
+  tenantSchemaManager: {
+    queryTenantSchema: (tenantId: string, sql: string, params?: unknown[]) => mockDb.tenantSchemaManager.queryTenantSchema(tenantId, sql, params)
+  },
+  getMasterPrisma: () => ({ user: { findMany: async () => [{ id: 'owner-1' }] } })
+}));
+
+jest.mock('@/lib/audit/audit-log', () => ({ recordAuditEvent: jest.fn() }));
+jest.mock('@/lib/notifications/tenant-notifications', () => ({
+  createTenantNotifications: (tenantId: string, notifications: unknown[]) => mockCreateTenantNotifications(tenantId, notifications)
+}));
+
+import { ApprovalWorkflow } from '../approvals';
+
+const ABANDONED_SALE = {
+  id: 'approval-1',
+  request_type: 'sale',
+  status: 'failed',
+  transaction_id: null,
+  bitcoin_purchase_id: null,
+  amount_aud: '5000.00',
+  bitcoin_amount: '0.05000000',
+  destination_address: null,
+  details: { trigger: 'take_profit', treasuryRuleId: 'rule-1' },
+  reason: 'Take-profit target reached',
+  required_approvals: 1,
+  requested_by: null,
+  expires_at: new Date('2025-10-22T00:00:00Z'),
+  rejected_by: null,
+  rejection_reason: null,
+  decided_at: new Date('2025-10-20T00:00:00Z'),
+  executed_at: null,
+  execution_error: 'Not executed within 30 minutes of approval',
+  created_at: new Date('2025-10-19T23:00:00Z')
+};
+
+describe('ApprovalWorkflow.failAbandonedExecutions', () => {
+  beforeEach(() => {
+    mockDb.reset();
+    mockCreateTenantNotifications.mockReset();
+  });
+
+  it('settles sales that were recorded before failing the rest', async () => {
+    mockDb.on(/SET status = 'failed', execution_error = \$2/, [ABANDONED_SALE]);
+
+    const failed = await new ApprovalWorkflow('tenant-1').failAbandonedExecutions();
+
+    const updates = mockDb.executed(/UPDATE approval_requests/);
+    expect(updates[0].sql).toMatch(/SET status = 'executed'[\s\S]*FROM bitcoin_disposals/);
+    expect(updates[1].sql).toMatch(/WHERE status = 'approved' AND decided_at <= NOW\(\) - make_interval\(mins => \$1\)/);
+    expect(updates[1].params).toEqual([30, 'Not executed within 30 minutes of approval']);
+    expect(failed).toBe(1);
+  });
+
+  it('tells approvers the abandoned request failed', async () => {
+    mockDb.on(/SET status = 'failed', execution_error = \$2/, [ABANDONED_SALE]);
+
+    await new ApprovalWorkflow('tenant-1').failAbandonedExecutions();
+
+    expect(mockCreateTenantNotifications).toHaveBeenCalledWith('tenant-1', [
+      expect.objectContaining({ userId: 'owner-1', type: 'approval_execution_failed', priority: 'urgent' })
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { FakeTenantDb } from './fake-tenant-db';
+
+const mockDb = new FakeTenantDb();
+const mockRecordAuditEvent = jest.fn();
+const mockClientEnd = jest.fn();
+
+jest.mock('@/lib/database/connection', () => ({
+  tenantSchemaManager: {
+    queryTenantSchema: (tenantId: string, sql: string, params?: unknown[]) => mockDb.tenantSchemaManager.queryTenantSchema(tenantId, sql, params),
+    getTenantClient: async (tenantId: string) => ({
+      ...(await mockDb.tenantSchemaManager.getTenantClient(tenantId)),
+      end: mockClientEnd
+    })
+  }
+}));
+
+jest.mock('@/lib/audit/audit-log', () => ({
+  recordAuditEvent: (event: unknown) => mockRecordAuditEvent(event)
+}));
+
+import { CashObligationStore } from '../cash-obligations';
+
+const CSV = [
+  'name,category,amount,due_date,recurrence',
+  'Payroll,payroll,25000,2025-11-01,fortnightly',
+  'BAS,bas,12000,2025-11-28,quarterly'
+].join('\n');
+
+const ACTOR = { userId: 'user-1' };
+
+function insertedRow(params: unknown[]): Record<string, unknown> {
+  return {
+    id: `obligation-${params[0]}`,
+    name: params[0],
+    category: params[1],
+    amount_aud: String(params[2]),
+    due_date: params[3],
+    recurrence: params[4],
+    recurrence_end_date: params[5],
+    notes: params[6],
+    source: params[7],
+    created_by: params[8],
+    created_at: new Date('2025-10-20T00:00:00Z'),
+    updated_at: new Date('2025-10-20T00:00:00Z')
+  };
+}
+
+describe('CashObligationStore.importCsv', () => {
+  beforeEach(() => {
+    mockDb.reset();
+    mockRecordAuditEvent.mockReset();
+    mockClientEnd.mockReset();
+  });
+
+  it('saves every obligation in one transaction', async () => {
+    mockDb.on(/INSERT INTO cash_obligations/, params => [insertedRow(params)]);
+
+    const result = await new CashObligationStore('tenant-1').importCsv(CSV, ACTOR);
+
+    expect(result.imported).toBe(2);
+    expect(mockDb.queries.map(query => query.sql.trim().split(/\s+/).slice(0, 3).join(' '))).toEqual([
+      'BEGIN',
+      'INSERT INTO cash_obligations',
+      'INSERT INTO cash_obligations',
+      'COMMIT'
+    ]);
+    expect(mockClientEnd).toHaveBeenCalledTimes(1);
+    expect(mockRecordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ action: 'Imported 2 cash obligation(s) from CSV' }));
+  });
+
+  it('rolls back the earlier inserts when one fails', async () => {
+    let inserts = 0;
+    mockDb.on(/INSERT INTO cash_obligations/, params => {
+      inserts++;
+      if (inserts === 2) {
+        throw new Error('connection reset');
+      }
+      return [insertedRow(params)];
+    });
+
+    await expect(new CashObligationStore('tenant-1').importCsv(CSV, ACTOR)).rejects.toThrow('connection reset');
+
+    expect(mockDb.executed(/^ROLLBACK$/)).toHaveLength(1);
+    expect(mockDb.executed(/^COMMIT$/)).toHaveLength(0);
+    expect(mockClientEnd).toHaveBeenCalledTimes(1);
+    expect(mockRecordAuditEvent).not.toHaveBeenCalled();
+  });
+});
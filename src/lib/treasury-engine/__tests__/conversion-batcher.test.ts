@@ -0,0 +1,134 @@
+import { FakeTenantDb } from './fake-tenant-db';
+
+const mockDb = new FakeTenantDb();
+const mockExecuteScheduledPurchase = jest.fn();
+
+jest.mock('@/lib/database/connection', () => ({
+  tenantSchemaManager: {
+    queryTenantSchema: (tenantId: string, sql: string, params?: unknown[]) => mockDb.tenantSchemaManager.queryTenantSchema(tenantId, sql, params),
+    getTenantClient: (tenantId: string) => mockDb.tenantSchemaManager.getTenantClient(tenantId)
+  },
+  getMasterPrisma: jest.fn()
+}));
+
+jest.mock('../processor', () => ({
+  TreasuryProcessor: jest.fn().mockImplementation(() => ({ executeScheduledPurchase: mockExecuteScheduledPurchase }))
+}));
+
+import { ConversionBatcher } from '../conversion-batcher';
+
+const DUE_BATCH = {
+  withdrawal_address: null,
+  execution: null,
+  entry_ids: ['entry-1', 'entry-2'],
+  amount_aud: '300.00',
+  oldest_queued_at: new Date('2025-10-20T00:00:00Z'),
+  window_ends_at: new Date('2025-10-20T01:00:00Z'),
+  flush_at_aud: null,
+  rule_version_ids: [null, null]
+};
+
+const CLAIMED_ENTRIES = [
+  { id: 'entry-1', transaction_id: 'tx-1', remaining_aud: '100.00', queued_at: new Date('2025-10-20T00:00:00Z') },
+  { id: 'entry-2', transaction_id: 'tx-2', remaining_aud: '200.00', queued_at: new Date('2025-10-20T00:10:00Z') }
+];
+
+const PURCHASE = { id: 'purchase-1', amount_aud: '300.00', bitcoin_amount: '0.00300000', fees_aud: '1.50' };
+
+function givenDueBatch(): void {
+  mockDb
+    .on(/GROUP BY withdrawal_address, execution/, [DUE_BATCH])
+    .on(/SET status = 'processing', claim_reference/, CLAIMED_ENTRIES)
+    .on(/WHERE claim_reference = \$1 AND status = 'processing'\s+FOR UPDATE/, CLAIMED_ENTRIES)
+    .on(/FROM bitcoin_purchases WHERE id = \$1/, [PURCHASE]);
+}
+
+describe('ConversionBatcher', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    mockDb.reset();
+    mockExecuteScheduledPurchase.mockReset();
+  });
+
+  it('buys a due batch under its claim reference and allocates the fill pro-rata', async () => {
+    givenDueBatch();
+    mockExecuteScheduledPurchase.mockResolvedValue({ executed: true, bitcoinPurchaseId: 'purchase-1', amountAUD: 300, reason: 'Converted' });
+
+    const [summary] = await new ConversionBatcher('tenant-1').flushDueBatches(new Date('2025-10-20T02:00:00Z'));
+
+    const claimReference = mockDb.executed(/SET status = 'processing', claim_reference/)[0].params[1];
+    expect(claimReference).toMatch(/^batch:/);
+    expect(mockExecuteScheduledPurchase).toHaveBeenCalledWith(expect.objectContaining({ scheduleReference: claimReference, amountAUD: 300 }));
+
+    const allocations = mockDb.executed(/INSERT INTO conversion_batch_allocations/).map(q => q.params);
+    expect(allocations).toEqual([
+      ['entry-1', 'tx-1', 'purchase-1', 100, 0.001, 0.5],
+      ['entry-2', 'tx-2', 'purchase-1', 200, 0.002, 1]
+    ]);
+    expect(summary).toMatchObject({ status: 'converted', entryCount: 2, bitcoinPurchaseId: 'purchase-1' });
+  });
+
+  it('returns the entries to the queue when the tier limits defer the purchase', async () => {
+    givenDueBatch();
+    mockExecuteScheduledPurchase.mockResolvedValue({ executed: false, amountAUD: 0, reason: 'Daily limit reached' });
+
+    const [summary] = await new ConversionBatcher('tenant-1').flushDueBatches();
+
+    const claimReference = mockDb.executed(/SET status = 'processing', claim_reference/)[0].params[1];
+    const releases = mockDb.executed(/SET status = 'pending', claim_reference = NULL/);
+    expect(releases.map(q => q.params)).toEqual([[claimReference]]);
+    expect(summary.status).toBe('deferred');
+  });
+
+  it('allocates the recorded purchase instead of releasing when the flush fails after buying', async () => {
+    givenDueBatch();
+    mockExecuteScheduledPurchase.mockResolvedValue({ executed: true, bitcoinPurchaseId: 'purchase-1', amountAUD: 300, reason: 'Converted' });
+    mockDb.on(/FROM bitcoin_purchases\s+WHERE schedule_reference = \$1/, [{ id: 'purchase-1' }]);
+
+    // The first allocation attempt fails; recovery finds the purchase and allocates it
+    let allocationAttempts = 0;
+    mockDb.on(/INSERT INTO conversion_batch_allocations/, () => {
+      allocationAttempts += 1;
+      if (allocationAttempts === 1) {
+        throw new Error('connection reset');
+      }
+      return [];
+    });
+
+    const [summary] = await new ConversionBatcher('tenant-1').flushDueBatches();
+
+    expect(summary.status).toBe('failed');
+    expect(mockDb.executed(/SET status = 'pending', claim_reference = NULL/)).toHaveLength(0);
+    expect(mockDb.executed(/ROLLBACK/)).toHaveLength(1);
+    expect(mockDb.executed(/COMMIT/)).toHaveLength(1);
+    expect(mockExecuteScheduledPurchase).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the claim when the purchase failed before an order was recorded', async () => {
+    givenDueBatch();
+    mockExecuteScheduledPurchase.mockRejectedValue(new Error('Exchange provider not available'));
+
+    const [summary] = await new ConversionBatcher('tenant-1').flushDueBatches();
+
+    expect(summary).toMatchObject({ status: 'failed', reason: 'Exchange provider not available' });
+    expect(mockDb.executed(/SET status = 'pending', claim_reference = NULL/)).toHaveLength(1);
+  });
+
+  it('recovers stale claims before flushing', async () => {
+    mockDb
+      .on(/SELECT DISTINCT claim_reference FROM conversion_batch_entries/, [{ claim_reference: 'batch:stale-bought' }, { claim_reference: 'batch:stale-unbought' }])
+      .on(/FROM bitcoin_purchases\s+WHERE schedule_reference = \$1/, params => params[0] === 'batch:stale-bought' ? [{ id: 'purchase-1' }] : [])
+      .on(/WHERE claim_reference = \$1 AND status = 'processing'\s+FOR UPDATE/, CLAIMED_ENTRIES)
+      .on(/FROM bitcoin_purchases WHERE id = \$1/, [PURCHASE]);
+
+    await new ConversionBatcher('tenant-1').flushDueBatches();
+
+    expect(mockDb.executed(/INSERT INTO conversion_batch_allocations/)).toHaveLength(2);
+    expect(mockDb.executed(/SET status = 'pending', claim_reference = NULL/).map(q => q.params)).toEqual([['batch:stale-unbought']]);
+    expect(mockExecuteScheduledPurchase).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { FakeTenantDb } from './fake-tenant-db';
+
+const mockDb = new FakeTenantDb();
+const mockExecuteScheduledPurchase = jest.fn();
+
+jest.mock('@/lib/database/connection', () => ({
+  tenantSchemaManager: {
+    queryTenantSchema: (tenantId: string, sql: string, params?: unknown[]) => mockDb.tenantSchemaManager.queryTenantSchema(tenantId, sql, params)
+  }
+}));
+
+jest.mock('../processor', () => ({
+  TreasuryProcessor: jest.fn().mockImplementation(() => ({ executeScheduledPurchase: mockExecuteScheduledPurchase }))
+}));
+
+import { DCAScheduler } from '../dca-scheduler';
+
+// Periods are in server time
+const NOW = new Date(2025, 9, 20, 10, 0);
+const TODAY = new Date(2025, 9, 20);
+
+function givenDailyRule(settings: Record<string, unknown>): void {
+  mockDb
+    .on(/FROM treasury_rules/, [{
+      id: 'rule-1',
+      name: 'Daily DCA',
+      fixed_amount: '50.00',
+      frequency: 'daily',
+      settings,
+      created_at: new Date(2025, 8, 1)
+    }])
+    // Today's period is already recorded
+    .on(/ORDER BY scheduled_for DESC LIMIT 1/, [{ scheduled_for: TODAY, status: 'completed' }])
+    .on(/INSERT INTO dca_executions \(treasury_rule_id, period_key, scheduled_for, status\)/, [{ id: 'execution-1' }]);
+}
+
+describe('DCAScheduler', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    mockDb.reset();
+    mockExecuteScheduledPurchase.mockReset().mockResolvedValue({ executed: true, amountAUD: 50, bitcoinPurchaseId: 'purchase-1', reason: 'Purchased' });
+  });
+
+  it('retries a failed catch-up period after later periods have run', async () => {
+    givenDailyRule({ missedRunPolicy: 'catch_up', maxCatchUpPeriods: 3 });
+    mockDb.on(/AND \(status = 'failed' OR \(status = 'pending'/, [{ scheduled_for: new Date(2025, 9, 18) }]);
+
+    const summaries = await new DCAScheduler('tenant-1').runDueSchedules(NOW);
+
+    const [retryQuery] = mockDb.executed(/AND \(status = 'failed' OR \(status = 'pending'/);
+    expect(retryQuery.params.slice(1, 3)).toEqual([new Date(2025, 9, 17), TODAY]);
+    expect(mockExecuteScheduledPurchase).toHaveBeenCalledTimes(1);
+    expect(mockExecuteScheduledPurchase).toHaveBeenCalledWith(expect.objectContaining({ scheduleReference: 'dca:rule-1:2025-10-18' }));
+    expect(summaries).toEqual([expect.objectContaining({ periodKey: '2025-10-18', status: 'completed' })]);
+  });
+
+  it('only retries the current period when missed runs are skipped', async () => {
+    givenDailyRule({ missedRunPolicy: 'skip' });
+
+    await new DCAScheduler('tenant-1').runDueSchedules(NOW);
+
+    const [retryQuery] = mockDb.executed(/AND \(status = 'failed' OR \(status = 'pending'/);
+    expect(retryQuery.params.slice(1, 3)).toEqual([TODAY, TODAY]);
+    expect(mockExecuteScheduledPurchase).not.toHaveBeenCalled();
+  });
+
+  it('re-takes a period left pending by a run that died', async () => {
+    givenDailyRule({ missedRunPolicy: 'skip' });
+    mockDb.on(/AND \(status = 'failed' OR \(status = 'pending'/, [{ scheduled_for: TODAY }]);
+
+    await new DCAScheduler('tenant-1').runDueSchedules(NOW);
+
+    const [claim] = mockDb.executed(/INSERT INTO dca_executions \(treasury_rule_id, period_key, scheduled_for, status\)/);
+    expect(claim.sql).toMatch(/dca_executions\.status = 'pending' AND dca_executions\.updated_at < NOW\(\) - make_interval\(mins => \$4\)/);
+    expect(mockExecuteScheduledPurchase).toHaveBeenCalledWith(expect.objectContaining({ scheduleReference: 'dca:rule-1:2025-10-20' }));
+    expect(mockDb.executed(/SET status = \$2, amount_aud = \$3/)[0].params).toEqual(['execution-1', 'completed', 50, 'purchase-1', 'Purchased']);
+  });
+
+  it('does not buy for a period another worker holds', async () => {
+    givenDailyRule({ missedRunPolicy: 'skip' });
+    mockDb
+      .on(/AND \(status = 'failed' OR \(status = 'pending'/, [{ scheduled_for: TODAY }])
+      .on(/INSERT INTO dca_executions \(treasury_rule_id, period_key, scheduled_for, status\)/, []);
+
+    const summaries = await new DCAScheduler('tenant-1').runDueSchedules(NOW);
+
+    expect(mockExecuteScheduledPurchase).not.toHaveBeenCalled();
+    expect(summaries).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { ExchangeProvider, MarketOrderRequest } from '@/lib/integrations/exchanges/interface';
+import { ExecutionEngine, ExecutionSettings, feesToAUD, parseExecutionSettings, summariseParentOrder } from '../execution-algorithms';
+
+const TWAP = parseExecutionSettings({ algorithm: 'twap', sliceCount: 3, intervalSeconds: 60, maxSlippagePercent: 1 }) as ExecutionSettings;
+
+// Order book with one deep ask level; market orders fill in full at the ask
+function fakeExchange(askPrice: () => number) {
+  let orders = 0;
+  const createMarketOrder = jest.fn(async (order: MarketOrderRequest) => {
+    const price = askPrice();
+    const filledAmount = (order.value as number) / price;
+    orders++;
+    return { orderId: `order-${orders}`, status: 'filled', side: 'buy', symbol: 'BTC', amount: filledAmount, filledAmount, averagePrice: price, totalValue: order.value, fees: [], timestamp: new Date() };
+  });
+
+  const exchange = {
+    type: 'kraken',
+    getOrderBook: jest.fn(async () => ({ symbol: 'XBTAUD', bids: [], asks: [[askPrice(), 10]], timestamp: new Date() })),
+    createMarketOrder
+  } as unknown as ExchangeProvider;
+
+  return { exchange, createMarketOrder };
+}
+
+describe('ExecutionEngine', () => {
+  it('places only the first TWAP child order and leaves the rest open', async () => {
+    const { exchange, createMarketOrder } = fakeExchange(() => 100000);
+
+    const result = await new ExecutionEngine(exchange).executeBuy(3000, TWAP, 'twap_test');
+
+    expect(createMarketOrder).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ status: 'open', filledAUD: 1000, remainingSlices: [1000, 1000], referencePrice: 100000 });
+  });
+
+  it('completes the parent order once the last child order fills', async () => {
+    const { exchange } = fakeExchange(() => 100000);
+    const engine = new ExecutionEngine(exchange);
+
+    let result = await engine.executeBuy(3000, TWAP, 'twap_test');
+    result = await engine.placeNextChild(result, TWAP, 'twap_test');
+    result = await engine.placeNextChild(result, TWAP, 'twap_test');
+
+    expect(result).toMatchObject({ status: 'filled', filledAUD: 3000, filledBTC: 0.03, remainingSlices: [] });
+    expect(result.childOrders.map(child => child.sequence)).toEqual([1, 2, 3]);
+  });
+
+  it('stops the parent order when the next child order would exceed the slippage limit', async () => {
+    let ask = 100000;
+    const { exchange, createMarketOrder } = fakeExchange(() => ask);
+    const engine = new ExecutionEngine(exchange);
+
+    const first = await engine.executeBuy(3000, TWAP, 'twap_test');
+    ask = 102000;
+    const result = await engine.placeNextChild(first, TWAP, 'twap_test');
+
+    expect(createMarketOrder).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe('partially_filled');
+    expect(result.stoppedReason).toMatch(/Child order 2 of 3 would fill/);
+  });
+});
+
+describe('summariseParentOrder', () => {
+  it('reports an unfilled parent order with no slices left as partially filled', () => {
+    const result = summariseParentOrder({ algorithm: 'iceberg', referencePrice: 100000, requestedAUD: 500, remainingSlices: [], childOrders: [] });
+
+    expect(result).toMatchObject({ status: 'partially_filled', filledBTC: 0, averagePrice: 0 });
+  });
+});
+
+describe('feesToAUD', () => {
+  it('values BTC fees at the fill price', () => {
+    const fees = [
+      { amount: 1.5, currency: 'AUD', type: 'trading' as const },
+      { amount: 0.00002, currency: 'BTC', type: 'trading' as const }
+    ];
+
+    expect(feesToAUD(fees, 100000)).toBe(3.5);
+  });
+});
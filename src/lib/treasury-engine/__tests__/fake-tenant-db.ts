@@ -0,0 +1,70 @@
+// LIQUID ABT - Fake Tenant Database
+// Stands in for tenantSchemaManager in treasury-engine unit tests: records every query and
+// answers from handlers matched against the SQL text
+
+export interface RecordedQuery {
+  tenantId: string;
+  sql: string;
+  params: unknown[];
+}
+
+type QueryRow = Record<string, unknown>;
+type QueryRows = QueryRow[] | ((params: unknown[]) => QueryRow[]);
+
+export class FakeTenantDb {
+  readonly queries: RecordedQuery[] = [];
+  private handlers: Array<{ pattern: RegExp; rows: QueryRows }> = [];
+
+  /**
+   * Answer queries matching the pattern. Later handlers take precedence over earlier ones.
+   */
+  on(pattern: RegExp, rows: QueryRows): this {
+    this.handlers.unshift({ pattern, rows });
+    return this;
+  }
+
+  /**
+   * Make queries matching the pattern fail
+   */
+  failOn(pattern: RegExp, message: string): this {
+    return this.on(pattern, () => {
+      throw new Error(message);
+    });
+  }
+
+  async query(tenantId: string, sql: string, params: unknown[] = []): Promise<QueryRow[]> {
+    this.queries.push({ tenantId, sql, params });
+    const handler = this.handlers.find(h => h.pattern.test(sql));
+
+    if (!handler) {
+      return [];
+    }
+
+    return typeof handler.rows === 'function' ? handler.rows(params) : handler.rows;
+  }
+
+  /**
+   * Queries whose SQL matches the pattern, in the order they ran
+   */
+  executed(pattern: RegExp): RecordedQuery[] {
+    return this.queries.filter(q => pattern.test(q.sql));
+  }
+
+  reset(): void {
+    this.queries.length = 0;
+    this.handlers = [];
+  }
+
+  /**
+   * The tenantSchemaManager surface used by the treasury engine
+   */
+  get tenantSchemaManager() {
+    return {
+      queryTenantSchema: (tenantId: string, sql: string, params?: unknown[]) => this.query(tenantId, sql, params),
+      getTenantClient: async (tenantId: string) => ({
+        query: async (sql: string, params?: unknown[]) => ({ rows: await this.query(tenantId, sql, params) }),
+        end: async () => undefined
+      })
+    };
+  }
+}
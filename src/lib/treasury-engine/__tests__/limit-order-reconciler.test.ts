@@ -0,0 +1,122 @@
+import { FakeTenantDb } from './fake-tenant-db';
+
+const mockDb = new FakeTenantDb();
+const mockExchange = {
+  type: 'kraken',
+  getOrderStatus: jest.fn(),
+  cancelOrder: jest.fn(),
+  createMarketOrder: jest.fn()
+};
+
+jest.mock('@/lib/database/connection', () => ({
+  tenantSchemaManager: {
+    queryTenantSchema: (tenantId: string, sql: string, params?: unknown[]) => mockDb.tenantSchemaManager.queryTenantSchema(tenantId, sql, params)
+  }
+}));
+
+jest.mock('../processor', () => ({
+  TreasuryProcessor: jest.fn().mockImplementation(() => ({
+    getExchangeProvider: async () => mockExchange,
+    withdrawCompletedPurchase: jest.fn()
+  }))
+}));
+
+jest.mock('../market-circuit-breaker', () => ({
+  marketCircuitBreaker: { getActiveHalt: async () => null }
+}));
+
+import { LimitOrderReconciler } from '../limit-order-reconciler';
+import { ChildOrderFill } from '../execution-algorithms';
+
+const NOW = new Date('2025-10-20T01:00:00Z');
+
+const LIMIT_LEG: ChildOrderFill = {
+  sequence: 1,
+  orderId: 'limit-1',
+  orderType: 'limit',
+  requestedAUD: 1000,
+  filledBTC: 0,
+  filledAUD: 0,
+  averagePrice: 0,
+  status: 'pending',
+  fees: [],
+  executedAt: '2025-10-20T00:00:00Z'
+};
+
+const CANCELLED = { orderId: 'limit-1', status: 'cancelled', side: 'buy', symbol: 'BTC', amount: 0.01, filledAmount: 0, totalValue: 0, timestamp: NOW, isComplete: true, isCancelled: true };
+
+function givenExpiredOrder(overrides: Record<string, unknown> = {}): void {
+  mockDb.on(/FROM bitcoin_purchases\s+WHERE execution_algorithm = 'limit'/, [{
+    id: 'purchase-1',
+    status: 'pending',
+    exchange_order_id: 'limit-1',
+    exchange_provider: 'kraken',
+    amount_aud: '1000.00',
+    limit_settings: { algorithm: 'limit', maxReprices: 0, fallbackToMarket: true },
+    order_expires_at: new Date('2025-10-20T00:15:00Z'),
+    reprice_count: 0,
+    child_orders: [LIMIT_LEG],
+    pending_withdrawal_address: null,
+    fallback_reference: null,
+    ...overrides
+  }]);
+}
+
+describe('LimitOrderReconciler', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    mockDb.reset();
+    mockExchange.getOrderStatus.mockReset().mockResolvedValue(CANCELLED);
+    mockExchange.cancelOrder.mockReset();
+    mockExchange.createMarketOrder.mockReset().mockResolvedValue({
+      orderId: 'market-2', status: 'filled', side: 'buy', symbol: 'BTC', amount: 0.01, filledAmount: 0.01, averagePrice: 100000,
+      totalValue: 1000, fees: [{ amount: 0.00001, currency: 'BTC', type: 'trading' }], timestamp: NOW
+    });
+  });
+
+  it('marks the market fallback before sending it and values BTC fees in AUD', async () => {
+    givenExpiredOrder();
+    mockDb.on(/fallback_reference = \$3/, [{ id: 'purchase-1' }]);
+    const sendOrder = mockExchange.createMarketOrder.getMockImplementation();
+    let markedBeforeSending = false;
+    mockExchange.createMarketOrder.mockImplementation(async () => {
+      markedBeforeSending = mockDb.executed(/fallback_reference = \$3/).length === 1;
+      return sendOrder?.();
+    });
+
+    const summary = await new LimitOrderReconciler('tenant-1').reconcileOpenOrders(NOW);
+
+    const [marker] = mockDb.executed(/fallback_reference = \$3/);
+    expect(marker.params[2]).toBe('limit_purchase-1_2');
+    expect(markedBeforeSending).toBe(true);
+    expect(mockExchange.createMarketOrder).toHaveBeenCalledTimes(1);
+
+    const [completion] = mockDb.executed(/SET status = 'filled'/);
+    expect(completion.params.slice(0, 5)).toEqual(['purchase-1', 1000, 0.01, 100000, 1]);
+    expect(summary.completed).toBe(1);
+  });
+
+  it('does not send a second fallback when another run already marked one', async () => {
+    givenExpiredOrder();
+
+    const summary = await new LimitOrderReconciler('tenant-1').reconcileOpenOrders(NOW);
+
+    expect(mockExchange.createMarketOrder).not.toHaveBeenCalled();
+    expect(summary.errors).toBe(1);
+  });
+
+  it('finishes without buying again when a marked fallback was never recorded', async () => {
+    givenExpiredOrder({ status: 'processing', fallback_reference: 'limit_purchase-1_2' });
+
+    const summary = await new LimitOrderReconciler('tenant-1').reconcileOpenOrders(NOW);
+
+    expect(mockExchange.getOrderStatus).not.toHaveBeenCalled();
+    expect(mockExchange.createMarketOrder).not.toHaveBeenCalled();
+    expect(mockDb.executed(/SET status = 'cancelled'/)).toHaveLength(1);
+    expect(summary.cancelled).toBe(1);
+  });
+});
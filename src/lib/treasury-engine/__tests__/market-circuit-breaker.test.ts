@@ -0,0 +1,158 @@
+// Stand-in for the master database: market_price_samples in memory, circuit_breaker_events inserts echoed back
+const mockSamples: Array<{ id: number; scope: string; price: string; sampled_at: Date }> = [];
+const mockEvents: Array<Record<string, unknown>> = [];
+
+const mockQuery = jest.fn(async (sql: string, params: unknown[] = []) => {
+  if (sql.includes('INSERT INTO market_price_samples')) {
+    mockSamples.push({ id: mockSamples.length + 1, scope: params[0] as string, price: String(params[1]), sampled_at: params[2] as Date });
+    return { rows: [] };
+  }
+
+  if (sql.includes('DELETE FROM market_price_samples')) {
+    const kept = mockSamples.filter(sample => sample.scope !== params[0] || sample.sampled_at >= (params[1] as Date));
+    mockSamples.splice(0, mockSamples.length, ...kept);
+    return { rows: [] };
+  }
+
+  if (sql.includes('FROM market_price_samples')) {
+    const rows = mockSamples
+      .filter(sample => sample.scope === params[0] && sample.sampled_at <= (params[1] as Date))
+      .sort((a, b) => a.sampled_at.getTime() - b.sampled_at.getTime() || a.id - b.id);
+    return { rows };
+  }
+
+  if (sql.includes('INSERT INTO circuit_breaker_events')) {
+    const event = {
+      id: `event-${mockEvents.length + 1}`,
+      tenant_id: params[0],
+      event_type: params[1],
+      exchange: params[2],
+      price_change: String(params[3]),
+      price_before: String(params[4]),
+      price_after: String(params[5]),
+      time_window_minutes: params[6],
+      sources_checked: params[7],
+      sources_failed: params[8],
+      action_taken: params[9],
+      resume_mode: params[11],
+      resume_after: params[12],
+      triggered_at: params[13],
+      resolved_at: null,
+      resolved_by: null
+    };
+    mockEvents.push(event);
+    return { rows: [event] };
+  }
+
+  if (sql.includes('SELECT 1 FROM circuit_breaker_events')) {
+    return { rows: mockEvents.filter(event => !event.resolved_at && event.tenant_id === params[0]) };
+  }
+
+  return { rows: [] };
+});
+
+jest.mock('@/lib/database/connection', () => ({
+  getConnectionPool: () => ({ query: mockQuery })
+}));
+
+jest.mock('@/lib/audit/audit-log', () => ({ recordAuditEvent: jest.fn() }));
+
+import { MarketCircuitBreaker, MarketCircuitBreakerSettings, evaluatePriceMovement } from '../market-circuit-breaker';
+import { ReferencePrice } from '@/lib/services/price-oracle';
+
+const SETTINGS: MarketCircuitBreakerSettings = {
+  shortWindowMinutes: 5,
+  spikePercent: 8,
+  crashPercent: 8,
+  volatilityWindowMinutes: 60,
+  volatilityRangePercent: 12,
+  resumeMode: 'auto',
+  cooldownMinutes: 30
+};
+
+const START = Date.parse('2025-10-20T00:00:00Z');
+const minutes = (count: number) => START + count * 60000;
+
+function reference(price: number): ReferencePrice {
+  return {
+    currency: 'AUD',
+    price,
+    method: 'median',
+    agreeingSources: 1,
+    confidence: 1,
+    timestamp: new Date(START).toISOString(),
+    sources: [{ source: 'kraken', price, timestamp: new Date(START).toISOString() }]
+  };
+}
+
+describe('evaluatePriceMovement', () => {
+  it('reports a crash from the short-window high', () => {
+    const movement = evaluatePriceMovement([{ price: 100000, at: minutes(0) }, { price: 90000, at: minutes(2) }], SETTINGS, minutes(2));
+
+    expect(movement).toMatchObject({ eventType: 'FLASH_CRASH', priceBefore: 100000, priceAfter: 90000, priceChangePercent: -10 });
+  });
+
+  it('reports a spike from the short-window low', () => {
+    const movement = evaluatePriceMovement([{ price: 100000, at: minutes(0) }, { price: 109000, at: minutes(3) }], SETTINGS, minutes(3));
+
+    expect(movement).toMatchObject({ eventType: 'PRICE_SPIKE', priceChangePercent: 9 });
+  });
+
+  it('reports a wide range over the volatility window', () => {
+    const samples = [
+      { price: 100000, at: minutes(0) },
+      { price: 106000, at: minutes(20) },
+      { price: 94000, at: minutes(40) },
+      { price: 99000, at: minutes(50) }
+    ];
+
+    expect(evaluatePriceMovement(samples, SETTINGS, minutes(50))).toMatchObject({ eventType: 'HIGH_VOLATILITY' });
+  });
+
+  it('ignores moves inside the thresholds', () => {
+    expect(evaluatePriceMovement([{ price: 100000, at: minutes(0) }, { price: 103000, at: minutes(4) }], SETTINGS, minutes(4))).toBeNull();
+  });
+});
+
+describe('MarketCircuitBreaker', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    mockSamples.length = 0;
+    mockEvents.length = 0;
+  });
+
+  it('trips on a move observed across two server instances', async () => {
+    const first = new MarketCircuitBreaker(SETTINGS);
+    const second = new MarketCircuitBreaker(SETTINGS);
+
+    expect(await first.observe(reference(100000), null, minutes(0))).toBeNull();
+    const event = await second.observe(reference(90000), null, minutes(2));
+
+    expect(event).toMatchObject({ tenantId: null, eventType: 'FLASH_CRASH', priceBefore: 100000, priceAfter: 90000, resumeMode: 'auto' });
+    expect(event?.resumeAfter).toBe(new Date(minutes(32)).toISOString());
+  });
+
+  it('starts a fresh window after tripping and drops samples past the horizon', async () => {
+    const breaker = new MarketCircuitBreaker(SETTINGS);
+
+    await breaker.observe(reference(100000), 'tenant-1', minutes(0));
+    await breaker.observe(reference(90000), 'tenant-1', minutes(2));
+    expect(mockSamples.map(sample => sample.price)).toEqual(['90000']);
+
+    await breaker.observe(reference(91000), 'tenant-1', minutes(70));
+    expect(mockSamples.map(sample => sample.price)).toEqual(['91000']);
+  });
+
+  it('does not record a second halt while the scope is already halted', async () => {
+    const breaker = new MarketCircuitBreaker(SETTINGS);
+
+    await breaker.observe(reference(100000), null, minutes(0));
+    await breaker.observe(reference(90000), null, minutes(1));
+    await breaker.observe(reference(80000), null, minutes(2));
+
+    expect(mockEvents).toHaveLength(1);
+  });
+});
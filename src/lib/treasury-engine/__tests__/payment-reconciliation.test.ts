@@ -0,0 +1,98 @@
+import { FakeTenantDb } from './fake-tenant-db';
+
+const mockDb = new FakeTenantDb();
+
+jest.mock('@/lib/database/connection', () => ({
+  tenantSchemaManager: {
+    queryTenantSchema: (tenantId: string, sql: string, params?: unknown[]) => mockDb.tenantSchemaManager.queryTenantSchema(tenantId, sql, params)
+  }
+}));
+
+jest.mock('@/lib/notifications/tenant-notifications', () => ({ createTenantNotifications: jest.fn() }));
+
+import { PaymentReconciler, PaymentReconciliationSettings } from '../payment-reconciliation';
+
+const SETTINGS: PaymentReconciliationSettings = {
+  initialLookbackHours: 24,
+  settleMinutes: 60,
+  stuckAfterHours: 24,
+  alertCriticalIssues: 1,
+  alertDiscrepancyAUD: 100,
+  alertAccuracyPercent: 99
+};
+
+const NOW = new Date('2025-10-21T02:00:00Z');
+const LAST_PERIOD_END = new Date('2025-10-20T01:00:00Z');
+
+function payment(id: string, createdAt: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id,
+    external_id: `ch_${id}`,
+    amount: '1000.00',
+    created_at: new Date(createdAt),
+    conversion_decision: { shouldConvert: true, amountToConvert: 100 },
+    purchase_ids: [`purchase-${id}`],
+    purchased_aud: '100.00',
+    open_purchases: '0',
+    batch_purchase_ids: null,
+    batch_amount_aud: null,
+    open_batch_entries: '0',
+    pooled_aud: null,
+    approval_status: null,
+    failure_message: null,
+    offset_aud: null,
+    ...overrides
+  };
+}
+
+describe('PaymentReconciler', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    mockDb.reset();
+    mockDb.on(/INSERT INTO reconciliation_logs/, [{ id: 'log-1' }]);
+  });
+
+  it('records the oldest payment still in progress for the next run', async () => {
+    mockDb.on(/FROM transactions t/, [
+      payment('tx-1', '2025-10-20T03:00:00Z'),
+      payment('tx-2', '2025-10-20T12:00:00Z', { purchased_aud: null, approval_status: 'pending' }),
+      payment('tx-3', '2025-10-20T18:00:00Z', { open_purchases: '1' })
+    ]);
+
+    const result = await new PaymentReconciler('tenant-1', SETTINGS).reconcile(NOW);
+
+    expect(result).toMatchObject({ matched: 1, inProgress: 2, recheckFrom: '2025-10-20T12:00:00.000Z' });
+    const [log] = mockDb.executed(/INSERT INTO reconciliation_logs/);
+    expect(log.params[15]).toBe('2025-10-20T12:00:00.000Z');
+  });
+
+  it('checks payments left in progress again after the checkpoint has passed them', async () => {
+    const recheckFrom = new Date('2025-10-19T20:00:00Z');
+    mockDb
+      .on(/SELECT period_end, recheck_from FROM reconciliation_logs/, [{ period_end: LAST_PERIOD_END, recheck_from: recheckFrom }])
+      // The approval left pending by the last run has since failed
+      .on(/FROM transactions t/, [payment('tx-1', '2025-10-19T20:00:00Z', { purchased_aud: null, purchase_ids: null, approval_status: 'failed' })]);
+
+    const result = await new PaymentReconciler('tenant-1', SETTINGS).reconcile(NOW);
+
+    const [paymentsQuery] = mockDb.executed(/FROM transactions t/);
+    expect(paymentsQuery.params).toEqual([recheckFrom, new Date('2025-10-21T01:00:00Z')]);
+    // Purchases are not re-checked, so orphans are only reported once
+    expect(mockDb.executed(/FROM bitcoin_purchases bp\s+LEFT JOIN transactions/)[0].params[0]).toEqual(LAST_PERIOD_END);
+
+    expect(result?.discrepancies).toEqual([
+      expect.objectContaining({ kind: 'orphaned_payment', transactionId: 'tx-1', detail: 'Approved conversion failed to execute' })
+    ]);
+    expect(result?.recheckFrom).toBeUndefined();
+  });
+
+  it('aggregates every related table so a payment is one row', async () => {
+    await new PaymentReconciler('tenant-1', SETTINGS).reconcile(NOW);
+
+    const [paymentsQuery] = mockDb.executed(/FROM transactions t/);
+    expect(paymentsQuery.sql).not.toMatch(/LEFT JOIN (conversion_batch_entries|market_timing_pool|approval_requests|processing_failures)\b/);
+  });
+});
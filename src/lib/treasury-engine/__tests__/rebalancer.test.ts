@@ -0,0 +1,124 @@
+import { FakeTenantDb } from './fake-tenant-db';
+
+const mockDb = new FakeTenantDb();
+const mockExchange = {
+  type: 'kraken',
+  getCurrentPrice: async () => ({ price: 80000, bid: 79900 }),
+  getBalance: async () => ({ available: 20000, btc: { total: 1, available: 1 } }),
+  createMarketOrder: jest.fn()
+};
+
+jest.mock('@/lib/database/connection', () => ({
+  tenantSchemaManager: {
+    queryTenantSchema: (tenantId: string, sql: string, params?: unknown[]) => mockDb.tenantSchemaManager.queryTenantSchema(tenantId, sql, params)
+  },
+  getMasterPrisma: () => ({ user: { findMany: async () => [{ id: 'owner-1' }] } })
+}));
+
+jest.mock('@/lib/features', () => ({
+  FeatureFlags: { isEnabled: (feature: string) => feature === 'advanced_treasury_rules' }
+}));
+
+jest.mock('../processor', () => ({
+  TreasuryProcessor: jest.fn().mockImplementation(() => ({
+    getExchangeProvider: async () => mockExchange,
+    executeScheduledPurchase: jest.fn()
+  }))
+}));
+
+jest.mock('@/lib/audit/audit-log', () => ({ recordAuditEvent: jest.fn() }));
+jest.mock('@/lib/notifications/tenant-notifications', () => ({ createTenantNotifications: jest.fn() }));
+
+import { RebalancingEngine } from '../rebalancer';
+
+// 1 BTC at $80,000 with $20,000 cash is 80% BTC, above a 20-40% band
+const REBALANCE_RULE = {
+  id: 'rule-1',
+  current_version_id: 'version-1',
+  btc_allocation_min: '0.2',
+  btc_allocation_max: '0.4',
+  cash_floor: null,
+  minimum_purchase: null,
+  maximum_purchase: null,
+  is_auto_withdrawal: false,
+  withdrawal_address: null,
+  settings: { allowSells: true }
+};
+
+const SALE_APPROVAL = {
+  id: 'approval-1',
+  request_type: 'sale',
+  status: 'pending',
+  transaction_id: null,
+  bitcoin_purchase_id: null,
+  amount_aud: '50000.00',
+  bitcoin_amount: '0.62500000',
+  destination_address: null,
+  details: { trigger: 'rebalance', treasuryRuleId: 'rule-1', rebalanceExecutionId: 'execution-1' },
+  reason: 'Rebalance rule',
+  required_approvals: 1,
+  requested_by: null,
+  expires_at: new Date('2025-10-21T00:00:00Z'),
+  rejected_by: null,
+  rejection_reason: null,
+  decided_at: null,
+  executed_at: null,
+  execution_error: null,
+  created_at: new Date('2025-10-20T00:00:00Z')
+};
+
+describe('RebalancingEngine', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    mockDb.reset();
+    mockExchange.createMarketOrder.mockReset();
+    mockDb
+      .on(/FROM treasury_rules/, [REBALANCE_RULE])
+      .on(/FROM bitcoin_withdrawals/, [{ self_custody_btc: '0' }])
+      .on(/INSERT INTO rebalance_executions/, [{ id: 'execution-1' }])
+      .on(/INSERT INTO approval_requests/, [SALE_APPROVAL]);
+  });
+
+  it('requests OWNER approval for a sell instead of selling', async () => {
+    const summaries = await new RebalancingEngine('tenant-1').runRebalancing();
+
+    expect(mockExchange.createMarketOrder).not.toHaveBeenCalled();
+    expect(summaries).toEqual([
+      expect.objectContaining({ ruleId: 'rule-1', side: 'sell', status: 'requested', approvalRequestId: 'approval-1', bitcoinAmount: 0.625 })
+    ]);
+
+    const [insert] = mockDb.executed(/INSERT INTO approval_requests/);
+    expect(insert.params[0]).toBe('sale');
+    expect(JSON.parse(insert.params[6] as string)).toMatchObject({
+      trigger: 'rebalance',
+      treasuryRuleId: 'rule-1',
+      rebalanceExecutionId: 'execution-1'
+    });
+
+    // The execution stays pending until the approval is decided
+    expect(mockDb.executed(/UPDATE rebalance_executions SET reason/)[0].params[1]).toMatch(/awaiting OWNER approval \(request approval-1\)/);
+    expect(mockDb.executed(/SET status = 'completed'/)).toHaveLength(1);
+  });
+
+  it('waits while a sale for the rule awaits approval', async () => {
+    mockDb.on(/SELECT 1 FROM rebalance_executions/, [{ '?column?': 1 }]);
+
+    const summaries = await new RebalancingEngine('tenant-1').runRebalancing();
+
+    expect(summaries).toEqual([]);
+    expect(mockDb.executed(/SELECT 1 FROM rebalance_executions[\s\S]*FROM approval_requests/)[0].params).toEqual(['rule-1', 24]);
+    expect(mockDb.executed(/INSERT INTO approval_requests/)).toHaveLength(0);
+  });
+
+  it('settles sell executions from their decided approvals before trading', async () => {
+    await new RebalancingEngine('tenant-1').runRebalancing();
+
+    const settled = mockDb.executed(/UPDATE rebalance_executions re/);
+    expect(settled[0].sql).toMatch(/JOIN bitcoin_disposals d ON d.approval_request_id = ar.id/);
+    expect(settled[1].sql).toMatch(/ar.status IN \('rejected', 'expired', 'failed'\)/);
+    expect(mockDb.queries.indexOf(settled[1])).toBeLessThan(mockDb.queries.indexOf(mockDb.executed(/INSERT INTO rebalance_executions/)[0]));
+  });
+});
@@ -0,0 +1,237 @@
+// LIQUID ABT - Algorithmic Order Scheduler
+// Places the remaining child orders of open TWAP and iceberg purchases as they fall due, so a
+// purchase never waits between slices inside the request that started it. Purchase status moves
+// pending/processing -> filled, partially_filled or cancelled.
+
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { ExchangeProviderType } from '@/lib/integrations/exchanges/interface';
+import { TreasuryProcessor } from './processor';
+import {
+  AlgorithmicExecutionResult,
+  ChildOrderFill,
+  ExecutionEngine,
+  ParentOrderRecord,
+  childOrderFeesToAUD,
+  isCompletedPurchaseStatus,
+  summariseParentOrder,
+  toParentOrderRecord
+} from './execution-algorithms';
+import { marketCircuitBreaker } from './market-circuit-breaker';
+import { TenantJob } from './scheduled-job';
+
+export type ParentOrderOutcome = 'continued' | 'completed' | 'cancelled';
+
+export interface AlgorithmicOrderSummary {
+  checked: number;
+  continued: number;
+  completed: number;
+  cancelled: number;
+  errors: number;
+}
+
+interface OpenParentPurchaseRow {
+  id: string;
+  exchange_provider: ExchangeProviderType;
+  parent_order: ParentOrderRecord;
+  child_orders: ChildOrderFill[] | null;
+  pending_withdrawal_address: string | null;
+}
+
+// How long a run holds a parent order before another run may pick it up
+const CLAIM_LEASE_MINUTES = 15;
+
+export class AlgorithmicOrderScheduler {
+  private tenantId: string;
+  private processor: TreasuryProcessor;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+    this.processor = new TreasuryProcessor(tenantId);
+  }
+
+  /**
+   * Place the next child order of every parent order that is due
+   */
+  async runDueOrders(now: Date = new Date()): Promise<AlgorithmicOrderSummary> {
+    const summary: AlgorithmicOrderSummary = { checked: 0, continued: 0, completed: 0, cancelled: 0, errors: 0 };
+
+    const due: Array<{ id: string }> = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id FROM bitcoin_purchases
+       WHERE execution_algorithm IN ('twap', 'iceberg') AND status IN ('pending', 'processing')
+         AND next_child_at <= $1
+       ORDER BY next_child_at ASC`,
+      [now]
+    );
+
+    for (const { id } of due) {
+      try {
+        const row = await this.claim(id, now);
+
+        // Another run holds the order
+        if (!row) {
+          continue;
+        }
+
+        summary.checked++;
+        summary[await this.continueOrder(row, now)]++;
+      } catch (error) {
+        summary.errors++;
+        console.error(`Algorithmic order scheduling failed for purchase ${id}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Take the parent order by pushing next_child_at past the lease, so overlapping runs skip it
+   */
+  private async claim(purchaseId: string, now: Date): Promise<OpenParentPurchaseRow | null> {
+    const rows: OpenParentPurchaseRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE bitcoin_purchases
+       SET next_child_at = $2, updated_at = NOW()
+       WHERE id = $1 AND status IN ('pending', 'processing') AND next_child_at <= $3
+       RETURNING id, exchange_provider, parent_order, child_orders, pending_withdrawal_address`,
+      [purchaseId, new Date(now.getTime() + CLAIM_LEASE_MINUTES * 60000), now]
+    );
+
+    return rows[0] || null;
+  }
+
+  private async continueOrder(row: OpenParentPurchaseRow, now: Date): Promise<ParentOrderOutcome> {
+    const parent = row.parent_order;
+    let progress = summariseParentOrder({ ...parent, childOrders: row.child_orders || [] });
+
+    // A child order was sent but its fill never recorded. Placing it again could buy twice, so
+    // finish with what is recorded and leave the order to exchange reconciliation.
+    if (parent.placingSequence && !progress.childOrders.some(child => child.sequence === parent.placingSequence)) {
+      console.error(`Purchase ${row.id}: child order ${parent.placingSequence} was sent but not recorded - ` +
+        'stopping the parent order for exchange reconciliation');
+      return this.finalize(row, { ...progress, remainingSlices: [], stoppedReason: `Child order ${parent.placingSequence} outcome unknown` });
+    }
+
+    // No further child orders while the market circuit breaker has purchases halted
+    const halt = await marketCircuitBreaker.getActiveHalt(this.tenantId);
+    if (halt) {
+      console.warn(`Parent order for purchase ${row.id} stopped: purchases halted by ${halt.eventType}`);
+      return this.finalize(row, { ...progress, remainingSlices: [], stoppedReason: `Purchases halted by ${halt.eventType}` });
+    }
+
+    const exchangeProvider = await this.processor.getExchangeProvider(row.exchange_provider);
+    const engine = new ExecutionEngine(exchangeProvider);
+    const reference = `${parent.algorithm}_${row.id}`;
+
+    // Iceberg orders (no interval) place their child orders back to back
+    do {
+      await this.saveProgress(row.id, progress, parent, progress.childOrders.length + 1);
+      progress = await engine.placeNextChild(progress, parent.settings, reference);
+    } while (progress.status === 'open' && parent.settings.intervalSeconds === 0);
+
+    if (progress.status !== 'open') {
+      return this.finalize(row, progress);
+    }
+
+    await this.saveProgress(row.id, progress, parent, undefined, new Date(now.getTime() + parent.settings.intervalSeconds * 1000));
+    return 'continued';
+  }
+
+  /**
+   * Record the child orders so far. placingSequence marks a child order about to be sent.
+   */
+  private async saveProgress(
+    purchaseId: string,
+    progress: AlgorithmicExecutionResult,
+    parent: ParentOrderRecord,
+    placingSequence?: number,
+    nextChildAt?: Date
+  ): Promise<void> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE bitcoin_purchases
+       SET status = $2, child_orders = $3, parent_order = $4, next_child_at = COALESCE($5, next_child_at), updated_at = NOW()
+       WHERE id = $1 AND status IN ('pending', 'processing')`,
+      [
+        purchaseId,
+        progress.filledBTC > 0 ? 'processing' : 'pending',
+        JSON.stringify(progress.childOrders),
+        JSON.stringify({ ...toParentOrderRecord(progress, parent.settings), placingSequence }),
+        nextChildAt ?? null
+      ]
+    );
+  }
+
+  /**
+   * Record the fills on the purchase: 'filled' or 'partially_filled' if any Bitcoin was bought,
+   * otherwise 'cancelled'
+   */
+  private async finalize(row: OpenParentPurchaseRow, progress: AlgorithmicExecutionResult): Promise<ParentOrderOutcome> {
+    const result = summariseParentOrder(progress);
+
+    if (result.filledBTC <= 0) {
+      await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `UPDATE bitcoin_purchases
+         SET status = 'cancelled', child_orders = $2, parent_order = NULL, next_child_at = NULL,
+             pending_withdrawal_address = NULL, updated_at = NOW()
+         WHERE id = $1 AND status IN ('pending', 'processing')`,
+        [row.id, JSON.stringify(result.childOrders)]
+      );
+
+      console.warn(`Parent order for purchase ${row.id} cancelled unfilled${result.stoppedReason ? `: ${result.stoppedReason}` : ''}`);
+      return 'cancelled';
+    }
+
+    if (result.stoppedReason) {
+      console.warn(`Purchase ${row.id} partially filled ($${result.filledAUD} of $${result.requestedAUD}): ${result.stoppedReason}`);
+    }
+
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE bitcoin_purchases
+       SET status = $2, amount_aud = $3, bitcoin_amount = $4, price_per_btc = $5, fees_aud = $6,
+           child_orders = $7, parent_order = NULL, next_child_at = NULL, pending_withdrawal_address = NULL,
+           updated_at = NOW()
+       WHERE id = $1 AND status IN ('pending', 'processing')`,
+      [
+        row.id,
+        result.status,
+        result.filledAUD,
+        result.filledBTC,
+        Math.round(result.averagePrice * 100) / 100,
+        childOrderFeesToAUD(result.childOrders),
+        JSON.stringify(result.childOrders)
+      ]
+    );
+
+    console.log(`Parent order purchase ${row.id} ${result.status}: ${result.filledBTC} BTC for $${result.filledAUD}`);
+
+    // Partially filled purchases are withdrawn manually, as when they are executed inline
+    if (row.pending_withdrawal_address && isCompletedPurchaseStatus(result.status)) {
+      try {
+        await this.processor.withdrawCompletedPurchase(row.id, result.filledBTC, row.pending_withdrawal_address);
+      } catch (error) {
+        console.error(`Failed to auto-withdraw Bitcoin for purchase ${row.id}:`, error);
+        // Don't throw - purchase was successful, withdrawal can be retried
+      }
+    }
+
+    return 'completed';
+  }
+}
+
+/**
+ * Algorithmic order scheduler cron job
+ */
+export const algorithmicOrderJob = new TenantJob({
+  name: 'Algorithmic order scheduler',
+  cronEnvVar: 'ALGORITHMIC_ORDER_CRON',
+  defaultCron: '* * * * *',
+  runForTenant: async tenantId => {
+    const summary = await new AlgorithmicOrderScheduler(tenantId).runDueOrders();
+    if (summary.checked > 0) {
+      console.log(`Algorithmic orders for tenant ${tenantId}:`, summary);
+    }
+  }
+});
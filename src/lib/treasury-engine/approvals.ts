@@ -0,0 +1,635 @@
+// LIQUID ABT - Dual-Control Approval Workflow
+// Holds large conversions and withdrawals to new addresses until OWNER/ADMIN users approve them,
+// and every Bitcoin sale until an OWNER signs off
+
+import { Client } from 'pg';
+import { getMasterPrisma, tenantSchemaManager } from '@/lib/database/connection';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { AuthorizationError, BusinessLogicError, NotFoundError, ValidationError } from '@/lib/errors/CustomErrors';
+import { FeatureFlags } from '@/lib/features';
+import { createTenantNotifications, NotificationPriority } from '@/lib/notifications/tenant-notifications';
+import { UserRole } from '@/types/database';
+import { TenantJob } from './scheduled-job';
+
+export interface ApprovalPolicy {
+  conversionThresholdAUD: number | null; // null: conversions never need approval
+  requiredApprovals: number;
+  expiryHours: number;
+}
+
+export type ApprovalRequestType = 'conversion' | 'withdrawal' | 'sale';
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'executed' | 'failed';
+
+export interface ApprovalDecision {
+  userId: string;
+  decision: 'approve' | 'reject';
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  requestType: ApprovalRequestType;
+  status: ApprovalStatus;
+  transactionId: string | null;
+  bitcoinPurchaseId: string | null;
+  amountAUD: number | null;
+  bitcoinAmount: number | null;
+  destinationAddress: string | null;
+  details: Record<string, unknown>;
+  reason: string;
+  requiredApprovals: number;
+  decisions: ApprovalDecision[];
+  requestedBy: string | null;
+  expiresAt: string;
+  rejectedBy: string | null;
+  rejectionReason: string | null;
+  decidedAt: string | null;
+  executedAt: string | null;
+  executionError: string | null;
+  createdAt: string;
+}
+
+export interface NewApprovalRequest {
+  requestType: ApprovalRequestType;
+  transactionId?: string;
+  bitcoinPurchaseId?: string;
+  amountAUD?: number;
+  bitcoinAmount?: number;
+  destinationAddress?: string;
+  details?: Record<string, unknown>;
+  reason: string;
+  requestedBy?: string;
+}
+
+export interface ApprovalActor {
+  userId: string;
+  role?: UserRole;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// approval_requests row as returned by pg (DECIMAL columns arrive as strings)
+interface ApprovalRequestRow {
+  id: string;
+  request_type: ApprovalRequestType;
+  status: ApprovalStatus;
+  transaction_id: string | null;
+  bitcoin_purchase_id: string | null;
+  amount_aud: string | null;
+  bitcoin_amount: string | null;
+  destination_address: string | null;
+  details: Record<string, unknown> | null;
+  reason: string;
+  required_approvals: number;
+  requested_by: string | null;
+  expires_at: Date;
+  rejected_by: string | null;
+  rejection_reason: string | null;
+  decided_at: Date | null;
+  executed_at: Date | null;
+  execution_error: string | null;
+  created_at: Date;
+}
+
+interface ApprovalDecisionRow {
+  user_id: string;
+  decision: ApprovalDecision['decision'];
+  reason: string | null;
+  created_at: Date;
+}
+
+const DEFAULT_REQUIRED_APPROVALS = 1;
+const DEFAULT_EXPIRY_HOURS = 48;
+// Sales need one OWNER sign-off whether or not multi_approval_workflows is enabled
+const SALE_REQUIRED_APPROVALS = 1;
+// Approved requests still unexecuted after this long were abandoned part-way (e.g. a crash)
+const EXECUTION_TIMEOUT_MINUTES = 30;
+
+export class ApprovalWorkflow {
+  private tenantId: string;
+  private policy?: ApprovalPolicy | null;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * The tenant's approval policy, or null while multi_approval_workflows is disabled
+   */
+  async getPolicy(): Promise<ApprovalPolicy | null> {
+    if (this.policy !== undefined) {
+      return this.policy;
+    }
+
+    if (!FeatureFlags.isEnabled('multi_approval_workflows')) {
+      this.policy = null;
+      return this.policy;
+    }
+
+    const tenant = await getMasterPrisma().tenant.findUnique({
+      where: { id: this.tenantId },
+      select: {
+        approvalThresholdAUD: true,
+        requiredApprovals: true,
+        approvalExpiryHours: true
+      }
+    });
+
+    this.policy = {
+      conversionThresholdAUD: tenant?.approvalThresholdAUD ?? null,
+      requiredApprovals: Math.max(1, tenant?.requiredApprovals ?? DEFAULT_REQUIRED_APPROVALS),
+      expiryHours: tenant?.approvalExpiryHours || DEFAULT_EXPIRY_HOURS
+    };
+    return this.policy;
+  }
+
+  async requiresConversionApproval(amountAUD: number): Promise<boolean> {
+    const policy = await this.getPolicy();
+    return !!policy && policy.conversionThresholdAUD !== null && amountAUD > policy.conversionThresholdAUD;
+  }
+
+  /**
+   * Withdrawals need approval until an address has received a successful withdrawal
+   */
+  async requiresWithdrawalApproval(address: string): Promise<boolean> {
+    if (!(await this.getPolicy())) {
+      return false;
+    }
+
+    const previous = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT 1 FROM bitcoin_withdrawals WHERE address = $1 AND LOWER(status) NOT IN ('failed', 'cancelled', 'rejected') LIMIT 1`,
+      [address]
+    );
+
+    return previous.length === 0;
+  }
+
+  /**
+   * Raise an approval request and notify approvers. Idempotent per transaction
+   * (conversions) and per purchase (withdrawals).
+   */
+  async requestApproval(request: NewApprovalRequest): Promise<ApprovalRequest> {
+    const policy = await this.getPolicy();
+
+    if (!policy && request.requestType !== 'sale') {
+      throw new BusinessLogicError('Approval workflows are not enabled', { tenantId: this.tenantId });
+    }
+
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `INSERT INTO approval_requests (
+        request_type, transaction_id, bitcoin_purchase_id, amount_aud, bitcoin_amount,
+        destination_address, details, reason, required_approvals, requested_by, expires_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW() + make_interval(hours => $11))
+      ON CONFLICT DO NOTHING
+      RETURNING *`,
+      [
+        request.requestType,
+        request.transactionId || null,
+        request.bitcoinPurchaseId || null,
+        request.amountAUD ?? null,
+        request.bitcoinAmount ?? null,
+        request.destinationAddress || null,
+        JSON.stringify(request.details || {}),
+        request.reason,
+        request.requestType === 'sale' ? SALE_REQUIRED_APPROVALS : policy!.requiredApprovals,
+        request.requestedBy || null,
+        policy?.expiryHours || DEFAULT_EXPIRY_HOURS
+      ]
+    );
+
+    if (rows.length === 0) {
+      const existing = await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `SELECT id FROM approval_requests
+         WHERE (request_type = 'conversion' AND transaction_id = $1)
+         OR (request_type = 'withdrawal' AND bitcoin_purchase_id = $2)`,
+        [request.transactionId || null, request.bitcoinPurchaseId || null]
+      );
+
+      if (existing.length === 0) {
+        throw new Error('Failed to create or retrieve approval request');
+      }
+
+      return this.get(existing[0].id);
+    }
+
+    const created = toApprovalRequest(rows[0], []);
+
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      userId: request.requestedBy,
+      eventType: 'create',
+      resourceType: 'approval_request',
+      resourceId: created.id,
+      action: `Approval required: ${created.reason}`,
+      newValues: created,
+      complianceRelevant: true
+    });
+
+    await this.notifyApprovers(
+      created,
+      'approval_required',
+      `${describeRequest(created)} awaiting approval`,
+      `${created.reason}. ${created.requiredApprovals} approval(s) required before ${created.expiresAt}.`,
+      'high'
+    );
+
+    return created;
+  }
+
+  async list(status?: ApprovalStatus): Promise<ApprovalRequest[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM approval_requests WHERE ($1::text IS NULL OR status = $1) ORDER BY created_at DESC LIMIT 200`,
+      [status || null]
+    );
+
+    const requests: ApprovalRequest[] = [];
+    for (const row of rows) {
+      requests.push(toApprovalRequest(row, await this.getDecisions(row.id)));
+    }
+    return requests;
+  }
+
+  async get(approvalId: string): Promise<ApprovalRequest> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM approval_requests WHERE id = $1`,
+      [approvalId]
+    );
+
+    if (rows.length === 0) {
+      throw new NotFoundError('Approval request', approvalId, { tenantId: this.tenantId });
+    }
+
+    return toApprovalRequest(rows[0], await this.getDecisions(approvalId));
+  }
+
+  /**
+   * Record an approval. Once the required number of distinct approvers have approved,
+   * the request moves to 'approved' and is ready for execution. Sales can only be
+   * approved by an OWNER.
+   */
+  async approve(approvalId: string, actor: ApprovalActor): Promise<ApprovalRequest> {
+    await this.withTransaction(async client => {
+      const request = await this.lockPendingRequest(client, approvalId);
+
+      if (request.request_type === 'sale' && actor.role !== UserRole.OWNER) {
+        throw new AuthorizationError('Bitcoin sales require OWNER approval', UserRole.OWNER, { tenantId: this.tenantId, userId: actor.userId });
+      }
+
+      if (request.requested_by === actor.userId) {
+        throw new BusinessLogicError('Requests cannot be approved by the user who raised them', { tenantId: this.tenantId, userId: actor.userId });
+      }
+
+      const inserted = await client.query(
+        `INSERT INTO approval_decisions (approval_request_id, user_id, decision)
+         VALUES ($1, $2, 'approve')
+         ON CONFLICT (approval_request_id, user_id) DO NOTHING
+         RETURNING id`,
+        [approvalId, actor.userId]
+      );
+
+      if (inserted.rows.length === 0) {
+        throw new BusinessLogicError('You have already approved this request', { tenantId: this.tenantId, userId: actor.userId });
+      }
+
+      const count = await client.query(
+        `SELECT COUNT(*) AS approvals FROM approval_decisions WHERE approval_request_id = $1 AND decision = 'approve'`,
+        [approvalId]
+      );
+
+      if (parseInt(count.rows[0].approvals) >= request.required_approvals) {
+        await client.query(
+          `UPDATE approval_requests SET status = 'approved', decided_at = NOW() WHERE id = $1`,
+          [approvalId]
+        );
+      }
+    });
+
+    const request = await this.get(approvalId);
+
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      userId: actor.userId,
+      eventType: 'approve',
+      resourceType: 'approval_request',
+      resourceId: approvalId,
+      action: `Approved ${describeRequest(request).toLowerCase()}`,
+      newValues: { status: request.status, approvals: request.decisions.length },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      complianceRelevant: true
+    });
+
+    return request;
+  }
+
+  async reject(approvalId: string, actor: ApprovalActor, reason: string): Promise<ApprovalRequest> {
+    if (!reason || !reason.trim()) {
+      throw new ValidationError('A rejection reason is required', 'reason', reason, { tenantId: this.tenantId });
+    }
+
+    await this.withTransaction(async client => {
+      await this.lockPendingRequest(client, approvalId);
+
+      await client.query(
+        `INSERT INTO approval_decisions (approval_request_id, user_id, decision, reason)
+         VALUES ($1, $2, 'reject', $3)
+         ON CONFLICT (approval_request_id, user_id) DO UPDATE SET decision = 'reject', reason = EXCLUDED.reason`,
+        [approvalId, actor.userId, reason.trim()]
+      );
+
+      await client.query(
+        `UPDATE approval_requests
+         SET status = 'rejected', rejected_by = $2, rejection_reason = $3, decided_at = NOW()
+         WHERE id = $1`,
+        [approvalId, actor.userId, reason.trim()]
+      );
+    });
+
+    const request = await this.get(approvalId);
+
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      userId: actor.userId,
+      eventType: 'reject',
+      resourceType: 'approval_request',
+      resourceId: approvalId,
+      action: `Rejected ${describeRequest(request).toLowerCase()}`,
+      newValues: { status: request.status, rejectionReason: request.rejectionReason },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      complianceRelevant: true
+    });
+
+    await this.notifyApprovers(
+      request,
+      'approval_rejected',
+      `${describeRequest(request)} rejected`,
+      `Rejected: ${request.rejectionReason}`,
+      'normal'
+    );
+
+    return request;
+  }
+
+  async markExecuted(approvalId: string, bitcoinPurchaseId?: string): Promise<ApprovalRequest> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE approval_requests
+       SET status = 'executed', executed_at = NOW(), bitcoin_purchase_id = COALESCE($2, bitcoin_purchase_id)
+       WHERE id = $1 AND status = 'approved'`,
+      [approvalId, bitcoinPurchaseId || null]
+    );
+
+    return this.get(approvalId);
+  }
+
+  async markFailed(approvalId: string, errorMessage: string): Promise<ApprovalRequest> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE approval_requests SET status = 'failed', execution_error = $2 WHERE id = $1 AND status = 'approved'`,
+      [approvalId, errorMessage]
+    );
+
+    const request = await this.get(approvalId);
+
+    await this.notifyApprovers(
+      request,
+      'approval_execution_failed',
+      `Approved ${describeRequest(request).toLowerCase()} failed`,
+      `Execution failed after approval: ${errorMessage}`,
+      'urgent'
+    );
+
+    return request;
+  }
+
+  /**
+   * Expire pending requests past their deadline. Expired conversions are not retried.
+   */
+  async expirePendingRequests(): Promise<number> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE approval_requests SET status = 'expired', decided_at = NOW()
+       WHERE status = 'pending' AND expires_at <= NOW()
+       RETURNING *`,
+      []
+    );
+
+    for (const row of rows) {
+      const request = toApprovalRequest(row, []);
+      await this.notifyApprovers(
+        request,
+        'approval_expired',
+        `${describeRequest(request)} expired`,
+        `No decision was made before ${request.expiresAt}. ${request.reason}.`,
+        'normal'
+      );
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Close approved requests whose execution never finished. Sales with a recorded disposal are
+   * marked executed; the rest are marked failed so they stop counting as open.
+   */
+  async failAbandonedExecutions(): Promise<number> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE approval_requests a
+       SET status = 'executed', executed_at = d.created_at
+       FROM bitcoin_disposals d
+       WHERE d.approval_request_id = a.id AND a.status = 'approved'
+         AND a.decided_at <= NOW() - make_interval(mins => $1)`,
+      [EXECUTION_TIMEOUT_MINUTES]
+    );
+
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE approval_requests SET status = 'failed', execution_error = $2
+       WHERE status = 'approved' AND decided_at <= NOW() - make_interval(mins => $1)
+       RETURNING *`,
+      [EXECUTION_TIMEOUT_MINUTES, `Not executed within ${EXECUTION_TIMEOUT_MINUTES} minutes of approval`]
+    );
+
+    for (const row of rows) {
+      const request = toApprovalRequest(row, []);
+      await this.notifyApprovers(
+        request,
+        'approval_execution_failed',
+        `Approved ${describeRequest(request).toLowerCase()} failed`,
+        `${request.executionError}. Raise a new request to retry.`,
+        'urgent'
+      );
+    }
+
+    return rows.length;
+  }
+
+  private async getDecisions(approvalId: string): Promise<ApprovalDecision[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT user_id, decision, reason, created_at FROM approval_decisions
+       WHERE approval_request_id = $1 ORDER BY created_at ASC`,
+      [approvalId]
+    );
+
+    const decisions: ApprovalDecision[] = [];
+    for (const row of rows as ApprovalDecisionRow[]) {
+      decisions.push({
+        userId: row.user_id,
+        decision: row.decision,
+        reason: row.reason,
+        createdAt: new Date(row.created_at).toISOString()
+      });
+    }
+    return decisions;
+  }
+
+  private async lockPendingRequest(client: Client, approvalId: string): Promise<ApprovalRequestRow> {
+    const result = await client.query(
+      `SELECT * FROM approval_requests WHERE id = $1 FOR UPDATE`,
+      [approvalId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Approval request', approvalId, { tenantId: this.tenantId });
+    }
+
+    const request: ApprovalRequestRow = result.rows[0];
+
+    if (request.status === 'pending' && new Date(request.expires_at) <= new Date()) {
+      throw new BusinessLogicError('Approval request has expired', { tenantId: this.tenantId });
+    }
+
+    if (request.status !== 'pending') {
+      throw new BusinessLogicError(`Approval request is already ${request.status}`, { tenantId: this.tenantId });
+    }
+
+    return request;
+  }
+
+  private async withTransaction<T>(work: (client: Client) => Promise<T>): Promise<T> {
+    const client = await tenantSchemaManager.getTenantClient(this.tenantId);
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  /**
+   * Notify every active OWNER and ADMIN of the tenant
+   */
+  private async notifyApprovers(
+    request: ApprovalRequest,
+    type: string,
+    title: string,
+    message: string,
+    priority: NotificationPriority
+  ): Promise<void> {
+    try {
+      const approvers = await getMasterPrisma().user.findMany({
+        where: {
+          tenantId: this.tenantId,
+          isActive: true,
+          role: { in: [UserRole.OWNER, UserRole.ADMIN] }
+        },
+        select: { id: true }
+      });
+
+      await createTenantNotifications(
+        this.tenantId,
+        approvers.map((approver: { id: string }) => ({
+          userId: approver.id,
+          type,
+          title,
+          message,
+          priority,
+          metadata: { approvalRequestId: request.id, requestType: request.requestType, status: request.status },
+          expiresAt: request.status === 'pending' ? new Date(request.expiresAt) : undefined
+        }))
+      );
+    } catch (error) {
+      // Notifications are best-effort; the request itself is already recorded
+      console.error(`Failed to notify approvers for approval request ${request.id}:`, error);
+    }
+  }
+}
+
+function toNumber(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+function toApprovalRequest(row: ApprovalRequestRow, decisions: ApprovalDecision[]): ApprovalRequest {
+  return {
+    id: row.id,
+    requestType: row.request_type,
+    status: row.status,
+    transactionId: row.transaction_id,
+    bitcoinPurchaseId: row.bitcoin_purchase_id,
+    amountAUD: toNumber(row.amount_aud),
+    bitcoinAmount: toNumber(row.bitcoin_amount),
+    destinationAddress: row.destination_address,
+    details: row.details || {},
+    reason: row.reason,
+    requiredApprovals: row.required_approvals,
+    decisions,
+    requestedBy: row.requested_by,
+    expiresAt: new Date(row.expires_at).toISOString(),
+    rejectedBy: row.rejected_by,
+    rejectionReason: row.rejection_reason,
+    decidedAt: row.decided_at ? new Date(row.decided_at).toISOString() : null,
+    executedAt: row.executed_at ? new Date(row.executed_at).toISOString() : null,
+    executionError: row.execution_error,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+function describeRequest(request: ApprovalRequest): string {
+  switch (request.requestType) {
+    case 'conversion':
+      return `Conversion of $${request.amountAUD?.toLocaleString()}`;
+    case 'sale':
+      return `Sale of ${request.bitcoinAmount} BTC (about $${request.amountAUD?.toLocaleString()})`;
+    default:
+      return `Withdrawal of ${request.bitcoinAmount} BTC to ${request.destinationAddress}`;
+  }
+}
+
+// Background expiry job
+
+/**
+ * Approval expiry cron job: expires undecided requests and fails abandoned executions. Runs even
+ * while multi_approval_workflows is disabled because sales always need approval.
+ */
+export const approvalExpiryJob = new TenantJob({
+  name: 'Approval expiry monitor',
+  cronEnvVar: 'APPROVAL_EXPIRY_CRON',
+  defaultCron: '*/15 * * * *',
+  runForTenant: async tenantId => {
+    const workflow = new ApprovalWorkflow(tenantId);
+    const expired = await workflow.expirePendingRequests();
+    if (expired > 0) {
+      console.log(`Expired ${expired} approval request(s) for tenant ${tenantId}`);
+    }
+
+    const failed = await workflow.failAbandonedExecutions();
+    if (failed > 0) {
+      console.warn(`Failed ${failed} abandoned approval execution(s) for tenant ${tenantId}`);
+    }
+  }
+});
@@ -0,0 +1,471 @@
+// LIQUID ABT - Cash-Flow Obligations
+// Scheduled outflows (payroll, BAS, supplier bills) that set a dynamic cash floor for conversions
+
+import { addDays, addMonths, addWeeks, format, isAfter, isBefore, startOfDay } from 'date-fns';
+import { z } from 'zod';
+import { Client } from 'pg';
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { recordAuditEvent, AuditEventType } from '@/lib/audit/audit-log';
+import { NotFoundError, ValidationError } from '@/lib/errors/CustomErrors';
+
+export type ObligationCategory = 'payroll' | 'bas' | 'tax' | 'supplier' | 'rent' | 'other';
+export type ObligationRecurrence = 'none' | 'weekly' | 'fortnightly' | 'monthly' | 'quarterly';
+
+export interface CashObligation {
+  id: string;
+  name: string;
+  category: ObligationCategory;
+  amountAUD: number;
+  dueDate: string;                  // yyyy-MM-dd of the first (or only) payment
+  recurrence: ObligationRecurrence;
+  recurrenceEndDate: string | null; // Last date a recurring obligation can fall on
+  source: 'manual' | 'csv';
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ObligationOccurrence {
+  obligationId: string;
+  name: string;
+  category: ObligationCategory;
+  amountAUD: number;
+  dueDate: string;
+}
+
+export interface UpcomingObligations {
+  from: string;
+  to: string;
+  horizonDays: number;
+  totalAUD: number;
+  occurrences: ObligationOccurrence[];
+}
+
+export interface ObligationChangeActor {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ObligationImportResult {
+  imported: number;
+  obligations: CashObligation[];
+}
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD')
+  .refine(value => !isNaN(new Date(value).getTime()), 'Invalid date');
+
+export const cashObligationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  category: z.enum(['payroll', 'bas', 'tax', 'supplier', 'rent', 'other']).default('other'),
+  amountAUD: z.number().positive().max(100_000_000),
+  dueDate: dateString,
+  recurrence: z.enum(['none', 'weekly', 'fortnightly', 'monthly', 'quarterly']).default('none'),
+  recurrenceEndDate: dateString.nullable().optional(),
+  notes: z.string().trim().max(500).nullable().optional()
+}).refine(
+  obligation => !obligation.recurrenceEndDate || obligation.recurrenceEndDate >= obligation.dueDate,
+  { message: 'Recurrence end date cannot be before the due date', path: ['recurrenceEndDate'] }
+);
+
+export type CashObligationInput = z.infer<typeof cashObligationSchema>;
+
+// cash_obligations row as returned by pg (DECIMAL columns arrive as strings)
+interface CashObligationRow {
+  id: string;
+  name: string;
+  category: ObligationCategory;
+  amount_aud: string;
+  due_date: Date | string;
+  recurrence: ObligationRecurrence;
+  recurrence_end_date: Date | string | null;
+  source: 'manual' | 'csv';
+  notes: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const CSV_COLUMNS = ['name', 'category', 'amount', 'due_date', 'recurrence', 'recurrence_end_date', 'notes'];
+const MAX_IMPORT_ROWS = 1000;
+// Guards against runaway expansion of weekly obligations over long horizons
+const MAX_OCCURRENCES_PER_OBLIGATION = 500;
+
+/**
+ * Payment dates of an obligation that fall within [from, to]
+ */
+export function expandOccurrences(obligation: CashObligation, from: Date, to: Date): ObligationOccurrence[] {
+  const occurrences: ObligationOccurrence[] = [];
+  const end = obligation.recurrenceEndDate ? parseDate(obligation.recurrenceEndDate) : null;
+  const first = parseDate(obligation.dueDate);
+
+  for (let i = 0; i < MAX_OCCURRENCES_PER_OBLIGATION; i++) {
+    const due = nthOccurrence(first, obligation.recurrence, i);
+
+    if (isAfter(due, to) || (end && isAfter(due, end))) {
+      break;
+    }
+
+    if (!isBefore(due, from)) {
+      occurrences.push({
+        obligationId: obligation.id,
+        name: obligation.name,
+        category: obligation.category,
+        amountAUD: obligation.amountAUD,
+        dueDate: format(due, 'yyyy-MM-dd')
+      });
+    }
+
+    if (obligation.recurrence === 'none') {
+      break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Obligations due in the horizonDays starting at asOf (inclusive of today)
+ */
+export function summarizeUpcomingObligations(obligations: CashObligation[], asOf: Date, horizonDays: number): UpcomingObligations {
+  const from = startOfDay(asOf);
+  const to = addDays(from, Math.max(0, horizonDays - 1));
+  const occurrences = obligations
+    .flatMap(obligation => expandOccurrences(obligation, from, to))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  return {
+    from: format(from, 'yyyy-MM-dd'),
+    to: format(to, 'yyyy-MM-dd'),
+    horizonDays,
+    totalAUD: Math.round(occurrences.reduce((sum, occurrence) => sum + occurrence.amountAUD, 0) * 100) / 100,
+    occurrences
+  };
+}
+
+/**
+ * Parse an obligations calendar. The header row is required and names the columns:
+ * name, category, amount, due_date, recurrence, recurrence_end_date, notes
+ * (only name, amount and due_date must be present). Fields may be double-quoted.
+ */
+export function parseObligationsCsv(contents: string): CashObligationInput[] {
+  const lines = contents.split(/\r?\n/).filter(line => line.trim() !== '');
+
+  if (lines.length < 2) {
+    throw new ValidationError('The CSV needs a header row and at least one obligation', 'csv');
+  }
+
+  if (lines.length - 1 > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`The CSV may contain at most ${MAX_IMPORT_ROWS} obligations`, 'csv');
+  }
+
+  const header = splitCsvLine(lines[0]).map(column => column.toLowerCase());
+  const missing = ['name', 'amount', 'due_date'].filter(column => !header.includes(column));
+
+  if (missing.length > 0) {
+    throw new ValidationError(`CSV header is missing ${missing.join(', ')} (expected ${CSV_COLUMNS.join(', ')})`, 'csv');
+  }
+
+  const obligations: CashObligationInput[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = splitCsvLine(lines[i]);
+    const field = (column: string): string | undefined => {
+      const index = header.indexOf(column);
+      return index >= 0 && values[index] !== '' ? values[index] : undefined;
+    };
+
+    const result = cashObligationSchema.safeParse({
+      name: field('name'),
+      category: field('category')?.toLowerCase(),
+      amountAUD: Number((field('amount') || '').replace(/[$,]/g, '')),
+      dueDate: field('due_date'),
+      recurrence: field('recurrence')?.toLowerCase(),
+      recurrenceEndDate: field('recurrence_end_date') ?? null,
+      notes: field('notes') ?? null
+    });
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new ValidationError(
+        `Line ${i + 1}: ${issue.path.join('.') || 'obligation'}: ${issue.message}`,
+        issue.path.join('.'),
+        lines[i],
+        { context: { line: i + 1, issues: result.error.issues } }
+      );
+    }
+
+    obligations.push(result.data);
+  }
+
+  return obligations;
+}
+
+export class CashObligationStore {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  async list(): Promise<CashObligation[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM cash_obligations WHERE deleted_at IS NULL ORDER BY due_date ASC, name ASC`,
+      []
+    );
+
+    return (rows as CashObligationRow[]).map(toObligation);
+  }
+
+  async get(obligationId: string): Promise<CashObligation> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM cash_obligations WHERE id = $1 AND deleted_at IS NULL`,
+      [obligationId]
+    );
+
+    if (rows.length === 0) {
+      throw new NotFoundError('Cash obligation', obligationId, { tenantId: this.tenantId });
+    }
+
+    return toObligation(rows[0]);
+  }
+
+  async create(input: unknown, actor: ObligationChangeActor): Promise<CashObligation> {
+    const obligation = this.validate(input);
+    const created = await this.insert(obligation, 'manual', actor);
+
+    await this.audit('create', created.id, `Added cash obligation "${created.name}"`, actor, undefined, created);
+    return created;
+  }
+
+  /**
+   * Apply a partial update; the merged obligation is re-validated as a whole
+   */
+  async update(obligationId: string, patch: unknown, actor: ObligationChangeActor): Promise<CashObligation> {
+    if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+      throw new ValidationError('Request body must be an object', undefined, undefined, { tenantId: this.tenantId });
+    }
+
+    const existing = await this.get(obligationId);
+    const obligation = this.validate({ ...toObligationInput(existing), ...patch });
+
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE cash_obligations
+       SET name = $2, category = $3, amount_aud = $4, due_date = $5, recurrence = $6,
+           recurrence_end_date = $7, notes = $8, updated_at = NOW()
+       WHERE id = $1 AND deleted_at IS NULL
+       RETURNING *`,
+      [obligationId, ...toColumnValues(obligation)]
+    );
+
+    const updated = toObligation(rows[0]);
+    await this.audit('update', obligationId, `Updated cash obligation "${updated.name}"`, actor, existing, updated);
+    return updated;
+  }
+
+  async remove(obligationId: string, actor: ObligationChangeActor): Promise<void> {
+    const existing = await this.get(obligationId);
+
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE cash_obligations SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1`,
+      [obligationId]
+    );
+
+    await this.audit('delete', obligationId, `Removed cash obligation "${existing.name}"`, actor, existing, undefined);
+  }
+
+  /**
+   * Import an obligations calendar. The whole file is validated before anything is saved, and
+   * saved in one transaction so a failed insert leaves no partial calendar behind.
+   */
+  async importCsv(contents: string, actor: ObligationChangeActor): Promise<ObligationImportResult> {
+    const inputs = parseObligationsCsv(contents);
+    const obligations: CashObligation[] = [];
+    const client = await tenantSchemaManager.getTenantClient(this.tenantId);
+
+    try {
+      await client.query('BEGIN');
+      for (const input of inputs) {
+        obligations.push(await this.insert(input, 'csv', actor, client));
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      userId: actor.userId,
+      eventType: 'create',
+      resourceType: 'cash_obligation',
+      action: `Imported ${obligations.length} cash obligation(s) from CSV`,
+      newValues: obligations.map(obligation => obligation.id),
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      complianceRelevant: true
+    });
+
+    return { imported: obligations.length, obligations };
+  }
+
+  async getUpcoming(horizonDays: number, asOf: Date = new Date()): Promise<UpcomingObligations> {
+    return summarizeUpcomingObligations(await this.list(), asOf, horizonDays);
+  }
+
+  private async insert(
+    obligation: CashObligationInput,
+    source: CashObligation['source'],
+    actor: ObligationChangeActor,
+    client?: Client
+  ): Promise<CashObligation> {
+    const sql = `INSERT INTO cash_obligations (
+        name, category, amount_aud, due_date, recurrence, recurrence_end_date, notes, source, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`;
+    const params = [...toColumnValues(obligation), source, actor.userId];
+
+    const rows = client
+      ? (await client.query(sql, params)).rows
+      : await tenantSchemaManager.queryTenantSchema(this.tenantId, sql, params);
+
+    return toObligation(rows[0]);
+  }
+
+  private validate(input: unknown): CashObligationInput {
+    const result = cashObligationSchema.safeParse(input);
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new ValidationError(
+        `${issue.path.join('.') || 'obligation'}: ${issue.message}`,
+        issue.path.join('.'),
+        undefined,
+        { tenantId: this.tenantId, context: { issues: result.error.issues } }
+      );
+    }
+
+    return result.data;
+  }
+
+  private async audit(
+    eventType: AuditEventType,
+    obligationId: string,
+    action: string,
+    actor: ObligationChangeActor,
+    oldValues: CashObligation | undefined,
+    newValues: CashObligation | undefined
+  ): Promise<void> {
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      userId: actor.userId,
+      eventType,
+      resourceType: 'cash_obligation',
+      resourceId: obligationId,
+      action,
+      oldValues,
+      newValues,
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      complianceRelevant: true
+    });
+  }
+}
+
+function nthOccurrence(first: Date, recurrence: ObligationRecurrence, n: number): Date {
+  switch (recurrence) {
+    case 'weekly':
+      return addWeeks(first, n);
+    case 'fortnightly':
+      return addWeeks(first, n * 2);
+    case 'monthly':
+      return addMonths(first, n);
+    case 'quarterly':
+      return addMonths(first, n * 3);
+    default:
+      return first;
+  }
+}
+
+// Local midnight, so date-only values compare correctly against startOfDay()
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function toDateString(value: Date | string): string {
+  return typeof value === 'string' ? value.slice(0, 10) : format(value, 'yyyy-MM-dd');
+}
+
+function splitCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  values.push(current.trim());
+  return values;
+}
+
+function toObligation(row: CashObligationRow): CashObligation {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    amountAUD: parseFloat(row.amount_aud),
+    dueDate: toDateString(row.due_date),
+    recurrence: row.recurrence,
+    recurrenceEndDate: row.recurrence_end_date ? toDateString(row.recurrence_end_date) : null,
+    source: row.source,
+    notes: row.notes,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+function toObligationInput(obligation: CashObligation): CashObligationInput {
+  return {
+    name: obligation.name,
+    category: obligation.category,
+    amountAUD: obligation.amountAUD,
+    dueDate: obligation.dueDate,
+    recurrence: obligation.recurrence,
+    recurrenceEndDate: obligation.recurrenceEndDate,
+    notes: obligation.notes
+  };
+}
+
+function toColumnValues(obligation: CashObligationInput): unknown[] {
+  return [
+    obligation.name,
+    obligation.category,
+    obligation.amountAUD,
+    obligation.dueDate,
+    obligation.recurrence,
+    obligation.recurrenceEndDate ?? null,
+    obligation.notes ?? null
+  ];
+}
@@ -0,0 +1,176 @@
+// LIQUID ABT - Conversion Batcher
+// Flushes due conversion batches as one exchange order each and allocates the Bitcoin
+// bought back to the source transactions (see conversion-batches.ts)
+
+import { randomUUID } from 'crypto';
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { TreasuryProcessor } from './processor';
+import { ConversionBatchLedger, DueBatch } from './conversion-batches';
+import { TenantJob } from './scheduled-job';
+
+export interface BatchFlushSummary {
+  status: 'converted' | 'deferred' | 'failed';
+  entryCount: number;
+  amountAUD: number;
+  bitcoinPurchaseId?: string;
+  reason: string;
+}
+
+const STALE_CLAIM_MINUTES = 15; // A claim still 'processing' after this long belongs to a flush that died
+
+export class ConversionBatcher {
+  private tenantId: string;
+  private ledger: ConversionBatchLedger;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+    this.ledger = new ConversionBatchLedger(tenantId);
+  }
+
+  /**
+   * Convert every batch whose window has elapsed or that has reached its flush amount
+   */
+  async flushDueBatches(now: Date = new Date()): Promise<BatchFlushSummary[]> {
+    await this.recoverStaleClaims();
+
+    const batches = await this.ledger.getDueBatches(now);
+    const summaries: BatchFlushSummary[] = [];
+
+    if (batches.length === 0) {
+      return summaries;
+    }
+
+    const processor = new TreasuryProcessor(this.tenantId);
+
+    for (const batch of batches) {
+      const summary = await this.flushBatch(processor, batch);
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Claim the batch's entries, buy their total in one order and allocate the fill pro-rata.
+   * Anything the tier limits hold back stays queued for the next window.
+   */
+  private async flushBatch(processor: TreasuryProcessor, batch: DueBatch): Promise<BatchFlushSummary | null> {
+    const claimReference = `batch:${randomUUID()}`;
+    const entries = await this.ledger.claim(batch.entryIds, claimReference);
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const amountAUD = Math.round(entries.reduce((sum, entry) => sum + entry.amountAUD, 0) * 100) / 100;
+
+    try {
+      const result = await processor.executeScheduledPurchase({
+        scheduleReference: claimReference,
+        amountAUD,
+        withdrawalAddress: batch.withdrawalAddress,
+        ruleVersionIds: batch.ruleVersionIds,
+        // Limit orders complete later; batches are bought at market so the fill can be allocated now
+        execution: batch.execution?.algorithm === 'limit' ? undefined : batch.execution
+      });
+
+      if (!result.executed || !result.bitcoinPurchaseId) {
+        await this.ledger.release(claimReference);
+        console.log(`Conversion batch of $${amountAUD} deferred: ${result.reason}`);
+        return { status: 'deferred', entryCount: entries.length, amountAUD: 0, reason: result.reason };
+      }
+
+      await this.settleClaim(claimReference, result.bitcoinPurchaseId);
+
+      console.log(`Conversion batch of ${entries.length} transactions bought $${result.amountAUD}: ${batch.reason}`);
+
+      return {
+        status: 'converted',
+        entryCount: entries.length,
+        amountAUD: result.amountAUD,
+        bitcoinPurchaseId: result.bitcoinPurchaseId,
+        reason: `${batch.reason}; ${result.reason}`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Conversion batch purchase failed for tenant ${this.tenantId}:`, error);
+
+      // The purchase may have gone through before the failure
+      try {
+        await this.recoverClaim(claimReference);
+      } catch (recoveryError) {
+        console.error(`Conversion batch claim ${claimReference} left for stale-claim recovery:`, recoveryError);
+      }
+
+      return { status: 'failed', entryCount: entries.length, amountAUD: 0, reason: message };
+    }
+  }
+
+  /**
+   * Allocate the purchase recorded for a claim back to the claimed entries
+   */
+  private async settleClaim(claimReference: string, bitcoinPurchaseId: string): Promise<void> {
+    const purchase = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT amount_aud, bitcoin_amount, fees_aud FROM bitcoin_purchases WHERE id = $1`,
+      [bitcoinPurchaseId]
+    );
+
+    await this.ledger.recordAllocations(claimReference, bitcoinPurchaseId, {
+      amountAUD: parseFloat(purchase[0].amount_aud),
+      bitcoinAmount: parseFloat(purchase[0].bitcoin_amount),
+      feesAUD: parseFloat(purchase[0].fees_aud)
+    });
+  }
+
+  /**
+   * Settle a claim against the purchase recorded under its reference, or return the entries
+   * to the queue if no purchase was made. Returns whether the claim was settled.
+   */
+  private async recoverClaim(claimReference: string): Promise<boolean> {
+    const purchases = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id FROM bitcoin_purchases
+       WHERE schedule_reference = $1 AND status NOT IN ('failed', 'cancelled')`,
+      [claimReference]
+    );
+
+    if (purchases.length > 0) {
+      await this.settleClaim(claimReference, purchases[0].id);
+      return true;
+    }
+
+    await this.ledger.release(claimReference);
+    return false;
+  }
+
+  /**
+   * Recover batch claims left 'processing' by a flush that stopped part-way
+   */
+  private async recoverStaleClaims(): Promise<void> {
+    const claimReferences = await this.ledger.getStaleClaimReferences(STALE_CLAIM_MINUTES);
+
+    for (const claimReference of claimReferences) {
+      const settled = await this.recoverClaim(claimReference);
+      console.log(`Recovered stale conversion batch claim ${claimReference}: ${settled ? 'allocated to its purchase' : 'returned to the queue'}`);
+    }
+  }
+}
+
+/**
+ * Conversion batcher cron job. Runs every minute so both batch windows and
+ * flush amounts are honoured promptly.
+ */
+export const conversionBatcherJob = new TenantJob({
+  name: 'Conversion batcher',
+  cronEnvVar: 'CONVERSION_BATCH_CRON',
+  defaultCron: '* * * * *',
+  runForTenant: async tenantId => {
+    const summaries = await new ConversionBatcher(tenantId).flushDueBatches();
+    if (summaries.length > 0) {
+      console.log(`Conversion batches for tenant ${tenantId}:`, summaries);
+    }
+  }
+});
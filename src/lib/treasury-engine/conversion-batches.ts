@@ -0,0 +1,427 @@
+// LIQUID ABT - Conversion Batch Ledger
+// Accrues conversions from rules with settings.batching so many small payments share one
+// exchange order. The conversion batcher flushes each batch once its window elapses or it
+// reaches flushAtAUD, and the Bitcoin bought is allocated pro-rata back to each transaction.
+
+import { Client } from 'pg';
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { ExecutionSettings } from './execution-algorithms';
+
+/**
+ * Batching configuration, stored in treasury_rules.settings.batching
+ */
+export interface BatchingSettings {
+  windowMinutes: number; // Flush once the oldest queued conversion has waited this long...
+  flushAtAUD?: number;   // ...or as soon as the batch reaches this amount
+}
+
+export interface NewBatchEntry {
+  transactionId: string;
+  amountAUD: number;
+  settings: BatchingSettings;
+  withdrawalAddress?: string;
+  execution?: ExecutionSettings;
+  ruleVersionIds?: string[];
+  evaluationTrace?: unknown;
+}
+
+export interface BatchEntry {
+  id: string;
+  transactionId: string;
+  amountAUD: number;
+  remainingAUD: number; // Not yet converted
+  status: 'pending' | 'processing' | 'converted' | 'cancelled';
+  queuedAt: string;
+  convertedAt: string | null;
+}
+
+/**
+ * Pending entries that convert together: same withdrawal address and execution settings
+ */
+export interface DueBatch {
+  entryIds: string[];
+  amountAUD: number;
+  oldestQueuedAt: string;
+  withdrawalAddress?: string;
+  execution?: ExecutionSettings;
+  ruleVersionIds: string[];
+  reason: string;
+}
+
+export interface ClaimedBatchEntry {
+  id: string;
+  transactionId: string;
+  amountAUD: number; // Remaining amount claimed for this flush
+}
+
+export interface BatchAllocation {
+  entryId: string;
+  transactionId: string;
+  amountAUD: number;
+  bitcoinAmount: number;
+  feesAUD: number;
+}
+
+export interface BatchFill {
+  amountAUD: number;
+  bitcoinAmount: number;
+  feesAUD: number;
+}
+
+// conversion_batch_entries row as returned by pg (DECIMAL columns arrive as strings)
+interface BatchEntryRow {
+  id: string;
+  transaction_id: string;
+  amount_aud: string;
+  remaining_aud: string;
+  status: BatchEntry['status'];
+  queued_at: Date;
+  converted_at: Date | null;
+}
+
+interface DueBatchRow {
+  withdrawal_address: string | null;
+  execution: ExecutionSettings | null;
+  entry_ids: string[];
+  amount_aud: string;
+  oldest_queued_at: Date;
+  window_ends_at: Date;
+  flush_at_aud: string | null;
+  rule_version_ids: Array<string[] | null>;
+}
+
+interface ClaimedEntryRow {
+  id: string;
+  transaction_id: string;
+  remaining_aud: string;
+  queued_at: Date;
+}
+
+const MAX_WINDOW_MINUTES = 24 * 60;
+
+/**
+ * Parse settings.batching; returns null when batching is not configured
+ */
+export function parseBatchingSettings(raw: unknown): BatchingSettings | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const settings = raw as Record<string, unknown>;
+  const windowMinutes = Math.floor(Number(settings.windowMinutes));
+
+  if (!(windowMinutes > 0)) {
+    return null;
+  }
+
+  return {
+    windowMinutes: Math.min(MAX_WINDOW_MINUTES, windowMinutes),
+    flushAtAUD: Number(settings.flushAtAUD) > 0 ? Number(settings.flushAtAUD) : undefined
+  };
+}
+
+/**
+ * Split a batch fill across its entries in proportion to the AUD each queued. Rounding is
+ * absorbed by the last entry so the allocations add up to the fill exactly.
+ */
+export function allocateProRata(entries: ClaimedBatchEntry[], fill: BatchFill): BatchAllocation[] {
+  const totalAUD = entries.reduce((sum, entry) => sum + entry.amountAUD, 0);
+  const allocations: BatchAllocation[] = [];
+  let allocatedAUD = 0;
+  let allocatedBTC = 0;
+  let allocatedFees = 0;
+
+  entries.forEach((entry, index) => {
+    if (index === entries.length - 1) {
+      allocations.push({
+        entryId: entry.id,
+        transactionId: entry.transactionId,
+        amountAUD: Math.round((fill.amountAUD - allocatedAUD) * 100) / 100,
+        bitcoinAmount: Math.round((fill.bitcoinAmount - allocatedBTC) * 1e8) / 1e8,
+        feesAUD: Math.round((fill.feesAUD - allocatedFees) * 100) / 100
+      });
+      return;
+    }
+
+    const share = totalAUD > 0 ? entry.amountAUD / totalAUD : 0;
+    const allocation: BatchAllocation = {
+      entryId: entry.id,
+      transactionId: entry.transactionId,
+      amountAUD: Math.round(fill.amountAUD * share * 100) / 100,
+      bitcoinAmount: Math.floor(fill.bitcoinAmount * share * 1e8) / 1e8,
+      feesAUD: Math.round(fill.feesAUD * share * 100) / 100
+    };
+
+    allocatedAUD += allocation.amountAUD;
+    allocatedBTC += allocation.bitcoinAmount;
+    allocatedFees += allocation.feesAUD;
+    allocations.push(allocation);
+  });
+
+  return allocations;
+}
+
+export class ConversionBatchLedger {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Queue a transaction's conversion. Idempotent per transaction.
+   */
+  async enqueue(entry: NewBatchEntry): Promise<BatchEntry> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `INSERT INTO conversion_batch_entries (
+        transaction_id, amount_aud, remaining_aud, window_minutes, flush_at_aud,
+        withdrawal_address, execution, rule_version_ids, evaluation_trace
+      ) VALUES ($1, $2, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (transaction_id) DO NOTHING`,
+      [
+        entry.transactionId,
+        entry.amountAUD,
+        entry.settings.windowMinutes,
+        entry.settings.flushAtAUD ?? null,
+        entry.withdrawalAddress || null,
+        entry.execution ? JSON.stringify(entry.execution) : null,
+        entry.ruleVersionIds || null,
+        entry.evaluationTrace ? JSON.stringify(entry.evaluationTrace) : null
+      ]
+    );
+
+    return (await this.getForTransaction(entry.transactionId))!;
+  }
+
+  async getForTransaction(transactionId: string): Promise<BatchEntry | null> {
+    const rows: BatchEntryRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM conversion_batch_entries WHERE transaction_id = $1`,
+      [transactionId]
+    );
+
+    return rows.length > 0 ? toBatchEntry(rows[0]) : null;
+  }
+
+  async listPending(): Promise<BatchEntry[]> {
+    const rows: BatchEntryRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM conversion_batch_entries WHERE status IN ('pending', 'processing') ORDER BY queued_at ASC`,
+      []
+    );
+
+    return rows.map(toBatchEntry);
+  }
+
+  /**
+   * Pending batches whose window has elapsed or that have reached their flush amount
+   */
+  async getDueBatches(now: Date = new Date()): Promise<DueBatch[]> {
+    const rows: DueBatchRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT withdrawal_address, execution,
+              ARRAY_AGG(id ORDER BY queued_at) AS entry_ids,
+              SUM(remaining_aud) AS amount_aud,
+              MIN(queued_at) AS oldest_queued_at,
+              MIN(queued_at) + make_interval(mins => MIN(window_minutes)) AS window_ends_at,
+              MIN(flush_at_aud) AS flush_at_aud,
+              JSONB_AGG(rule_version_ids) AS rule_version_ids
+       FROM conversion_batch_entries
+       WHERE status = 'pending' AND remaining_aud > 0
+       GROUP BY withdrawal_address, execution
+       HAVING MIN(queued_at) + make_interval(mins => MIN(window_minutes)) <= $1
+           OR SUM(remaining_aud) >= MIN(flush_at_aud)`,
+      [now]
+    );
+
+    return rows.map(row => {
+      const amountAUD = parseFloat(row.amount_aud);
+      const windowElapsed = new Date(row.window_ends_at) <= now;
+      const ruleVersionIds = new Set<string>();
+      (row.rule_version_ids || []).forEach(ids => (ids || []).forEach(id => ruleVersionIds.add(id)));
+
+      return {
+        entryIds: row.entry_ids,
+        amountAUD,
+        oldestQueuedAt: new Date(row.oldest_queued_at).toISOString(),
+        withdrawalAddress: row.withdrawal_address || undefined,
+        execution: row.execution || undefined,
+        ruleVersionIds: Array.from(ruleVersionIds),
+        reason: windowElapsed
+          ? `Batch window elapsed with $${amountAUD} queued`
+          : `Batch reached $${amountAUD} (flush at $${row.flush_at_aud})`
+      };
+    });
+  }
+
+  /**
+   * Claim pending entries for a flush so a concurrent run cannot convert them twice. The claim
+   * reference is written onto the entries and doubles as the purchase's schedule reference.
+   */
+  async claim(entryIds: string[], claimReference: string): Promise<ClaimedBatchEntry[]> {
+    const rows: ClaimedEntryRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE conversion_batch_entries SET status = 'processing', claim_reference = $2, updated_at = NOW()
+       WHERE id = ANY($1) AND status = 'pending' AND remaining_aud > 0
+       RETURNING id, transaction_id, remaining_aud, queued_at`,
+      [entryIds, claimReference]
+    );
+
+    return toClaimedEntries(rows);
+  }
+
+  /**
+   * Entries still held by a claim
+   */
+  async getClaimed(claimReference: string): Promise<ClaimedBatchEntry[]> {
+    const rows: ClaimedEntryRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id, transaction_id, remaining_aud, queued_at FROM conversion_batch_entries
+       WHERE claim_reference = $1 AND status = 'processing'`,
+      [claimReference]
+    );
+
+    return toClaimedEntries(rows);
+  }
+
+  /**
+   * Claims left 'processing' for longer than staleMinutes by a flush that stopped part-way
+   */
+  async getStaleClaimReferences(staleMinutes: number): Promise<string[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT DISTINCT claim_reference FROM conversion_batch_entries
+       WHERE status = 'processing' AND claim_reference IS NOT NULL
+       AND updated_at < NOW() - make_interval(mins => $1)`,
+      [staleMinutes]
+    );
+
+    return rows.map((row: { claim_reference: string }) => row.claim_reference);
+  }
+
+  async release(claimReference: string): Promise<void> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE conversion_batch_entries SET status = 'pending', claim_reference = NULL, updated_at = NOW()
+       WHERE claim_reference = $1 AND status = 'processing'`,
+      [claimReference]
+    );
+  }
+
+  /**
+   * Record each transaction's share of the claim's batch purchase. Entries the purchase did not
+   * fully cover (tier limits) go back to pending with what is left. The claimed entries are
+   * locked first, so a claim that has already been settled is left alone.
+   */
+  async recordAllocations(claimReference: string, bitcoinPurchaseId: string, fill: BatchFill): Promise<BatchAllocation[]> {
+    return this.withTransaction(async client => {
+      const claimed = await client.query(
+        `SELECT id, transaction_id, remaining_aud, queued_at FROM conversion_batch_entries
+         WHERE claim_reference = $1 AND status = 'processing'
+         FOR UPDATE`,
+        [claimReference]
+      );
+
+      const entries = toClaimedEntries(claimed.rows);
+      const allocations = entries.length > 0 ? allocateProRata(entries, fill) : [];
+
+      for (const allocation of allocations) {
+        const entry = entries.find(e => e.id === allocation.entryId)!;
+        const remainingAUD = Math.max(0, Math.round((entry.amountAUD - allocation.amountAUD) * 100) / 100);
+
+        await client.query(
+          `INSERT INTO conversion_batch_allocations (
+            batch_entry_id, transaction_id, bitcoin_purchase_id, amount_aud, bitcoin_amount, fees_aud
+          ) VALUES ($1, $2, $3, $4, $5, $6)`,
+          [allocation.entryId, allocation.transactionId, bitcoinPurchaseId, allocation.amountAUD, allocation.bitcoinAmount, allocation.feesAUD]
+        );
+
+        await client.query(
+          `UPDATE conversion_batch_entries
+           SET remaining_aud = $2,
+               status = CASE WHEN $2 > 0 THEN 'pending' ELSE 'converted' END,
+               converted_at = CASE WHEN $2 > 0 THEN converted_at ELSE NOW() END,
+               claim_reference = CASE WHEN $2 > 0 THEN NULL ELSE claim_reference END,
+               updated_at = NOW()
+           WHERE id = $1`,
+          [allocation.entryId, remainingAUD]
+        );
+      }
+
+      return allocations;
+    });
+  }
+
+  /**
+   * Take a refunded or charged-back share of the payment out of its pending batch entry.
+   * Returns the AUD removed before it was converted.
+   */
+  async reduceForReversal(client: Client, transactionId: string, reversedShare: number): Promise<{ removedAUD: number; entryAmountAUD: number } | null> {
+    const rows = await client.query(
+      `SELECT id, amount_aud, remaining_aud, status FROM conversion_batch_entries WHERE transaction_id = $1 FOR UPDATE`,
+      [transactionId]
+    );
+
+    const entry = rows.rows[0];
+    if (!entry) {
+      return null;
+    }
+
+    const entryAmountAUD = parseFloat(entry.amount_aud);
+
+    if (entry.status !== 'pending') {
+      return { removedAUD: 0, entryAmountAUD };
+    }
+
+    const removedAUD = Math.round(Math.min(parseFloat(entry.remaining_aud), entryAmountAUD * reversedShare) * 100) / 100;
+    const remainingAUD = Math.max(0, Math.round((parseFloat(entry.remaining_aud) - removedAUD) * 100) / 100);
+
+    await client.query(
+      `UPDATE conversion_batch_entries
+       SET remaining_aud = $2, status = CASE WHEN $2 > 0 THEN status ELSE 'cancelled' END, updated_at = NOW()
+       WHERE id = $1`,
+      [entry.id, remainingAUD]
+    );
+
+    return { removedAUD, entryAmountAUD };
+  }
+
+  private async withTransaction<T>(work: (client: Client) => Promise<T>): Promise<T> {
+    const client = await tenantSchemaManager.getTenantClient(this.tenantId);
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+}
+
+function toClaimedEntries(rows: ClaimedEntryRow[]): ClaimedBatchEntry[] {
+  return rows
+    .sort((a, b) => new Date(a.queued_at).getTime() - new Date(b.queued_at).getTime())
+    .map(row => ({
+      id: row.id,
+      transactionId: row.transaction_id,
+      amountAUD: parseFloat(row.remaining_aud)
+    }));
+}
+
+function toBatchEntry(row: BatchEntryRow): BatchEntry {
+  return {
+    id: row.id,
+    transactionId: row.transaction_id,
+    amountAUD: parseFloat(row.amount_aud),
+    remainingAUD: parseFloat(row.remaining_aud),
+    status: row.status,
+    queuedAt: new Date(row.queued_at).toISOString(),
+    convertedAt: row.converted_at ? new Date(row.converted_at).toISOString() : null
+  };
+}
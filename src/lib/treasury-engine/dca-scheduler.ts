@@ -0,0 +1,357 @@
+// LIQUID ABT - Scheduled DCA Execution Engine
+// Runs fixed_dca treasury rules on their daily/weekly/monthly schedule
+
+import { addDays, addMonths, addWeeks, format, startOfDay, startOfISOWeek, startOfMonth } from 'date-fns';
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { TreasuryProcessor } from './processor';
+import { ExecutionSettings, parseExecutionSettings } from './execution-algorithms';
+import { TenantJob } from './scheduled-job';
+
+export type DCAFrequency = 'daily' | 'weekly' | 'monthly';
+
+// What to do with periods that passed without a run (scheduler downtime, new rule, etc.)
+export type MissedRunPolicy = 'skip' | 'catch_up';
+
+export interface DCASchedule {
+  ruleId: string;
+  versionId?: string;
+  name: string;
+  fixedAmount: number;
+  frequency: DCAFrequency;
+  missedRunPolicy: MissedRunPolicy;
+  maxCatchUpPeriods: number;
+  minimumPurchase?: number;
+  maximumPurchase?: number;
+  withdrawalAddress?: string;
+  execution?: ExecutionSettings;
+  createdAt: Date;
+}
+
+export interface DCAExecutionSummary {
+  ruleId: string;
+  periodKey: string;
+  status: 'completed' | 'skipped' | 'failed';
+  amountAUD: number;
+  bitcoinPurchaseId?: string;
+  reason: string;
+}
+
+const DEFAULT_MAX_CATCH_UP_PERIODS = 3;
+const STALE_CLAIM_MINUTES = 15; // A period still 'pending' after this long belongs to a run that died
+
+export class DCAScheduler {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Execute every DCA period that is due for this tenant.
+   * Safe to call repeatedly - each rule runs at most once per period.
+   */
+  async runDueSchedules(now: Date = new Date()): Promise<DCAExecutionSummary[]> {
+    const schedules = await this.getActiveSchedules();
+    const summaries: DCAExecutionSummary[] = [];
+
+    for (const schedule of schedules) {
+      const currentPeriod = getPeriodStart(now, schedule.frequency);
+      const [duePeriods, retryPeriods] = await Promise.all([
+        this.getDuePeriods(schedule, now),
+        this.getRetryablePeriods(schedule, currentPeriod)
+      ]);
+
+      if (duePeriods.length === 0 && retryPeriods.length === 0) {
+        continue;
+      }
+
+      // Due periods are the current one, if not yet recorded, and the missed ones before it
+      const newPeriods = duePeriods.filter(period => period.getTime() === currentPeriod.getTime());
+      const missedPeriods = duePeriods.filter(period => period.getTime() < currentPeriod.getTime());
+      const catchUpPeriods = schedule.missedRunPolicy === 'catch_up'
+        ? missedPeriods.slice(-schedule.maxCatchUpPeriods)
+        : [];
+
+      for (const period of missedPeriods) {
+        if (catchUpPeriods.includes(period)) {
+          continue;
+        }
+        const skipped = await this.recordSkippedPeriod(
+          schedule,
+          period,
+          schedule.missedRunPolicy === 'catch_up'
+            ? `Missed run older than ${schedule.maxCatchUpPeriods} catch-up periods`
+            : 'Missed run skipped per rule policy'
+        );
+        if (skipped) {
+          summaries.push(skipped);
+        }
+      }
+
+      // Retried periods all precede the new ones, so periods run in order
+      for (const period of [...retryPeriods, ...catchUpPeriods, ...newPeriods]) {
+        const summary = await this.executePeriod(schedule, period);
+        if (summary) {
+          summaries.push(summary);
+        }
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Load active fixed_dca rules with a valid schedule
+   */
+  private async getActiveSchedules(): Promise<DCASchedule[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM treasury_rules
+       WHERE is_active = true
+       AND rule_type = 'fixed_dca'
+       AND frequency IS NOT NULL
+       AND fixed_amount > 0`,
+      []
+    );
+
+    const schedules: DCASchedule[] = [];
+
+    for (const rule of rows) {
+      const settings = rule.settings || {};
+
+      schedules.push({
+        ruleId: rule.id,
+        versionId: rule.current_version_id || undefined,
+        name: rule.name,
+        fixedAmount: parseFloat(rule.fixed_amount),
+        frequency: rule.frequency as DCAFrequency,
+        missedRunPolicy: settings.missedRunPolicy === 'catch_up' ? 'catch_up' : 'skip',
+        maxCatchUpPeriods: settings.maxCatchUpPeriods ?? DEFAULT_MAX_CATCH_UP_PERIODS,
+        minimumPurchase: rule.minimum_purchase ? parseFloat(rule.minimum_purchase) : undefined,
+        maximumPurchase: rule.maximum_purchase ? parseFloat(rule.maximum_purchase) : undefined,
+        withdrawalAddress: rule.is_auto_withdrawal ? rule.withdrawal_address : undefined,
+        execution: parseExecutionSettings(settings.execution) || undefined,
+        createdAt: new Date(rule.created_at)
+      });
+    }
+
+    return schedules;
+  }
+
+  /**
+   * Periods from the one after the last recorded execution up to and including the current one.
+   * Periods already recorded are retried by getRetryablePeriods.
+   */
+  private async getDuePeriods(schedule: DCASchedule, now: Date): Promise<Date[]> {
+    const lastExecution = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT scheduled_for, status FROM dca_executions
+       WHERE treasury_rule_id = $1
+       ORDER BY scheduled_for DESC LIMIT 1`,
+      [schedule.ruleId]
+    );
+
+    const currentPeriod = getPeriodStart(now, schedule.frequency);
+    let period: Date;
+
+    if (lastExecution.length === 0) {
+      period = getPeriodStart(schedule.createdAt, schedule.frequency);
+    } else {
+      period = getNextPeriodStart(getPeriodStart(new Date(lastExecution[0].scheduled_for), schedule.frequency), schedule.frequency);
+    }
+
+    const periods: Date[] = [];
+    while (period.getTime() <= currentPeriod.getTime()) {
+      periods.push(period);
+      period = getNextPeriodStart(period, schedule.frequency);
+    }
+
+    return periods;
+  }
+
+  /**
+   * Recorded periods that should run again: failed periods and periods left 'pending' by a run
+   * that died. Only the current period is retried, plus the catch-up window under 'catch_up'.
+   */
+  private async getRetryablePeriods(schedule: DCASchedule, currentPeriod: Date): Promise<Date[]> {
+    const earliest = schedule.missedRunPolicy === 'catch_up'
+      ? subtractPeriods(currentPeriod, schedule.frequency, schedule.maxCatchUpPeriods)
+      : currentPeriod;
+
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT scheduled_for FROM dca_executions
+       WHERE treasury_rule_id = $1 AND scheduled_for >= $2 AND scheduled_for <= $3
+         AND (status = 'failed' OR (status = 'pending' AND updated_at < NOW() - make_interval(mins => $4)))
+       ORDER BY scheduled_for ASC`,
+      [schedule.ruleId, earliest, currentPeriod, STALE_CLAIM_MINUTES]
+    );
+
+    return rows.map((row: { scheduled_for: Date }) => getPeriodStart(new Date(row.scheduled_for), schedule.frequency));
+  }
+
+  /**
+   * Claim a period and buy for it. Returns null if another worker already owns the period.
+   */
+  private async executePeriod(schedule: DCASchedule, period: Date): Promise<DCAExecutionSummary | null> {
+    const periodKey = getPeriodKey(period, schedule.frequency);
+
+    // Claim the period; failed and stale pending periods can be reclaimed for retry. A stale
+    // claim's purchase may have been placed: executeScheduledPurchase returns it by reference.
+    const claimed = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `INSERT INTO dca_executions (treasury_rule_id, period_key, scheduled_for, status)
+       VALUES ($1, $2, $3, 'pending')
+       ON CONFLICT (treasury_rule_id, period_key)
+       DO UPDATE SET status = 'pending', reason = NULL
+       WHERE dca_executions.status = 'failed'
+          OR (dca_executions.status = 'pending' AND dca_executions.updated_at < NOW() - make_interval(mins => $4))
+       RETURNING id`,
+      [schedule.ruleId, periodKey, period, STALE_CLAIM_MINUTES]
+    );
+
+    if (claimed.length === 0) {
+      return null;
+    }
+
+    const executionId = claimed[0].id;
+
+    try {
+      const processor = new TreasuryProcessor(this.tenantId);
+      const result = await processor.executeScheduledPurchase({
+        scheduleReference: `dca:${schedule.ruleId}:${periodKey}`,
+        amountAUD: schedule.fixedAmount,
+        minimumPurchase: schedule.minimumPurchase,
+        maximumPurchase: schedule.maximumPurchase,
+        withdrawalAddress: schedule.withdrawalAddress,
+        ruleVersionId: schedule.versionId,
+        execution: schedule.execution
+      });
+
+      const status = result.executed ? 'completed' : 'skipped';
+
+      await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `UPDATE dca_executions
+         SET status = $2, amount_aud = $3, bitcoin_purchase_id = $4, reason = $5, executed_at = NOW()
+         WHERE id = $1`,
+        [executionId, status, result.amountAUD, result.bitcoinPurchaseId || null, result.reason]
+      );
+
+      console.log(`DCA rule ${schedule.ruleId} period ${periodKey} ${status}: ${result.reason}`);
+
+      return {
+        ruleId: schedule.ruleId,
+        periodKey,
+        status,
+        amountAUD: result.amountAUD,
+        bitcoinPurchaseId: result.bitcoinPurchaseId,
+        reason: result.reason
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`DCA rule ${schedule.ruleId} period ${periodKey} failed:`, error);
+
+      await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `UPDATE dca_executions SET status = 'failed', reason = $2, executed_at = NOW() WHERE id = $1`,
+        [executionId, message]
+      );
+
+      return {
+        ruleId: schedule.ruleId,
+        periodKey,
+        status: 'failed',
+        amountAUD: 0,
+        reason: message
+      };
+    }
+  }
+
+  /**
+   * Record a missed period as skipped so it is never bought later
+   */
+  private async recordSkippedPeriod(
+    schedule: DCASchedule,
+    period: Date,
+    reason: string
+  ): Promise<DCAExecutionSummary | null> {
+    const periodKey = getPeriodKey(period, schedule.frequency);
+
+    const inserted = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `INSERT INTO dca_executions (treasury_rule_id, period_key, scheduled_for, status, amount_aud, reason)
+       VALUES ($1, $2, $3, 'skipped', 0, $4)
+       ON CONFLICT (treasury_rule_id, period_key) DO NOTHING
+       RETURNING id`,
+      [schedule.ruleId, periodKey, period, reason]
+    );
+
+    if (inserted.length === 0) {
+      return null;
+    }
+
+    return { ruleId: schedule.ruleId, periodKey, status: 'skipped', amountAUD: 0, reason };
+  }
+}
+
+// Period helpers (server time; periods start at midnight, ISO weeks start Monday)
+
+export function getPeriodStart(date: Date, frequency: DCAFrequency): Date {
+  switch (frequency) {
+    case 'daily':
+      return startOfDay(date);
+    case 'weekly':
+      return startOfISOWeek(date);
+    case 'monthly':
+      return startOfMonth(date);
+  }
+}
+
+export function getNextPeriodStart(periodStart: Date, frequency: DCAFrequency): Date {
+  switch (frequency) {
+    case 'daily':
+      return addDays(periodStart, 1);
+    case 'weekly':
+      return addWeeks(periodStart, 1);
+    case 'monthly':
+      return addMonths(periodStart, 1);
+  }
+}
+
+export function subtractPeriods(periodStart: Date, frequency: DCAFrequency, count: number): Date {
+  switch (frequency) {
+    case 'daily':
+      return addDays(periodStart, -count);
+    case 'weekly':
+      return addWeeks(periodStart, -count);
+    case 'monthly':
+      return addMonths(periodStart, -count);
+  }
+}
+
+export function getPeriodKey(periodStart: Date, frequency: DCAFrequency): string {
+  switch (frequency) {
+    case 'daily':
+      return format(periodStart, 'yyyy-MM-dd');
+    case 'weekly':
+      return format(periodStart, "RRRR-'W'II");
+    case 'monthly':
+      return format(periodStart, 'yyyy-MM');
+  }
+}
+
+// Process-wide scheduler
+
+/**
+ * DCA cron job. Ticks more often than the shortest period so downtime is
+ * caught up quickly; per-period idempotency prevents double buys.
+ */
+export const dcaSchedulerJob = new TenantJob({
+  name: 'DCA scheduler',
+  cronEnvVar: 'DCA_SCHEDULER_CRON',
+  defaultCron: '*/15 * * * *',
+  runForTenant: async tenantId => {
+    await new DCAScheduler(tenantId).runDueSchedules();
+  }
+});
@@ -0,0 +1,448 @@
+// LIQUID ABT - Bitcoin Disposals
+// Sells Bitcoin for take-profit rules, AUD liquidity draws, rebalancing and refund sell-backs, and records each
+// disposal with its proceeds, fees and the acquisition lots it consumed (FIFO)
+
+import { Client } from 'pg';
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { BusinessLogicError, NotFoundError, ValidationError } from '@/lib/errors/CustomErrors';
+import { ExchangeProvider, OrderResult } from '@/lib/integrations/exchanges/interface';
+import { ApprovalRequest, ApprovalWorkflow } from './approvals';
+
+export type DisposalTrigger = 'take_profit' | 'liquidity' | 'rebalance' | 'refund';
+
+/**
+ * A completed purchase still held on the exchange, with the BTC not yet matched to a disposal
+ */
+export interface AcquisitionLot {
+  bitcoinPurchaseId: string;
+  acquiredAt: string;
+  remainingBTC: number;
+  costPerBTC: number; // Purchase amount plus fees, per BTC
+}
+
+export interface CostBasisSummary {
+  bitcoinAmount: number;
+  costBasisAUD: number;
+  averageCostAUD: number | null; // null when nothing is held
+}
+
+export interface LotMatch {
+  bitcoinPurchaseId: string;
+  bitcoinAmount: number;
+  costBasisAUD: number;
+  acquiredAt: string;
+}
+
+export interface BitcoinDisposal {
+  id: string;
+  trigger: DisposalTrigger;
+  treasuryRuleId: string | null;
+  approvalRequestId: string | null;
+  bitcoinAmount: number;
+  proceedsAUD: number;
+  pricePerBTC: number;
+  feesAUD: number;
+  costBasisAUD: number;
+  realizedGainAUD: number;
+  unmatchedBitcoin: number;
+  exchangeOrderId: string;
+  exchangeProvider: string;
+  lots: LotMatch[];
+  createdAt: string;
+}
+
+export interface SaleRequest {
+  trigger: DisposalTrigger;
+  bitcoinAmount: number;
+  treasuryRuleId?: string;
+  approvalRequestId?: string;
+  userId?: string; // Who approved or requested the sale, for the audit trail
+}
+
+export interface LiquidityDrawRequest {
+  amountAUD: number; // Net AUD to raise after trading fees
+  reason: string;
+  requestedBy: string;
+}
+
+export interface SaleEstimate {
+  bitcoinAmount: number;
+  pricePerBTC: number; // Best bid used for the estimate
+  feePercent: number;
+}
+
+// bitcoin_disposals row as returned by pg (DECIMAL columns arrive as strings)
+interface DisposalRow {
+  id: string;
+  trigger: DisposalTrigger;
+  treasury_rule_id: string | null;
+  approval_request_id: string | null;
+  bitcoin_amount: string;
+  proceeds_aud: string;
+  price_per_btc: string;
+  fees_aud: string;
+  cost_basis_aud: string;
+  realized_gain_aud: string;
+  unmatched_bitcoin: string;
+  exchange_order_id: string;
+  exchange_provider: string;
+  created_at: Date;
+}
+
+interface DisposalLotRow {
+  bitcoin_disposal_id: string;
+  bitcoin_purchase_id: string;
+  bitcoin_amount: string;
+  cost_basis_aud: string;
+  acquired_at: Date;
+}
+
+interface OpenLotRow {
+  id: string;
+  created_at: Date;
+  amount_aud: string;
+  fees_aud: string;
+  bitcoin_amount: string;
+  remaining_btc: string;
+}
+
+// Completed purchases that have not been withdrawn to self-custody, with their unmatched BTC
+const OPEN_LOTS_SQL = `
+  SELECT bp.id, bp.created_at, bp.amount_aud, bp.fees_aud, bp.bitcoin_amount,
+         bp.bitcoin_amount - COALESCE(SUM(dl.bitcoin_amount), 0) AS remaining_btc
+  FROM bitcoin_purchases bp
+  LEFT JOIN bitcoin_disposal_lots dl ON dl.bitcoin_purchase_id = bp.id
+  WHERE bp.status = 'filled'
+  AND bp.bitcoin_amount > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM bitcoin_withdrawals w
+    WHERE w.bitcoin_purchase_id = bp.id AND LOWER(w.status) NOT IN ('failed', 'cancelled', 'rejected')
+  )
+  GROUP BY bp.id
+  HAVING bp.bitcoin_amount - COALESCE(SUM(dl.bitcoin_amount), 0) > 0
+  ORDER BY bp.created_at ASC, bp.id ASC`;
+
+// Extra BTC sold for liquidity draws so price movement before execution still covers the amount
+const LIQUIDITY_PRICE_BUFFER_PERCENT = 0.5;
+
+/**
+ * Match a sale against acquisition lots, oldest first
+ */
+export function matchLotsFIFO(lots: AcquisitionLot[], bitcoinAmount: number): { matches: LotMatch[]; unmatchedBitcoin: number } {
+  const matches: LotMatch[] = [];
+  let remaining = bitcoinAmount;
+
+  for (const lot of lots) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const matched = Math.min(remaining, lot.remainingBTC);
+    matches.push({
+      bitcoinPurchaseId: lot.bitcoinPurchaseId,
+      bitcoinAmount: matched,
+      costBasisAUD: Math.round(matched * lot.costPerBTC * 100) / 100,
+      acquiredAt: lot.acquiredAt
+    });
+    remaining = Math.round((remaining - matched) * 1e8) / 1e8;
+  }
+
+  return { matches, unmatchedBitcoin: Math.max(0, remaining) };
+}
+
+export class TreasuryDisposals {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  async getOpenLots(): Promise<AcquisitionLot[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(this.tenantId, OPEN_LOTS_SQL, []);
+    return (rows as OpenLotRow[]).map(toAcquisitionLot);
+  }
+
+  async getCostBasis(): Promise<CostBasisSummary> {
+    const lots = await this.getOpenLots();
+    const bitcoinAmount = lots.reduce((sum, lot) => sum + lot.remainingBTC, 0);
+    const costBasisAUD = Math.round(lots.reduce((sum, lot) => sum + lot.remainingBTC * lot.costPerBTC, 0) * 100) / 100;
+
+    return {
+      bitcoinAmount,
+      costBasisAUD,
+      averageCostAUD: bitcoinAmount > 0 ? costBasisAUD / bitcoinAmount : null
+    };
+  }
+
+  /**
+   * BTC to sell at the current bid to raise amountAUD after trading fees
+   */
+  async estimateSaleForProceeds(exchangeProvider: ExchangeProvider, amountAUD: number): Promise<SaleEstimate> {
+    const [price, fees] = await Promise.all([
+      exchangeProvider.getCurrentPrice('AUD'),
+      exchangeProvider.getTradingFees()
+    ]);
+
+    const pricePerBTC = price.bid || price.price;
+    const grossAUD = amountAUD / (1 - fees.taker / 100) * (1 + LIQUIDITY_PRICE_BUFFER_PERCENT / 100);
+
+    return {
+      bitcoinAmount: Math.ceil((grossAUD / pricePerBTC) * 1e8) / 1e8,
+      pricePerBTC,
+      feePercent: fees.taker
+    };
+  }
+
+  /**
+   * Ask an OWNER to approve selling enough Bitcoin to raise amountAUD
+   */
+  async requestLiquidityDraw(exchangeProvider: ExchangeProvider, draw: LiquidityDrawRequest): Promise<ApprovalRequest> {
+    if (!(draw.amountAUD > 0)) {
+      throw new ValidationError('Amount must be greater than zero', 'amountAUD', draw.amountAUD, { tenantId: this.tenantId });
+    }
+
+    if (!draw.reason || !draw.reason.trim()) {
+      throw new ValidationError('A reason is required', 'reason', draw.reason, { tenantId: this.tenantId });
+    }
+
+    const estimate = await this.estimateSaleForProceeds(exchangeProvider, draw.amountAUD);
+    await this.assertSellable(exchangeProvider, estimate.bitcoinAmount);
+
+    return new ApprovalWorkflow(this.tenantId).requestApproval({
+      requestType: 'sale',
+      amountAUD: draw.amountAUD,
+      bitcoinAmount: estimate.bitcoinAmount,
+      details: { trigger: 'liquidity', estimate },
+      reason: `Raise $${draw.amountAUD.toLocaleString()} AUD: ${draw.reason.trim()}`,
+      requestedBy: draw.requestedBy
+    });
+  }
+
+  /**
+   * Sell for an approved sale request. Liquidity draws are re-sized at the current price
+   * so they still raise the requested amount.
+   */
+  async executeApprovedSale(approval: ApprovalRequest, exchangeProvider: ExchangeProvider): Promise<BitcoinDisposal> {
+    const trigger = approval.details.trigger as DisposalTrigger | undefined;
+
+    if (trigger !== 'take_profit' && trigger !== 'liquidity' && trigger !== 'rebalance' && trigger !== 'refund') {
+      throw new Error('Sale approval is missing its trigger');
+    }
+
+    const bitcoinAmount = trigger === 'liquidity' && approval.amountAUD
+      ? (await this.estimateSaleForProceeds(exchangeProvider, approval.amountAUD)).bitcoinAmount
+      : approval.bitcoinAmount;
+
+    if (!bitcoinAmount) {
+      throw new Error('Sale approval is missing its amount');
+    }
+
+    return this.sell(exchangeProvider, {
+      trigger,
+      bitcoinAmount,
+      treasuryRuleId: approval.details.treasuryRuleId as string | undefined,
+      approvalRequestId: approval.id,
+      userId: approval.decisions.find(decision => decision.decision === 'approve')?.userId
+    });
+  }
+
+  /**
+   * Sell at market and record the disposal against FIFO acquisition lots
+   */
+  async sell(exchangeProvider: ExchangeProvider, sale: SaleRequest): Promise<BitcoinDisposal> {
+    await this.assertSellable(exchangeProvider, sale.bitcoinAmount);
+
+    const order = await exchangeProvider.createMarketOrder({
+      side: 'sell',
+      symbol: 'BTC',
+      amount: sale.bitcoinAmount,
+      currency: 'AUD'
+    });
+
+    const disposal = await this.recordDisposal(sale, order, exchangeProvider.type);
+
+    console.log(`Sold ${disposal.bitcoinAmount} BTC for $${disposal.proceedsAUD} (${sale.trigger}), realised gain $${disposal.realizedGainAUD}`);
+
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      userId: sale.userId,
+      eventType: 'create',
+      resourceType: 'bitcoin_disposal',
+      resourceId: disposal.id,
+      action: `Sold ${disposal.bitcoinAmount} BTC for $${disposal.proceedsAUD} (${sale.trigger})`,
+      newValues: disposal,
+      complianceRelevant: true
+    });
+
+    return disposal;
+  }
+
+  async list(limit = 100): Promise<BitcoinDisposal[]> {
+    const rows: DisposalRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM bitcoin_disposals ORDER BY created_at DESC LIMIT $1`,
+      [limit]
+    );
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const lotRows: DisposalLotRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM bitcoin_disposal_lots WHERE bitcoin_disposal_id = ANY($1) ORDER BY acquired_at ASC`,
+      [rows.map(row => row.id)]
+    );
+
+    return rows.map(row => toDisposal(row, lotRows.filter(lot => lot.bitcoin_disposal_id === row.id)));
+  }
+
+  async get(disposalId: string): Promise<BitcoinDisposal> {
+    const rows: DisposalRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM bitcoin_disposals WHERE id = $1`,
+      [disposalId]
+    );
+
+    if (rows.length === 0) {
+      throw new NotFoundError('Bitcoin disposal', disposalId, { tenantId: this.tenantId });
+    }
+
+    const lotRows: DisposalLotRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM bitcoin_disposal_lots WHERE bitcoin_disposal_id = $1 ORDER BY acquired_at ASC`,
+      [disposalId]
+    );
+
+    return toDisposal(rows[0], lotRows);
+  }
+
+  private async assertSellable(exchangeProvider: ExchangeProvider, bitcoinAmount: number): Promise<void> {
+    const balance = await exchangeProvider.getBalance();
+    const available = balance.btc?.available || 0;
+
+    if (bitcoinAmount > available) {
+      throw new BusinessLogicError(
+        `Sale of ${bitcoinAmount} BTC exceeds the ${available} BTC available on the exchange`,
+        { tenantId: this.tenantId }
+      );
+    }
+  }
+
+  /**
+   * Insert the disposal and its lot matches. Lots are matched under a per-tenant lock so
+   * concurrent sales cannot consume the same BTC.
+   */
+  private async recordDisposal(sale: SaleRequest, order: OrderResult, exchangeProvider: string): Promise<BitcoinDisposal> {
+    const bitcoinAmount = order.filledAmount || order.amount;
+    const proceedsAUD = Math.round((order.totalValue || bitcoinAmount * (order.averagePrice || 0)) * 100) / 100;
+    const feesAUD = (order.fees || []).filter(fee => fee.currency === 'AUD').reduce((sum, fee) => sum + fee.amount, 0);
+
+    return this.withTransaction(async client => {
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`bitcoin_disposals:${this.tenantId}`]);
+
+      const lotRows = await client.query(OPEN_LOTS_SQL);
+      const { matches, unmatchedBitcoin } = matchLotsFIFO((lotRows.rows as OpenLotRow[]).map(toAcquisitionLot), bitcoinAmount);
+      const costBasisAUD = Math.round(matches.reduce((sum, match) => sum + match.costBasisAUD, 0) * 100) / 100;
+
+      const inserted = await client.query(
+        `INSERT INTO bitcoin_disposals (
+          trigger, treasury_rule_id, approval_request_id, bitcoin_amount, proceeds_aud, price_per_btc,
+          fees_aud, cost_basis_aud, realized_gain_aud, unmatched_bitcoin, exchange_order_id,
+          exchange_provider, raw_exchange_data
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING *`,
+        [
+          sale.trigger,
+          sale.treasuryRuleId || null,
+          sale.approvalRequestId || null,
+          bitcoinAmount,
+          proceedsAUD,
+          bitcoinAmount > 0 ? Math.round((proceedsAUD / bitcoinAmount) * 100) / 100 : 0,
+          feesAUD,
+          costBasisAUD,
+          Math.round((proceedsAUD - feesAUD - costBasisAUD) * 100) / 100,
+          unmatchedBitcoin,
+          order.orderId,
+          exchangeProvider,
+          JSON.stringify(order.rawData ?? order)
+        ]
+      );
+
+      const disposal: DisposalRow = inserted.rows[0];
+
+      for (const match of matches) {
+        await client.query(
+          `INSERT INTO bitcoin_disposal_lots (bitcoin_disposal_id, bitcoin_purchase_id, bitcoin_amount, cost_basis_aud, acquired_at)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [disposal.id, match.bitcoinPurchaseId, match.bitcoinAmount, match.costBasisAUD, match.acquiredAt]
+        );
+      }
+
+      if (unmatchedBitcoin > 0) {
+        console.warn(`Disposal ${disposal.id}: ${unmatchedBitcoin} BTC sold without a recorded acquisition lot`);
+      }
+
+      return toDisposal(disposal, matches.map(match => ({
+        bitcoin_disposal_id: disposal.id,
+        bitcoin_purchase_id: match.bitcoinPurchaseId,
+        bitcoin_amount: String(match.bitcoinAmount),
+        cost_basis_aud: String(match.costBasisAUD),
+        acquired_at: new Date(match.acquiredAt)
+      })));
+    });
+  }
+
+  private async withTransaction<T>(work: (client: Client) => Promise<T>): Promise<T> {
+    const client = await tenantSchemaManager.getTenantClient(this.tenantId);
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+}
+
+function toAcquisitionLot(row: OpenLotRow): AcquisitionLot {
+  const bitcoinAmount = parseFloat(row.bitcoin_amount);
+
+  return {
+    bitcoinPurchaseId: row.id,
+    acquiredAt: new Date(row.created_at).toISOString(),
+    remainingBTC: parseFloat(row.remaining_btc),
+    costPerBTC: (parseFloat(row.amount_aud) + parseFloat(row.fees_aud || '0')) / bitcoinAmount
+  };
+}
+
+function toDisposal(row: DisposalRow, lots: DisposalLotRow[]): BitcoinDisposal {
+  return {
+    id: row.id,
+    trigger: row.trigger,
+    treasuryRuleId: row.treasury_rule_id,
+    approvalRequestId: row.approval_request_id,
+    bitcoinAmount: parseFloat(row.bitcoin_amount),
+    proceedsAUD: parseFloat(row.proceeds_aud),
+    pricePerBTC: parseFloat(row.price_per_btc),
+    feesAUD: parseFloat(row.fees_aud),
+    costBasisAUD: parseFloat(row.cost_basis_aud),
+    realizedGainAUD: parseFloat(row.realized_gain_aud),
+    unmatchedBitcoin: parseFloat(row.unmatched_bitcoin),
+    exchangeOrderId: row.exchange_order_id,
+    exchangeProvider: row.exchange_provider,
+    lots: lots.map(lot => ({
+      bitcoinPurchaseId: lot.bitcoin_purchase_id,
+      bitcoinAmount: parseFloat(lot.bitcoin_amount),
+      costBasisAUD: parseFloat(lot.cost_basis_aud),
+      acquiredAt: new Date(lot.acquired_at).toISOString()
+    })),
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
@@ -0,0 +1,503 @@
+// LIQUID ABT - Order Execution Algorithms
+// Splits large purchases into TWAP or iceberg child orders with a maximum-slippage guard,
+// or rests a limit order below the ask for the limit-order reconciler to manage. Only the
+// first child order is placed inline; the algorithmic order scheduler places the rest.
+
+import { ExchangeProvider, ExchangeProviderType, OrderBook, OrderFee, OrderResult } from '@/lib/integrations/exchanges/interface';
+
+export type ExecutionAlgorithm = 'single' | 'twap' | 'iceberg' | 'limit';
+
+/**
+ * Execution configuration, stored in treasury_rules.settings.execution.
+ * 'twap' spreads the purchase over sliceCount orders intervalSeconds apart;
+ * 'iceberg' sends orders of at most maxSliceAUD back to back;
+ * 'limit' places a GTC order limitOffsetPercent below the ask, which the limit-order
+ * reconciler reprices or cancels after limitTimeoutMinutes.
+ * 'single' sends one order and only exists to carry routing preferences.
+ */
+export interface ExecutionSettings {
+  algorithm: ExecutionAlgorithm;
+  minimumAUD: number;          // Purchases below this are sent as a single order
+  sliceCount: number;          // TWAP child orders
+  intervalSeconds: number;     // Pause between child orders
+  maxSliceAUD?: number;        // Largest child order (always applies to iceberg)
+  maxSlippagePercent: number;  // Against the best ask when the purchase started
+  childOrderType: 'market' | 'limit';
+  limitOffsetPercent: number;  // Below the best ask when the limit order is (re)priced
+  limitTimeoutMinutes: number; // How long each limit order rests before repricing
+  maxReprices: number;         // Reprices before giving up on the limit order
+  fallbackToMarket: boolean;   // Buy the unfilled remainder at market once reprices run out
+  routing: RoutingSettings;
+}
+
+/**
+ * Smart order routing across the tenant's exchange integrations (settings.execution.routing).
+ * Purchases always go to the venue with the best all-in price; splitting is opt-in.
+ */
+export interface RoutingSettings {
+  splitAcrossVenues: boolean; // Split between venues when that delivers more BTC
+  maxVenues: number;          // Most venues a split purchase may use
+  minimumLegAUD: number;      // Smallest amount worth sending to a venue
+}
+
+export interface LimitOrderPlacement {
+  order: ChildOrderFill;
+  askPrice: number;
+  limitPrice: number;
+  expiresAt: Date;
+}
+
+export interface SlippageEstimate {
+  bestAsk: number;
+  averagePrice: number;   // Volume-weighted price to fill the amount from the visible book
+  slippagePercent: number;
+  fillableAUD: number;    // AUD the visible asks can absorb
+}
+
+export interface ChildOrderFill {
+  sequence: number;
+  orderId?: string;
+  orderType: 'market' | 'limit';
+  requestedAUD: number;
+  filledBTC: number;
+  filledAUD: number;
+  averagePrice: number;
+  status: OrderResult['status'];
+  fees: OrderFee[];
+  executedAt: string;
+  venue?: ExchangeProviderType; // Set on purchases split across exchanges
+  note?: string;
+}
+
+/**
+ * A TWAP or iceberg purchase part-way through its child orders
+ */
+export interface ParentOrderProgress {
+  algorithm: ExecutionAlgorithm;
+  referencePrice: number;    // Best ask when execution started
+  requestedAUD: number;
+  remainingSlices: number[]; // Child orders still to place, in AUD
+  childOrders: ChildOrderFill[];
+  stoppedReason?: string;    // Set when the slippage guard stopped execution early
+}
+
+/**
+ * bitcoin_purchases.parent_order: what the algorithmic order scheduler needs to place the
+ * remaining child orders (those already placed are in child_orders)
+ */
+export interface ParentOrderRecord extends Omit<ParentOrderProgress, 'childOrders'> {
+  settings: ExecutionSettings;
+  placingSequence?: number; // Child order being sent; cleared once its fill is recorded
+}
+
+export interface AlgorithmicExecutionResult extends ParentOrderProgress {
+  filledAUD: number;
+  filledBTC: number;
+  averagePrice: number;
+  fees: OrderFee[];
+  status: 'open' | 'filled' | 'partially_filled'; // 'open' while child orders remain
+}
+
+// Pair name accepted by every exchange provider's getOrderBook
+export const ORDER_BOOK_PAIR = 'XBTAUD';
+const DEFAULT_SLICE_COUNT = 5;
+const DEFAULT_INTERVAL_SECONDS = 60;
+const DEFAULT_MAX_SLIPPAGE_PERCENT = 1;
+const MAX_SLICES = 100;
+const DEFAULT_LIMIT_OFFSET_PERCENT = 0.1;
+const DEFAULT_LIMIT_TIMEOUT_MINUTES = 15;
+const DEFAULT_MAX_REPRICES = 2;
+const DEFAULT_MAX_VENUES = 2;
+const DEFAULT_MINIMUM_LEG_AUD = 500;
+
+/**
+ * Parse settings.execution.routing, falling back to unsplit best-venue routing
+ */
+export function parseRoutingSettings(raw: unknown): RoutingSettings {
+  const settings = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+
+  return {
+    splitAcrossVenues: settings.splitAcrossVenues === true,
+    maxVenues: Number(settings.maxVenues) >= 2 ? Math.floor(Number(settings.maxVenues)) : DEFAULT_MAX_VENUES,
+    minimumLegAUD: Number(settings.minimumLegAUD) > 0 ? Number(settings.minimumLegAUD) : DEFAULT_MINIMUM_LEG_AUD
+  };
+}
+
+/**
+ * Parse settings.execution; returns null when no algorithm is configured
+ */
+export function parseExecutionSettings(raw: unknown): ExecutionSettings | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const settings = raw as Record<string, unknown>;
+  const positive = (value: unknown): number | undefined => Number(value) > 0 ? Number(value) : undefined;
+  const algorithm = settings.algorithm;
+
+  if (algorithm !== 'single' && algorithm !== 'twap' && algorithm !== 'iceberg' && algorithm !== 'limit') {
+    return null;
+  }
+
+  return {
+    algorithm,
+    minimumAUD: positive(settings.minimumAUD) || 0,
+    sliceCount: Math.min(MAX_SLICES, Math.floor(positive(settings.sliceCount) || DEFAULT_SLICE_COUNT)),
+    intervalSeconds: Number(settings.intervalSeconds) >= 0
+      ? Number(settings.intervalSeconds)
+      : (algorithm === 'twap' ? DEFAULT_INTERVAL_SECONDS : 0),
+    maxSliceAUD: positive(settings.maxSliceAUD),
+    maxSlippagePercent: positive(settings.maxSlippagePercent) || DEFAULT_MAX_SLIPPAGE_PERCENT,
+    childOrderType: settings.childOrderType === 'limit' ? 'limit' : 'market',
+    limitOffsetPercent: Number(settings.limitOffsetPercent) >= 0
+      ? Number(settings.limitOffsetPercent)
+      : DEFAULT_LIMIT_OFFSET_PERCENT,
+    limitTimeoutMinutes: positive(settings.limitTimeoutMinutes) || DEFAULT_LIMIT_TIMEOUT_MINUTES,
+    maxReprices: Number(settings.maxReprices) >= 0 ? Math.floor(Number(settings.maxReprices)) : DEFAULT_MAX_REPRICES,
+    fallbackToMarket: settings.fallbackToMarket !== false,
+    routing: parseRoutingSettings(settings.routing)
+  };
+}
+
+/**
+ * Whether a bitcoin_purchases status means the Bitcoin has been bought. Market purchases
+ * record 'filled'; limit orders move pending -> processing -> filled or cancelled.
+ */
+export function isCompletedPurchaseStatus(status: string): boolean {
+  return status === 'filled';
+}
+
+/**
+ * Whether a purchase of amountAUD stays open after it is recorded: a resting limit order, or a
+ * TWAP/iceberg parent order with child orders still to place
+ */
+export function isOpenEndedExecution(amountAUD: number, settings?: ExecutionSettings): boolean {
+  return Boolean(settings) && settings!.algorithm !== 'single' && amountAUD >= settings!.minimumAUD;
+}
+
+/**
+ * Child order sizes in AUD. The last slice absorbs rounding so the sizes sum to the amount.
+ */
+export function planChildOrders(amountAUD: number, settings: ExecutionSettings): number[] {
+  let sliceCount = settings.algorithm === 'twap' ? settings.sliceCount : 1;
+
+  if (settings.maxSliceAUD) {
+    sliceCount = Math.max(sliceCount, Math.ceil(amountAUD / settings.maxSliceAUD));
+  }
+
+  sliceCount = Math.min(MAX_SLICES, Math.max(1, sliceCount));
+
+  const sliceAUD = Math.floor((amountAUD / sliceCount) * 100) / 100;
+  const slices: number[] = [];
+
+  for (let i = 0; i < sliceCount - 1; i++) {
+    slices.push(sliceAUD);
+  }
+  slices.push(Math.round((amountAUD - sliceAUD * (sliceCount - 1)) * 100) / 100);
+
+  return slices;
+}
+
+/**
+ * Walk the asks to estimate the price of buying amountAUD, relative to a reference price
+ * (defaults to the current best ask)
+ */
+export function estimateBuySlippage(orderBook: OrderBook, amountAUD: number, referencePrice?: number): SlippageEstimate {
+  const asks = [...orderBook.asks].sort((a, b) => a[0] - b[0]);
+  const bestAsk = asks[0]?.[0] || 0;
+  const reference = referencePrice || bestAsk;
+
+  let remainingAUD = amountAUD;
+  let filledBTC = 0;
+  let fillableAUD = 0;
+
+  for (const [price, quantity] of asks) {
+    if (remainingAUD <= 0) {
+      break;
+    }
+
+    const levelAUD = Math.min(remainingAUD, price * quantity);
+    filledBTC += levelAUD / price;
+    fillableAUD += levelAUD;
+    remainingAUD -= levelAUD;
+  }
+
+  const averagePrice = filledBTC > 0 ? fillableAUD / filledBTC : bestAsk;
+
+  return {
+    bestAsk,
+    averagePrice,
+    slippagePercent: reference > 0 ? ((averagePrice - reference) / reference) * 100 : 0,
+    fillableAUD
+  };
+}
+
+export class ExecutionEngine {
+  private exchangeProvider: ExchangeProvider;
+
+  constructor(exchangeProvider: ExchangeProvider) {
+    this.exchangeProvider = exchangeProvider;
+  }
+
+  /**
+   * Start buying amountAUD of Bitcoin as a series of child orders by placing the first one.
+   * Any remaining child orders are left open for the algorithmic order scheduler.
+   */
+  async executeBuy(amountAUD: number, settings: ExecutionSettings, reference: string): Promise<AlgorithmicExecutionResult> {
+    const orderBook = await this.exchangeProvider.getOrderBook(ORDER_BOOK_PAIR);
+    const referencePrice = estimateBuySlippage(orderBook, 0).bestAsk;
+
+    if (!referencePrice) {
+      throw new Error('Order book has no asks - cannot execute purchase');
+    }
+
+    const result = await this.placeNextChild({
+      algorithm: settings.algorithm,
+      referencePrice,
+      requestedAUD: amountAUD,
+      remainingSlices: planChildOrders(amountAUD, settings),
+      childOrders: []
+    }, settings, reference, orderBook);
+
+    if (result.status !== 'open' && result.filledBTC <= 0) {
+      throw new Error(`No child orders filled for ${reference}${result.stoppedReason ? `: ${result.stoppedReason}` : ''}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Place the parent order's next child order. Stops the parent early, keeping what has
+   * filled, when the child order would exceed the slippage limit.
+   */
+  async placeNextChild(
+    parent: ParentOrderProgress,
+    settings: ExecutionSettings,
+    reference: string,
+    orderBook?: OrderBook
+  ): Promise<AlgorithmicExecutionResult> {
+    const remainingSlices = parent.remainingSlices.slice();
+    const childOrders = parent.childOrders.slice();
+    const sliceAUD = remainingSlices.shift();
+    let stoppedReason = parent.stoppedReason;
+
+    if (sliceAUD === undefined) {
+      return summariseParentOrder(parent);
+    }
+
+    const sequence = childOrders.length + 1;
+    const sliceCount = childOrders.length + parent.remainingSlices.length;
+    const maxPrice = parent.referencePrice * (1 + settings.maxSlippagePercent / 100);
+    const book = orderBook || await this.exchangeProvider.getOrderBook(ORDER_BOOK_PAIR);
+    const estimate = estimateBuySlippage(book, sliceAUD, parent.referencePrice);
+
+    if (estimate.slippagePercent > settings.maxSlippagePercent || estimate.fillableAUD < sliceAUD) {
+      stoppedReason = `Child order ${sequence} of ${sliceCount} would fill at $${estimate.averagePrice.toFixed(2)}, ` +
+        `${estimate.slippagePercent.toFixed(2)}% above the reference price $${parent.referencePrice} (limit ${settings.maxSlippagePercent}%)`;
+      return summariseParentOrder({ ...parent, remainingSlices: [], stoppedReason });
+    }
+
+    const child = await this.placeChildOrder(sequence, sliceAUD, settings.childOrderType, maxPrice, reference);
+    childOrders.push(child);
+
+    if (child.averagePrice > maxPrice) {
+      stoppedReason = `Child order ${sequence} filled at $${child.averagePrice}, beyond the slippage limit of $${maxPrice.toFixed(2)}`;
+      return summariseParentOrder({ ...parent, remainingSlices: [], childOrders, stoppedReason });
+    }
+
+    return summariseParentOrder({ ...parent, remainingSlices, childOrders, stoppedReason });
+  }
+
+  /**
+   * Rest a good-till-cancelled buy order limitOffsetPercent below the current best ask
+   */
+  async placeLimitBuy(
+    amountAUD: number,
+    settings: ExecutionSettings,
+    sequence: number
+  ): Promise<LimitOrderPlacement> {
+    const orderBook = await this.exchangeProvider.getOrderBook(ORDER_BOOK_PAIR);
+    const askPrice = estimateBuySlippage(orderBook, 0).bestAsk;
+
+    if (!askPrice) {
+      throw new Error('Order book has no asks - cannot price limit order');
+    }
+
+    const limitPrice = Math.round(askPrice * (1 - settings.limitOffsetPercent / 100) * 100) / 100;
+    const order = await this.exchangeProvider.createLimitOrder({
+      side: 'buy',
+      symbol: 'BTC',
+      amount: Math.floor((amountAUD / limitPrice) * 1e8) / 1e8,
+      currency: 'AUD',
+      price: limitPrice,
+      timeInForce: 'GTC'
+    });
+
+    const filledBTC = order.filledAmount || 0;
+
+    return {
+      order: {
+        sequence,
+        orderId: order.orderId,
+        orderType: 'limit',
+        requestedAUD: amountAUD,
+        filledBTC,
+        filledAUD: Math.round(filledBTC * (order.averagePrice || limitPrice) * 100) / 100,
+        averagePrice: filledBTC > 0 ? (order.averagePrice || limitPrice) : 0,
+        status: order.status,
+        fees: order.fees || [],
+        executedAt: new Date().toISOString()
+      },
+      askPrice,
+      limitPrice,
+      expiresAt: new Date(Date.now() + settings.limitTimeoutMinutes * 60 * 1000)
+    };
+  }
+
+  /**
+   * Buy amountAUD at market, e.g. the unfilled remainder of an expired limit order
+   */
+  async placeMarketBuy(amountAUD: number, sequence: number, reference: string): Promise<ChildOrderFill> {
+    return this.placeChildOrder(sequence, amountAUD, 'market', 0, reference);
+  }
+
+  private async placeChildOrder(
+    sequence: number,
+    amountAUD: number,
+    orderType: 'market' | 'limit',
+    maxPrice: number,
+    reference: string
+  ): Promise<ChildOrderFill> {
+    try {
+      // Limit children are immediate-or-cancel at the slippage ceiling, so they can never fill worse
+      const order = orderType === 'limit'
+        ? await this.exchangeProvider.createLimitOrder({
+            side: 'buy',
+            symbol: 'BTC',
+            amount: Math.floor((amountAUD / maxPrice) * 1e8) / 1e8,
+            currency: 'AUD',
+            price: Math.round(maxPrice * 100) / 100,
+            timeInForce: 'IOC'
+          })
+        : await this.exchangeProvider.createMarketOrder({
+            side: 'buy',
+            symbol: 'BTC',
+            value: amountAUD,
+            currency: 'AUD'
+          });
+
+      const filledBTC = order.filledAmount ?? (order.status === 'filled' ? order.amount : 0);
+      const averagePrice = order.averagePrice || (filledBTC > 0 ? order.totalValue / filledBTC : 0);
+
+      return {
+        sequence,
+        orderId: order.orderId,
+        orderType,
+        requestedAUD: amountAUD,
+        filledBTC,
+        filledAUD: Math.round(filledBTC * averagePrice * 100) / 100,
+        averagePrice,
+        status: order.status,
+        fees: order.fees || [],
+        executedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error(`Child order ${sequence} for ${reference} failed:`, error);
+
+      return {
+        sequence,
+        orderType,
+        requestedAUD: amountAUD,
+        filledBTC: 0,
+        filledAUD: 0,
+        averagePrice: 0,
+        status: 'rejected',
+        fees: [],
+        executedAt: new Date().toISOString(),
+        note: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+/**
+ * Totals for a parent order's child orders so far
+ */
+export function summariseParentOrder(parent: ParentOrderProgress): AlgorithmicExecutionResult {
+  const filledBTC = parent.childOrders.reduce((sum, child) => sum + child.filledBTC, 0);
+  const filledAUD = Math.round(parent.childOrders.reduce((sum, child) => sum + child.filledAUD, 0) * 100) / 100;
+
+  let status: AlgorithmicExecutionResult['status'] = 'partially_filled';
+  if (parent.remainingSlices.length > 0) {
+    status = 'open';
+  } else if (!parent.stoppedReason && filledAUD >= parent.requestedAUD * 0.999) {
+    status = 'filled';
+  }
+
+  return {
+    ...parent,
+    filledAUD,
+    filledBTC,
+    averagePrice: filledBTC > 0 ? filledAUD / filledBTC : 0,
+    fees: aggregateFees(parent.childOrders),
+    status
+  };
+}
+
+/**
+ * The parent_order record for an open parent order
+ */
+export function toParentOrderRecord(parent: ParentOrderProgress, settings: ExecutionSettings): ParentOrderRecord {
+  return {
+    algorithm: parent.algorithm,
+    referencePrice: parent.referencePrice,
+    requestedAUD: parent.requestedAUD,
+    remainingSlices: parent.remainingSlices,
+    stoppedReason: parent.stoppedReason,
+    settings
+  };
+}
+
+/**
+ * Fees in AUD. BTC fees (taken from the Bitcoin bought) are valued at the fill price.
+ */
+export function feesToAUD(fees: OrderFee[], pricePerBTC: number): number {
+  let total = 0;
+
+  for (const fee of fees) {
+    if (fee.currency === 'AUD') {
+      total += fee.amount;
+    } else if (fee.currency === 'BTC') {
+      total += fee.amount * pricePerBTC;
+    } else {
+      console.warn(`Ignoring ${fee.amount} ${fee.currency} ${fee.type} fee - no AUD conversion`);
+    }
+  }
+
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Fees in AUD across child orders, each valued at its own fill price
+ */
+export function childOrderFeesToAUD(childOrders: ChildOrderFill[]): number {
+  return Math.round(childOrders.reduce((sum, child) => sum + feesToAUD(child.fees, child.averagePrice), 0) * 100) / 100;
+}
+
+export function aggregateFees(childOrders: ChildOrderFill[]): OrderFee[] {
+  const totals = new Map<string, OrderFee>();
+
+  for (const child of childOrders) {
+    for (const fee of child.fees) {
+      const key = `${fee.currency}:${fee.type}`;
+      const total = totals.get(key);
+      if (total) {
+        total.amount += fee.amount;
+      } else {
+        totals.set(key, { ...fee });
+      }
+    }
+  }
+
+  return Array.from(totals.values());
+}
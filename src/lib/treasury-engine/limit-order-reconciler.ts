@@ -0,0 +1,284 @@
+// LIQUID ABT - Limit-Order Reconciler
+// Polls resting limit orders, completes filled ones and reprices, cancels or falls back to
+// market for orders that time out. Purchase status moves pending -> processing -> filled/cancelled.
+
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { ExchangeProvider, ExchangeProviderType, OrderStatus } from '@/lib/integrations/exchanges/interface';
+import { TreasuryProcessor } from './processor';
+import { ChildOrderFill, ExecutionEngine, ExecutionSettings, childOrderFeesToAUD, parseExecutionSettings } from './execution-algorithms';
+import { marketCircuitBreaker } from './market-circuit-breaker';
+import { TenantJob } from './scheduled-job';
+
+export type LimitOrderOutcome = 'open' | 'repriced' | 'completed' | 'cancelled';
+
+export interface LimitOrderReconciliationSummary {
+  checked: number;
+  open: number;
+  repriced: number;
+  completed: number;
+  cancelled: number;
+  errors: number;
+}
+
+interface OpenLimitPurchaseRow {
+  id: string;
+  status: string;
+  exchange_order_id: string;
+  exchange_provider: ExchangeProviderType;
+  amount_aud: string;
+  limit_settings: Record<string, unknown> | null;
+  order_expires_at: Date;
+  reprice_count: number;
+  child_orders: ChildOrderFill[] | null;
+  pending_withdrawal_address: string | null;
+  fallback_reference: string | null;
+}
+
+// Remainders smaller than this are not worth another order
+const MINIMUM_REMAINDER_AUD = 1;
+
+export class LimitOrderReconciler {
+  private tenantId: string;
+  private processor: TreasuryProcessor;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+    this.processor = new TreasuryProcessor(tenantId);
+  }
+
+  /**
+   * Check every open limit order once
+   */
+  async reconcileOpenOrders(now: Date = new Date()): Promise<LimitOrderReconciliationSummary> {
+    const summary: LimitOrderReconciliationSummary = { checked: 0, open: 0, repriced: 0, completed: 0, cancelled: 0, errors: 0 };
+
+    const rows: OpenLimitPurchaseRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id, status, exchange_order_id, exchange_provider, amount_aud, limit_settings, order_expires_at,
+              reprice_count, child_orders, pending_withdrawal_address, fallback_reference
+       FROM bitcoin_purchases
+       WHERE execution_algorithm = 'limit' AND status IN ('pending', 'processing')
+       ORDER BY created_at ASC`,
+      []
+    );
+
+    if (rows.length === 0) {
+      return summary;
+    }
+
+    for (const row of rows) {
+      summary.checked++;
+
+      try {
+        // Orders are managed on the exchange they were placed on
+        const exchangeProvider = await this.processor.getExchangeProvider(row.exchange_provider);
+        const outcome = await this.reconcileOrder(row, exchangeProvider, now);
+        summary[outcome]++;
+      } catch (error) {
+        summary.errors++;
+        console.error(`Limit order reconciliation failed for purchase ${row.id}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  private async reconcileOrder(row: OpenLimitPurchaseRow, exchangeProvider: ExchangeProvider, now: Date): Promise<LimitOrderOutcome> {
+    const settings = parseExecutionSettings(row.limit_settings);
+
+    if (!settings) {
+      throw new Error(`Purchase ${row.id} has no limit order settings`);
+    }
+
+    const legs = row.child_orders || [];
+    const reference = `limit_${row.id}`;
+
+    // A market fallback was sent but its fill never recorded. Buying again could buy twice, so
+    // finish with what is recorded and leave the fallback to exchange reconciliation.
+    if (row.fallback_reference && !legs.some(leg => `${reference}_${leg.sequence}` === row.fallback_reference)) {
+      console.error(`Market fallback ${row.fallback_reference} for purchase ${row.id} was sent but not recorded - ` +
+        'reconcile it against the exchange');
+      return this.finalize(row, legs);
+    }
+
+    let orderStatus = await exchangeProvider.getOrderStatus(row.exchange_order_id);
+    this.updateLeg(legs, orderStatus);
+
+    if (orderStatus.status === 'filled') {
+      return this.finalize(row, legs);
+    }
+
+    const expired = now >= new Date(row.order_expires_at);
+    const closed = orderStatus.isCancelled || orderStatus.status === 'rejected';
+
+    if (!expired && !closed) {
+      const status = (orderStatus.filledAmount || 0) > 0 ? 'processing' : 'pending';
+      await this.updateOpenOrder(row.id, status, legs);
+      return 'open';
+    }
+
+    if (!closed) {
+      // The order may fill between the last poll and the cancel; cancelOrder returns the final fill
+      orderStatus = await exchangeProvider.cancelOrder(row.exchange_order_id);
+      this.updateLeg(legs, orderStatus);
+
+      if (orderStatus.status === 'filled') {
+        return this.finalize(row, legs);
+      }
+    }
+
+    const remainingAUD = Math.round((parseFloat(row.amount_aud) - sumFilledAUD(legs)) * 100) / 100;
+
+    if (remainingAUD < MINIMUM_REMAINDER_AUD) {
+      return this.finalize(row, legs);
+    }
+
+    // No replacement orders while the market circuit breaker has purchases halted
+    const halt = await marketCircuitBreaker.getActiveHalt(this.tenantId);
+    if (halt) {
+      console.warn(`Limit order for purchase ${row.id} not replaced: purchases halted by ${halt.eventType}`);
+      return this.finalize(row, legs, settings);
+    }
+
+    const engine = new ExecutionEngine(exchangeProvider);
+
+    if (row.reprice_count < settings.maxReprices) {
+      const placement = await engine.placeLimitBuy(remainingAUD, settings, legs.length + 1);
+      legs.push(placement.order);
+
+      await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `UPDATE bitcoin_purchases
+         SET status = 'processing', exchange_order_id = $2, limit_price = $3, order_expires_at = $4,
+             reprice_count = reprice_count + 1, child_orders = $5, updated_at = NOW()
+         WHERE id = $1 AND status IN ('pending', 'processing')`,
+        [row.id, placement.order.orderId, placement.limitPrice, placement.expiresAt, JSON.stringify(legs)]
+      );
+
+      console.log(`Limit order for purchase ${row.id} repriced to $${placement.limitPrice} for the remaining $${remainingAUD}`);
+      return 'repriced';
+    }
+
+    if (settings.fallbackToMarket) {
+      // Mark the fallback before sending it so a run that dies part-way never sends a second one
+      const sequence = legs.length + 1;
+      const fallbackReference = `${reference}_${sequence}`;
+      const marked = await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `UPDATE bitcoin_purchases SET status = 'processing', child_orders = $2, fallback_reference = $3, updated_at = NOW()
+         WHERE id = $1 AND status IN ('pending', 'processing') AND fallback_reference IS NULL
+         RETURNING id`,
+        [row.id, JSON.stringify(legs), fallbackReference]
+      );
+
+      if (marked.length === 0) {
+        throw new Error(`Market fallback for purchase ${row.id} already sent`);
+      }
+
+      legs.push(await engine.placeMarketBuy(remainingAUD, sequence, fallbackReference));
+      console.log(`Limit order for purchase ${row.id} fell back to a market order for the remaining $${remainingAUD}`);
+    }
+
+    return this.finalize(row, legs, settings);
+  }
+
+  /**
+   * Record the fills on the purchase: 'filled' if any Bitcoin was bought, otherwise 'cancelled'
+   */
+  private async finalize(row: OpenLimitPurchaseRow, legs: ChildOrderFill[], settings?: ExecutionSettings): Promise<LimitOrderOutcome> {
+    const filledBTC = legs.reduce((sum, leg) => sum + leg.filledBTC, 0);
+    const filledAUD = sumFilledAUD(legs);
+
+    if (filledBTC <= 0) {
+      await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `UPDATE bitcoin_purchases
+         SET status = 'cancelled', child_orders = $2, order_expires_at = NULL,
+             pending_withdrawal_address = NULL, updated_at = NOW()
+         WHERE id = $1 AND status IN ('pending', 'processing')`,
+        [row.id, JSON.stringify(legs)]
+      );
+
+      console.warn(`Limit order for purchase ${row.id} cancelled unfilled after ${row.reprice_count} reprices` +
+        (settings && !settings.fallbackToMarket ? ' (market fallback disabled)' : ''));
+      return 'cancelled';
+    }
+
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE bitcoin_purchases
+       SET status = 'filled', amount_aud = $2, bitcoin_amount = $3, price_per_btc = $4, fees_aud = $5,
+           child_orders = $6, order_expires_at = NULL, pending_withdrawal_address = NULL, updated_at = NOW()
+       WHERE id = $1 AND status IN ('pending', 'processing')`,
+      [
+        row.id,
+        filledAUD,
+        filledBTC,
+        Math.round((filledAUD / filledBTC) * 100) / 100,
+        childOrderFeesToAUD(legs),
+        JSON.stringify(legs)
+      ]
+    );
+
+    console.log(`Limit order purchase ${row.id} completed: ${filledBTC} BTC for $${filledAUD}`);
+
+    if (row.pending_withdrawal_address) {
+      try {
+        await this.processor.withdrawCompletedPurchase(row.id, filledBTC, row.pending_withdrawal_address);
+      } catch (error) {
+        console.error(`Failed to auto-withdraw Bitcoin for purchase ${row.id}:`, error);
+        // Don't throw - purchase was successful, withdrawal can be retried
+      }
+    }
+
+    return 'completed';
+  }
+
+  private async updateOpenOrder(purchaseId: string, status: 'pending' | 'processing', legs: ChildOrderFill[]): Promise<void> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE bitcoin_purchases SET status = $2, child_orders = $3, updated_at = NOW()
+       WHERE id = $1 AND status IN ('pending', 'processing')`,
+      [purchaseId, status, JSON.stringify(legs)]
+    );
+  }
+
+  /**
+   * Copy the exchange's view of an order onto its leg
+   */
+  private updateLeg(legs: ChildOrderFill[], orderStatus: OrderStatus): void {
+    const leg = legs.find(l => l.orderId === orderStatus.orderId);
+
+    if (!leg) {
+      return;
+    }
+
+    const filledBTC = orderStatus.filledAmount || 0;
+    const averagePrice = filledBTC > 0 ? (orderStatus.averagePrice || orderStatus.totalValue / filledBTC) : 0;
+
+    leg.filledBTC = filledBTC;
+    leg.averagePrice = averagePrice;
+    leg.filledAUD = Math.round(filledBTC * averagePrice * 100) / 100;
+    leg.status = orderStatus.status;
+    leg.fees = orderStatus.fees || leg.fees;
+  }
+}
+
+function sumFilledAUD(legs: ChildOrderFill[]): number {
+  return Math.round(legs.reduce((sum, leg) => sum + leg.filledAUD, 0) * 100) / 100;
+}
+
+/**
+ * Limit-order reconciler cron job
+ */
+export const limitOrderReconcilerJob = new TenantJob({
+  name: 'Limit order reconciler',
+  cronEnvVar: 'LIMIT_ORDER_RECONCILER_CRON',
+  defaultCron: '*/2 * * * *',
+  runForTenant: async tenantId => {
+    const summary = await new LimitOrderReconciler(tenantId).reconcileOpenOrders();
+    if (summary.checked > 0) {
+      console.log(`Limit orders for tenant ${tenantId}:`, summary);
+    }
+  }
+});
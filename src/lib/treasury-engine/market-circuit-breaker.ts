@@ -0,0 +1,415 @@
+// LIQUID ABT - Market Circuit Breaker
+// Watches oracle BTC/AUD prices over rolling windows and halts purchases when the market spikes,
+// crashes or turns volatile. Halts are recorded in circuit_breaker_events (tenant_id NULL for a
+// platform-wide halt) with the prices either side of the move, and resume automatically after a
+// cooldown or only when an administrator resumes them.
+
+import { getConnectionPool } from '@/lib/database/connection';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { BusinessLogicError, NotFoundError } from '@/lib/errors/CustomErrors';
+import { ReferencePrice, createPlatformPriceOracle } from '@/lib/services/price-oracle';
+import { ScheduledJob } from './scheduled-job';
+
+export type MarketEventType = 'PRICE_SPIKE' | 'FLASH_CRASH' | 'HIGH_VOLATILITY';
+export type MarketResumeMode = 'auto' | 'manual';
+
+export interface MarketCircuitBreakerSettings {
+  shortWindowMinutes: number;      // Window for spikes and crashes
+  spikePercent: number;            // Rise from the window low that trips PRICE_SPIKE
+  crashPercent: number;            // Fall from the window high that trips FLASH_CRASH
+  volatilityWindowMinutes: number;
+  volatilityRangePercent: number;  // High-low range over the window that trips HIGH_VOLATILITY
+  resumeMode: MarketResumeMode;
+  cooldownMinutes: number;         // Before an automatic resume
+}
+
+export interface PriceSample {
+  price: number;
+  at: number; // Epoch milliseconds
+}
+
+export interface MarketMovement {
+  eventType: MarketEventType;
+  priceBefore: number;
+  priceAfter: number;
+  priceChangePercent: number;
+  windowMinutes: number;
+}
+
+export interface CircuitBreakerEvent {
+  id: string;
+  tenantId: string | null; // null for a platform-wide halt
+  eventType: MarketEventType;
+  exchange: string;        // Oracle sources that produced the price
+  priceChangePercent: number;
+  priceBefore: number;
+  priceAfter: number;
+  timeWindowMinutes: number;
+  sourcesChecked: number;
+  sourcesFailed: number;
+  actionTaken: string;
+  resumeMode: MarketResumeMode;
+  resumeAfter: string | null;
+  triggeredAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+}
+
+interface CircuitBreakerEventRow {
+  id: string;
+  tenant_id: string | null;
+  event_type: MarketEventType;
+  exchange: string;
+  price_change: string;
+  price_before: string;
+  price_after: string;
+  time_window_minutes: number;
+  sources_checked: number;
+  sources_failed: number;
+  action_taken: string;
+  resume_mode: MarketResumeMode;
+  resume_after: Date | null;
+  triggered_at: Date;
+  resolved_at: Date | null;
+  resolved_by: string | null;
+}
+
+/**
+ * Raised when purchases are refused because the market circuit breaker has tripped
+ */
+export class MarketHaltedError extends BusinessLogicError {
+  constructor(public readonly event: CircuitBreakerEvent) {
+    super(
+      `Bitcoin purchases halted by market circuit breaker (${event.eventType} ${event.priceChangePercent}% ` +
+        `over ${event.timeWindowMinutes} min): ` +
+        (event.resumeMode === 'auto' && event.resumeAfter ? `resumes at ${event.resumeAfter}` : 'awaiting manual resume'),
+      { tenantId: event.tenantId || undefined, context: { eventId: event.id } }
+    );
+  }
+}
+
+const DEFAULT_SETTINGS: MarketCircuitBreakerSettings = {
+  shortWindowMinutes: 5,
+  spikePercent: 8,
+  crashPercent: 8,
+  volatilityWindowMinutes: 60,
+  volatilityRangePercent: 12,
+  resumeMode: 'auto',
+  cooldownMinutes: 30
+};
+
+/**
+ * Breaker settings from MARKET_BREAKER_* environment variables
+ */
+export function getMarketCircuitBreakerSettings(): MarketCircuitBreakerSettings {
+  const positive = (value: string | undefined): number | undefined => Number(value) > 0 ? Number(value) : undefined;
+
+  return {
+    shortWindowMinutes: positive(process.env.MARKET_BREAKER_SHORT_WINDOW_MINUTES) || DEFAULT_SETTINGS.shortWindowMinutes,
+    spikePercent: positive(process.env.MARKET_BREAKER_SPIKE_PERCENT) || DEFAULT_SETTINGS.spikePercent,
+    crashPercent: positive(process.env.MARKET_BREAKER_CRASH_PERCENT) || DEFAULT_SETTINGS.crashPercent,
+    volatilityWindowMinutes: positive(process.env.MARKET_BREAKER_VOLATILITY_WINDOW_MINUTES) || DEFAULT_SETTINGS.volatilityWindowMinutes,
+    volatilityRangePercent: positive(process.env.MARKET_BREAKER_VOLATILITY_RANGE_PERCENT) || DEFAULT_SETTINGS.volatilityRangePercent,
+    resumeMode: process.env.MARKET_BREAKER_RESUME_MODE === 'manual' ? 'manual' : DEFAULT_SETTINGS.resumeMode,
+    cooldownMinutes: positive(process.env.MARKET_BREAKER_COOLDOWN_MINUTES) || DEFAULT_SETTINGS.cooldownMinutes
+  };
+}
+
+/**
+ * The movement that should trip the breaker, if any. Crashes are checked first: a crash that
+ * also widens the range is reported as the crash.
+ */
+export function evaluatePriceMovement(
+  samples: PriceSample[],
+  settings: MarketCircuitBreakerSettings,
+  now: number = Date.now()
+): MarketMovement | null {
+  if (samples.length < 2) {
+    return null;
+  }
+
+  const current = samples[samples.length - 1].price;
+  const shortWindow = samples.filter(sample => sample.at >= now - settings.shortWindowMinutes * 60000);
+
+  if (shortWindow.length >= 2) {
+    const high = Math.max(...shortWindow.map(sample => sample.price));
+    const low = Math.min(...shortWindow.map(sample => sample.price));
+
+    const fromHigh = percentChange(high, current);
+    if (-fromHigh >= settings.crashPercent) {
+      return { eventType: 'FLASH_CRASH', priceBefore: high, priceAfter: current, priceChangePercent: fromHigh, windowMinutes: settings.shortWindowMinutes };
+    }
+
+    const fromLow = percentChange(low, current);
+    if (fromLow >= settings.spikePercent) {
+      return { eventType: 'PRICE_SPIKE', priceBefore: low, priceAfter: current, priceChangePercent: fromLow, windowMinutes: settings.shortWindowMinutes };
+    }
+  }
+
+  const longWindow = samples.filter(sample => sample.at >= now - settings.volatilityWindowMinutes * 60000);
+  const high = Math.max(...longWindow.map(sample => sample.price));
+  const low = Math.min(...longWindow.map(sample => sample.price));
+  const range = percentChange(low, high);
+
+  if (range >= settings.volatilityRangePercent) {
+    return {
+      eventType: 'HIGH_VOLATILITY',
+      priceBefore: longWindow[0].price,
+      priceAfter: current,
+      priceChangePercent: range,
+      windowMinutes: settings.volatilityWindowMinutes
+    };
+  }
+
+  return null;
+}
+
+export class MarketCircuitBreaker {
+  private settings: MarketCircuitBreakerSettings;
+
+  constructor(settings: MarketCircuitBreakerSettings = getMarketCircuitBreakerSettings()) {
+    this.settings = settings;
+  }
+
+  /**
+   * Add an oracle price to the rolling window for the tenant (or the platform when tenantId is
+   * null) and trip the breaker if the movement crosses a threshold. Returns the new event.
+   * Samples are stored in market_price_samples so every server instance shares the window.
+   */
+  async observe(reference: ReferencePrice, tenantId: string | null = null, now: number = Date.now()): Promise<CircuitBreakerEvent | null> {
+    const scope = tenantId || 'global';
+    const horizon = now - Math.max(this.settings.shortWindowMinutes, this.settings.volatilityWindowMinutes) * 60000;
+    const samples = await this.recordSample(scope, reference.price, now, horizon);
+
+    const movement = evaluatePriceMovement(samples, this.settings, now);
+    if (!movement || await this.getScopeHalt(tenantId)) {
+      return null;
+    }
+
+    // Start a fresh window so the same move does not trip again after resuming
+    await getConnectionPool().query(
+      `DELETE FROM market_price_samples WHERE scope = $1 AND sampled_at < $2`,
+      [scope, new Date(now)]
+    );
+
+    return this.trip(movement, reference, tenantId, now);
+  }
+
+  /**
+   * The halt that currently blocks purchases for the tenant (its own or platform-wide).
+   * Automatic halts whose cooldown has passed are resolved first.
+   */
+  async getActiveHalt(tenantId: string): Promise<CircuitBreakerEvent | null> {
+    await this.resumeExpired();
+
+    const result = await getConnectionPool().query(
+      `SELECT * FROM circuit_breaker_events
+       WHERE resolved_at IS NULL AND (tenant_id IS NULL OR tenant_id = $1)
+       ORDER BY triggered_at DESC
+       LIMIT 1`,
+      [tenantId]
+    );
+
+    return result.rows.length > 0 ? mapEventRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Throws MarketHaltedError while purchases are halted for the tenant
+   */
+  async assertPurchasesAllowed(tenantId: string): Promise<void> {
+    const halt = await this.getActiveHalt(tenantId);
+    if (halt) {
+      throw new MarketHaltedError(halt);
+    }
+  }
+
+  /**
+   * Manually resume a halt. Tenants can resume only their own halts; platform-wide halts need
+   * tenantId null.
+   */
+  async resume(eventId: string, resumedBy: { userId: string; tenantId: string | null; ipAddress?: string; userAgent?: string }): Promise<CircuitBreakerEvent> {
+    const result = await getConnectionPool().query(
+      `UPDATE circuit_breaker_events
+       SET resolved_at = NOW(), resolved_by = $2
+       WHERE id = $1 AND resolved_at IS NULL
+         AND tenant_id IS NOT DISTINCT FROM $3
+       RETURNING *`,
+      [eventId, resumedBy.userId, resumedBy.tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Active circuit breaker halt', eventId, { tenantId: resumedBy.tenantId || undefined });
+    }
+
+    const event = mapEventRow(result.rows[0]);
+
+    if (resumedBy.tenantId) {
+      await recordAuditEvent({
+        tenantId: resumedBy.tenantId,
+        userId: resumedBy.userId,
+        eventType: 'update',
+        resourceType: 'circuit_breaker_event',
+        resourceId: event.id,
+        action: `Resumed purchases halted by ${event.eventType}`,
+        newValues: { resolvedAt: event.resolvedAt },
+        ipAddress: resumedBy.ipAddress,
+        userAgent: resumedBy.userAgent,
+        severity: 'warning',
+        complianceRelevant: true
+      });
+    }
+
+    return event;
+  }
+
+  /**
+   * Recent events affecting the tenant, newest first
+   */
+  async listEvents(tenantId: string, limit = 50): Promise<CircuitBreakerEvent[]> {
+    await this.resumeExpired();
+
+    const result = await getConnectionPool().query(
+      `SELECT * FROM circuit_breaker_events
+       WHERE tenant_id IS NULL OR tenant_id = $1
+       ORDER BY triggered_at DESC
+       LIMIT $2`,
+      [tenantId, limit]
+    );
+
+    return result.rows.map(mapEventRow);
+  }
+
+  private async trip(movement: MarketMovement, reference: ReferencePrice, tenantId: string | null, now: number): Promise<CircuitBreakerEvent> {
+    const agreeing = reference.sources.filter(source => !source.rejectedReason);
+    const resumeAfter = this.settings.resumeMode === 'auto'
+      ? new Date(now + this.settings.cooldownMinutes * 60000)
+      : null;
+
+    const result = await getConnectionPool().query(
+      `INSERT INTO circuit_breaker_events (
+        tenant_id, event_type, exchange, price_change, price_before, price_after, time_window_minutes,
+        sources_checked, sources_failed, action_taken, metadata, resume_mode, resume_after, triggered_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING *`,
+      [
+        tenantId,
+        movement.eventType,
+        agreeing.map(source => source.source).join('+') || 'oracle',
+        movement.priceChangePercent,
+        movement.priceBefore,
+        movement.priceAfter,
+        movement.windowMinutes,
+        reference.sources.length,
+        reference.sources.length - agreeing.length,
+        'HALT_PURCHASES',
+        JSON.stringify({ settings: this.settings, referencePrice: reference }),
+        this.settings.resumeMode,
+        resumeAfter,
+        new Date(now)
+      ]
+    );
+
+    const event = mapEventRow(result.rows[0]);
+    console.warn(`Market circuit breaker tripped for ${tenantId || 'all tenants'}:`, {
+      eventType: event.eventType,
+      priceBefore: event.priceBefore,
+      priceAfter: event.priceAfter,
+      change: event.priceChangePercent,
+      resumeAfter: event.resumeAfter || 'manual'
+    });
+
+    return event;
+  }
+
+  /**
+   * Store a price sample, drop samples older than the horizon and return the scope's window,
+   * oldest first
+   */
+  private async recordSample(scope: string, price: number, now: number, horizon: number): Promise<PriceSample[]> {
+    const pool = getConnectionPool();
+
+    await pool.query(
+      `INSERT INTO market_price_samples (scope, price, sampled_at) VALUES ($1, $2, $3)`,
+      [scope, price, new Date(now)]
+    );
+    await pool.query(
+      `DELETE FROM market_price_samples WHERE scope = $1 AND sampled_at < $2`,
+      [scope, new Date(horizon)]
+    );
+
+    const result = await pool.query(
+      `SELECT price, sampled_at FROM market_price_samples
+       WHERE scope = $1 AND sampled_at <= $2
+       ORDER BY sampled_at ASC, id ASC`,
+      [scope, new Date(now)]
+    );
+
+    return result.rows.map((row: { price: string; sampled_at: Date }) => ({
+      price: Number(row.price),
+      at: new Date(row.sampled_at).getTime()
+    }));
+  }
+
+  /**
+   * An unresolved halt in exactly this scope (not inherited from the platform)
+   */
+  private async getScopeHalt(tenantId: string | null): Promise<boolean> {
+    await this.resumeExpired();
+
+    const result = await getConnectionPool().query(
+      `SELECT 1 FROM circuit_breaker_events WHERE resolved_at IS NULL AND tenant_id IS NOT DISTINCT FROM $1 LIMIT 1`,
+      [tenantId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  private async resumeExpired(): Promise<void> {
+    await getConnectionPool().query(
+      `UPDATE circuit_breaker_events
+       SET resolved_at = NOW(), resolved_by = 'auto'
+       WHERE resolved_at IS NULL AND resume_mode = 'auto' AND resume_after <= NOW()`
+    );
+  }
+}
+
+function percentChange(from: number, to: number): number {
+  return from > 0 ? Math.round(((to - from) / from) * 10000) / 100 : 0;
+}
+
+function mapEventRow(row: CircuitBreakerEventRow): CircuitBreakerEvent {
+  return {
+    id: row.id,
+    tenantId: row.tenant_id,
+    eventType: row.event_type,
+    exchange: row.exchange,
+    priceChangePercent: Number(row.price_change),
+    priceBefore: Number(row.price_before),
+    priceAfter: Number(row.price_after),
+    timeWindowMinutes: row.time_window_minutes,
+    sourcesChecked: row.sources_checked,
+    sourcesFailed: row.sources_failed,
+    actionTaken: row.action_taken,
+    resumeMode: row.resume_mode,
+    resumeAfter: row.resume_after ? row.resume_after.toISOString() : null,
+    triggeredAt: row.triggered_at.toISOString(),
+    resolvedAt: row.resolved_at ? row.resolved_at.toISOString() : null,
+    resolvedBy: row.resolved_by
+  };
+}
+
+export const marketCircuitBreaker = new MarketCircuitBreaker();
+
+/**
+ * Market circuit breaker cron job: samples the platform oracle and trips a
+ * platform-wide halt on large moves
+ */
+export const marketCircuitBreakerJob = new ScheduledJob<CircuitBreakerEvent | null>({
+  name: 'Market circuit breaker monitor',
+  cronEnvVar: 'MARKET_BREAKER_CRON',
+  defaultCron: '* * * * *',
+  run: async () => {
+    const reference = await createPlatformPriceOracle().getReferencePrice('AUD');
+    return marketCircuitBreaker.observe(reference);
+  }
+});
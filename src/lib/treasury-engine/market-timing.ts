@@ -0,0 +1,434 @@
+// LIQUID ABT - Market-Timing Execution Engine
+// Buys the AUD pooled by market_timing rules when BTC/AUD dips, with a maximum-wait fallback
+
+import { randomUUID } from 'crypto';
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { TreasuryProcessor } from './processor';
+import { ExecutionSettings, parseExecutionSettings } from './execution-algorithms';
+import { TenantJob } from './scheduled-job';
+
+export type MarketTimingTrigger = 'price_band' | 'moving_average' | 'drawdown' | 'max_wait';
+
+/**
+ * Market-timing configuration, stored in treasury_rules.settings.
+ * Any configured trigger fires a buy; maxWaitHours always applies.
+ */
+export interface MarketTimingSettings {
+  buyBelowPrice?: number;               // Buy when BTC/AUD is below this price
+  movingAverageHours?: number;          // Buy when price is below the moving average over this window...
+  movingAverageDiscountPercent: number; // ...by at least this much
+  drawdownPercent?: number;             // Buy when price has fallen this far from the recent high...
+  drawdownLookbackHours: number;        // ...over this window
+  maxWaitHours: number;                 // Buy regardless once the oldest pooled amount has waited this long
+}
+
+export interface MarketTimingPriceStats {
+  currentPrice: number;
+  movingAverage?: number;
+  recentHigh?: number;
+}
+
+export interface MarketTimingEvaluation {
+  trigger: MarketTimingTrigger | null;
+  reason: string;
+}
+
+export interface MarketTimingExecutionSummary {
+  ruleId: string;
+  trigger: MarketTimingTrigger;
+  status: 'converted' | 'deferred' | 'failed';
+  amountAUD: number;
+  bitcoinPurchaseId?: string;
+  reason: string;
+}
+
+interface MarketTimingRule {
+  ruleId: string;
+  versionId?: string;
+  settings: MarketTimingSettings;
+  minimumPurchase?: number;
+  maximumPurchase?: number;
+  withdrawalAddress?: string;
+  execution?: ExecutionSettings;
+}
+
+const DEFAULT_MAX_WAIT_HOURS = 72;
+const DEFAULT_DRAWDOWN_LOOKBACK_HOURS = 24;
+const PRICE_SNAPSHOT_RETENTION_DAYS = 30;
+const STALE_CLAIM_MINUTES = 15; // A claim still 'processing' after this long belongs to a run that died
+
+export class MarketTimingEngine {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Check every market_timing rule with pooled AUD and buy where a trigger has fired
+   */
+  async runPendingPools(now: Date = new Date()): Promise<MarketTimingExecutionSummary[]> {
+    await this.recoverStaleClaims();
+
+    const rules = await this.getActiveRules();
+    const summaries: MarketTimingExecutionSummary[] = [];
+
+    if (rules.length === 0) {
+      return summaries;
+    }
+
+    const processor = new TreasuryProcessor(this.tenantId);
+    const price = await processor.getCurrentBitcoinPrice();
+    await this.recordPriceSnapshot(price.price, price.exchangeProvider);
+
+    for (const rule of rules) {
+      const oldestQueuedAt = await this.getOldestQueuedAt(rule.ruleId);
+      if (!oldestQueuedAt) {
+        continue;
+      }
+
+      const stats = await this.getPriceStats(price.price, rule.settings);
+      const evaluation = evaluateMarketTimingTriggers(stats, rule.settings, oldestQueuedAt, now);
+
+      if (!evaluation.trigger) {
+        continue;
+      }
+
+      const summary = await this.convertPool(processor, rule, evaluation);
+      if (summary) {
+        summaries.push(summary);
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Load active market_timing rules
+   */
+  private async getActiveRules(): Promise<MarketTimingRule[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM treasury_rules WHERE is_active = true AND rule_type = 'market_timing'`,
+      []
+    );
+
+    const rules: MarketTimingRule[] = [];
+
+    for (const rule of rows) {
+      rules.push({
+        ruleId: rule.id,
+        versionId: rule.current_version_id || undefined,
+        settings: parseMarketTimingSettings(rule.settings || {}),
+        minimumPurchase: rule.minimum_purchase ? parseFloat(rule.minimum_purchase) : undefined,
+        maximumPurchase: rule.maximum_purchase ? parseFloat(rule.maximum_purchase) : undefined,
+        withdrawalAddress: rule.is_auto_withdrawal ? rule.withdrawal_address : undefined,
+        execution: parseExecutionSettings(rule.settings?.execution) || undefined
+      });
+    }
+
+    return rules;
+  }
+
+  private async getOldestQueuedAt(ruleId: string): Promise<Date | null> {
+    const result = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT MIN(queued_at) AS oldest_queued_at FROM market_timing_pool
+       WHERE treasury_rule_id = $1 AND status = 'pending'`,
+      [ruleId]
+    );
+
+    return result[0]?.oldest_queued_at ? new Date(result[0].oldest_queued_at) : null;
+  }
+
+  /**
+   * Record the latest price and prune history older than the retention window
+   */
+  private async recordPriceSnapshot(priceAUD: number, exchangeProvider: string): Promise<void> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `INSERT INTO btc_price_snapshots (price_aud, exchange_provider, recorded_at) VALUES ($1, $2, NOW())`,
+      [priceAUD, exchangeProvider]
+    );
+
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `DELETE FROM btc_price_snapshots WHERE recorded_at < NOW() - ($1 || ' days')::INTERVAL`,
+      [PRICE_SNAPSHOT_RETENTION_DAYS]
+    );
+  }
+
+  private async getPriceStats(currentPrice: number, settings: MarketTimingSettings): Promise<MarketTimingPriceStats> {
+    const stats: MarketTimingPriceStats = { currentPrice };
+
+    if (settings.movingAverageHours) {
+      const result = await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `SELECT AVG(price_aud) AS moving_average FROM btc_price_snapshots
+         WHERE recorded_at >= NOW() - ($1 || ' hours')::INTERVAL`,
+        [settings.movingAverageHours]
+      );
+      stats.movingAverage = result[0]?.moving_average ? parseFloat(result[0].moving_average) : undefined;
+    }
+
+    if (settings.drawdownPercent) {
+      const result = await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `SELECT MAX(price_aud) AS recent_high FROM btc_price_snapshots
+         WHERE recorded_at >= NOW() - ($1 || ' hours')::INTERVAL`,
+        [settings.drawdownLookbackHours]
+      );
+      stats.recentHigh = result[0]?.recent_high ? parseFloat(result[0].recent_high) : undefined;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Claim the rule's pending pool and buy it. Anything the tier limits hold back is
+   * re-queued with its original queue time so the maximum wait still applies.
+   * The claim carries the purchase's schedule reference, so a claim left behind by a
+   * failed run can be settled against the purchase it made or returned to the pool.
+   */
+  private async convertPool(
+    processor: TreasuryProcessor,
+    rule: MarketTimingRule,
+    evaluation: MarketTimingEvaluation
+  ): Promise<MarketTimingExecutionSummary | null> {
+    const trigger = evaluation.trigger!;
+    const claimReference = `market_timing:${rule.ruleId}:${randomUUID()}`;
+
+    const claimed = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE market_timing_pool SET status = 'processing', claim_reference = $2, buy_trigger = $3
+       WHERE treasury_rule_id = $1 AND status = 'pending'
+       RETURNING amount_aud`,
+      [rule.ruleId, claimReference, trigger]
+    );
+
+    if (claimed.length === 0) {
+      return null;
+    }
+
+    let pooledAmount = 0;
+    for (const entry of claimed) {
+      pooledAmount += parseFloat(entry.amount_aud);
+    }
+    pooledAmount = Math.round(pooledAmount * 100) / 100;
+
+    try {
+      const result = await processor.executeScheduledPurchase({
+        scheduleReference: claimReference,
+        amountAUD: pooledAmount,
+        minimumPurchase: rule.minimumPurchase,
+        maximumPurchase: rule.maximumPurchase,
+        withdrawalAddress: rule.withdrawalAddress,
+        ruleVersionId: rule.versionId,
+        execution: rule.execution
+      });
+
+      if (!result.executed) {
+        await this.releaseClaim(claimReference);
+        console.log(`Market-timing rule ${rule.ruleId} ${trigger} trigger deferred: ${result.reason}`);
+        return { ruleId: rule.ruleId, trigger, status: 'deferred', amountAUD: 0, reason: result.reason };
+      }
+
+      await this.settleClaim(claimReference, result.bitcoinPurchaseId!, result.amountAUD);
+
+      console.log(`Market-timing rule ${rule.ruleId} bought $${result.amountAUD} on ${trigger} trigger: ${evaluation.reason}`);
+
+      return {
+        ruleId: rule.ruleId,
+        trigger,
+        status: 'converted',
+        amountAUD: result.amountAUD,
+        bitcoinPurchaseId: result.bitcoinPurchaseId,
+        reason: `${evaluation.reason}; ${result.reason}`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Market-timing purchase failed for rule ${rule.ruleId}:`, error);
+
+      // The purchase may have gone through before the failure
+      await this.recoverClaim(claimReference);
+
+      return { ruleId: rule.ruleId, trigger, status: 'failed', amountAUD: 0, reason: message };
+    }
+  }
+
+  /**
+   * Mark the claimed pool converted and re-queue whatever the purchase did not cover,
+   * in one transaction so the pool is never left half-settled
+   */
+  private async settleClaim(claimReference: string, bitcoinPurchaseId: string, purchasedAUD: number): Promise<void> {
+    const client = await tenantSchemaManager.getTenantClient(this.tenantId);
+
+    try {
+      await client.query('BEGIN');
+
+      const claimed = await client.query(
+        `UPDATE market_timing_pool SET status = 'converted', bitcoin_purchase_id = $2, converted_at = NOW()
+         WHERE claim_reference = $1 AND status = 'processing'
+         RETURNING treasury_rule_id, amount_aud, queued_at`,
+        [claimReference, bitcoinPurchaseId]
+      );
+
+      if (claimed.rows.length > 0) {
+        let pooledAmount = 0;
+        let oldestQueuedAt = new Date(claimed.rows[0].queued_at);
+
+        for (const entry of claimed.rows) {
+          pooledAmount += parseFloat(entry.amount_aud);
+          const queuedAt = new Date(entry.queued_at);
+          if (queuedAt < oldestQueuedAt) {
+            oldestQueuedAt = queuedAt;
+          }
+        }
+
+        const remainder = Math.round((pooledAmount - purchasedAUD) * 100) / 100;
+        if (remainder > 0) {
+          await client.query(
+            `INSERT INTO market_timing_pool (treasury_rule_id, amount_aud, queued_at) VALUES ($1, $2, $3)`,
+            [claimed.rows[0].treasury_rule_id, remainder, oldestQueuedAt]
+          );
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  private async releaseClaim(claimReference: string): Promise<void> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE market_timing_pool SET status = 'pending', claim_reference = NULL, buy_trigger = NULL
+       WHERE claim_reference = $1 AND status = 'processing'`,
+      [claimReference]
+    );
+  }
+
+  /**
+   * Settle a claim against the purchase recorded under its reference, or return it to the pool
+   * if no purchase was made. Returns whether the claim was settled.
+   */
+  private async recoverClaim(claimReference: string): Promise<boolean> {
+    const purchases = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id, amount_aud FROM bitcoin_purchases
+       WHERE schedule_reference = $1 AND status NOT IN ('failed', 'cancelled')`,
+      [claimReference]
+    );
+
+    if (purchases.length > 0) {
+      await this.settleClaim(claimReference, purchases[0].id, parseFloat(purchases[0].amount_aud));
+      return true;
+    }
+
+    await this.releaseClaim(claimReference);
+    return false;
+  }
+
+  /**
+   * Recover pool claims left 'processing' by a run that stopped part-way
+   */
+  private async recoverStaleClaims(): Promise<void> {
+    const stale = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT DISTINCT claim_reference FROM market_timing_pool
+       WHERE status = 'processing' AND updated_at < NOW() - make_interval(mins => $1)`,
+      [STALE_CLAIM_MINUTES]
+    );
+
+    for (const row of stale) {
+      if (!row.claim_reference) {
+        continue;
+      }
+
+      const settled = await this.recoverClaim(row.claim_reference);
+      console.log(`Recovered stale market-timing claim ${row.claim_reference}: ${settled ? 'settled against its purchase' : 'returned to the pool'}`);
+    }
+  }
+}
+
+/**
+ * Read market-timing settings from the rule's settings JSON, applying defaults
+ */
+export function parseMarketTimingSettings(settings: Record<string, unknown>): MarketTimingSettings {
+  const positive = (value: unknown): number | undefined => Number(value) > 0 ? Number(value) : undefined;
+
+  return {
+    buyBelowPrice: positive(settings.buyBelowPrice),
+    movingAverageHours: positive(settings.movingAverageHours),
+    movingAverageDiscountPercent: positive(settings.movingAverageDiscountPercent) || 0,
+    drawdownPercent: positive(settings.drawdownPercent),
+    drawdownLookbackHours: positive(settings.drawdownLookbackHours) || DEFAULT_DRAWDOWN_LOOKBACK_HOURS,
+    maxWaitHours: positive(settings.maxWaitHours) || DEFAULT_MAX_WAIT_HOURS
+  };
+}
+
+/**
+ * Decide whether pooled AUD should be bought now. Price triggers are checked first so
+ * the reported trigger reflects the dip; the maximum wait is the fallback.
+ */
+export function evaluateMarketTimingTriggers(
+  stats: MarketTimingPriceStats,
+  settings: MarketTimingSettings,
+  oldestQueuedAt: Date,
+  now: Date = new Date()
+): MarketTimingEvaluation {
+  const price = stats.currentPrice;
+
+  if (settings.buyBelowPrice && price <= settings.buyBelowPrice) {
+    return { trigger: 'price_band', reason: `Price $${price} at or below band $${settings.buyBelowPrice}` };
+  }
+
+  if (settings.movingAverageHours && stats.movingAverage) {
+    const threshold = stats.movingAverage * (1 - settings.movingAverageDiscountPercent / 100);
+    if (price <= threshold) {
+      return {
+        trigger: 'moving_average',
+        reason: `Price $${price} is ${settings.movingAverageDiscountPercent}%+ below ${settings.movingAverageHours}h moving average $${stats.movingAverage.toFixed(2)}`
+      };
+    }
+  }
+
+  if (settings.drawdownPercent && stats.recentHigh) {
+    const drawdown = (stats.recentHigh - price) / stats.recentHigh * 100;
+    if (drawdown >= settings.drawdownPercent) {
+      return {
+        trigger: 'drawdown',
+        reason: `Price $${price} is ${drawdown.toFixed(2)}% below ${settings.drawdownLookbackHours}h high $${stats.recentHigh}`
+      };
+    }
+  }
+
+  const waitedHours = (now.getTime() - oldestQueuedAt.getTime()) / (60 * 60 * 1000);
+  if (waitedHours >= settings.maxWaitHours) {
+    return {
+      trigger: 'max_wait',
+      reason: `Pooled funds waited ${Math.floor(waitedHours)}h (maximum ${settings.maxWaitHours}h) - buying at $${price}`
+    };
+  }
+
+  return { trigger: null, reason: `No buy trigger at $${price}` };
+}
+
+// Process-wide monitor
+
+/**
+ * Market-timing cron job. Each tick also records the price history
+ * used by the moving-average and drawdown triggers.
+ */
+export const marketTimingJob = new TenantJob({
+  name: 'Market-timing monitor',
+  cronEnvVar: 'MARKET_TIMING_CRON',
+  defaultCron: '*/5 * * * *',
+  runForTenant: async tenantId => {
+    await new MarketTimingEngine(tenantId).runPendingPools();
+  }
+});
@@ -0,0 +1,237 @@
+// LIQUID ABT - Smart Order Routing
+// Quotes a purchase on every connected exchange and sends it to the venue that delivers the
+// most Bitcoin for the AUD, after visible ask depth, taker fees and (for purchases that will be
+// withdrawn) the venue's withdrawal fee. Optionally splits across venues when that beats the
+// best single venue. Decisions keep every quote, including the rejected ones.
+
+import { ExchangeProvider, ExchangeProviderType, OrderBook } from '@/lib/integrations/exchanges/interface';
+import { ORDER_BOOK_PAIR, RoutingSettings, estimateBuySlippage } from './execution-algorithms';
+
+export interface VenueQuote {
+  venue: ExchangeProviderType;
+  bestAsk: number;
+  averagePrice: number;     // Volume-weighted price to fill the amount from the visible book
+  fillableAUD: number;      // AUD the visible asks can absorb
+  takerFeePercent: number;
+  withdrawalFeeBTC: number; // Zero when the purchase is not withdrawn
+  deliveredBTC: number;     // Bitcoin delivered for the whole amount after all fees
+  allInPrice: number;       // AUD per delivered BTC
+  rejectedReason?: string;  // Why the venue was not selected
+  error?: string;           // The venue could not be quoted
+}
+
+export interface RoutingLeg {
+  venue: ExchangeProviderType;
+  amountAUD: number;
+  expectedBTC: number;
+  allInPrice: number;
+}
+
+/**
+ * Stored with the purchase (bitcoin_purchases.routing_decision) as best-execution evidence
+ */
+export interface RoutingDecision {
+  decidedAt: string;
+  amountAUD: number;
+  includesWithdrawal: boolean;
+  split: boolean;
+  legs: RoutingLeg[];
+  expectedBTC: number;
+  allInPrice: number;
+  quotes: VenueQuote[];
+}
+
+interface VenueMarket {
+  venue: ExchangeProviderType;
+  orderBook: OrderBook;
+  takerFeePercent: number;
+  withdrawalFeeBTC: number;
+}
+
+export class OrderRouter {
+  private providers: ExchangeProvider[];
+
+  constructor(providers: ExchangeProvider[]) {
+    this.providers = providers;
+  }
+
+  /**
+   * Choose the venue (or venues) for a purchase of amountAUD
+   */
+  async route(amountAUD: number, settings: RoutingSettings, includesWithdrawal: boolean): Promise<RoutingDecision> {
+    const loaded = await Promise.all(this.providers.map(provider => this.loadMarket(provider, includesWithdrawal)));
+    const markets = loaded.filter((market): market is VenueMarket => !('error' in market));
+    const quotes: VenueQuote[] = loaded.map(market => 'error' in market
+      ? { ...emptyQuote(market.venue), error: market.error, rejectedReason: 'Venue could not be quoted' }
+      : quoteVenue(market, amountAUD));
+
+    const candidates = quotes
+      .filter(quote => !quote.error && quote.deliveredBTC > 0)
+      .sort((a, b) => Number(coversAmount(b, amountAUD)) - Number(coversAmount(a, amountAUD)) || b.deliveredBTC - a.deliveredBTC);
+
+    if (candidates.length === 0) {
+      throw new Error(`No exchange could quote a $${amountAUD} purchase: ${quotes.map(q => `${q.venue} (${q.error || 'no liquidity'})`).join(', ')}`);
+    }
+
+    const best = candidates[0];
+    let legs: RoutingLeg[] = [toLeg(best, amountAUD)];
+
+    if (settings.splitAcrossVenues && candidates.length > 1) {
+      const venues = candidates.slice(0, settings.maxVenues).map(quote => quote.venue);
+      const splitLegs = this.planSplit(markets.filter(market => venues.includes(market.venue)), amountAUD, settings, best.venue);
+      const splitBTC = splitLegs.reduce((sum, leg) => sum + leg.expectedBTC, 0);
+
+      if (splitLegs.length > 1 && splitBTC > best.deliveredBTC) {
+        legs = splitLegs;
+      }
+    }
+
+    const expectedBTC = legs.reduce((sum, leg) => sum + leg.expectedBTC, 0);
+    const selected = legs.map(leg => leg.venue);
+
+    for (const quote of quotes) {
+      if (!quote.rejectedReason && !selected.includes(quote.venue)) {
+        quote.rejectedReason = !coversAmount(quote, amountAUD)
+          ? `Visible depth covers only $${quote.fillableAUD.toFixed(2)}`
+          : `All-in $${quote.allInPrice.toFixed(2)}/BTC vs $${best.allInPrice.toFixed(2)}/BTC at ${best.venue}`;
+      }
+    }
+
+    return {
+      decidedAt: new Date().toISOString(),
+      amountAUD,
+      includesWithdrawal,
+      split: legs.length > 1,
+      legs,
+      expectedBTC: roundBTC(expectedBTC),
+      allInPrice: expectedBTC > 0 ? roundAUD(amountAUD / expectedBTC) : 0,
+      quotes
+    };
+  }
+
+  /**
+   * Fill from the cheapest fee-adjusted asks across venues, then fold legs below the minimum
+   * into the largest leg
+   */
+  private planSplit(markets: VenueMarket[], amountAUD: number, settings: RoutingSettings, fallbackVenue: ExchangeProviderType): RoutingLeg[] {
+    const levels = markets
+      .flatMap(market => market.orderBook.asks.map(([price, quantity]) => ({
+        venue: market.venue,
+        price,
+        quantity,
+        cost: price / (1 - market.takerFeePercent / 100)
+      })))
+      .sort((a, b) => a.cost - b.cost);
+
+    const allocations = new Map<ExchangeProviderType, number>();
+    let remainingAUD = amountAUD;
+
+    for (const level of levels) {
+      if (remainingAUD <= 0) {
+        break;
+      }
+
+      const levelAUD = Math.min(remainingAUD, level.price * level.quantity);
+      allocations.set(level.venue, (allocations.get(level.venue) || 0) + levelAUD);
+      remainingAUD -= levelAUD;
+    }
+
+    // Anything beyond the visible books goes to the best single venue
+    if (remainingAUD > 0) {
+      allocations.set(fallbackVenue, (allocations.get(fallbackVenue) || 0) + remainingAUD);
+    }
+
+    const sized = Array.from(allocations.entries()).sort((a, b) => b[1] - a[1]);
+    const kept = sized.filter(([, legAUD], index) => index === 0 || legAUD >= settings.minimumLegAUD);
+    const folded = sized.filter(entry => !kept.includes(entry)).reduce((sum, [, legAUD]) => sum + legAUD, 0);
+    kept[0] = [kept[0][0], kept[0][1] + folded];
+
+    // Round to cents with the largest leg absorbing the difference
+    const rounded = kept.map(([venue, legAUD]) => [venue, roundAUD(legAUD)] as [ExchangeProviderType, number]);
+    rounded[0][1] = roundAUD(amountAUD - rounded.slice(1).reduce((sum, [, legAUD]) => sum + legAUD, 0));
+
+    return rounded.map(([venue, legAUD]) => toLeg(quoteVenue(markets.find(market => market.venue === venue)!, legAUD), legAUD));
+  }
+
+  private async loadMarket(provider: ExchangeProvider, includesWithdrawal: boolean): Promise<VenueMarket | { venue: ExchangeProviderType; error: string }> {
+    try {
+      const [orderBook, tradingFees, withdrawalFees] = await Promise.all([
+        provider.getOrderBook(ORDER_BOOK_PAIR),
+        provider.getTradingFees(),
+        includesWithdrawal ? provider.getWithdrawalFees() : Promise.resolve(null)
+      ]);
+
+      return {
+        venue: provider.type,
+        orderBook,
+        takerFeePercent: tradingFees.taker,
+        withdrawalFeeBTC: withdrawalFees?.btc.fixed || 0
+      };
+    } catch (error) {
+      console.warn(`Order routing could not quote ${provider.type}:`, error);
+      return { venue: provider.type, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
+
+/**
+ * All-in cost of buying amountAUD on one venue
+ */
+function quoteVenue(market: VenueMarket, amountAUD: number): VenueQuote {
+  const estimate = estimateBuySlippage(market.orderBook, amountAUD);
+
+  // Depth beyond the visible book is assumed to fill at the worst visible price
+  const unfilledAUD = Math.max(0, amountAUD - estimate.fillableAUD);
+  const worstAsk = Math.max(0, ...market.orderBook.asks.map(([price]) => price));
+  const grossBTC = (estimate.averagePrice > 0 ? estimate.fillableAUD / estimate.averagePrice : 0) +
+    (worstAsk > 0 ? unfilledAUD / worstAsk : 0);
+  const deliveredBTC = Math.max(0, grossBTC * (1 - market.takerFeePercent / 100) - market.withdrawalFeeBTC);
+
+  return {
+    venue: market.venue,
+    bestAsk: estimate.bestAsk,
+    averagePrice: roundAUD(estimate.averagePrice),
+    fillableAUD: roundAUD(estimate.fillableAUD),
+    takerFeePercent: market.takerFeePercent,
+    withdrawalFeeBTC: market.withdrawalFeeBTC,
+    deliveredBTC: roundBTC(deliveredBTC),
+    allInPrice: deliveredBTC > 0 ? roundAUD(amountAUD / deliveredBTC) : 0
+  };
+}
+
+/**
+ * Venues whose visible depth fills the whole amount rank ahead of those that rely on unseen liquidity
+ */
+function coversAmount(quote: VenueQuote, amountAUD: number): boolean {
+  return quote.fillableAUD >= amountAUD - 0.01;
+}
+
+function toLeg(quote: VenueQuote, amountAUD: number): RoutingLeg {
+  return {
+    venue: quote.venue,
+    amountAUD,
+    expectedBTC: quote.deliveredBTC,
+    allInPrice: quote.allInPrice
+  };
+}
+
+function emptyQuote(venue: ExchangeProviderType): VenueQuote {
+  return {
+    venue,
+    bestAsk: 0,
+    averagePrice: 0,
+    fillableAUD: 0,
+    takerFeePercent: 0,
+    withdrawalFeeBTC: 0,
+    deliveredBTC: 0,
+    allInPrice: 0
+  };
+}
+
+function roundAUD(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function roundBTC(amount: number): number {
+  return Math.round(amount * 1e8) / 1e8;
+}
@@ -0,0 +1,552 @@
+// LIQUID ABT - Payment Reconciliation
+// Proves every succeeded Stripe payment was handled as the treasury rules in force at the time
+// required: converted directly, via a conversion batch or the market-timing pool, offset
+// against a refund, declined by approvers or correctly left unconverted. Purchases no payment or
+// schedule accounts for are flagged too. Each run is written to reconciliation_logs
+// (reconciliation_type 'payment') and alerts when it crosses the critical thresholds.
+
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { createTenantNotifications } from '@/lib/notifications/tenant-notifications';
+import { TreasuryRuleConfiguration } from './rule-store';
+import { RuleEvaluationTrace } from './processor';
+import { TenantJob } from './scheduled-job';
+
+export type PaymentDiscrepancyKind = 'orphaned_payment' | 'orphaned_purchase' | 'amount_mismatch' | 'rule_mismatch';
+
+export interface PaymentDiscrepancy {
+  kind: PaymentDiscrepancyKind;
+  transactionId?: string;
+  externalId?: string;        // Stripe charge ID
+  bitcoinPurchaseId?: string;
+  expectedAUD?: number;       // Conversion the rules called for
+  actualAUD?: number;         // Conversion accounted for
+  discrepancyAUD: number;
+  ageMinutes: number;
+  occurredAt: string;
+  detail: string;
+}
+
+export interface PaymentReconciliationResult {
+  logId: string;
+  periodStart: string;
+  periodEnd: string;
+  recheckFrom?: string;       // Oldest payment still in progress; the next run checks it again
+  payments: number;
+  bitcoinPurchases: number;
+  matched: number;
+  inProgress: number;         // Conversions legitimately still under way (excluded from accuracy)
+  discrepancies: PaymentDiscrepancy[];
+  totalDiscrepancyAUD: number;
+  accuracy: number;
+  criticalIssues: number;
+  oldestOrphanAgeMinutes: number;
+  critical: boolean;          // Crossed an alert threshold
+}
+
+export interface PaymentReconciliationSettings {
+  initialLookbackHours: number;   // Period of a tenant's first run
+  settleMinutes: number;          // Payments newer than this may still be evaluating
+  stuckAfterHours: number;        // In-progress conversions older than this are orphans
+  alertCriticalIssues: number;    // Alert at this many orphans or rule mismatches
+  alertDiscrepancyAUD: number;    // ...or this much unaccounted AUD
+  alertAccuracyPercent: number;   // ...or accuracy below this
+}
+
+interface PaymentRow {
+  id: string;
+  external_id: string;
+  amount: string;
+  created_at: Date;
+  conversion_decision: { shouldConvert: boolean; amountToConvert: number; trace?: RuleEvaluationTrace | null; evaluatedAt?: string } | null;
+  purchase_ids: string[] | null;
+  purchased_aud: string | null;
+  open_purchases: string;
+  batch_purchase_ids: string[] | null;
+  batch_amount_aud: string | null;
+  open_batch_entries: string | null;
+  pooled_aud: string | null;
+  approval_status: string | null;
+  failure_message: string | null;
+  offset_aud: string | null;
+}
+
+interface RuleVersionRow {
+  id: string;
+  treasury_rule_id: string;
+  configuration: TreasuryRuleConfiguration;
+  effective_from: Date;
+  effective_to: Date | null;
+}
+
+const DEFAULT_SETTINGS: PaymentReconciliationSettings = {
+  initialLookbackHours: 24,
+  settleMinutes: 60,
+  stuckAfterHours: 24,
+  alertCriticalIssues: 1,
+  alertDiscrepancyAUD: 100,
+  alertAccuracyPercent: 99
+};
+
+// Rule types that convert individual payments
+const CONVERTING_RULE_TYPES = ['percentage', 'threshold', 'fixed_dca', 'market_timing'];
+// Cent rounding between the decision, the fills and the ledgers
+const AMOUNT_TOLERANCE_AUD = 0.01;
+
+export function getPaymentReconciliationSettings(): PaymentReconciliationSettings {
+  const positive = (value: string | undefined): number | undefined => Number(value) > 0 ? Number(value) : undefined;
+
+  return {
+    initialLookbackHours: positive(process.env.PAYMENT_RECONCILIATION_LOOKBACK_HOURS) || DEFAULT_SETTINGS.initialLookbackHours,
+    settleMinutes: positive(process.env.PAYMENT_RECONCILIATION_SETTLE_MINUTES) || DEFAULT_SETTINGS.settleMinutes,
+    stuckAfterHours: positive(process.env.PAYMENT_RECONCILIATION_STUCK_HOURS) || DEFAULT_SETTINGS.stuckAfterHours,
+    alertCriticalIssues: positive(process.env.PAYMENT_RECONCILIATION_ALERT_CRITICAL_ISSUES) || DEFAULT_SETTINGS.alertCriticalIssues,
+    alertDiscrepancyAUD: positive(process.env.PAYMENT_RECONCILIATION_ALERT_DISCREPANCY_AUD) || DEFAULT_SETTINGS.alertDiscrepancyAUD,
+    alertAccuracyPercent: positive(process.env.PAYMENT_RECONCILIATION_ALERT_ACCURACY) || DEFAULT_SETTINGS.alertAccuracyPercent
+  };
+}
+
+export class PaymentReconciler {
+  private tenantId: string;
+  private settings: PaymentReconciliationSettings;
+
+  constructor(tenantId: string, settings: PaymentReconciliationSettings = getPaymentReconciliationSettings()) {
+    this.tenantId = tenantId;
+    this.settings = settings;
+  }
+
+  /**
+   * Reconcile payments received since the last checkpoint, together with payments the last run
+   * found still in progress. Returns null when the period is empty.
+   */
+  async reconcile(now: Date = new Date()): Promise<PaymentReconciliationResult | null> {
+    const startedAt = Date.now();
+    const periodEnd = new Date(now.getTime() - this.settings.settleMinutes * 60 * 1000);
+    const checkpoint = await this.getCheckpoint();
+    const newFrom = checkpoint?.periodEnd
+      || new Date(periodEnd.getTime() - this.settings.initialLookbackHours * 60 * 60 * 1000);
+
+    if (newFrom >= periodEnd) {
+      return null;
+    }
+
+    // Conversions awaiting approval, a batch flush or a resting order are checked again until they finish
+    const periodStart = checkpoint?.recheckFrom && checkpoint.recheckFrom < newFrom ? checkpoint.recheckFrom : newFrom;
+
+    const [payments, versions] = await Promise.all([
+      this.getPayments(periodStart, periodEnd),
+      this.getRuleVersions(periodStart)
+    ]);
+
+    const discrepancies: PaymentDiscrepancy[] = [];
+    const purchaseIds = new Set<string>();
+    let matched = 0;
+    let inProgress = 0;
+    let recheckFrom: Date | undefined;
+
+    for (const payment of payments) {
+      (payment.purchase_ids || []).concat(payment.batch_purchase_ids || []).forEach(id => purchaseIds.add(id));
+
+      const found = this.checkPayment(payment, versions, now);
+      discrepancies.push(...found.discrepancies);
+
+      if (found.inProgress) {
+        inProgress++;
+        // Payments are in creation order, so the first one in progress is the oldest
+        recheckFrom = recheckFrom || new Date(payment.created_at);
+      } else if (found.discrepancies.length === 0) {
+        matched++;
+      }
+    }
+
+    // Purchases are only checked once, so orphans are not reported again by later runs
+    const orphanedPurchases = await this.findOrphanedPurchases(newFrom, periodEnd, now);
+    discrepancies.push(...orphanedPurchases);
+
+    const checked = payments.length - inProgress + orphanedPurchases.length;
+    const criticalIssues = discrepancies.filter(d => d.kind !== 'amount_mismatch').length;
+    const totalDiscrepancyAUD = roundAUD(discrepancies.reduce((sum, d) => sum + d.discrepancyAUD, 0));
+    const accuracy = checked > 0 ? Math.round((matched / checked) * 10000) / 100 : 100;
+
+    const result: Omit<PaymentReconciliationResult, 'logId'> = {
+      periodStart: periodStart.toISOString(),
+      periodEnd: periodEnd.toISOString(),
+      recheckFrom: recheckFrom?.toISOString(),
+      payments: payments.length,
+      bitcoinPurchases: purchaseIds.size + orphanedPurchases.length,
+      matched,
+      inProgress,
+      discrepancies,
+      totalDiscrepancyAUD,
+      accuracy,
+      criticalIssues,
+      oldestOrphanAgeMinutes: Math.max(0, ...discrepancies
+        .filter(d => d.kind === 'orphaned_payment' || d.kind === 'orphaned_purchase')
+        .map(d => d.ageMinutes)),
+      critical: criticalIssues >= this.settings.alertCriticalIssues ||
+        totalDiscrepancyAUD >= this.settings.alertDiscrepancyAUD ||
+        accuracy < this.settings.alertAccuracyPercent
+    };
+
+    const logId = await this.storeLog(result, Date.now() - startedAt);
+
+    if (result.critical) {
+      console.error(`Payment reconciliation ${logId} for tenant ${this.tenantId} is critical: ` +
+        `${criticalIssues} critical issues, $${totalDiscrepancyAUD} unaccounted, ${accuracy}% accurate`);
+      await this.alert(result, logId);
+    }
+
+    return { logId, ...result };
+  }
+
+  /**
+   * Compare what the rules called for with what happened to one payment
+   */
+  private checkPayment(
+    payment: PaymentRow,
+    versions: RuleVersionRow[],
+    now: Date
+  ): { discrepancies: PaymentDiscrepancy[]; inProgress: boolean } {
+    const amount = parseFloat(payment.amount);
+    const createdAt = new Date(payment.created_at);
+    const ageMinutes = Math.floor((now.getTime() - createdAt.getTime()) / 60000);
+    const decision = payment.conversion_decision;
+    const base = {
+      transactionId: payment.id,
+      externalId: payment.external_id,
+      bitcoinPurchaseId: payment.purchase_ids?.[0],
+      ageMinutes,
+      occurredAt: createdAt.toISOString()
+    };
+    const discrepancies: PaymentDiscrepancy[] = [];
+
+    if (!decision) {
+      const inForce = versions.filter(version => isInForce(version, createdAt) && convertsPayments(version.configuration));
+
+      // Without rules in force nothing was due, so nothing being recorded is correct
+      if (inForce.length > 0) {
+        discrepancies.push({
+          ...base,
+          kind: 'orphaned_payment',
+          discrepancyAUD: 0,
+          detail: payment.failure_message
+            ? `Processing failed: ${payment.failure_message}`
+            : `Never evaluated although ${inForce.length} converting rule(s) were in force`
+        });
+      }
+
+      return { discrepancies, inProgress: false };
+    }
+
+    discrepancies.push(...this.checkRuleVersions(payment, amount, decision, versions, base));
+
+    const expectedAUD = decision.shouldConvert ? decision.amountToConvert : 0;
+    const purchasedAUD = parseFloat(payment.purchased_aud || '0');
+    const offsetAUD = parseFloat(payment.offset_aud || '0');
+    // Batch fills and refunds of queued amounts are tracked by the batch ledger against the queued amount
+    const batchedAUD = parseFloat(payment.batch_amount_aud || '0');
+    const accountedAUD = roundAUD(purchasedAUD + batchedAUD + offsetAUD);
+
+    const underway = Number(payment.open_purchases) > 0 ||
+      Number(payment.open_batch_entries) > 0 ||
+      ['pending', 'approved'].includes(payment.approval_status || '');
+    const declined = ['rejected', 'expired'].includes(payment.approval_status || '');
+
+    if (underway) {
+      if (ageMinutes < this.settings.stuckAfterHours * 60) {
+        return { discrepancies, inProgress: discrepancies.length === 0 };
+      }
+
+      discrepancies.push({
+        ...base,
+        kind: 'orphaned_payment',
+        expectedAUD,
+        actualAUD: accountedAUD,
+        discrepancyAUD: roundAUD(Math.max(0, expectedAUD - accountedAUD)),
+        detail: `Conversion still in progress after ${Math.floor(ageMinutes / 60)} hours`
+      });
+    } else if (declined) {
+      // Approvers declined the conversion; nothing was due
+    } else if (expectedAUD > 0 && accountedAUD === 0) {
+      discrepancies.push({
+        ...base,
+        kind: 'orphaned_payment',
+        expectedAUD,
+        actualAUD: 0,
+        discrepancyAUD: roundAUD(expectedAUD),
+        detail: payment.failure_message
+          ? `Conversion failed: ${payment.failure_message}`
+          : payment.approval_status === 'failed' ? 'Approved conversion failed to execute' : 'No purchase for a due conversion'
+      });
+    } else if (Math.abs(expectedAUD - accountedAUD) > AMOUNT_TOLERANCE_AUD) {
+      discrepancies.push({
+        ...base,
+        kind: 'amount_mismatch',
+        expectedAUD,
+        actualAUD: accountedAUD,
+        discrepancyAUD: roundAUD(Math.abs(expectedAUD - accountedAUD)),
+        detail: `Converted $${accountedAUD} (purchases $${roundAUD(purchasedAUD)}, batched $${roundAUD(batchedAUD)}, ` +
+          `offset $${roundAUD(offsetAUD)}) for a $${expectedAUD} decision`
+      });
+    }
+
+    return { discrepancies, inProgress: false };
+  }
+
+  /**
+   * Rules that fired must be the versions in force when the payment was evaluated, and
+   * percentage-based contributions must follow from those versions' configuration
+   */
+  private checkRuleVersions(
+    payment: PaymentRow,
+    amount: number,
+    decision: NonNullable<PaymentRow['conversion_decision']>,
+    versions: RuleVersionRow[],
+    base: Pick<PaymentDiscrepancy, 'transactionId' | 'externalId' | 'bitcoinPurchaseId' | 'ageMinutes' | 'occurredAt'>
+  ): PaymentDiscrepancy[] {
+    const discrepancies: PaymentDiscrepancy[] = [];
+    const evaluatedAt = new Date(decision.trace?.evaluatedAt || decision.evaluatedAt || payment.created_at);
+
+    for (const entry of decision.trace?.rules || []) {
+      const inForce = versions.find(version => version.treasury_rule_id === entry.ruleId && isInForce(version, evaluatedAt));
+
+      if (!inForce) {
+        continue; // Rules created before versioning have no history to check against
+      }
+
+      if (entry.fired && entry.versionId && entry.versionId !== inForce.id) {
+        discrepancies.push({
+          ...base,
+          kind: 'rule_mismatch',
+          expectedAUD: entry.contribution,
+          discrepancyAUD: 0,
+          detail: `${entry.name} converted under version ${entry.versionId} but ${inForce.id} was in force`
+        });
+        continue;
+      }
+
+      const percentage = inForce.configuration.conversionPercentage;
+      const ruleExpectedAUD = percentage ? roundAUD(amount * percentage / 100) : 0;
+      // Market-timing rules queue their share in the pool instead of contributing
+      const actualAUD = entry.ruleType === 'market_timing' ? parseFloat(payment.pooled_aud || '0') : entry.contribution;
+
+      if (
+        (entry.ruleType === 'percentage' && entry.fired && !entry.limit) ||
+        (entry.ruleType === 'market_timing' && actualAUD > 0)
+      ) {
+        if (Math.abs(ruleExpectedAUD - actualAUD) > AMOUNT_TOLERANCE_AUD) {
+          discrepancies.push({
+            ...base,
+            kind: 'rule_mismatch',
+            expectedAUD: ruleExpectedAUD,
+            actualAUD: roundAUD(actualAUD),
+            discrepancyAUD: roundAUD(Math.abs(ruleExpectedAUD - actualAUD)),
+            detail: `${entry.name} version ${inForce.id} calls for ${percentage}% of $${amount}`
+          });
+        }
+      }
+    }
+
+    return discrepancies;
+  }
+
+  /**
+   * Where the last run stopped, and the oldest payment it left in progress
+   */
+  private async getCheckpoint(): Promise<{ periodEnd: Date; recheckFrom: Date | null } | null> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT period_end, recheck_from FROM reconciliation_logs
+       WHERE reconciliation_type = 'payment' AND period_end IS NOT NULL
+       ORDER BY period_end DESC LIMIT 1`,
+      []
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return {
+      periodEnd: new Date(rows[0].period_end),
+      recheckFrom: rows[0].recheck_from ? new Date(rows[0].recheck_from) : null
+    };
+  }
+
+  /**
+   * Succeeded Stripe payments in the period, with every way their conversion can have been handled.
+   * Each related table is aggregated in its own subquery so a payment is always one row.
+   */
+  private async getPayments(periodStart: Date, periodEnd: Date): Promise<PaymentRow[]> {
+    return tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT t.id, t.external_id, t.amount, t.created_at, t.conversion_decision,
+              purchase.ids AS purchase_ids, purchase.amount_aud AS purchased_aud, purchase.open AS open_purchases,
+              batched.ids AS batch_purchase_ids, entry.amount_aud AS batch_amount_aud, entry.open AS open_batch_entries,
+              pool.amount_aud AS pooled_aud, approval.status AS approval_status,
+              failure.error_message AS failure_message, offsets.amount_aud AS offset_aud
+       FROM transactions t
+       LEFT JOIN LATERAL (
+         SELECT array_agg(bp.id) AS ids, SUM(bp.amount_aud) AS amount_aud,
+                COUNT(*) FILTER (WHERE bp.status IN ('pending', 'processing')) AS open
+         FROM bitcoin_purchases bp WHERE bp.transaction_id = t.id
+       ) purchase ON true
+       LEFT JOIN LATERAL (
+         SELECT array_agg(DISTINCT a.bitcoin_purchase_id) AS ids
+         FROM conversion_batch_allocations a WHERE a.transaction_id = t.id
+       ) batched ON true
+       LEFT JOIN LATERAL (
+         SELECT SUM(e.amount_aud) AS amount_aud,
+                COUNT(*) FILTER (WHERE e.status IN ('pending', 'processing')) AS open
+         FROM conversion_batch_entries e WHERE e.transaction_id = t.id
+       ) entry ON true
+       LEFT JOIN LATERAL (
+         SELECT SUM(p.amount_aud + p.reversed_aud) AS amount_aud
+         FROM market_timing_pool p WHERE p.transaction_id = t.id
+       ) pool ON true
+       LEFT JOIN LATERAL (
+         SELECT a.status FROM approval_requests a
+         WHERE a.transaction_id = t.id AND a.request_type = 'conversion'
+         ORDER BY a.created_at DESC LIMIT 1
+       ) approval ON true
+       LEFT JOIN LATERAL (
+         SELECT f.error_message FROM processing_failures f
+         WHERE f.transaction_id = t.id AND f.is_resolved = false
+         ORDER BY f.created_at DESC LIMIT 1
+       ) failure ON true
+       LEFT JOIN LATERAL (
+         SELECT SUM((application->>'amountAUD')::numeric) AS amount_aud
+         FROM payment_reversals r, jsonb_array_elements(r.offset_applications) application
+         WHERE r.policy = 'offset' AND application->>'transactionId' = t.id::text
+       ) offsets ON true
+       WHERE t.provider = 'stripe' AND t.status = 'succeeded'
+         AND t.created_at >= $1 AND t.created_at < $2
+       ORDER BY t.created_at ASC`,
+      [periodStart, periodEnd]
+    );
+  }
+
+  /**
+   * Rule versions that could have been in force for payments since periodStart
+   */
+  private async getRuleVersions(periodStart: Date): Promise<RuleVersionRow[]> {
+    return tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id, treasury_rule_id, configuration, effective_from, effective_to
+       FROM treasury_rule_versions
+       WHERE effective_to IS NULL OR effective_to > $1`,
+      [periodStart]
+    );
+  }
+
+  /**
+   * Purchases in the period that neither a succeeded payment nor a schedule accounts for
+   */
+  private async findOrphanedPurchases(periodStart: Date, periodEnd: Date, now: Date): Promise<PaymentDiscrepancy[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT bp.id, bp.amount_aud, bp.created_at, t.id AS transaction_id, t.external_id, t.status AS payment_status
+       FROM bitcoin_purchases bp
+       LEFT JOIN transactions t ON t.id = bp.transaction_id
+       WHERE bp.created_at >= $1 AND bp.created_at < $2
+         AND ((bp.transaction_id IS NULL AND bp.schedule_reference IS NULL)
+           OR (t.provider = 'stripe' AND t.status <> 'succeeded'))`,
+      [periodStart, periodEnd]
+    );
+
+    return rows.map((row: { id: string; amount_aud: string; created_at: Date; transaction_id: string | null; external_id: string | null; payment_status: string | null }) => ({
+      kind: 'orphaned_purchase' as const,
+      transactionId: row.transaction_id || undefined,
+      externalId: row.external_id || undefined,
+      bitcoinPurchaseId: row.id,
+      actualAUD: parseFloat(row.amount_aud),
+      discrepancyAUD: roundAUD(parseFloat(row.amount_aud)),
+      ageMinutes: Math.floor((now.getTime() - new Date(row.created_at).getTime()) / 60000),
+      occurredAt: new Date(row.created_at).toISOString(),
+      detail: row.transaction_id
+        ? `Bought for a payment with status ${row.payment_status}`
+        : 'No payment or schedule recorded for this purchase'
+    }));
+  }
+
+  private async storeLog(result: Omit<PaymentReconciliationResult, 'logId'>, executionTimeMs: number): Promise<string> {
+    const count = (kind: PaymentDiscrepancyKind) => result.discrepancies.filter(d => d.kind === kind).length;
+
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `INSERT INTO reconciliation_logs (
+        tenant_id, reconciliation_type, period_start, period_end,
+        total_payments, total_bitcoin_purchases, matched_pairs, orphaned_payments, orphaned_purchases,
+        amount_mismatches, total_discrepancy_value, reconciliation_accuracy, critical_issues,
+        oldest_orphan_age_minutes, orphan_details, execution_time_ms, recheck_from, created_at
+      ) VALUES ($1, 'payment', $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW())
+      RETURNING id`,
+      [
+        this.tenantId,
+        result.periodStart,
+        result.periodEnd,
+        result.payments,
+        result.bitcoinPurchases,
+        result.matched,
+        count('orphaned_payment'),
+        count('orphaned_purchase'),
+        count('amount_mismatch') + count('rule_mismatch'),
+        result.totalDiscrepancyAUD,
+        result.accuracy,
+        result.criticalIssues,
+        result.oldestOrphanAgeMinutes,
+        result.discrepancies.length > 0 ? JSON.stringify(result.discrepancies) : null,
+        executionTimeMs,
+        result.recheckFrom ?? null
+      ]
+    );
+
+    return rows[0].id;
+  }
+
+  private async alert(result: Omit<PaymentReconciliationResult, 'logId'>, logId: string): Promise<void> {
+    try {
+      await createTenantNotifications(this.tenantId, [{
+        type: 'payment_reconciliation',
+        title: 'Payment reconciliation needs attention',
+        message: `${result.criticalIssues} critical issues and $${result.totalDiscrepancyAUD} unaccounted across ` +
+          `${result.payments} payments between ${result.periodStart} and ${result.periodEnd} (${result.accuracy}% reconciled).`,
+        priority: 'urgent',
+        metadata: {
+          reconciliationLogId: logId,
+          accuracy: result.accuracy,
+          criticalIssues: result.criticalIssues,
+          oldestOrphanAgeMinutes: result.oldestOrphanAgeMinutes
+        }
+      }]);
+    } catch (error) {
+      console.error(`Failed to raise payment reconciliation alert ${logId} for tenant ${this.tenantId}:`, error);
+    }
+  }
+}
+
+function isInForce(version: RuleVersionRow, at: Date): boolean {
+  return new Date(version.effective_from) <= at && (!version.effective_to || new Date(version.effective_to) > at);
+}
+
+function convertsPayments(configuration: TreasuryRuleConfiguration): boolean {
+  return configuration.isActive !== false && CONVERTING_RULE_TYPES.includes(configuration.ruleType);
+}
+
+function roundAUD(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Payment reconciliation cron job (daily by default)
+ */
+export const paymentReconciliationJob = new TenantJob({
+  name: 'Payment reconciliation',
+  cronEnvVar: 'PAYMENT_RECONCILIATION_CRON',
+  defaultCron: '30 1 * * *',
+  runForTenant: async tenantId => {
+    const result = await new PaymentReconciler(tenantId).reconcile();
+    if (result) {
+      console.log(`Payment reconciliation for tenant ${tenantId}: ${result.matched}/${result.payments} payments matched, ` +
+        `${result.discrepancies.length} discrepancies, ${result.accuracy}% accurate`);
+    }
+  }
+});
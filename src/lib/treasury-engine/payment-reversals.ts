@@ -0,0 +1,628 @@
+// LIQUID ABT - Refund and Chargeback Handling
+// Records refunds and chargebacks against the original transaction and, when the payment was
+// already converted, unwinds its Bitcoin according to the tenant's refund policy: sell back the
+// proportional BTC (OWNER-approved sale), offset it against later conversions, or record a liability
+
+import { Client } from 'pg';
+import { getMasterPrisma, tenantSchemaManager } from '@/lib/database/connection';
+import { recordAuditEvent } from '@/lib/audit/audit-log';
+import { NotFoundError, ValidationError } from '@/lib/errors/CustomErrors';
+import { RefundPolicy } from '@/types/database';
+import { ApprovalWorkflow, ApprovalStatus } from './approvals';
+import { BitcoinDisposal } from './disposals';
+import { ConversionBatchLedger } from './conversion-batches';
+
+export type ReversalType = 'refund' | 'chargeback';
+export type ReversalPolicy = 'none' | 'sell_back' | 'offset' | 'liability'; // 'none' when nothing had been converted
+export type ReversalStatus = 'outstanding' | 'awaiting_sale' | 'settled';
+
+export interface OffsetApplication {
+  transactionId: string; // Later payment whose conversion was reduced
+  amountAUD: number;
+  appliedAt: string;
+}
+
+export interface PaymentReversal {
+  id: string;
+  reversalType: ReversalType;
+  externalId: string;
+  provider: string;
+  transactionId: string;
+  bitcoinPurchaseId: string | null;
+  amountAUD: number;
+  convertedAUD: number;
+  bitcoinAmount: number;
+  policy: ReversalPolicy;
+  status: ReversalStatus;
+  outstandingAUD: number;
+  approvalRequestId: string | null;
+  approvalStatus: ApprovalStatus | null;
+  bitcoinDisposalId: string | null;
+  offsetApplications: OffsetApplication[];
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface NewPaymentReversal {
+  reversalType: ReversalType;
+  externalId: string;           // Provider refund or dispute ID; repeat deliveries are ignored
+  provider: string;
+  paymentExternalIds: string[]; // IDs the original payment may be stored under (e.g. charge and payment intent)
+  amount: number;               // Reversed amount, in the payment's currency
+  paymentAmount: number;        // Original payment amount, in the same currency
+  reason?: string;
+}
+
+export interface ReversalSummary {
+  outstandingLiabilityAUD: number; // Owed with no sale or offset under way
+  pendingOffsetAUD: number;        // Still to be deducted from later conversions
+  awaitingSaleAUD: number;         // Covered by sell-back sales awaiting OWNER approval
+}
+
+export interface RefundPolicyActor {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface OffsetResult {
+  appliedAUD: number;
+  reversalIds: string[];
+}
+
+// payment_reversals row as returned by pg (DECIMAL columns arrive as strings)
+interface PaymentReversalRow {
+  id: string;
+  reversal_type: ReversalType;
+  external_id: string;
+  provider: string;
+  transaction_id: string;
+  bitcoin_purchase_id: string | null;
+  amount_aud: string;
+  converted_aud: string;
+  bitcoin_amount: string;
+  policy: ReversalPolicy;
+  status: ReversalStatus;
+  outstanding_aud: string;
+  approval_request_id: string | null;
+  approval_status?: ApprovalStatus | null;
+  bitcoin_disposal_id: string | null;
+  offset_applications: OffsetApplication[] | null;
+  reason: string | null;
+  created_at: Date;
+}
+
+const POLICY_BY_TENANT_SETTING: Record<RefundPolicy, ReversalPolicy> = {
+  [RefundPolicy.SELL_BACK]: 'sell_back',
+  [RefundPolicy.OFFSET]: 'offset',
+  [RefundPolicy.RECORD_LIABILITY]: 'liability'
+};
+
+// Sell-back sales that are rejected, expire or fail leave the reversal owed as a liability
+const CLOSED_APPROVAL_STATUSES: ApprovalStatus[] = ['rejected', 'expired', 'failed'];
+
+const SELECT_REVERSALS_SQL = `
+  SELECT pr.*, ar.status AS approval_status
+  FROM payment_reversals pr
+  LEFT JOIN approval_requests ar ON ar.id = pr.approval_request_id`;
+
+export class PaymentReversals {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Record a refund or chargeback. Returns null when the original payment is not a known transaction.
+   */
+  async recordReversal(reversal: NewPaymentReversal): Promise<PaymentReversal | null> {
+    if (!(reversal.amount > 0) || !(reversal.paymentAmount > 0)) {
+      throw new ValidationError('Reversal and payment amounts must be greater than zero', 'amount', reversal.amount, { tenantId: this.tenantId });
+    }
+
+    const existing = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id FROM payment_reversals WHERE external_id = $1`,
+      [reversal.externalId]
+    );
+
+    if (existing.length > 0) {
+      return this.get(existing[0].id);
+    }
+
+    const transactions = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id, amount FROM transactions WHERE external_id = ANY($1) ORDER BY created_at ASC LIMIT 1`,
+      [reversal.paymentExternalIds]
+    );
+
+    if (transactions.length === 0) {
+      console.warn(`${reversal.reversalType} ${reversal.externalId} does not match a recorded transaction for tenant ${this.tenantId}`);
+      return null;
+    }
+
+    const transactionId: string = transactions[0].id;
+    const transactionAmount = parseFloat(transactions[0].amount);
+    const amountAUD = roundAUD(transactionAmount * Math.min(1, reversal.amount / reversal.paymentAmount));
+    const recorded = await this.insertReversal(reversal, transactionId, transactionAmount, amountAUD);
+
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      eventType: 'create',
+      resourceType: 'payment_reversal',
+      resourceId: recorded.id,
+      action: `Recorded ${reversal.reversalType} of $${amountAUD} against transaction ${transactionId}` +
+        (recorded.bitcoinPurchaseId ? ` (purchase ${recorded.bitcoinPurchaseId}, $${recorded.convertedAUD} converted, policy ${recorded.policy})` : ''),
+      newValues: recorded,
+      metadata: {
+        externalId: reversal.externalId,
+        transactionId,
+        bitcoinPurchaseId: recorded.bitcoinPurchaseId
+      },
+      complianceRelevant: true
+    });
+
+    if (recorded.policy === 'sell_back') {
+      return this.requestSellBack(recorded);
+    }
+
+    return recorded;
+  }
+
+  async list(limit = 100): Promise<PaymentReversal[]> {
+    const rows: PaymentReversalRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `${SELECT_REVERSALS_SQL} ORDER BY pr.created_at DESC LIMIT $1`,
+      [limit]
+    );
+
+    return rows.map(toReversal);
+  }
+
+  async get(reversalId: string): Promise<PaymentReversal> {
+    const rows: PaymentReversalRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `${SELECT_REVERSALS_SQL} WHERE pr.id = $1`,
+      [reversalId]
+    );
+
+    if (rows.length === 0) {
+      throw new NotFoundError('Payment reversal', reversalId, { tenantId: this.tenantId });
+    }
+
+    return toReversal(rows[0]);
+  }
+
+  async getSummary(): Promise<ReversalSummary> {
+    const rows: PaymentReversalRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `${SELECT_REVERSALS_SQL} WHERE pr.outstanding_aud > 0`,
+      []
+    );
+
+    const summary: ReversalSummary = { outstandingLiabilityAUD: 0, pendingOffsetAUD: 0, awaitingSaleAUD: 0 };
+
+    for (const reversal of rows.map(toReversal)) {
+      if (reversal.status === 'awaiting_sale') {
+        summary.awaitingSaleAUD += reversal.outstandingAUD;
+      } else if (reversal.policy === 'offset') {
+        summary.pendingOffsetAUD += reversal.outstandingAUD;
+      } else {
+        summary.outstandingLiabilityAUD += reversal.outstandingAUD;
+      }
+    }
+
+    return {
+      outstandingLiabilityAUD: roundAUD(summary.outstandingLiabilityAUD),
+      pendingOffsetAUD: roundAUD(summary.pendingOffsetAUD),
+      awaitingSaleAUD: roundAUD(summary.awaitingSaleAUD)
+    };
+  }
+
+  /**
+   * How newly recorded reversals of converted payments are unwound
+   */
+  async getPolicy(): Promise<RefundPolicy> {
+    const tenant = await getMasterPrisma().tenant.findUnique({
+      where: { id: this.tenantId },
+      select: { refundPolicy: true }
+    });
+
+    return (tenant?.refundPolicy as RefundPolicy) || RefundPolicy.RECORD_LIABILITY;
+  }
+
+  /**
+   * Change the refund policy. Reversals already recorded keep the policy they were recorded under.
+   */
+  async setPolicy(policy: unknown, actor: RefundPolicyActor): Promise<RefundPolicy> {
+    if (typeof policy !== 'string' || !(policy in POLICY_BY_TENANT_SETTING)) {
+      throw new ValidationError(
+        `Refund policy must be one of ${Object.keys(POLICY_BY_TENANT_SETTING).join(', ')}`,
+        'refundPolicy',
+        policy,
+        { tenantId: this.tenantId }
+      );
+    }
+
+    const previous = await this.getPolicy();
+
+    await getMasterPrisma().tenant.update({
+      where: { id: this.tenantId },
+      data: { refundPolicy: policy }
+    });
+
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      userId: actor.userId,
+      eventType: 'update',
+      resourceType: 'refund_policy',
+      resourceId: this.tenantId,
+      action: `Changed refund policy from ${previous} to ${policy}`,
+      oldValues: { refundPolicy: previous },
+      newValues: { refundPolicy: policy },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      complianceRelevant: true
+    });
+
+    return policy as RefundPolicy;
+  }
+
+  /**
+   * Deduct outstanding offset-policy reversals (oldest first) from a conversion about to execute
+   */
+  async applyOffsets(transactionId: string, amountAUD: number): Promise<OffsetResult> {
+    const result: OffsetResult = { appliedAUD: 0, reversalIds: [] };
+
+    const applied = await this.withTransaction(async client => {
+      const rows = await client.query(
+        `SELECT * FROM payment_reversals
+         WHERE policy = 'offset' AND outstanding_aud > 0 AND transaction_id <> $1
+         ORDER BY created_at ASC
+         FOR UPDATE`,
+        [transactionId]
+      );
+
+      const updates: Array<{ row: PaymentReversalRow; amountAUD: number }> = [];
+      let remaining = amountAUD;
+
+      for (const row of rows.rows as PaymentReversalRow[]) {
+        if (remaining <= 0) {
+          break;
+        }
+
+        const offset = roundAUD(Math.min(remaining, parseFloat(row.outstanding_aud)));
+        const outstandingAUD = roundAUD(parseFloat(row.outstanding_aud) - offset);
+        const applications = [...(row.offset_applications || []), { transactionId, amountAUD: offset, appliedAt: new Date().toISOString() }];
+
+        await client.query(
+          `UPDATE payment_reversals
+           SET outstanding_aud = $2, status = $3, offset_applications = $4, updated_at = NOW()
+           WHERE id = $1`,
+          [row.id, outstandingAUD, outstandingAUD > 0 ? 'outstanding' : 'settled', JSON.stringify(applications)]
+        );
+
+        updates.push({ row, amountAUD: offset });
+        remaining = roundAUD(remaining - offset);
+      }
+
+      return updates;
+    });
+
+    for (const { row, amountAUD: offset } of applied) {
+      result.appliedAUD = roundAUD(result.appliedAUD + offset);
+      result.reversalIds.push(row.id);
+
+      await recordAuditEvent({
+        tenantId: this.tenantId,
+        eventType: 'update',
+        resourceType: 'payment_reversal',
+        resourceId: row.id,
+        action: `Offset $${offset} of ${row.reversal_type} ${row.external_id} against the conversion for transaction ${transactionId}`,
+        metadata: {
+          transactionId: row.transaction_id,
+          bitcoinPurchaseId: row.bitcoin_purchase_id,
+          offsetTransactionId: transactionId
+        },
+        complianceRelevant: true
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Undo offsets taken for a conversion that then failed to execute
+   */
+  async releaseOffsets(transactionId: string): Promise<void> {
+    const released = await this.withTransaction(async client => {
+      const rows = await client.query(
+        `SELECT * FROM payment_reversals
+         WHERE policy = 'offset' AND offset_applications @> $1::jsonb
+         FOR UPDATE`,
+        [JSON.stringify([{ transactionId }])]
+      );
+
+      const releases: Array<{ row: PaymentReversalRow; amountAUD: number }> = [];
+
+      for (const row of rows.rows as PaymentReversalRow[]) {
+        const applications = row.offset_applications || [];
+        const amountAUD = roundAUD(applications
+          .filter(application => application.transactionId === transactionId)
+          .reduce((sum, application) => sum + application.amountAUD, 0));
+
+        await client.query(
+          `UPDATE payment_reversals
+           SET outstanding_aud = outstanding_aud + $2, status = 'outstanding', offset_applications = $3, updated_at = NOW()
+           WHERE id = $1`,
+          [row.id, amountAUD, JSON.stringify(applications.filter(application => application.transactionId !== transactionId))]
+        );
+
+        releases.push({ row, amountAUD });
+      }
+
+      return releases;
+    });
+
+    for (const { row, amountAUD } of released) {
+      await recordAuditEvent({
+        tenantId: this.tenantId,
+        eventType: 'update',
+        resourceType: 'payment_reversal',
+        resourceId: row.id,
+        action: `Released $${amountAUD} offset after the conversion for transaction ${transactionId} failed`,
+        metadata: {
+          transactionId: row.transaction_id,
+          bitcoinPurchaseId: row.bitcoin_purchase_id,
+          offsetTransactionId: transactionId
+        },
+        complianceRelevant: true
+      });
+    }
+  }
+
+  /**
+   * Settle a sell-back reversal once its approved sale has executed
+   */
+  async recordSellBack(approvalRequestId: string, disposal: BitcoinDisposal): Promise<void> {
+    const rows: PaymentReversalRow[] = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE payment_reversals
+       SET status = 'settled', outstanding_aud = 0, bitcoin_disposal_id = $2, updated_at = NOW()
+       WHERE approval_request_id = $1 AND status = 'awaiting_sale'
+       RETURNING *`,
+      [approvalRequestId, disposal.id]
+    );
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      eventType: 'update',
+      resourceType: 'payment_reversal',
+      resourceId: rows[0].id,
+      action: `Sold back ${disposal.bitcoinAmount} BTC for $${disposal.proceedsAUD} to unwind ${rows[0].reversal_type} ${rows[0].external_id}`,
+      metadata: {
+        transactionId: rows[0].transaction_id,
+        bitcoinPurchaseId: rows[0].bitcoin_purchase_id,
+        bitcoinDisposalId: disposal.id,
+        approvalRequestId
+      },
+      complianceRelevant: true
+    });
+  }
+
+  /**
+   * Insert the reversal, sized against the purchase made from the payment (or its share of batch and
+   * market-timing pool purchases). A share still queued in a conversion batch or held in the
+   * market-timing pool is simply removed from the queue.
+   * Reversals of the same payment are serialised so partial refunds never unwind more than was converted.
+   */
+  private async insertReversal(
+    reversal: NewPaymentReversal,
+    transactionId: string,
+    transactionAmount: number,
+    amountAUD: number
+  ): Promise<PaymentReversal> {
+    const policy = POLICY_BY_TENANT_SETTING[await this.getPolicy()] || 'liability';
+    const share = amountAUD / transactionAmount;
+
+    const row = await this.withTransaction(async client => {
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`payment_reversals:${transactionId}`]);
+
+      const unqueued = await new ConversionBatchLedger(this.tenantId).reduceForReversal(client, transactionId, share)
+        || await this.reducePooledAmount(client, transactionId, share);
+
+      if (unqueued && unqueued.removedAUD > 0) {
+        console.log(`Removed $${unqueued.removedAUD} of transaction ${transactionId} from its conversion queue after ${reversal.reversalType} ${reversal.externalId}`);
+      }
+
+      const purchases = await client.query(
+        `SELECT id, amount_aud, bitcoin_amount
+         FROM bitcoin_purchases
+         WHERE transaction_id = $1 AND status NOT IN ('failed', 'cancelled')
+         UNION ALL
+         SELECT (ARRAY_AGG(bitcoin_purchase_id ORDER BY created_at))[1], SUM(amount_aud), SUM(bitcoin_amount)
+         FROM conversion_batch_allocations
+         WHERE transaction_id = $1
+         HAVING COUNT(*) > 0
+         UNION ALL
+         SELECT pool.bitcoin_purchase_id,
+                bp.amount_aud * pool.amount_aud / GREATEST(bp.amount_aud, claimed.amount_aud),
+                bp.bitcoin_amount * pool.amount_aud / GREATEST(bp.amount_aud, claimed.amount_aud)
+         FROM market_timing_pool pool
+         JOIN bitcoin_purchases bp ON bp.id = pool.bitcoin_purchase_id
+         JOIN LATERAL (
+           SELECT SUM(amount_aud) AS amount_aud FROM market_timing_pool WHERE bitcoin_purchase_id = pool.bitcoin_purchase_id
+         ) claimed ON true
+         WHERE pool.transaction_id = $1 AND pool.status = 'converted'`,
+        [transactionId]
+      );
+
+      const reversed = await client.query(
+        `SELECT COALESCE(SUM(converted_aud), 0) AS reversed_aud FROM payment_reversals WHERE transaction_id = $1`,
+        [transactionId]
+      );
+
+      const purchase = purchases.rows[0];
+      let convertedAUD = 0;
+      let bitcoinAmount = 0;
+
+      if (purchase) {
+        const purchaseAUD = parseFloat(purchase.amount_aud);
+        convertedAUD = roundAUD(Math.min(purchaseAUD * share, purchaseAUD - parseFloat(reversed.rows[0].reversed_aud)));
+
+        if (unqueued) {
+          convertedAUD = Math.min(convertedAUD, roundAUD(unqueued.entryAmountAUD * share - unqueued.removedAUD));
+        }
+
+        bitcoinAmount = convertedAUD > 0 ? Math.floor(parseFloat(purchase.bitcoin_amount) * (convertedAUD / purchaseAUD) * 1e8) / 1e8 : 0;
+      }
+
+      const reversalPolicy: ReversalPolicy = convertedAUD > 0 ? policy : 'none';
+      const status: ReversalStatus = reversalPolicy === 'none' ? 'settled' : reversalPolicy === 'sell_back' ? 'awaiting_sale' : 'outstanding';
+
+      const inserted = await client.query(
+        `INSERT INTO payment_reversals (
+          reversal_type, external_id, provider, transaction_id, bitcoin_purchase_id, amount_aud,
+          converted_aud, bitcoin_amount, policy, status, outstanding_aud, reason
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *`,
+        [
+          reversal.reversalType,
+          reversal.externalId,
+          reversal.provider,
+          transactionId,
+          purchase?.id || null,
+          amountAUD,
+          Math.max(0, convertedAUD),
+          bitcoinAmount,
+          reversalPolicy,
+          status,
+          Math.max(0, convertedAUD),
+          reversal.reason || null
+        ]
+      );
+
+      return inserted.rows[0] as PaymentReversalRow;
+    });
+
+    return toReversal(row);
+  }
+
+  /**
+   * Take a refunded or charged-back share of the payment out of the market-timing pool while it
+   * still waits for a buy trigger. Returns the AUD removed and the amount originally pooled.
+   */
+  private async reducePooledAmount(client: Client, transactionId: string, reversedShare: number): Promise<{ removedAUD: number; entryAmountAUD: number } | null> {
+    const rows = await client.query(
+      `SELECT id, amount_aud, reversed_aud, status FROM market_timing_pool WHERE transaction_id = $1 FOR UPDATE`,
+      [transactionId]
+    );
+
+    const entry = rows.rows[0];
+    if (!entry) {
+      return null;
+    }
+
+    const pooledAUD = parseFloat(entry.amount_aud);
+    const entryAmountAUD = roundAUD(pooledAUD + parseFloat(entry.reversed_aud));
+
+    if (entry.status !== 'pending') {
+      return { removedAUD: 0, entryAmountAUD };
+    }
+
+    const removedAUD = roundAUD(Math.min(pooledAUD, entryAmountAUD * reversedShare));
+    const remainingAUD = Math.max(0, roundAUD(pooledAUD - removedAUD));
+
+    await client.query(
+      `UPDATE market_timing_pool
+       SET amount_aud = $2, reversed_aud = reversed_aud + $3,
+           status = CASE WHEN $2 > 0 THEN status ELSE 'cancelled' END, updated_at = NOW()
+       WHERE id = $1`,
+      [entry.id, remainingAUD, removedAUD]
+    );
+
+    return { removedAUD, entryAmountAUD };
+  }
+
+  /**
+   * Raise an OWNER sale approval for the Bitcoin bought with the reversed share of the payment
+   */
+  private async requestSellBack(reversal: PaymentReversal): Promise<PaymentReversal> {
+    if (reversal.bitcoinAmount <= 0) {
+      return reversal;
+    }
+
+    const approval = await new ApprovalWorkflow(this.tenantId).requestApproval({
+      requestType: 'sale',
+      bitcoinPurchaseId: reversal.bitcoinPurchaseId || undefined,
+      amountAUD: reversal.convertedAUD,
+      bitcoinAmount: reversal.bitcoinAmount,
+      details: {
+        trigger: 'refund',
+        paymentReversalId: reversal.id,
+        transactionId: reversal.transactionId
+      },
+      reason: `Sell back ${reversal.bitcoinAmount} BTC bought with $${reversal.convertedAUD} of a payment that was ` +
+        (reversal.reversalType === 'refund' ? 'refunded' : 'charged back')
+    });
+
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE payment_reversals SET approval_request_id = $2, updated_at = NOW() WHERE id = $1`,
+      [reversal.id, approval.id]
+    );
+
+    return this.get(reversal.id);
+  }
+
+  private async withTransaction<T>(work: (client: Client) => Promise<T>): Promise<T> {
+    const client = await tenantSchemaManager.getTenantClient(this.tenantId);
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+}
+
+function toReversal(row: PaymentReversalRow): PaymentReversal {
+  const approvalStatus = row.approval_status || null;
+  const saleClosed = row.status === 'awaiting_sale' && approvalStatus !== null && CLOSED_APPROVAL_STATUSES.includes(approvalStatus);
+
+  return {
+    id: row.id,
+    reversalType: row.reversal_type,
+    externalId: row.external_id,
+    provider: row.provider,
+    transactionId: row.transaction_id,
+    bitcoinPurchaseId: row.bitcoin_purchase_id,
+    amountAUD: parseFloat(row.amount_aud),
+    convertedAUD: parseFloat(row.converted_aud),
+    bitcoinAmount: parseFloat(row.bitcoin_amount),
+    policy: row.policy,
+    status: saleClosed ? 'outstanding' : row.status,
+    outstandingAUD: parseFloat(row.outstanding_aud),
+    approvalRequestId: row.approval_request_id,
+    approvalStatus,
+    bitcoinDisposalId: row.bitcoin_disposal_id,
+    offsetApplications: row.offset_applications || [],
+    reason: row.reason,
+    createdAt: new Date(row.created_at).toISOString()
+  };
+}
+
+function roundAUD(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -1,22 +1,39 @@
 // LIQUID ABT - Treasury Processing Engine
 
 import { tenantSchemaManager } from '@/lib/database/connection';
-import { ExchangeProviderFactory, ExchangeProvider, MarketOrderRequest, WithdrawalRequest } from '@/lib/integrations/exchanges/interface';
+import { ExchangeProviderFactory, ExchangeProvider, MarketOrderRequest, MarketPrice, OrderFee, OrderResult, WithdrawalRequest } from '@/lib/integrations/exchanges/interface';
 import { ExchangeProviderType } from '@/lib/integrations/exchanges/interface';
-import { getExchangeService } from '@/lib/integrations/exchanges/exchange-factory';
+import { ConversionLimit, ConversionLimitCode, TierLimits, loadTenantTierLimits } from './tier-limits';
+import { ApprovalRequest, ApprovalWorkflow } from './approvals';
+import { TreasuryDisposals } from './disposals';
+import { CashObligationStore } from './cash-obligations';
+import { PaymentReversals } from './payment-reversals';
+import { BatchEntry, BatchingSettings, ConversionBatchLedger, parseBatchingSettings } from './conversion-batches';
+import { ChildOrderFill, ExecutionEngine, ExecutionSettings, ParentOrderRecord, feesToAUD, isCompletedPurchaseStatus, isOpenEndedExecution, parseExecutionSettings, parseRoutingSettings, toParentOrderRecord } from './execution-algorithms';
+import { OrderRouter, RoutingDecision } from './order-routing';
+import { ReferencePrice, createPriceOracle } from '@/lib/services/price-oracle';
+import { marketCircuitBreaker } from './market-circuit-breaker';
 
 export class TreasuryProcessor {
   private tenantId: string;
   private exchangeProvider?: ExchangeProvider;
+  private venueProviders = new Map<ExchangeProviderType, ExchangeProvider>();
+  private tierLimits?: TierLimits;
+  private evaluationContext?: RuleEvaluationContext;
 
-  constructor(tenantId: string) {
+  /**
+   * @param evaluationContext Replaces the tenant database as the source of balances, volumes
+   * and tier limits during rule evaluation (used by the simulator)
+   */
+  constructor(tenantId: string, evaluationContext?: RuleEvaluationContext) {
     this.tenantId = tenantId;
+    this.evaluationContext = evaluationContext;
   }
 
   /**
    * Process a transaction according to tenant's treasury rules
    */
-  async processTransaction(transaction: any): Promise<{ bitcoinPurchaseId?: string } | null> {
+  async processTransaction(transaction: any): Promise<{ bitcoinPurchaseId?: string; approvalRequestId?: string; batchEntryId?: string } | null> {
     try {
       // Check if this transaction has already been processed (idempotency check)
       const existingPurchase = await tenantSchemaManager.queryTenantSchema(
@@ -30,63 +47,66 @@ export class TreasuryProcessor {
         return { bitcoinPurchaseId: existingPurchase[0].id };
       }
 
-      // Get tenant's treasury rules
+      const batchLedger = new ConversionBatchLedger(this.tenantId);
+      const existingBatchEntry = await batchLedger.getForTransaction(transaction.id);
+
+      if (existingBatchEntry) {
+        console.log(`Transaction ${transaction.id} already queued in conversion batch entry ${existingBatchEntry.id}`);
+        return { batchEntryId: existingBatchEntry.id };
+      }
+
+      // Get tenant's active treasury rules in priority order
       const treasuryRules = await this.getTreasuryRules();
       
-      if (!treasuryRules || !treasuryRules.isActive) {
+      if (treasuryRules.length === 0) {
         console.log(`No active treasury rules for tenant ${this.tenantId}`);
         return null;
       }
 
       // Check if transaction meets conversion criteria
       const conversionDecision = await this.evaluateConversionRules(transaction, treasuryRules);
+      await this.recordConversionDecision(transaction.id, conversionDecision);
       
       if (!conversionDecision.shouldConvert) {
-        console.log(`Transaction ${transaction.id} does not meet conversion criteria`);
+        console.log(`Transaction ${transaction.id} does not meet conversion criteria: ${conversionDecision.reason}`);
         return null;
       }
 
-      // Initialize exchange provider
-      await this.initializeExchangeProvider();
-      
-      if (!this.exchangeProvider) {
-        throw new Error('Exchange provider not available');
-      }
+      // Highest-priority rule that fired wins the withdrawal address and execution algorithm
+      const withdrawalAddress = this.getWithdrawalAddress(treasuryRules, conversionDecision.trace);
+      const execution = this.getExecutionSettings(treasuryRules, conversionDecision.trace);
 
-      // Execute Bitcoin purchase
-      const purchaseResult = await this.executeBitcoinPurchase(
-        conversionDecision.amountToConvert,
-        transaction
-      );
+      // Dual control: conversions above the tenant's threshold wait for OWNER/ADMIN approval
+      const approvals = new ApprovalWorkflow(this.tenantId);
+      if (await approvals.requiresConversionApproval(conversionDecision.amountToConvert)) {
+        const approval = await approvals.requestApproval({
+          requestType: 'conversion',
+          transactionId: transaction.id,
+          amountAUD: conversionDecision.amountToConvert,
+          destinationAddress: withdrawalAddress,
+          details: { evaluationTrace: conversionDecision.trace, execution },
+          reason: `Conversion of $${conversionDecision.amountToConvert} exceeds the approval threshold`
+        });
 
-      // Store the purchase record
-      const bitcoinPurchaseId = await this.storeBitcoinPurchase({
-        transactionId: transaction.id,
-        amountAUD: conversionDecision.amountToConvert,
-        bitcoinAmount: purchaseResult.filledAmount || purchaseResult.amount,
-        price: purchaseResult.averagePrice || 0,
-        orderId: purchaseResult.orderId,
-        exchangeProvider: this.exchangeProvider.type,
-        status: purchaseResult.status,
-        fees: purchaseResult.fees,
-        rawData: purchaseResult.rawData
-      });
+        console.log(`Transaction ${transaction.id} conversion held for approval ${approval.id}`);
+        return { approvalRequestId: approval.id };
+      }
 
-      // If customer has a withdrawal address, auto-withdraw Bitcoin
-      if (treasuryRules.withdrawalAddress && purchaseResult.status === 'filled') {
-        try {
-          await this.withdrawBitcoinToCustomer(
-            purchaseResult.filledAmount || purchaseResult.amount,
-            treasuryRules.withdrawalAddress,
-            bitcoinPurchaseId
-          );
-        } catch (error) {
-          console.error(`Failed to auto-withdraw Bitcoin for purchase ${bitcoinPurchaseId}:`, error);
-          // Don't throw - purchase was successful, withdrawal can be retried
-        }
+      // Batched rules accrue small conversions and buy them together (see conversion-batcher.ts)
+      const batching = this.getBatchingSettings(treasuryRules, conversionDecision.trace);
+      if (batching) {
+        return this.queueBatchedConversion(batchLedger, transaction.id, conversionDecision, batching, withdrawalAddress, execution);
       }
 
-      return { bitcoinPurchaseId };
+      const bitcoinPurchaseId = await this.executeConversion(
+        transaction.id,
+        conversionDecision.amountToConvert,
+        conversionDecision.trace,
+        withdrawalAddress,
+        execution
+      );
+
+      return bitcoinPurchaseId ? { bitcoinPurchaseId } : null;
 
     } catch (error) {
       console.error(`Treasury processing error for transaction ${transaction.id}:`, error);
@@ -99,81 +119,523 @@ export class TreasuryProcessor {
   }
 
   /**
-   * Get tenant's treasury rules from database
+   * Buy Bitcoin for a transaction's conversion, record it and auto-withdraw if configured.
+   * Refunds under the offset policy are deducted first; returns null when they absorb the whole conversion.
+   */
+  private async executeConversion(
+    transactionId: string,
+    requestedAUD: number,
+    evaluationTrace: RuleEvaluationTrace | undefined,
+    withdrawalAddress: string | undefined,
+    execution?: ExecutionSettings
+  ): Promise<string | null> {
+    // Initialize exchange provider
+    await this.initializeExchangeProvider();
+    
+    if (!this.exchangeProvider) {
+      throw new Error('Exchange provider not available');
+    }
+
+    const reversals = new PaymentReversals(this.tenantId);
+    const offset = await reversals.applyOffsets(transactionId, requestedAUD);
+    const amountAUD = Math.round((requestedAUD - offset.appliedAUD) * 100) / 100;
+
+    if (amountAUD <= 0) {
+      console.log(`Conversion of $${requestedAUD} for transaction ${transactionId} fully offset against refunds ${offset.reversalIds.join(', ')}`);
+      return null;
+    }
+
+    // Execute Bitcoin purchase
+    let purchaseResult: BitcoinPurchaseResult;
+    try {
+      purchaseResult = await this.executeBitcoinPurchase(
+        amountAUD,
+        `tx_${transactionId}`,
+        execution,
+        Boolean(withdrawalAddress)
+      );
+    } catch (error) {
+      if (offset.appliedAUD > 0) {
+        await reversals.releaseOffsets(transactionId);
+      }
+      throw error;
+    }
+
+    // Store the purchase record
+    const bitcoinPurchaseId = await this.storeBitcoinPurchase({
+      transactionId,
+      amountAUD: purchaseResult.filledValueAUD ?? amountAUD,
+      bitcoinAmount: purchaseResult.filledAmount ?? purchaseResult.amount,
+      price: purchaseResult.averagePrice || 0,
+      orderId: purchaseResult.orderId,
+      exchangeProvider: purchaseResult.exchangeProvider,
+      status: purchaseResult.status,
+      fees: purchaseResult.fees,
+      rawData: purchaseResult.rawData,
+      evaluationTrace,
+      ruleVersionIds: this.getFiredRuleVersionIds(evaluationTrace),
+      executionAlgorithm: purchaseResult.executionAlgorithm,
+      childOrders: purchaseResult.childOrders,
+      limitOrder: purchaseResult.limitOrder,
+      parentOrder: purchaseResult.parentOrder,
+      pendingWithdrawalAddress: purchaseResult.limitOrder || purchaseResult.parentOrder ? withdrawalAddress : undefined,
+      routingDecision: purchaseResult.routingDecision
+    });
+
+    // If customer has a withdrawal address, auto-withdraw Bitcoin
+    // (open limit and parent orders are withdrawn by their reconciler or scheduler once they complete)
+    if (withdrawalAddress && isCompletedPurchaseStatus(purchaseResult.status)) {
+      try {
+        await this.autoWithdraw(
+          purchaseResult.filledAmount ?? purchaseResult.amount,
+          withdrawalAddress,
+          bitcoinPurchaseId
+        );
+      } catch (error) {
+        console.error(`Failed to auto-withdraw Bitcoin for purchase ${bitcoinPurchaseId}:`, error);
+        // Don't throw - purchase was successful, withdrawal can be retried
+      }
+    }
+
+    return bitcoinPurchaseId;
+  }
+
+  /**
+   * Execute a conversion, withdrawal or sale once its approval request has been approved.
+   * Approved conversions are re-checked against tier and volume limits at execution time.
    */
-  private async getTreasuryRules(): Promise<TreasuryRules | null> {
+  async executeApprovedRequest(approval: ApprovalRequest): Promise<ApprovalRequest> {
+    const approvals = new ApprovalWorkflow(this.tenantId);
+
+    if (approval.status !== 'approved') {
+      return approval;
+    }
+
+    try {
+      if (approval.requestType === 'conversion') {
+        const bitcoinPurchaseId = await this.executeApprovedConversion(approval);
+        return approvals.markExecuted(approval.id, bitcoinPurchaseId || undefined);
+      }
+
+      if (approval.requestType === 'sale') {
+        const disposal = await new TreasuryDisposals(this.tenantId).executeApprovedSale(approval, await this.getExchangeProvider());
+        if (approval.details.trigger === 'refund') {
+          await new PaymentReversals(this.tenantId).recordSellBack(approval.id, disposal);
+        }
+        return approvals.markExecuted(approval.id);
+      }
+
+      if (!approval.bitcoinAmount || !approval.destinationAddress || !approval.bitcoinPurchaseId) {
+        throw new Error('Withdrawal approval is missing its amount, address or purchase');
+      }
+
+      await this.withdrawBitcoinToCustomer(approval.bitcoinAmount, approval.destinationAddress, approval.bitcoinPurchaseId);
+      return approvals.markExecuted(approval.id);
+
+    } catch (error) {
+      console.error(`Failed to execute approval request ${approval.id}:`, error);
+      return approvals.markFailed(approval.id, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async executeApprovedConversion(approval: ApprovalRequest): Promise<string | null> {
+    if (!approval.transactionId || !approval.amountAUD) {
+      throw new Error('Conversion approval is missing its transaction or amount');
+    }
+
+    const existingPurchase = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id FROM bitcoin_purchases WHERE transaction_id = $1`,
+      [approval.transactionId]
+    );
+
+    if (existingPurchase.length > 0) {
+      return existingPurchase[0].id;
+    }
+
+    const decision = await this.applyTierLimits(
+      { shouldConvert: true, amountToConvert: approval.amountAUD, reason: `Approved conversion of $${approval.amountAUD}` },
+      {}
+    );
+
+    if (!decision.shouldConvert) {
+      throw new Error(decision.reason);
+    }
+
+    return this.executeConversion(
+      approval.transactionId,
+      decision.amountToConvert,
+      approval.details.evaluationTrace as RuleEvaluationTrace | undefined,
+      approval.destinationAddress || undefined,
+      approval.details.execution as ExecutionSettings | undefined
+    );
+  }
+
+  /**
+   * Execute a scheduled purchase that is not tied to a payment (e.g. a DCA run).
+   * Idempotent on scheduleReference and subject to the same tier limits as transaction conversions.
+   */
+  async executeScheduledPurchase(request: ScheduledPurchaseRequest): Promise<ScheduledPurchaseResult> {
+    const existingPurchase = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id, amount_aud FROM bitcoin_purchases WHERE schedule_reference = $1`,
+      [request.scheduleReference]
+    );
+
+    if (existingPurchase.length > 0) {
+      console.log(`Schedule ${request.scheduleReference} already executed - returning existing Bitcoin purchase ${existingPurchase[0].id}`);
+      return {
+        executed: true,
+        bitcoinPurchaseId: existingPurchase[0].id,
+        amountAUD: parseFloat(existingPurchase[0].amount_aud),
+        reason: 'Already executed for this schedule period'
+      };
+    }
+
+    const decision = await this.evaluateScheduledPurchase(request);
+
+    if (!decision.shouldConvert) {
+      return { executed: false, amountAUD: 0, reason: decision.reason, limit: decision.limit };
+    }
+
+    await this.initializeExchangeProvider();
+
+    if (!this.exchangeProvider) {
+      throw new Error('Exchange provider not available');
+    }
+
+    const purchaseResult = await this.executeBitcoinPurchase(
+      decision.amountToConvert,
+      request.scheduleReference,
+      request.execution,
+      Boolean(request.withdrawalAddress)
+    );
+    const amountAUD = purchaseResult.filledValueAUD ?? decision.amountToConvert;
+
+    const bitcoinPurchaseId = await this.storeBitcoinPurchase({
+      scheduleReference: request.scheduleReference,
+      amountAUD,
+      bitcoinAmount: purchaseResult.filledAmount ?? purchaseResult.amount,
+      price: purchaseResult.averagePrice || 0,
+      orderId: purchaseResult.orderId,
+      exchangeProvider: purchaseResult.exchangeProvider,
+      status: purchaseResult.status,
+      fees: purchaseResult.fees,
+      rawData: purchaseResult.rawData,
+      ruleVersionIds: request.ruleVersionIds || (request.ruleVersionId ? [request.ruleVersionId] : undefined),
+      executionAlgorithm: purchaseResult.executionAlgorithm,
+      childOrders: purchaseResult.childOrders,
+      limitOrder: purchaseResult.limitOrder,
+      parentOrder: purchaseResult.parentOrder,
+      pendingWithdrawalAddress: purchaseResult.limitOrder || purchaseResult.parentOrder ? request.withdrawalAddress : undefined,
+      routingDecision: purchaseResult.routingDecision
+    });
+
+    if (request.withdrawalAddress && isCompletedPurchaseStatus(purchaseResult.status)) {
+      try {
+        await this.autoWithdraw(
+          purchaseResult.filledAmount ?? purchaseResult.amount,
+          request.withdrawalAddress,
+          bitcoinPurchaseId
+        );
+      } catch (error) {
+        console.error(`Failed to auto-withdraw Bitcoin for purchase ${bitcoinPurchaseId}:`, error);
+      }
+    }
+
+    return { executed: true, bitcoinPurchaseId, amountAUD, reason: decision.reason, limit: decision.limit };
+  }
+
+  /**
+   * Size a scheduled purchase against the rule minimum and tier limits without executing it
+   */
+  async evaluateScheduledPurchase(
+    request: Pick<ScheduledPurchaseRequest, 'amountAUD' | 'minimumPurchase' | 'maximumPurchase'>
+  ): Promise<ConversionDecision> {
+    if (request.minimumPurchase && request.amountAUD < request.minimumPurchase) {
+      return {
+        shouldConvert: false,
+        amountToConvert: 0,
+        reason: `Scheduled amount $${request.amountAUD} below minimum $${request.minimumPurchase}`
+      };
+    }
+
+    return this.applyTierLimits(
+      {
+        shouldConvert: request.amountAUD > 0,
+        amountToConvert: request.amountAUD,
+        reason: `Scheduled purchase of $${request.amountAUD}`
+      },
+      request
+    );
+  }
+
+  /**
+   * Get tenant's active treasury rules from database, highest priority first
+   */
+  private async getTreasuryRules(): Promise<TreasuryRules[]> {
     try {
       const result = await tenantSchemaManager.queryTenantSchema(
         this.tenantId,
-        `SELECT * FROM treasury_rules WHERE is_active = true ORDER BY created_at DESC LIMIT 1`,
+        `SELECT * FROM treasury_rules WHERE is_active = true ORDER BY priority ASC, created_at DESC`,
         []
       );
 
-      if (result.length === 0) {
-        return null;
+      const rules: TreasuryRules[] = [];
+
+      for (const rule of result) {
+        rules.push({
+          id: rule.id,
+          name: rule.name,
+          isActive: rule.is_active,
+          ruleType: rule.rule_type,
+          priority: rule.priority ?? 100,
+          combinationMode: rule.combination_mode || 'stack',
+          conversionPercentage: rule.conversion_percentage ? parseFloat(rule.conversion_percentage) : undefined,
+          thresholdAmount: rule.threshold_amount ? parseFloat(rule.threshold_amount) : undefined,
+          fixedAmount: rule.fixed_amount ? parseFloat(rule.fixed_amount) : undefined,
+          frequency: rule.frequency || undefined,
+          minimumPurchase: rule.minimum_purchase ? parseFloat(rule.minimum_purchase) : undefined,
+          maximumPurchase: rule.maximum_purchase ? parseFloat(rule.maximum_purchase) : undefined,
+          bufferAmount: rule.buffer_amount ? parseFloat(rule.buffer_amount) : undefined,
+          cashFloor: rule.cash_floor ? parseFloat(rule.cash_floor) : undefined,
+          withdrawalAddress: rule.withdrawal_address,
+          exchangeProvider: rule.exchange_provider || 'kraken',
+          isAutoWithdrawal: rule.is_auto_withdrawal || false,
+          settings: rule.settings || {},
+          versionId: rule.current_version_id || undefined
+        });
       }
 
-      const rules = result[0];
-      
-      return {
-        id: rules.id,
-        isActive: rules.is_active,
-        ruleType: rules.rule_type,
-        conversionPercentage: rules.conversion_percentage ? parseFloat(rules.conversion_percentage) : undefined,
-        thresholdAmount: rules.threshold_amount ? parseFloat(rules.threshold_amount) : undefined,
-        minimumPurchase: rules.minimum_purchase ? parseFloat(rules.minimum_purchase) : undefined,
-        maximumPurchase: rules.maximum_purchase ? parseFloat(rules.maximum_purchase) : undefined,
-        bufferAmount: rules.buffer_amount ? parseFloat(rules.buffer_amount) : undefined,
-        withdrawalAddress: rules.withdrawal_address,
-        exchangeProvider: rules.exchange_provider || 'kraken',
-        isAutoWithdrawal: rules.is_auto_withdrawal || false,
-        settings: rules.settings || {}
-      };
+      return rules;
     } catch (error) {
       console.error(`Failed to get treasury rules for tenant ${this.tenantId}:`, error);
-      return null;
+      return [];
     }
   }
 
   /**
-   * Evaluate whether transaction should be converted and how much
+   * Evaluate every active rule in priority order and combine their contributions.
+   * Stacking rules add to the total; a first_match rule that fires stops evaluation.
+   * Tier and volume limits are applied once to the combined amount.
    */
-  private async evaluateConversionRules(
-    transaction: any, 
-    rules: TreasuryRules
+  async evaluateConversionRules(
+    transaction: EvaluatedTransaction, 
+    rules: TreasuryRules[]
   ): Promise<ConversionDecision> {
-    const transactionAmount = transaction.amount;
+    const trace: RuleEvaluationTrace = {
+      transactionId: transaction.id,
+      transactionAmount: transaction.amount,
+      rules: [],
+      requestedAmount: 0,
+      amountToConvert: 0,
+      evaluatedAt: new Date().toISOString()
+    };
 
-    switch (rules.ruleType) {
+    for (const rule of rules) {
+      const decision = await this.evaluateRule(transaction, rule);
+      let contribution = decision.shouldConvert ? decision.amountToConvert : 0;
+      let limit: ConversionLimit | undefined = decision.limit;
+
+      // Each rule's own maximum caps only that rule's contribution
+      if (contribution > 0 && rule.maximumPurchase && contribution > rule.maximumPurchase) {
+        limit = {
+          code: 'RULE_MAXIMUM_CAP',
+          tier: (await this.getTierConversionLimits()).tier,
+          limit: rule.maximumPurchase,
+          requestedAmount: contribution,
+          allowedAmount: rule.maximumPurchase
+        };
+        contribution = rule.maximumPurchase;
+      }
+
+      trace.rules.push({
+        ruleId: rule.id,
+        versionId: rule.versionId,
+        name: rule.name,
+        ruleType: rule.ruleType,
+        priority: rule.priority,
+        combinationMode: rule.combinationMode,
+        fired: contribution > 0,
+        contribution,
+        reason: decision.reason,
+        limit
+      });
+
+      trace.requestedAmount += contribution;
+
+      if (contribution > 0 && rule.combinationMode === 'first_match') {
+        break;
+      }
+    }
+
+    const reason = trace.rules.map(entry => `${entry.name}: ${entry.reason}`).join('; ');
+
+    if (trace.requestedAmount <= 0) {
+      return { shouldConvert: false, amountToConvert: 0, reason, trace };
+    }
+
+    // Every rule type is subject to the tenant's tier and volume limits
+    const decision = await this.applyTierLimits(
+      { shouldConvert: true, amountToConvert: trace.requestedAmount, reason },
+      {}
+    );
+
+    trace.amountToConvert = decision.amountToConvert;
+    trace.limit = decision.limit;
+
+    return { ...decision, trace };
+  }
+
+  /**
+   * Evaluate a single rule against a transaction (before tier limits)
+   */
+  private async evaluateRule(transaction: EvaluatedTransaction, rule: TreasuryRules): Promise<ConversionDecision> {
+    switch (rule.ruleType) {
       case 'percentage':
-        return this.evaluatePercentageRule(transactionAmount, rules);
+        return this.evaluatePercentageRule(transaction.amount, rule);
         
       case 'threshold':
-        return await this.evaluateThresholdRule(transactionAmount, rules);
+        return this.evaluateThresholdRule(transaction.amount, rule);
         
       case 'fixed_dca':
-        return this.evaluateFixedDCARule(transactionAmount, rules);
+        return this.evaluateFixedDCARule(transaction.amount, rule);
+        
+      case 'market_timing':
+        return this.queueMarketTimingConversion(transaction, rule);
+        
+      case 'rebalance':
+        // Rebalancing is driven by portfolio allocation, not individual payments
+        return { shouldConvert: false, amountToConvert: 0, reason: 'Rebalancing rules processed by rebalancing engine' };
+        
+      case 'take_profit':
+        // Sell rules never convert payments; the take-profit monitor raises sale requests
+        return { shouldConvert: false, amountToConvert: 0, reason: 'Take-profit rules processed by take-profit monitor' };
         
       default:
         return { shouldConvert: false, amountToConvert: 0, reason: 'Unknown rule type' };
     }
   }
 
+  /**
+   * Withdrawal address of the highest-priority rule that contributed to the conversion
+   */
+  private getWithdrawalAddress(rules: TreasuryRules[], trace?: RuleEvaluationTrace): string | undefined {
+    for (const entry of trace?.rules || []) {
+      const rule = rules.find(r => r.id === entry.ruleId);
+      if (entry.fired && rule?.withdrawalAddress) {
+        return rule.withdrawalAddress;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Execution algorithm of the highest-priority rule that contributed to the conversion
+   */
+  private getExecutionSettings(rules: TreasuryRules[], trace?: RuleEvaluationTrace): ExecutionSettings | undefined {
+    for (const entry of trace?.rules || []) {
+      const rule = rules.find(r => r.id === entry.ruleId);
+      const execution = entry.fired ? parseExecutionSettings(rule?.settings.execution) : null;
+      if (execution) {
+        return execution;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Batching configuration of the highest-priority rule that contributed to the conversion
+   */
+  private getBatchingSettings(rules: TreasuryRules[], trace?: RuleEvaluationTrace): BatchingSettings | undefined {
+    for (const entry of trace?.rules || []) {
+      const rule = rules.find(r => r.id === entry.ruleId);
+      const batching = entry.fired ? parseBatchingSettings(rule?.settings.batching) : null;
+      if (batching) {
+        return batching;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Add a conversion to the batch ledger instead of buying immediately. Refunds under the
+   * offset policy are deducted here, as they would be from an immediate conversion.
+   */
+  private async queueBatchedConversion(
+    ledger: ConversionBatchLedger,
+    transactionId: string,
+    decision: ConversionDecision,
+    batching: BatchingSettings,
+    withdrawalAddress: string | undefined,
+    execution: ExecutionSettings | undefined
+  ): Promise<{ batchEntryId: string } | null> {
+    const reversals = new PaymentReversals(this.tenantId);
+    const offset = await reversals.applyOffsets(transactionId, decision.amountToConvert);
+    const amountAUD = Math.round((decision.amountToConvert - offset.appliedAUD) * 100) / 100;
+
+    if (amountAUD <= 0) {
+      console.log(`Conversion of $${decision.amountToConvert} for transaction ${transactionId} fully offset against refunds ${offset.reversalIds.join(', ')}`);
+      return null;
+    }
+
+    let entry: BatchEntry;
+    try {
+      entry = await ledger.enqueue({
+        transactionId,
+        amountAUD,
+        settings: batching,
+        withdrawalAddress,
+        execution,
+        ruleVersionIds: this.getFiredRuleVersionIds(decision.trace),
+        evaluationTrace: decision.trace
+      });
+    } catch (error) {
+      if (offset.appliedAUD > 0) {
+        await reversals.releaseOffsets(transactionId);
+      }
+      throw error;
+    }
+
+    console.log(`Transaction ${transactionId} queued $${amountAUD} for batched conversion (entry ${entry.id})`);
+    return { batchEntryId: entry.id };
+  }
+
+  /**
+   * Versions of the rules that contributed to a conversion, stamped on the purchase
+   */
+  private getFiredRuleVersionIds(trace?: RuleEvaluationTrace): string[] | undefined {
+    const versionIds: string[] = [];
+    for (const entry of trace?.rules || []) {
+      if (entry.fired && entry.versionId) {
+        versionIds.push(entry.versionId);
+      }
+    }
+    return versionIds.length > 0 ? versionIds : undefined;
+  }
+
   /**
    * Percentage-based conversion with threat model tier-based limits
    */
-  private evaluatePercentageRule(amount: number, rules: TreasuryRules): ConversionDecision {
+  private async evaluatePercentageRule(amount: number, rules: TreasuryRules): Promise<ConversionDecision> {
     const requestedPercentage = rules.conversionPercentage || 0;
     
     // Apply threat model tier-based conversion limits
-    const tierLimits = this.getTierConversionLimits();
+    const tierLimits = await this.getTierConversionLimits();
     const maxAllowedPercentage = tierLimits.maxPercentage;
     
     if (requestedPercentage > maxAllowedPercentage) {
       return {
         shouldConvert: false,
         amountToConvert: 0,
-        reason: `Conversion percentage ${requestedPercentage}% exceeds tier limit of ${maxAllowedPercentage}%`
+        reason: `Conversion percentage ${requestedPercentage}% exceeds ${tierLimits.tier} tier limit of ${maxAllowedPercentage}%`,
+        limit: {
+          code: 'TIER_PERCENTAGE_EXCEEDED',
+          tier: tierLimits.tier,
+          limit: maxAllowedPercentage,
+          requestedAmount: amount * requestedPercentage / 100,
+          allowedAmount: 0
+        }
       };
     }
     
@@ -188,116 +650,204 @@ export class TreasuryProcessor {
       };
     }
 
-    // Check tier-based maximum purchase amount
-    const maxPurchaseAmount = Math.min(
-      rules.maximumPurchase || tierLimits.maxSingleTransaction,
-      tierLimits.maxSingleTransaction
-    );
-
-    if (conversionAmount > maxPurchaseAmount) {
-      return {
-        shouldConvert: true,
-        amountToConvert: maxPurchaseAmount,
-        reason: `Capped at tier maximum purchase amount $${maxPurchaseAmount}`
-      };
-    }
-
     return {
       shouldConvert: conversionAmount > 0,
       amountToConvert: conversionAmount,
-      reason: `${requestedPercentage}% of $${amount} = $${conversionAmount} (within tier limits)`
+      reason: `${requestedPercentage}% of $${amount} = $${conversionAmount}`
     };
   }
 
   /**
-   * Get tier-based conversion limits from CLAUDE.md subscription requirements
+   * Get the tenant's subscription tier limits (loaded once per processor)
    */
-  private getTierConversionLimits(): {
-    maxPercentage: number;
-    maxSingleTransaction: number;
-    maxDailyVolume: number;
-    maxMonthlyVolume: number;
-  } {
-    // STARTER PLAN (FREE) - Corrected per CLAUDE.md specs
-    const starterLimits = {
-      maxPercentage: 5, // 5% max conversion (corrected from 10%)
-      maxSingleTransaction: 1000, // $1K max transaction
-      maxDailyVolume: 5000, // $5K daily limit
-      maxMonthlyVolume: 50000 // $50K monthly limit
-    };
+  private async getTierConversionLimits(): Promise<TierLimits> {
+    if (!this.tierLimits) {
+      this.tierLimits = this.evaluationContext
+        ? await this.evaluationContext.getTierLimits()
+        : await loadTenantTierLimits(this.tenantId);
+    }
+    return this.tierLimits;
+  }
 
-    // GROWTH PLAN ($24.99/month)
-    const growthLimits = {
-      maxPercentage: 100, // No percentage limit on Growth tier
-      maxSingleTransaction: 10000, // $10K max transaction
-      maxDailyVolume: 50000, // $50K daily limit
-      maxMonthlyVolume: 500000 // $500K monthly limit
-    };
+  /**
+   * Cap a conversion to the per-transaction, rule maximum, and rolling daily/monthly volume limits.
+   * The tightest limit wins and is recorded on the decision.
+   */
+  private async applyTierLimits(
+    decision: ConversionDecision,
+    rules: { minimumPurchase?: number; maximumPurchase?: number }
+  ): Promise<ConversionDecision> {
+    const tierLimits = await this.getTierConversionLimits();
+    const volume = await this.getRollingPurchaseVolume();
+    const requestedAmount = decision.amountToConvert;
+
+    const caps: Array<{
+      code: ConversionLimitCode;
+      exhaustedCode?: ConversionLimitCode;
+      limit: number;
+      used?: number;
+      remaining: number;
+      description: string;
+    }> = [
+      {
+        code: 'MAX_TRANSACTION_CAP',
+        limit: tierLimits.maxSingleTransaction,
+        remaining: tierLimits.maxSingleTransaction,
+        description: `${tierLimits.tier} tier maximum purchase amount`
+      },
+      {
+        code: 'DAILY_VOLUME_CAP',
+        exhaustedCode: 'DAILY_VOLUME_EXHAUSTED',
+        limit: tierLimits.maxDailyVolume,
+        used: volume.daily,
+        remaining: Math.max(0, tierLimits.maxDailyVolume - volume.daily),
+        description: `${tierLimits.tier} tier daily volume limit (24h)`
+      },
+      {
+        code: 'MONTHLY_VOLUME_CAP',
+        exhaustedCode: 'MONTHLY_VOLUME_EXHAUSTED',
+        limit: tierLimits.maxMonthlyVolume,
+        used: volume.monthly,
+        remaining: Math.max(0, tierLimits.maxMonthlyVolume - volume.monthly),
+        description: `${tierLimits.tier} tier monthly volume limit (30 days)`
+      }
+    ];
+
+    if (rules.maximumPurchase) {
+      caps.splice(1, 0, {
+        code: 'RULE_MAXIMUM_CAP',
+        limit: rules.maximumPurchase,
+        remaining: rules.maximumPurchase,
+        description: 'rule maximum purchase amount'
+      });
+    }
 
-    // PRO PLAN ($97.99/month)
-    const proLimits = {
-      maxPercentage: 100, // No percentage limit
-      maxSingleTransaction: 100000, // $100K max transaction
-      maxDailyVolume: 500000, // $500K daily limit
-      maxMonthlyVolume: 5000000 // $5M monthly limit
+    let allowedAmount = requestedAmount;
+    let bindingCap: (typeof caps)[number] | undefined;
+
+    for (const cap of caps) {
+      if (cap.remaining < allowedAmount) {
+        allowedAmount = cap.remaining;
+        bindingCap = cap;
+      }
+    }
+
+    if (!bindingCap) {
+      return { ...decision, reason: `${decision.reason} (within ${tierLimits.tier} tier limits)` };
+    }
+
+    const limit: ConversionLimit = {
+      code: bindingCap.code,
+      tier: tierLimits.tier,
+      limit: bindingCap.limit,
+      used: bindingCap.used,
+      requestedAmount,
+      allowedAmount
     };
 
-    // ENTERPRISE PLAN (Custom pricing)
-    const enterpriseLimits = {
-      maxPercentage: 100, // No limits
-      maxSingleTransaction: Number.MAX_SAFE_INTEGER,
-      maxDailyVolume: Number.MAX_SAFE_INTEGER,
-      maxMonthlyVolume: Number.MAX_SAFE_INTEGER
+    if (allowedAmount <= 0) {
+      return {
+        shouldConvert: false,
+        amountToConvert: 0,
+        reason: `${bindingCap.description} of $${bindingCap.limit} reached ($${bindingCap.used} already converted)`,
+        limit: { ...limit, code: bindingCap.exhaustedCode || bindingCap.code }
+      };
+    }
+
+    if (rules.minimumPurchase && allowedAmount < rules.minimumPurchase) {
+      return {
+        shouldConvert: false,
+        amountToConvert: 0,
+        reason: `Amount $${allowedAmount} allowed by ${bindingCap.description} is below minimum $${rules.minimumPurchase}`,
+        limit: { ...limit, code: 'BELOW_MINIMUM', allowedAmount: 0 }
+      };
+    }
+
+    return {
+      shouldConvert: true,
+      amountToConvert: allowedAmount,
+      reason: `${decision.reason} - capped at ${bindingCap.description} ($${allowedAmount} of $${requestedAmount})`,
+      limit
     };
+  }
+
+  /**
+   * Sum of AUD converted over the rolling daily (24h) and monthly (30 day) windows
+   */
+  private async getRollingPurchaseVolume(): Promise<{ daily: number; monthly: number }> {
+    if (this.evaluationContext) {
+      return this.evaluationContext.getRollingPurchaseVolume();
+    }
 
-    // TODO: Get actual subscription tier from tenant data
-    // For now, return Starter tier limits (most secure default)
-    // In production, this would query the tenant's subscription tier:
-    // const tier = await this.getTenantSubscriptionTier();
-    // switch (tier) {
-    //   case 'growth': return growthLimits;
-    //   case 'pro': return proLimits;
-    //   case 'enterprise': return enterpriseLimits;
-    //   default: return starterLimits;
-    // }
+    const result = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT
+         COALESCE(SUM(amount_aud) FILTER (WHERE created_at >= NOW() - INTERVAL '24 hours'), 0) AS daily_volume,
+         COALESCE(SUM(amount_aud), 0) AS monthly_volume
+       FROM bitcoin_purchases
+       WHERE created_at >= NOW() - INTERVAL '30 days'
+       AND status NOT IN ('failed', 'cancelled', 'rejected')`,
+      []
+    );
 
-    return starterLimits;
+    return {
+      daily: parseFloat(result[0]?.daily_volume || 0),
+      monthly: parseFloat(result[0]?.monthly_volume || 0)
+    };
   }
 
   /**
-   * Threshold-based conversion (convert when balance reaches threshold)
+   * Persist the conversion decision on the transaction so the dashboard can explain it
    */
-  private async evaluateThresholdRule(amount: number, rules: TreasuryRules): Promise<ConversionDecision> {
+  private async recordConversionDecision(transactionId: string, decision: ConversionDecision): Promise<void> {
     try {
-      // Get current tenant balance (sum of unconverted transactions)
-      const balanceResult = await tenantSchemaManager.queryTenantSchema(
+      await tenantSchemaManager.queryTenantSchema(
         this.tenantId,
-        `SELECT COALESCE(SUM(amount), 0) as total_balance 
-         FROM transactions 
-         WHERE should_convert = true 
-         AND status = 'succeeded'
-         AND NOT EXISTS (
-           SELECT 1 FROM bitcoin_purchases 
-           WHERE bitcoin_purchases.transaction_id = transactions.id
-         )`,
-        []
+        `UPDATE transactions SET conversion_decision = $2 WHERE id = $1`,
+        [
+          transactionId,
+          JSON.stringify({
+            shouldConvert: decision.shouldConvert,
+            amountToConvert: decision.amountToConvert,
+            reason: decision.reason,
+            limit: decision.limit || null,
+            trace: decision.trace || null,
+            evaluatedAt: new Date().toISOString()
+          })
+        ]
       );
+    } catch (error) {
+      console.error(`Failed to record conversion decision for transaction ${transactionId}:`, error);
+    }
+  }
 
-      const currentBalance = parseFloat(balanceResult[0]?.total_balance || 0);
+  /**
+   * Threshold-based conversion (convert when balance reaches threshold)
+   */
+  private async evaluateThresholdRule(amount: number, rules: TreasuryRules): Promise<ConversionDecision> {
+    try {
+      const currentBalance = await this.getUnconvertedBalance();
       const newBalance = currentBalance + amount;
 
       // Check if new balance exceeds threshold
       if (newBalance >= (rules.thresholdAmount || 0)) {
-        // Convert the full accumulated amount minus buffer
-        const conversionAmount = newBalance - (rules.bufferAmount || 0);
+        // Convert the full accumulated amount minus the cash floor
+        const cashFloor = await this.getCashFloor(rules);
+        const conversionAmount = newBalance - cashFloor.amount;
         
         if (conversionAmount > 0) {
           return {
             shouldConvert: true,
             amountToConvert: conversionAmount,
-            reason: `Balance $${newBalance} exceeds threshold $${rules.thresholdAmount}`
+            reason: `Balance $${newBalance} exceeds threshold $${rules.thresholdAmount}${cashFloor.amount > 0 ? `; keeping ${cashFloor.reason}` : ''}`
           };
         }
+
+        return {
+          shouldConvert: false,
+          amountToConvert: 0,
+          reason: `Balance $${newBalance} does not exceed ${cashFloor.reason}`
+        };
       }
 
       return {
@@ -315,6 +865,75 @@ export class TreasuryProcessor {
     }
   }
 
+  /**
+   * Cash to keep unconverted: the rule's cashFloor plus obligations due within
+   * settings.obligationHorizonDays, or the static bufferAmount if that is larger
+   */
+  private async getCashFloor(rule: TreasuryRules): Promise<{ amount: number; reason: string }> {
+    const horizonDays = Number(rule.settings.obligationHorizonDays) || 0;
+    const obligationsDue = horizonDays > 0 ? await this.getObligationsDue(horizonDays) : 0;
+    const dynamicFloor = (rule.cashFloor || 0) + obligationsDue;
+    const bufferAmount = rule.bufferAmount || 0;
+
+    if (bufferAmount >= dynamicFloor) {
+      return { amount: bufferAmount, reason: `buffer $${bufferAmount}` };
+    }
+
+    return {
+      amount: dynamicFloor,
+      reason: horizonDays > 0
+        ? `cash floor $${dynamicFloor} ($${obligationsDue} of obligations due in ${horizonDays} days${rule.cashFloor ? ` + $${rule.cashFloor} minimum` : ''})`
+        : `cash floor $${dynamicFloor}`
+    };
+  }
+
+  /**
+   * Total of the tenant's cash obligations due in the next horizonDays
+   */
+  private async getObligationsDue(horizonDays: number): Promise<number> {
+    if (this.evaluationContext) {
+      return this.evaluationContext.getObligationsDue(horizonDays);
+    }
+
+    return (await new CashObligationStore(this.tenantId).getUpcoming(horizonDays)).totalAUD;
+  }
+
+  /**
+   * Current tenant balance (sum of unconverted transactions)
+   */
+  private async getUnconvertedBalance(): Promise<number> {
+    if (this.evaluationContext) {
+      return this.evaluationContext.getUnconvertedBalance();
+    }
+
+    // Refunds and chargebacks of payments that were never converted come off the balance
+    const balanceResult = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT COALESCE(SUM(amount - COALESCE((
+                SELECT SUM(amount_aud) FROM payment_reversals
+                WHERE payment_reversals.transaction_id = transactions.id
+              ), 0)), 0) as total_balance 
+       FROM transactions 
+       WHERE should_convert = true 
+       AND status = 'succeeded'
+       AND NOT EXISTS (
+         SELECT 1 FROM bitcoin_purchases 
+         WHERE bitcoin_purchases.transaction_id = transactions.id
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM conversion_batch_entries
+         WHERE conversion_batch_entries.transaction_id = transactions.id
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM market_timing_pool
+         WHERE market_timing_pool.transaction_id = transactions.id
+       )`,
+      []
+    );
+
+    return parseFloat(balanceResult[0]?.total_balance || 0);
+  }
+
   /**
    * Fixed DCA rule (not transaction-based, handled by scheduler)
    */
@@ -327,66 +946,412 @@ export class TreasuryProcessor {
     };
   }
 
+  /**
+   * Market-timing rule: size the conversion like a percentage rule, then hold it in the
+   * pending pool until a price trigger or the maximum wait fires (see MarketTimingEngine)
+   */
+  private async queueMarketTimingConversion(transaction: EvaluatedTransaction, rules: TreasuryRules): Promise<ConversionDecision> {
+    // Minimum purchase applies to the pooled total at buy time, not to each payment
+    const sizing = await this.evaluatePercentageRule(transaction.amount, { ...rules, minimumPurchase: undefined });
+
+    if (!sizing.shouldConvert) {
+      return sizing;
+    }
+
+    if (this.evaluationContext) {
+      await this.evaluationContext.queueMarketTimingConversion(rules.id, transaction.id, sizing.amountToConvert);
+    } else {
+      await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `INSERT INTO market_timing_pool (treasury_rule_id, transaction_id, amount_aud)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (transaction_id) DO NOTHING`,
+        [rules.id, transaction.id, sizing.amountToConvert]
+      );
+    }
+
+    return {
+      shouldConvert: false,
+      amountToConvert: 0,
+      reason: `${sizing.reason} queued in market-timing pool until a buy trigger fires`
+    };
+  }
+
+  /**
+   * Current BTC/AUD reference price across the tenant's exchanges. exchangeProvider lists the
+   * sources that agreed on it.
+   */
+  async getCurrentBitcoinPrice(): Promise<MarketPrice & { exchangeProvider: string }> {
+    const reference = await this.getReferencePrice();
+    const agreeing = reference.sources.filter(source => !source.rejectedReason);
+
+    return {
+      symbol: 'BTC',
+      price: reference.price,
+      currency: reference.currency,
+      timestamp: new Date(reference.timestamp),
+      exchangeProvider: agreeing.map(source => source.source).join('+')
+    };
+  }
+
+  /**
+   * Oracle price from every connected exchange, also fed to the market circuit breaker. Throws
+   * PriceOracleError when fewer than the required number of sources agree.
+   */
+  async getReferencePrice(): Promise<ReferencePrice> {
+    const providers = await this.getConnectedExchangeProviders();
+
+    // Tenants without integration rows trade on the environment's default exchange
+    if (providers.length === 0) {
+      providers.push(await this.getExchangeProvider());
+    }
+
+    const reference = await createPriceOracle(providers).getReferencePrice('AUD');
+    await marketCircuitBreaker.observe(reference, this.tenantId);
+    return reference;
+  }
+
+  /**
+   * The tenant's configured exchange provider (initialized on first use). With a venue, the
+   * provider for that exchange instead: orders and withdrawals for an existing purchase must
+   * stay on the exchange it was bought on, even if the tenant has since switched integrations.
+   */
+  async getExchangeProvider(venue?: ExchangeProviderType): Promise<ExchangeProvider> {
+    if (venue && this.exchangeProvider?.type !== venue) {
+      let provider = this.venueProviders.get(venue);
+
+      if (!provider) {
+        provider = await this.createExchangeProvider(venue);
+        this.venueProviders.set(venue, provider);
+      }
+
+      return provider;
+    }
+
+    if (!this.exchangeProvider) {
+      await this.initializeExchangeProvider();
+    }
+
+    return this.exchangeProvider!;
+  }
+
   /**
    * Initialize exchange provider based on tenant settings
    */
   private async initializeExchangeProvider(): Promise<void> {
+    this.exchangeProvider = await this.createExchangeProvider();
+  }
+
+  /**
+   * Create the provider for the tenant's most recent active exchange integration, or for
+   * the active integration with the given venue
+   */
+  private async createExchangeProvider(venue?: ExchangeProviderType): Promise<ExchangeProvider> {
+    let provider: ExchangeProvider;
+
     try {
       // Get exchange credentials from tenant's integrations
       const exchangeIntegration = await tenantSchemaManager.queryTenantSchema(
         this.tenantId,
         `SELECT provider, access_token, settings FROM integrations 
-         WHERE type = 'EXCHANGE' AND is_active = true 
+         WHERE type = 'EXCHANGE' AND is_active = true AND ($1::text IS NULL OR provider = $1)
          ORDER BY created_at DESC LIMIT 1`,
-        []
+        [venue || null]
       );
 
       if (exchangeIntegration.length === 0) {
         // Use default exchange provider from environment variables
-        this.exchangeProvider = ExchangeProviderFactory.createDefault({});
-        return;
+        provider = ExchangeProviderFactory.createDefault({});
+      } else {
+        const integration = exchangeIntegration[0];
+        const credentials = {
+          apiKey: integration.access_token,
+          privateKey: integration.settings?.privateKey,
+          ...integration.settings
+        };
+
+        provider = ExchangeProviderFactory.create(
+          integration.provider as ExchangeProviderType,
+          credentials
+        );
       }
+    } catch (error) {
+      console.error('Failed to initialize exchange provider:', error);
+      throw new Error('Exchange provider initialization failed');
+    }
 
-      const integration = exchangeIntegration[0];
-      const credentials = {
-        apiKey: integration.access_token,
-        privateKey: integration.settings?.privateKey,
-        ...integration.settings
-      };
+    if (venue && provider.type !== venue) {
+      throw new Error(`No active ${venue} exchange integration; purchases made on ${venue} must be managed there`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Where to withdraw a purchase's Bitcoin from: the exchange it was bought on, or for purchases
+   * split across exchanges, each venue in proportion to the Bitcoin it filled
+   */
+  private async getPurchaseWithdrawalLegs(
+    purchaseId: string,
+    bitcoinAmount: number
+  ): Promise<Array<{ exchangeProvider: ExchangeProvider; amount: number }>> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT exchange_provider, child_orders FROM bitcoin_purchases WHERE id = $1`,
+      [purchaseId]
+    );
+
+    if (rows.length === 0) {
+      throw new Error(`Bitcoin purchase ${purchaseId} not found`);
+    }
+
+    const filledByVenue = new Map<ExchangeProviderType, number>();
+    for (const order of (rows[0].child_orders || []) as ChildOrderFill[]) {
+      if (order.venue && order.filledBTC > 0) {
+        filledByVenue.set(order.venue, (filledByVenue.get(order.venue) || 0) + order.filledBTC);
+      }
+    }
+
+    if (filledByVenue.size <= 1) {
+      return [{ exchangeProvider: await this.getExchangeProvider(rows[0].exchange_provider as ExchangeProviderType), amount: bitcoinAmount }];
+    }
+
+    const totalFilled = Array.from(filledByVenue.values()).reduce((sum, filled) => sum + filled, 0);
+    const legs: Array<{ exchangeProvider: ExchangeProvider; amount: number }> = [];
+
+    for (const [venue, filled] of Array.from(filledByVenue.entries())) {
+      legs.push({
+        exchangeProvider: await this.getExchangeProvider(venue),
+        // Rounded down so the legs never withdraw more than was approved
+        amount: Math.floor((bitcoinAmount * filled / totalFilled) * 1e8) / 1e8
+      });
+    }
+
+    return legs;
+  }
+
+  /**
+   * Execute Bitcoin purchase on exchange. With more than one exchange integration the purchase
+   * is routed to the venue with the best all-in price, or split across venues when the
+   * execution settings allow it.
+   */
+  private async executeBitcoinPurchase(
+    amountAUD: number,
+    customerReference: string,
+    execution?: ExecutionSettings,
+    withdrawing = false
+  ): Promise<BitcoinPurchaseResult> {
+    if (!this.exchangeProvider) {
+      throw new Error('Exchange provider not initialized');
+    }
+
+    // Refuse to buy when the exchanges do not agree on the price or the market breaker has tripped
+    const reference = await this.getReferencePrice();
+    console.log(`BTC/AUD reference $${reference.price} from ${reference.agreeingSources} sources (confidence ${reference.confidence})`);
+    await marketCircuitBreaker.assertPurchasesAllowed(this.tenantId);
+
+    const routing = await this.routePurchase(amountAUD, execution, withdrawing);
+
+    if (routing && routing.legs.length > 1) {
+      return this.executeSplitPurchase(routing, customerReference, execution);
+    }
+
+    const exchangeProvider = routing ? await this.getExchangeProvider(routing.legs[0].venue) : this.exchangeProvider;
+    const result = await this.executeOnVenue(exchangeProvider, amountAUD, customerReference, execution);
+    return { ...result, routingDecision: routing || undefined };
+  }
 
-      this.exchangeProvider = ExchangeProviderFactory.create(
-        integration.provider as ExchangeProviderType,
-        credentials
+  /**
+   * Best-execution routing across the tenant's exchange integrations. Returns null when only
+   * one venue is connected, or when no venue could be quoted (the default venue is used).
+   */
+  private async routePurchase(
+    amountAUD: number,
+    execution: ExecutionSettings | undefined,
+    withdrawing: boolean
+  ): Promise<RoutingDecision | null> {
+    const venues = await this.getConnectedExchangeProviders();
+
+    if (venues.length < 2) {
+      return null;
+    }
+
+    const settings = execution?.routing || parseRoutingSettings(undefined);
+
+    try {
+      // Limit and TWAP/iceberg orders stay on one venue, where the limit-order reconciler or the
+      // algorithmic order scheduler manages them
+      return await new OrderRouter(venues).route(
+        amountAUD,
+        { ...settings, splitAcrossVenues: settings.splitAcrossVenues && !isOpenEndedExecution(amountAUD, execution) },
+        withdrawing
       );
     } catch (error) {
-      console.error('Failed to initialize exchange provider:', error);
-      throw new Error('Exchange provider initialization failed');
+      console.error(`Order routing failed for $${amountAUD}; using the default exchange:`, error);
+      return null;
     }
   }
 
   /**
-   * Execute Bitcoin purchase on exchange
+   * Providers for every active exchange integration (one per venue)
    */
-  private async executeBitcoinPurchase(amountAUD: number, transaction: any) {
-    // Use the exchange factory to get the appropriate service (mock or real)
-    const exchange = getExchangeService();
-    
+  private async getConnectedExchangeProviders(): Promise<ExchangeProvider[]> {
+    const integrations = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT DISTINCT provider FROM integrations WHERE type = 'EXCHANGE' AND is_active = true`,
+      []
+    );
+
+    const providers: ExchangeProvider[] = [];
+
+    for (const integration of integrations) {
+      try {
+        providers.push(await this.getExchangeProvider(integration.provider as ExchangeProviderType));
+      } catch (error) {
+        console.warn(`Exchange ${integration.provider} excluded from order routing and pricing:`, error);
+      }
+    }
+
+    return providers;
+  }
+
+  /**
+   * Execute each routed leg on its venue. Legs that fail are logged and the purchase is
+   * recorded as partially filled, so Bitcoin already bought on other venues is not lost.
+   */
+  private async executeSplitPurchase(
+    routing: RoutingDecision,
+    customerReference: string,
+    execution?: ExecutionSettings
+  ): Promise<BitcoinPurchaseResult> {
+    const childOrders: ChildOrderFill[] = [];
+    const fees: OrderFee[] = [];
+    const legResults: Array<{ venue: ExchangeProviderType; result?: BitcoinPurchaseResult; error?: string }> = [];
+
+    for (const leg of routing.legs) {
+      try {
+        const exchangeProvider = await this.getExchangeProvider(leg.venue);
+        const result = await this.executeOnVenue(exchangeProvider, leg.amountAUD, `${customerReference}_${leg.venue}`, execution);
+        const filledBTC = result.filledAmount ?? result.amount;
+        const legOrders = result.childOrders || [{
+          sequence: 1,
+          orderId: result.orderId,
+          orderType: 'market' as const,
+          requestedAUD: leg.amountAUD,
+          filledBTC,
+          filledAUD: result.filledValueAUD ?? (isCompletedPurchaseStatus(result.status) ? leg.amountAUD : 0),
+          averagePrice: result.averagePrice || 0,
+          status: result.status as OrderResult['status'],
+          fees: result.fees || [],
+          executedAt: new Date().toISOString()
+        }];
+
+        for (const order of legOrders) {
+          childOrders.push({ ...order, sequence: childOrders.length + 1, venue: leg.venue });
+        }
+        fees.push(...(result.fees || []));
+        legResults.push({ venue: leg.venue, result });
+      } catch (error) {
+        console.error(`Routed leg of $${leg.amountAUD} on ${leg.venue} for ${customerReference} failed:`, error);
+        legResults.push({ venue: leg.venue, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    const filledBTC = childOrders.reduce((sum, order) => sum + order.filledBTC, 0);
+    const filledAUD = Math.round(childOrders.reduce((sum, order) => sum + order.filledAUD, 0) * 100) / 100;
+
+    if (filledBTC <= 0) {
+      throw new Error(`Failed to purchase Bitcoin: no routed leg filled (${legResults.map(leg => `${leg.venue}: ${leg.error || 'unfilled'}`).join(', ')})`);
+    }
+
+    const allFilled = legResults.every(leg => leg.result && isCompletedPurchaseStatus(leg.result.status));
+    // The purchase is recorded against the venue that filled the most; withdrawals follow each leg's venue
+    const primaryVenue = legResults
+      .filter(leg => leg.result)
+      .sort((a, b) => (b.result!.filledAmount ?? b.result!.amount) - (a.result!.filledAmount ?? a.result!.amount))[0].venue;
+
+    return {
+      orderId: `routed_${customerReference}`,
+      amount: filledBTC,
+      filledAmount: filledBTC,
+      averagePrice: Math.round((filledAUD / filledBTC) * 100) / 100,
+      status: allFilled ? 'filled' : 'partially_filled',
+      fees,
+      rawData: legResults.map(leg => ({ venue: leg.venue, error: leg.error, rawData: leg.result?.rawData })),
+      filledValueAUD: filledAUD,
+      executionAlgorithm: execution?.algorithm,
+      childOrders,
+      exchangeProvider: primaryVenue,
+      routingDecision: routing
+    };
+  }
+
+  /**
+   * Buy on one venue. Purchases at or above the execution algorithm's minimum are sliced into
+   * child orders, or rested as a limit order. Only the first child order is placed here; the
+   * algorithmic order scheduler places the rest.
+   */
+  private async executeOnVenue(
+    exchangeProvider: ExchangeProvider,
+    amountAUD: number,
+    customerReference: string,
+    execution?: ExecutionSettings
+  ): Promise<BitcoinPurchaseResult> {
+    if (execution?.algorithm === 'limit' && amountAUD >= execution.minimumAUD) {
+      return this.placeLimitPurchase(exchangeProvider, amountAUD, customerReference, execution);
+    }
+
+    if (execution && execution.algorithm !== 'single' && amountAUD >= execution.minimumAUD) {
+      try {
+        const result = await new ExecutionEngine(exchangeProvider).executeBuy(amountAUD, execution, customerReference);
+        const open = result.status === 'open';
+
+        if (result.stoppedReason) {
+          console.warn(`Purchase ${customerReference} partially filled ($${result.filledAUD} of $${amountAUD}): ${result.stoppedReason}`);
+        }
+
+        return {
+          orderId: `${result.algorithm}_${customerReference}`,
+          amount: result.filledBTC,
+          filledAmount: result.filledBTC,
+          averagePrice: result.averagePrice,
+          status: open ? (result.filledBTC > 0 ? 'processing' : 'pending') : result.status,
+          fees: result.fees,
+          rawData: result,
+          // Open parent orders keep the requested amount so rolling volume limits count it
+          filledValueAUD: open ? undefined : result.filledAUD,
+          executionAlgorithm: result.algorithm,
+          childOrders: result.childOrders,
+          parentOrder: open ? toParentOrderRecord(result, execution) : undefined,
+          exchangeProvider: exchangeProvider.type
+        };
+      } catch (error) {
+        console.error('Algorithmic Bitcoin purchase failed:', error);
+        throw new Error(`Failed to purchase Bitcoin: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
     try {
-      const result = await exchange.executeBuyOrder({
-        amount: amountAUD,
-        customerReference: `tx_${transaction.id}`,
-        withdrawalAddress: undefined // Will be handled separately if needed
+      const order = await exchangeProvider.createMarketOrder({
+        side: 'buy',
+        symbol: 'BTC',
+        value: amountAUD,
+        currency: 'AUD'
       });
+      const filledAmount = order.filledAmount ?? (order.status === 'filled' ? order.amount : 0);
+      const hasFills = order.status === 'filled' || order.status === 'partially_filled';
 
-      // Convert the exchange service response to the expected format
       return {
-        orderId: result.orderId,
-        amount: result.bitcoinAmount,
-        filledAmount: result.bitcoinAmount,
-        averagePrice: result.exchangeRate,
-        status: result.success ? 'filled' : 'failed',
-        fees: [{ amount: result.fees, currency: 'AUD', type: 'trading' }],
-        rawData: result
+        orderId: order.orderId,
+        amount: order.amount,
+        filledAmount,
+        averagePrice: order.averagePrice,
+        status: order.status,
+        fees: order.fees,
+        rawData: order,
+        // Partial fills record what the exchange actually spent, not the requested amount
+        filledValueAUD: hasFills && order.totalValue > 0 ? order.totalValue : undefined,
+        exchangeProvider: exchangeProvider.type
       };
     } catch (error) {
       console.error('Bitcoin purchase failed:', error);
@@ -394,6 +1359,46 @@ export class TreasuryProcessor {
     }
   }
 
+  /**
+   * Place a resting limit order below the ask. The purchase is stored as 'pending' (or
+   * 'processing' once partly filled) and the limit-order reconciler takes it from there.
+   */
+  private async placeLimitPurchase(
+    exchangeProvider: ExchangeProvider,
+    amountAUD: number,
+    customerReference: string,
+    execution: ExecutionSettings
+  ): Promise<BitcoinPurchaseResult> {
+    try {
+      const placement = await new ExecutionEngine(exchangeProvider).placeLimitBuy(amountAUD, execution, 1);
+      const order = placement.order;
+      const status = order.status === 'filled' ? 'filled' : order.filledBTC > 0 ? 'processing' : 'pending';
+
+      return {
+        orderId: order.orderId!,
+        amount: order.filledBTC,
+        filledAmount: order.filledBTC,
+        averagePrice: order.averagePrice || placement.limitPrice,
+        status,
+        fees: order.fees,
+        rawData: placement,
+        // Open orders keep the requested amount so rolling volume limits count it
+        filledValueAUD: status === 'filled' ? order.filledAUD : undefined,
+        executionAlgorithm: 'limit',
+        childOrders: [order],
+        limitOrder: status === 'filled' ? undefined : {
+          limitPrice: placement.limitPrice,
+          expiresAt: placement.expiresAt,
+          settings: execution
+        },
+        exchangeProvider: exchangeProvider.type
+      };
+    } catch (error) {
+      console.error('Limit order Bitcoin purchase failed:', error);
+      throw new Error(`Failed to purchase Bitcoin: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Store Bitcoin purchase record in database
    */
@@ -403,21 +1408,34 @@ export class TreasuryProcessor {
       `INSERT INTO bitcoin_purchases (
         transaction_id, amount_aud, bitcoin_amount, price_per_btc, 
         exchange_order_id, exchange_provider, status, fees_aud,
-        raw_exchange_data, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
-      ON CONFLICT (transaction_id) 
-      DO NOTHING
+        raw_exchange_data, schedule_reference, evaluation_trace, rule_version_ids,
+        execution_algorithm, child_orders, limit_price, limit_settings, order_expires_at,
+        pending_withdrawal_address, routing_decision, parent_order, next_child_at, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, NOW(), NOW())
+      ON CONFLICT DO NOTHING
       RETURNING id`,
       [
-        purchase.transactionId,
+        purchase.transactionId || null,
         purchase.amountAUD,
         purchase.bitcoinAmount,
         purchase.price,
         purchase.orderId,
         purchase.exchangeProvider,
         purchase.status,
-        purchase.fees?.reduce((sum, fee) => sum + fee.amount, 0) || 0,
-        JSON.stringify(purchase.rawData)
+        feesToAUD(purchase.fees || [], purchase.price),
+        JSON.stringify(purchase.rawData),
+        purchase.scheduleReference || null,
+        purchase.evaluationTrace ? JSON.stringify(purchase.evaluationTrace) : null,
+        purchase.ruleVersionIds || null,
+        purchase.executionAlgorithm || 'single',
+        purchase.childOrders ? JSON.stringify(purchase.childOrders) : null,
+        purchase.limitOrder?.limitPrice ?? null,
+        purchase.limitOrder ? JSON.stringify(purchase.limitOrder.settings) : null,
+        purchase.limitOrder?.expiresAt ?? null,
+        purchase.pendingWithdrawalAddress || null,
+        purchase.routingDecision ? JSON.stringify(purchase.routingDecision) : null,
+        purchase.parentOrder ? JSON.stringify(purchase.parentOrder) : null,
+        purchase.parentOrder ? new Date(Date.now() + purchase.parentOrder.settings.intervalSeconds * 1000) : null
       ]
     );
 
@@ -425,12 +1443,12 @@ export class TreasuryProcessor {
     if (result.length === 0) {
       const existingResult = await tenantSchemaManager.queryTenantSchema(
         this.tenantId,
-        `SELECT id FROM bitcoin_purchases WHERE transaction_id = $1`,
-        [purchase.transactionId]
+        `SELECT id FROM bitcoin_purchases WHERE transaction_id = $1 OR schedule_reference = $2`,
+        [purchase.transactionId || null, purchase.scheduleReference || null]
       );
       
       if (existingResult.length > 0) {
-        console.log(`Duplicate transaction ${purchase.transactionId} detected - returning existing Bitcoin purchase ${existingResult[0].id}`);
+        console.log(`Duplicate purchase ${purchase.transactionId || purchase.scheduleReference} detected - returning existing Bitcoin purchase ${existingResult[0].id}`);
         return existingResult[0].id;
       } else {
         throw new Error('Failed to create or retrieve Bitcoin purchase record');
@@ -441,17 +1459,53 @@ export class TreasuryProcessor {
   }
 
   /**
-   * Withdraw Bitcoin to customer's address
+   * Auto-withdraw a purchase that completed after it was recorded (limit orders)
+   */
+  async withdrawCompletedPurchase(purchaseId: string, bitcoinAmount: number, address: string): Promise<void> {
+    await this.autoWithdraw(bitcoinAmount, address, purchaseId);
+  }
+
+  /**
+   * Withdraw to the customer's address, or hold the withdrawal for approval if the address is new
+   */
+  private async autoWithdraw(bitcoinAmount: number, address: string, purchaseId: string): Promise<void> {
+    const approvals = new ApprovalWorkflow(this.tenantId);
+
+    if (await approvals.requiresWithdrawalApproval(address)) {
+      const approval = await approvals.requestApproval({
+        requestType: 'withdrawal',
+        bitcoinPurchaseId: purchaseId,
+        bitcoinAmount,
+        destinationAddress: address,
+        reason: `First withdrawal to address ${address}`
+      });
+
+      console.log(`Withdrawal for purchase ${purchaseId} held for approval ${approval.id}`);
+      return;
+    }
+
+    await this.withdrawBitcoinToCustomer(bitcoinAmount, address, purchaseId);
+  }
+
+  /**
+   * Withdraw Bitcoin to customer's address from the exchange(s) the purchase was made on
    */
   private async withdrawBitcoinToCustomer(
     bitcoinAmount: number,
     address: string,
     purchaseId: string
   ): Promise<void> {
-    if (!this.exchangeProvider) {
-      throw new Error('Exchange provider not initialized');
+    for (const leg of await this.getPurchaseWithdrawalLegs(purchaseId, bitcoinAmount)) {
+      await this.withdrawFromExchange(leg.exchangeProvider, leg.amount, address, purchaseId);
     }
+  }
 
+  private async withdrawFromExchange(
+    exchangeProvider: ExchangeProvider,
+    bitcoinAmount: number,
+    address: string,
+    purchaseId: string
+  ): Promise<void> {
     const withdrawalRequest: WithdrawalRequest = {
       currency: 'BTC',
       amount: bitcoinAmount,
@@ -461,7 +1515,7 @@ export class TreasuryProcessor {
     };
 
     try {
-      const withdrawalResult = await this.exchangeProvider.withdrawBitcoin(withdrawalRequest);
+      const withdrawalResult = await exchangeProvider.withdrawBitcoin(withdrawalRequest);
       
       // Store withdrawal record
       await tenantSchemaManager.queryTenantSchema(
@@ -476,7 +1530,7 @@ export class TreasuryProcessor {
           withdrawalResult.amount,
           withdrawalResult.address,
           withdrawalResult.status,
-          this.exchangeProvider.type,
+          exchangeProvider.type,
           withdrawalResult.txId,
           withdrawalResult.fees.find(f => f.currency === 'BTC')?.amount || 0
         ]
@@ -491,9 +1545,9 @@ export class TreasuryProcessor {
         this.tenantId,
         `INSERT INTO bitcoin_withdrawals (
           bitcoin_purchase_id, amount, address, status, error_message,
-          created_at, updated_at
-        ) VALUES ($1, $2, $3, 'failed', $4, NOW(), NOW())`,
-        [purchaseId, bitcoinAmount, address, error instanceof Error ? error.message : 'Unknown error']
+          exchange_provider, created_at, updated_at
+        ) VALUES ($1, $2, $3, 'failed', $4, $5, NOW(), NOW())`,
+        [purchaseId, bitcoinAmount, address, error instanceof Error ? error.message : 'Unknown error', exchangeProvider.type]
       );
       
       throw error;
@@ -525,35 +1579,143 @@ export class TreasuryProcessor {
 
 // Type definitions
 
-interface TreasuryRules {
+/**
+ * State that rule evaluation reads or writes. Defaults to the tenant database;
+ * the simulator supplies an in-memory implementation to replay history.
+ */
+export interface RuleEvaluationContext {
+  getTierLimits(): Promise<TierLimits>;
+  getRollingPurchaseVolume(): Promise<{ daily: number; monthly: number }>;
+  getUnconvertedBalance(): Promise<number>;
+  getObligationsDue(horizonDays: number): Promise<number>;
+  queueMarketTimingConversion(ruleId: string, transactionId: string, amountAUD: number): Promise<void>;
+}
+
+export interface TreasuryRules {
   id: string;
+  name: string;
   isActive: boolean;
-  ruleType: 'percentage' | 'threshold' | 'fixed_dca' | 'market_timing';
+  ruleType: 'percentage' | 'threshold' | 'fixed_dca' | 'market_timing' | 'rebalance' | 'take_profit';
+  priority: number; // Lower numbers are evaluated first
+  combinationMode: RuleCombinationMode;
   conversionPercentage?: number; // For percentage rules
   thresholdAmount?: number; // For threshold rules
+  fixedAmount?: number; // For fixed DCA rules
+  frequency?: 'daily' | 'weekly' | 'monthly'; // For fixed DCA rules
   minimumPurchase?: number;
   maximumPurchase?: number;
   bufferAmount?: number; // Cash buffer to maintain
+  cashFloor?: number; // Minimum AUD kept on top of upcoming obligations (settings.obligationHorizonDays)
   withdrawalAddress?: string; // Customer's Bitcoin address
   exchangeProvider: ExchangeProviderType;
   isAutoWithdrawal: boolean;
   settings: Record<string, any>;
+  versionId?: string; // treasury_rule_versions row in effect; unset for simulated rules
+}
+
+// The transaction fields rule evaluation relies on
+export interface EvaluatedTransaction {
+  id: string;
+  amount: number;
 }
 
-interface ConversionDecision {
+export interface ConversionDecision {
   shouldConvert: boolean;
   amountToConvert: number;
   reason: string;
+  limit?: ConversionLimit; // Set when a tier or volume limit capped or rejected the conversion
+  trace?: RuleEvaluationTrace; // Per-rule breakdown when multiple rules were evaluated
 }
 
-interface BitcoinPurchaseData {
+// 'stack' adds the rule's amount to the total; 'first_match' also stops lower-priority rules
+export type RuleCombinationMode = 'stack' | 'first_match';
+
+export interface RuleTraceEntry {
+  ruleId: string;
+  versionId?: string;
+  name: string;
+  ruleType: TreasuryRules['ruleType'];
+  priority: number;
+  combinationMode: RuleCombinationMode;
+  fired: boolean;
+  contribution: number; // AUD this rule added to the conversion
+  reason: string;
+  limit?: ConversionLimit; // Rule-level cap or rejection
+}
+
+/**
+ * Audit trail of a multi-rule evaluation, stored with the transaction and the Bitcoin purchase
+ */
+export interface RuleEvaluationTrace {
   transactionId: string;
+  transactionAmount: number;
+  rules: RuleTraceEntry[];
+  requestedAmount: number;  // Sum of rule contributions
+  amountToConvert: number;  // After tier and volume limits
+  limit?: ConversionLimit;  // Tier/volume limit that capped the combined amount
+  evaluatedAt: string;
+}
+
+export interface ScheduledPurchaseRequest {
+  scheduleReference: string; // Unique per schedule period, e.g. dca:<ruleId>:<periodKey>
+  amountAUD: number;
+  minimumPurchase?: number;
+  maximumPurchase?: number;
+  withdrawalAddress?: string;
+  ruleVersionId?: string; // Version of the scheduling rule, stamped on the purchase
+  ruleVersionIds?: string[]; // Several rule versions, for batches of transaction conversions
+  execution?: ExecutionSettings; // Slice large purchases into child orders
+}
+
+export interface ScheduledPurchaseResult {
+  executed: boolean;
+  bitcoinPurchaseId?: string;
+  amountAUD: number;
+  reason: string;
+  limit?: ConversionLimit;
+}
+
+interface BitcoinPurchaseData {
+  transactionId?: string;
+  scheduleReference?: string;
   amountAUD: number;
   bitcoinAmount: number;
   price: number;
   orderId: string;
   exchangeProvider: string;
   status: string;
-  fees?: Array<{ amount: number; currency: string; type: string }>;
+  fees?: OrderFee[];
+  rawData: any;
+  evaluationTrace?: RuleEvaluationTrace;
+  ruleVersionIds?: string[];
+  executionAlgorithm?: string;
+  childOrders?: ChildOrderFill[];
+  limitOrder?: OpenLimitOrder;
+  parentOrder?: ParentOrderRecord;
+  pendingWithdrawalAddress?: string; // Withdrawn by the limit-order reconciler or algorithmic order scheduler on completion
+  routingDecision?: RoutingDecision; // Venue selection when several exchanges are connected
+}
+
+// Resting limit order left for the limit-order reconciler
+interface OpenLimitOrder {
+  limitPrice: number;
+  expiresAt: Date;
+  settings: ExecutionSettings;
+}
+
+interface BitcoinPurchaseResult {
+  orderId: string;
+  amount: number;
+  filledAmount?: number;
+  averagePrice?: number;
+  status: string;
+  fees?: OrderFee[];
   rawData: any;
+  filledValueAUD?: number; // AUD actually spent by child orders
+  executionAlgorithm?: string;
+  childOrders?: ChildOrderFill[];
+  limitOrder?: OpenLimitOrder; // Set while a limit order is still open
+  parentOrder?: ParentOrderRecord; // Set while TWAP or iceberg child orders remain
+  exchangeProvider: ExchangeProviderType; // Venue the purchase is recorded against
+  routingDecision?: RoutingDecision;
 }
\ No newline at end of file
@@ -0,0 +1,425 @@
+// LIQUID ABT - Portfolio Rebalancing Engine
+// Keeps each rebalance rule's BTC allocation inside its configured band (advanced_treasury_rules)
+
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { FeatureFlags } from '@/lib/features';
+import { TreasuryProcessor } from './processor';
+import { ExecutionSettings, parseExecutionSettings } from './execution-algorithms';
+import { ApprovalWorkflow } from './approvals';
+import { CashObligationStore } from './cash-obligations';
+import { TenantJob } from './scheduled-job';
+
+/**
+ * Portfolio valuation used for a rebalancing decision.
+ * BTC holdings include BTC already withdrawn to self-custody; only exchange BTC can be sold.
+ */
+export interface PortfolioSnapshot {
+  pricePerBTC: number;
+  exchangeBTC: number;
+  selfCustodyBTC: number;
+  btcHoldings: number;
+  audBalance: number;
+  btcValueAUD: number;
+  totalValueAUD: number;
+  btcAllocation: number; // Fraction of total value held in BTC
+}
+
+export interface RebalanceSettings {
+  allocationMin: number;    // Fraction, e.g. 0.2
+  allocationMax: number;    // Fraction, e.g. 0.4
+  targetAllocation: number; // Where a rebalance aims for (defaults to the band midpoint)
+  cashFloor: number;        // AUD that buys must never spend below, including obligations due within settings.obligationHorizonDays
+  allowSells: boolean;      // Sell BTC when above the band (off by default)
+  minimumTradeAUD: number;
+  cooldownHours: number;    // Minimum time between rebalancing trades for a rule
+}
+
+export interface RebalanceTrade {
+  side: 'buy' | 'sell';
+  amountAUD: number;
+  bitcoinAmount: number;
+}
+
+export interface RebalanceDecision {
+  trade: RebalanceTrade | null;
+  reason: string;
+}
+
+export interface RebalanceExecutionSummary {
+  ruleId: string;
+  side: 'buy' | 'sell';
+  status: 'completed' | 'requested' | 'skipped' | 'failed';
+  amountAUD: number;
+  bitcoinAmount?: number;
+  approvalRequestId?: string;
+  reason: string;
+}
+
+interface RebalanceRule {
+  ruleId: string;
+  versionId?: string;
+  settings: RebalanceSettings;
+  maximumPurchase?: number;
+  withdrawalAddress?: string;
+  execution?: ExecutionSettings;
+}
+
+const DEFAULT_COOLDOWN_HOURS = 24;
+
+export class RebalancingEngine {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Value the portfolio and trade back into the band for every active rebalance rule
+   */
+  async runRebalancing(): Promise<RebalanceExecutionSummary[]> {
+    const summaries: RebalanceExecutionSummary[] = [];
+
+    if (!FeatureFlags.isEnabled('advanced_treasury_rules')) {
+      return summaries;
+    }
+
+    const rules = await this.getActiveRules();
+    if (rules.length === 0) {
+      return summaries;
+    }
+
+    await this.settleSaleApprovals();
+
+    const processor = new TreasuryProcessor(this.tenantId);
+
+    for (const rule of rules) {
+      if (await this.isInCooldown(rule)) {
+        continue;
+      }
+
+      // Re-value for each rule since an earlier rule may have traded
+      const snapshot = await this.getPortfolioSnapshot(processor);
+      const decision = evaluateRebalance(snapshot, rule.settings);
+
+      if (!decision.trade) {
+        continue;
+      }
+
+      summaries.push(await this.executeTrade(processor, rule, snapshot, decision.trade, decision.reason));
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Load active rebalance rules with a valid allocation band
+   */
+  private async getActiveRules(): Promise<RebalanceRule[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM treasury_rules
+       WHERE is_active = true
+       AND rule_type = 'rebalance'
+       AND btc_allocation_min IS NOT NULL
+       AND btc_allocation_max IS NOT NULL
+       AND btc_allocation_min <= btc_allocation_max`,
+      []
+    );
+
+    const rules: RebalanceRule[] = [];
+    const obligationStore = new CashObligationStore(this.tenantId);
+
+    for (const rule of rows) {
+      const settings = rule.settings || {};
+      const obligationHorizonDays = Number(settings.obligationHorizonDays) || 0;
+      const obligationsDue = obligationHorizonDays > 0
+        ? (await obligationStore.getUpcoming(obligationHorizonDays)).totalAUD
+        : 0;
+      const allocationMin = parseFloat(rule.btc_allocation_min);
+      const allocationMax = parseFloat(rule.btc_allocation_max);
+      const targetAllocation = Number(settings.targetAllocation);
+
+      rules.push({
+        ruleId: rule.id,
+        versionId: rule.current_version_id || undefined,
+        settings: {
+          allocationMin,
+          allocationMax,
+          targetAllocation: targetAllocation >= allocationMin && targetAllocation <= allocationMax
+            ? targetAllocation
+            : (allocationMin + allocationMax) / 2,
+          cashFloor: (rule.cash_floor ? parseFloat(rule.cash_floor) : 0) + obligationsDue,
+          allowSells: settings.allowSells === true,
+          minimumTradeAUD: rule.minimum_purchase ? parseFloat(rule.minimum_purchase) : 0,
+          cooldownHours: Number(settings.cooldownHours) || DEFAULT_COOLDOWN_HOURS
+        },
+        maximumPurchase: rule.maximum_purchase ? parseFloat(rule.maximum_purchase) : undefined,
+        withdrawalAddress: rule.is_auto_withdrawal ? rule.withdrawal_address : undefined,
+        execution: parseExecutionSettings(settings.execution) || undefined
+      });
+    }
+
+    return rules;
+  }
+
+  /**
+   * Close sell executions whose OWNER sale approval has been decided: completed once the sale
+   * is recorded as a disposal, skipped if rejected or expired, failed if execution failed
+   */
+  private async settleSaleApprovals(): Promise<void> {
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE rebalance_executions re
+       SET status = 'completed', amount_aud = d.proceeds_aud, bitcoin_amount = d.bitcoin_amount,
+           exchange_order_id = d.exchange_order_id
+       FROM approval_requests ar
+       JOIN bitcoin_disposals d ON d.approval_request_id = ar.id
+       WHERE re.status = 'pending' AND re.side = 'sell'
+       AND ar.request_type = 'sale' AND ar.details->>'rebalanceExecutionId' = re.id::text`,
+      []
+    );
+
+    await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `UPDATE rebalance_executions re
+       SET status = CASE WHEN ar.status = 'failed' THEN 'failed' ELSE 'skipped' END,
+           reason = 'Sale approval ' || ar.status || COALESCE(': ' || COALESCE(ar.execution_error, ar.rejection_reason), '')
+       FROM approval_requests ar
+       WHERE re.status = 'pending' AND re.side = 'sell'
+       AND ar.request_type = 'sale' AND ar.details->>'rebalanceExecutionId' = re.id::text
+       AND ar.status IN ('rejected', 'expired', 'failed')`,
+      []
+    );
+  }
+
+  /**
+   * A rule waits out its cooldown after a trade, and while one of its sales awaits approval
+   */
+  private async isInCooldown(rule: RebalanceRule): Promise<boolean> {
+    const result = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT 1 FROM rebalance_executions
+       WHERE treasury_rule_id = $1
+       AND status IN ('pending', 'completed')
+       AND created_at >= NOW() - ($2 || ' hours')::INTERVAL
+       UNION ALL
+       SELECT 1 FROM approval_requests
+       WHERE request_type = 'sale' AND details->>'treasuryRuleId' = $1 AND status IN ('pending', 'approved')
+       LIMIT 1`,
+      [rule.ruleId, rule.settings.cooldownHours]
+    );
+
+    return result.length > 0;
+  }
+
+  /**
+   * Value exchange balances plus BTC already withdrawn to self-custody
+   */
+  private async getPortfolioSnapshot(processor: TreasuryProcessor): Promise<PortfolioSnapshot> {
+    const exchangeProvider = await processor.getExchangeProvider();
+    const [price, balance] = await Promise.all([
+      exchangeProvider.getCurrentPrice('AUD'),
+      exchangeProvider.getBalance()
+    ]);
+
+    const withdrawn = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT COALESCE(SUM(amount), 0) AS self_custody_btc
+       FROM bitcoin_withdrawals
+       WHERE LOWER(status) NOT IN ('failed', 'cancelled', 'rejected')`,
+      []
+    );
+
+    const exchangeBTC = balance.btc?.total || 0;
+    const selfCustodyBTC = parseFloat(withdrawn[0]?.self_custody_btc || 0);
+    const btcHoldings = exchangeBTC + selfCustodyBTC;
+    const btcValueAUD = btcHoldings * price.price;
+    const totalValueAUD = btcValueAUD + balance.available;
+
+    return {
+      pricePerBTC: price.price,
+      exchangeBTC,
+      selfCustodyBTC,
+      btcHoldings,
+      audBalance: balance.available,
+      btcValueAUD,
+      totalValueAUD,
+      btcAllocation: totalValueAUD > 0 ? btcValueAUD / totalValueAUD : 0
+    };
+  }
+
+  /**
+   * Record the trade, then buy through the processor (tier limits apply) or request OWNER approval to sell
+   */
+  private async executeTrade(
+    processor: TreasuryProcessor,
+    rule: RebalanceRule,
+    snapshot: PortfolioSnapshot,
+    trade: RebalanceTrade,
+    reason: string
+  ): Promise<RebalanceExecutionSummary> {
+    const inserted = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `INSERT INTO rebalance_executions (
+        treasury_rule_id, btc_holdings, aud_balance, price_per_btc,
+        allocation_before, target_allocation, side, amount_aud, bitcoin_amount, status, reason
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending', $10)
+      RETURNING id`,
+      [
+        rule.ruleId,
+        snapshot.btcHoldings,
+        snapshot.audBalance,
+        snapshot.pricePerBTC,
+        snapshot.btcAllocation,
+        rule.settings.targetAllocation,
+        trade.side,
+        trade.amountAUD,
+        trade.bitcoinAmount,
+        reason
+      ]
+    );
+
+    const executionId = inserted[0].id;
+
+    try {
+      if (trade.side === 'buy') {
+        const result = await processor.executeScheduledPurchase({
+          scheduleReference: `rebalance:${rule.ruleId}:${executionId}`,
+          amountAUD: trade.amountAUD,
+          minimumPurchase: rule.settings.minimumTradeAUD || undefined,
+          maximumPurchase: rule.maximumPurchase,
+          withdrawalAddress: rule.withdrawalAddress,
+          ruleVersionId: rule.versionId,
+          execution: rule.execution
+        });
+
+        const status = result.executed ? 'completed' : 'skipped';
+        const outcome = result.executed ? `${reason}; ${result.reason}` : result.reason;
+
+        await tenantSchemaManager.queryTenantSchema(
+          this.tenantId,
+          `UPDATE rebalance_executions
+           SET status = $2, amount_aud = $3, bitcoin_purchase_id = $4, reason = $5
+           WHERE id = $1`,
+          [executionId, status, result.amountAUD, result.bitcoinPurchaseId || null, outcome]
+        );
+
+        console.log(`Rebalance rule ${rule.ruleId} buy ${status}: ${outcome}`);
+        return { ruleId: rule.ruleId, side: 'buy', status, amountAUD: result.amountAUD, reason: outcome };
+      }
+
+      // Sells need OWNER sign-off; the approved sale is recorded as a disposal and settles this execution
+      const approval = await new ApprovalWorkflow(this.tenantId).requestApproval({
+        requestType: 'sale',
+        amountAUD: trade.amountAUD,
+        bitcoinAmount: trade.bitcoinAmount,
+        details: {
+          trigger: 'rebalance',
+          treasuryRuleId: rule.ruleId,
+          ruleVersionId: rule.versionId,
+          rebalanceExecutionId: executionId,
+          pricePerBTC: snapshot.pricePerBTC
+        },
+        reason: `Rebalance rule: ${reason}`
+      });
+
+      const outcome = `${reason}; awaiting OWNER approval (request ${approval.id})`;
+
+      await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `UPDATE rebalance_executions SET reason = $2 WHERE id = $1`,
+        [executionId, outcome]
+      );
+
+      console.log(`Rebalance rule ${rule.ruleId} requested sale of ${trade.bitcoinAmount} BTC (approval ${approval.id})`);
+      return {
+        ruleId: rule.ruleId,
+        side: 'sell',
+        status: 'requested',
+        amountAUD: trade.amountAUD,
+        bitcoinAmount: trade.bitcoinAmount,
+        approvalRequestId: approval.id,
+        reason: outcome
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Rebalance ${trade.side} failed for rule ${rule.ruleId}:`, error);
+
+      await tenantSchemaManager.queryTenantSchema(
+        this.tenantId,
+        `UPDATE rebalance_executions SET status = 'failed', reason = $2 WHERE id = $1`,
+        [executionId, message]
+      );
+
+      return { ruleId: rule.ruleId, side: trade.side, status: 'failed', amountAUD: 0, reason: message };
+    }
+  }
+}
+
+/**
+ * Size the trade that brings the allocation back to target. Buys never spend below the
+ * cash floor; sells only use BTC held on the exchange and only when enabled on the rule.
+ */
+export function evaluateRebalance(snapshot: PortfolioSnapshot, settings: RebalanceSettings): RebalanceDecision {
+  const allocationPercent = (snapshot.btcAllocation * 100).toFixed(2);
+  const band = `${(settings.allocationMin * 100).toFixed(2)}%-${(settings.allocationMax * 100).toFixed(2)}%`;
+
+  if (snapshot.totalValueAUD <= 0 || snapshot.pricePerBTC <= 0) {
+    return { trade: null, reason: 'Portfolio has no value to rebalance' };
+  }
+
+  const targetBTCValue = snapshot.totalValueAUD * settings.targetAllocation;
+
+  if (snapshot.btcAllocation < settings.allocationMin) {
+    const spendable = Math.max(0, snapshot.audBalance - settings.cashFloor);
+    const amountAUD = Math.floor(Math.min(targetBTCValue - snapshot.btcValueAUD, spendable) * 100) / 100;
+
+    if (amountAUD <= 0 || amountAUD < settings.minimumTradeAUD) {
+      return {
+        trade: null,
+        reason: `BTC allocation ${allocationPercent}% below band ${band} but only $${spendable.toFixed(2)} available above cash floor $${settings.cashFloor}`
+      };
+    }
+
+    return {
+      trade: { side: 'buy', amountAUD, bitcoinAmount: amountAUD / snapshot.pricePerBTC },
+      reason: `BTC allocation ${allocationPercent}% below band ${band} - buying $${amountAUD} toward ${(settings.targetAllocation * 100).toFixed(2)}%`
+    };
+  }
+
+  if (snapshot.btcAllocation > settings.allocationMax) {
+    if (!settings.allowSells) {
+      return { trade: null, reason: `BTC allocation ${allocationPercent}% above band ${band} - sells disabled for this rule` };
+    }
+
+    const bitcoinAmount = Math.min((snapshot.btcValueAUD - targetBTCValue) / snapshot.pricePerBTC, snapshot.exchangeBTC);
+    const roundedBTC = Math.floor(bitcoinAmount * 1e8) / 1e8;
+    const amountAUD = Math.floor(roundedBTC * snapshot.pricePerBTC * 100) / 100;
+
+    if (roundedBTC <= 0 || amountAUD < settings.minimumTradeAUD) {
+      return { trade: null, reason: `BTC allocation ${allocationPercent}% above band ${band} but not enough BTC on exchange to sell` };
+    }
+
+    return {
+      trade: { side: 'sell', amountAUD, bitcoinAmount: roundedBTC },
+      reason: `BTC allocation ${allocationPercent}% above band ${band} - selling ${roundedBTC} BTC toward ${(settings.targetAllocation * 100).toFixed(2)}%`
+    };
+  }
+
+  return { trade: null, reason: `BTC allocation ${allocationPercent}% within band ${band}` };
+}
+
+// Process-wide monitor
+
+/**
+ * Rebalancing cron job (not started while advanced_treasury_rules is disabled)
+ */
+export const rebalancingJob = new TenantJob({
+  name: 'Rebalancing monitor',
+  cronEnvVar: 'REBALANCING_CRON',
+  defaultCron: '0 * * * *',
+  isEnabled: () => FeatureFlags.isEnabled('advanced_treasury_rules'),
+  runForTenant: async tenantId => {
+    await new RebalancingEngine(tenantId).runRebalancing();
+  }
+});
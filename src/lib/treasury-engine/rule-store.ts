@@ -0,0 +1,569 @@
+// LIQUID ABT - Treasury Rule Store
+// CRUD for a tenant's treasury_rules with validation, version history and audit logging
+
+import { Client } from 'pg';
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { recordAuditEvent, AuditEventType } from '@/lib/audit/audit-log';
+import { BusinessLogicError, NotFoundError, ValidationError } from '@/lib/errors/CustomErrors';
+import { FeatureFlags } from '@/lib/features';
+import { treasuryRuleSchema, TreasuryRuleInput } from './rule-validation';
+
+/**
+ * A treasury rule as returned by the API
+ */
+export interface TreasuryRuleRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  ruleType: TreasuryRuleInput['ruleType'];
+  isActive: boolean;
+  priority: number;
+  combinationMode: 'stack' | 'first_match';
+  conversionPercentage: number | null;
+  thresholdAmount: number | null;
+  fixedAmount: number | null;
+  frequency: 'daily' | 'weekly' | 'monthly' | null;
+  minimumPurchase: number | null;
+  maximumPurchase: number | null;
+  bufferAmount: number | null;
+  cashFloor: number | null;
+  btcAllocationMin: number | null;
+  btcAllocationMax: number | null;
+  withdrawalAddress: string | null;
+  isAutoWithdrawal: boolean;
+  exchangeProvider: string;
+  settings: Record<string, unknown>;
+  versionId: string | null; // Current treasury_rule_versions row
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Rule fields captured in each version
+export type TreasuryRuleConfiguration = Omit<TreasuryRuleRecord, 'id' | 'versionId' | 'createdAt' | 'updatedAt'>;
+
+export type RuleVersionChangeType = 'create' | 'update' | 'activate' | 'deactivate';
+
+/**
+ * An immutable snapshot of a rule, in effect from effectiveFrom until effectiveTo
+ */
+export interface TreasuryRuleVersion {
+  id: string;
+  ruleId: string;
+  versionNumber: number;
+  configuration: TreasuryRuleConfiguration;
+  changeType: RuleVersionChangeType;
+  changedBy: string | null;
+  effectiveFrom: string;
+  effectiveTo: string | null; // null while current
+}
+
+export interface RuleConfigurationChange {
+  field: string; // Dotted path for settings, e.g. settings.maxWaitHours
+  from: unknown;
+  to: unknown;
+}
+
+export interface RuleVersionDiff {
+  ruleId: string;
+  from: TreasuryRuleVersion;
+  to: TreasuryRuleVersion;
+  changes: RuleConfigurationChange[];
+}
+
+// treasury_rules row as returned by pg (DECIMAL columns arrive as strings)
+interface TreasuryRuleRow {
+  id: string;
+  name: string;
+  description: string | null;
+  rule_type: TreasuryRuleRecord['ruleType'];
+  is_active: boolean;
+  priority: number;
+  combination_mode: TreasuryRuleRecord['combinationMode'];
+  conversion_percentage: string | null;
+  threshold_amount: string | null;
+  fixed_amount: string | null;
+  frequency: TreasuryRuleRecord['frequency'];
+  minimum_purchase: string | null;
+  maximum_purchase: string | null;
+  buffer_amount: string | null;
+  cash_floor: string | null;
+  btc_allocation_min: string | null;
+  btc_allocation_max: string | null;
+  withdrawal_address: string | null;
+  is_auto_withdrawal: boolean;
+  exchange_provider: string;
+  settings: Record<string, unknown> | null;
+  current_version_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface TreasuryRuleVersionRow {
+  id: string;
+  treasury_rule_id: string;
+  version_number: number;
+  configuration: TreasuryRuleConfiguration;
+  change_type: RuleVersionChangeType;
+  changed_by: string | null;
+  effective_from: Date;
+  effective_to: Date | null;
+}
+
+export interface RuleChangeActor {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Columns written on create/update, in parameter order
+const RULE_COLUMNS = [
+  'name', 'description', 'rule_type', 'is_active', 'priority', 'combination_mode',
+  'conversion_percentage', 'threshold_amount', 'fixed_amount', 'frequency',
+  'minimum_purchase', 'maximum_purchase', 'buffer_amount', 'cash_floor',
+  'btc_allocation_min', 'btc_allocation_max', 'withdrawal_address', 'is_auto_withdrawal',
+  'exchange_provider', 'settings'
+];
+
+export class TreasuryRuleStore {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * All rules that have not been deleted, in evaluation order
+   */
+  async list(): Promise<TreasuryRuleRecord[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM treasury_rules WHERE deleted_at IS NULL ORDER BY priority ASC, created_at DESC`,
+      []
+    );
+
+    const rules: TreasuryRuleRecord[] = [];
+    for (const row of rows) {
+      rules.push(toRuleRecord(row));
+    }
+    return rules;
+  }
+
+  async get(ruleId: string): Promise<TreasuryRuleRecord> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM treasury_rules WHERE id = $1 AND deleted_at IS NULL`,
+      [ruleId]
+    );
+
+    if (rows.length === 0) {
+      throw new NotFoundError('Treasury rule', ruleId, { tenantId: this.tenantId });
+    }
+
+    return toRuleRecord(rows[0]);
+  }
+
+  async create(input: unknown, actor: RuleChangeActor): Promise<TreasuryRuleRecord> {
+    const rule = this.validate(input);
+    const placeholders = RULE_COLUMNS.map((_, index) => `$${index + 1}`).join(', ');
+
+    const created = await this.withTransaction(async client => {
+      const result = await client.query(
+        `INSERT INTO treasury_rules (${RULE_COLUMNS.join(', ')}) VALUES (${placeholders}) RETURNING *`,
+        toColumnValues(rule)
+      );
+      return this.recordVersion(client, toRuleRecord(result.rows[0]), 'create', actor);
+    });
+
+    await this.audit('create', created.id, `Created treasury rule "${created.name}"`, actor, undefined, created);
+    return created;
+  }
+
+  /**
+   * Apply a partial update. The merged rule is re-validated as a whole, so
+   * changing ruleType requires the new type's fields.
+   */
+  async update(ruleId: string, patch: unknown, actor: RuleChangeActor): Promise<TreasuryRuleRecord> {
+    if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+      throw new ValidationError('Request body must be an object', undefined, undefined, { tenantId: this.tenantId });
+    }
+
+    const assignments = RULE_COLUMNS.map((column, index) => `${column} = $${index + 2}`).join(', ');
+
+    const { existing, updated } = await this.withTransaction(async client => {
+      const existing = await this.lockRule(client, ruleId);
+      const rule = this.validate({ ...toRuleInput(existing), ...patch });
+
+      const result = await client.query(
+        `UPDATE treasury_rules SET ${assignments} WHERE id = $1 RETURNING *`,
+        [ruleId, ...toColumnValues(rule)]
+      );
+      const updated = await this.recordVersion(client, toRuleRecord(result.rows[0]), 'update', actor);
+      return { existing, updated };
+    });
+
+    await this.audit('update', ruleId, `Updated treasury rule "${updated.name}"`, actor, existing, updated);
+    return updated;
+  }
+
+  async setActive(ruleId: string, isActive: boolean, actor: RuleChangeActor): Promise<TreasuryRuleRecord> {
+    const existing = await this.get(ruleId);
+
+    if (isActive && existing.ruleType === 'rebalance' && !FeatureFlags.isEnabled('advanced_treasury_rules')) {
+      throw new BusinessLogicError('Rebalancing rules require advanced treasury rules', { tenantId: this.tenantId });
+    }
+
+    if (isActive && existing.ruleType === 'take_profit' && !FeatureFlags.isEnabled('advanced_treasury_rules')) {
+      throw new BusinessLogicError('Take-profit rules require advanced treasury rules', { tenantId: this.tenantId });
+    }
+
+    if (existing.isActive === isActive) {
+      return existing;
+    }
+
+    const updated = await this.withTransaction(async client => {
+      await this.lockRule(client, ruleId);
+
+      const result = await client.query(
+        `UPDATE treasury_rules SET is_active = $2 WHERE id = $1 RETURNING *`,
+        [ruleId, isActive]
+      );
+      return this.recordVersion(client, toRuleRecord(result.rows[0]), isActive ? 'activate' : 'deactivate', actor);
+    });
+
+    await this.audit(
+      isActive ? 'activate' : 'deactivate',
+      ruleId,
+      `${isActive ? 'Activated' : 'Deactivated'} treasury rule "${updated.name}"`,
+      actor,
+      { isActive: existing.isActive },
+      { isActive: updated.isActive }
+    );
+    return updated;
+  }
+
+  /**
+   * Soft delete - rules stay referenced by DCA executions, pools and purchases.
+   * The current version is closed so the history shows when the rule stopped applying.
+   */
+  async remove(ruleId: string, actor: RuleChangeActor): Promise<void> {
+    const existing = await this.withTransaction(async client => {
+      const existing = await this.lockRule(client, ruleId);
+
+      await client.query(
+        `UPDATE treasury_rules SET is_active = false, deleted_at = NOW() WHERE id = $1`,
+        [ruleId]
+      );
+      await client.query(
+        `UPDATE treasury_rule_versions SET effective_to = NOW() WHERE treasury_rule_id = $1 AND effective_to IS NULL`,
+        [ruleId]
+      );
+      return existing;
+    });
+
+    await this.audit('delete', ruleId, `Deleted treasury rule "${existing.name}"`, actor, existing, undefined);
+  }
+
+  /**
+   * Every version of a rule, newest first. Available for deleted rules too.
+   */
+  async listVersions(ruleId: string): Promise<TreasuryRuleVersion[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM treasury_rule_versions WHERE treasury_rule_id = $1 ORDER BY version_number DESC`,
+      [ruleId]
+    );
+
+    if (rows.length === 0) {
+      throw new NotFoundError('Treasury rule', ruleId, { tenantId: this.tenantId });
+    }
+
+    const versions: TreasuryRuleVersion[] = [];
+    for (const row of rows) {
+      versions.push(toRuleVersion(row));
+    }
+    return versions;
+  }
+
+  async getVersion(ruleId: string, versionNumber: number): Promise<TreasuryRuleVersion> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM treasury_rule_versions WHERE treasury_rule_id = $1 AND version_number = $2`,
+      [ruleId, versionNumber]
+    );
+
+    if (rows.length === 0) {
+      throw new NotFoundError('Treasury rule version', `${ruleId} v${versionNumber}`, { tenantId: this.tenantId });
+    }
+
+    return toRuleVersion(rows[0]);
+  }
+
+  /**
+   * The version that was in effect at a point in time
+   */
+  async getVersionAt(ruleId: string, at: Date): Promise<TreasuryRuleVersion> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM treasury_rule_versions
+       WHERE treasury_rule_id = $1
+       AND effective_from <= $2
+       AND (effective_to IS NULL OR effective_to > $2)`,
+      [ruleId, at]
+    );
+
+    if (rows.length === 0) {
+      throw new NotFoundError('Treasury rule version', `${ruleId} at ${at.toISOString()}`, { tenantId: this.tenantId });
+    }
+
+    return toRuleVersion(rows[0]);
+  }
+
+  async diffVersions(ruleId: string, fromVersion: number, toVersion: number): Promise<RuleVersionDiff> {
+    const [from, to] = await Promise.all([
+      this.getVersion(ruleId, fromVersion),
+      this.getVersion(ruleId, toVersion)
+    ]);
+
+    return {
+      ruleId,
+      from,
+      to,
+      changes: diffRuleConfigurations(from.configuration, to.configuration)
+    };
+  }
+
+  private async withTransaction<T>(work: (client: Client) => Promise<T>): Promise<T> {
+    const client = await tenantSchemaManager.getTenantClient(this.tenantId);
+
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  private async lockRule(client: Client, ruleId: string): Promise<TreasuryRuleRecord> {
+    const result = await client.query(
+      `SELECT * FROM treasury_rules WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+      [ruleId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Treasury rule', ruleId, { tenantId: this.tenantId });
+    }
+
+    return toRuleRecord(result.rows[0]);
+  }
+
+  /**
+   * Close the rule's current version and make a snapshot of the saved rule the new one
+   */
+  private async recordVersion(
+    client: Client,
+    rule: TreasuryRuleRecord,
+    changeType: RuleVersionChangeType,
+    actor: RuleChangeActor
+  ): Promise<TreasuryRuleRecord> {
+    await client.query(
+      `UPDATE treasury_rule_versions SET effective_to = NOW() WHERE treasury_rule_id = $1 AND effective_to IS NULL`,
+      [rule.id]
+    );
+
+    const version = await client.query(
+      `INSERT INTO treasury_rule_versions (treasury_rule_id, version_number, configuration, change_type, changed_by, effective_from)
+       VALUES ($1, COALESCE((SELECT MAX(version_number) FROM treasury_rule_versions WHERE treasury_rule_id = $1), 0) + 1, $2, $3, $4, NOW())
+       RETURNING id`,
+      [rule.id, JSON.stringify(toConfiguration(rule)), changeType, actor.userId]
+    );
+
+    const result = await client.query(
+      `UPDATE treasury_rules SET current_version_id = $2 WHERE id = $1 RETURNING *`,
+      [rule.id, version.rows[0].id]
+    );
+
+    return toRuleRecord(result.rows[0]);
+  }
+
+  private validate(input: unknown): TreasuryRuleInput {
+    const result = treasuryRuleSchema.safeParse(input);
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new ValidationError(
+        `${issue.path.join('.') || 'rule'}: ${issue.message}`,
+        issue.path.join('.'),
+        undefined,
+        { tenantId: this.tenantId, context: { issues: result.error.issues } }
+      );
+    }
+
+    if (result.data.ruleType === 'rebalance' && !FeatureFlags.isEnabled('advanced_treasury_rules')) {
+      throw new BusinessLogicError('Rebalancing rules require advanced treasury rules', { tenantId: this.tenantId });
+    }
+
+    if (result.data.ruleType === 'take_profit' && !FeatureFlags.isEnabled('advanced_treasury_rules')) {
+      throw new BusinessLogicError('Take-profit rules require advanced treasury rules', { tenantId: this.tenantId });
+    }
+
+    return result.data;
+  }
+
+  private async audit(
+    eventType: AuditEventType,
+    ruleId: string,
+    action: string,
+    actor: RuleChangeActor,
+    oldValues: unknown,
+    newValues: unknown
+  ): Promise<void> {
+    await recordAuditEvent({
+      tenantId: this.tenantId,
+      userId: actor.userId,
+      eventType,
+      resourceType: 'treasury_rule',
+      resourceId: ruleId,
+      action,
+      oldValues,
+      newValues,
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      complianceRelevant: true
+    });
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : parseFloat(String(value));
+}
+
+function toRuleRecord(row: TreasuryRuleRow): TreasuryRuleRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? null,
+    ruleType: row.rule_type,
+    isActive: row.is_active,
+    priority: row.priority,
+    combinationMode: row.combination_mode,
+    conversionPercentage: toNumber(row.conversion_percentage),
+    thresholdAmount: toNumber(row.threshold_amount),
+    fixedAmount: toNumber(row.fixed_amount),
+    frequency: row.frequency ?? null,
+    minimumPurchase: toNumber(row.minimum_purchase),
+    maximumPurchase: toNumber(row.maximum_purchase),
+    bufferAmount: toNumber(row.buffer_amount),
+    cashFloor: toNumber(row.cash_floor),
+    btcAllocationMin: toNumber(row.btc_allocation_min),
+    btcAllocationMax: toNumber(row.btc_allocation_max),
+    withdrawalAddress: row.withdrawal_address ?? null,
+    isAutoWithdrawal: row.is_auto_withdrawal,
+    exchangeProvider: row.exchange_provider,
+    settings: row.settings || {},
+    versionId: row.current_version_id ?? null,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+// Existing record in input form, omitting cleared fields so type-specific schemas don't see nulls
+function toRuleInput(record: TreasuryRuleRecord): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (value !== null && !['id', 'versionId', 'createdAt', 'updatedAt'].includes(key)) {
+      input[key] = value;
+    }
+  }
+  return input;
+}
+
+function toConfiguration(record: TreasuryRuleRecord): TreasuryRuleConfiguration {
+  const configuration: Partial<TreasuryRuleRecord> = { ...record };
+  delete configuration.id;
+  delete configuration.versionId;
+  delete configuration.createdAt;
+  delete configuration.updatedAt;
+  return configuration as TreasuryRuleConfiguration;
+}
+
+function toRuleVersion(row: TreasuryRuleVersionRow): TreasuryRuleVersion {
+  return {
+    id: row.id,
+    ruleId: row.treasury_rule_id,
+    versionNumber: row.version_number,
+    configuration: row.configuration,
+    changeType: row.change_type,
+    changedBy: row.changed_by,
+    effectiveFrom: new Date(row.effective_from).toISOString(),
+    effectiveTo: row.effective_to ? new Date(row.effective_to).toISOString() : null
+  };
+}
+
+/**
+ * Field-level changes between two rule configurations. Settings are compared key by key.
+ */
+export function diffRuleConfigurations(
+  from: TreasuryRuleConfiguration,
+  to: TreasuryRuleConfiguration
+): RuleConfigurationChange[] {
+  const changes: RuleConfigurationChange[] = [];
+  const before = flattenConfiguration(from);
+  const after = flattenConfiguration(to);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  for (const field of fields) {
+    if (JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) {
+      changes.push({ field, from: before[field] ?? null, to: after[field] ?? null });
+    }
+  }
+
+  return changes;
+}
+
+function flattenConfiguration(configuration: TreasuryRuleConfiguration): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(configuration)) {
+    if (key === 'settings' && value && typeof value === 'object') {
+      for (const [settingKey, settingValue] of Object.entries(value)) {
+        flat[`settings.${settingKey}`] = settingValue;
+      }
+    } else {
+      flat[key] = value;
+    }
+  }
+
+  return flat;
+}
+
+function toColumnValues(rule: TreasuryRuleInput): unknown[] {
+  const typeFields = rule as Partial<Record<string, unknown>>;
+
+  return [
+    rule.name,
+    rule.description ?? null,
+    rule.ruleType,
+    rule.isActive,
+    rule.priority,
+    rule.combinationMode,
+    typeFields.conversionPercentage ?? null,
+    typeFields.thresholdAmount ?? null,
+    typeFields.fixedAmount ?? null,
+    typeFields.frequency ?? null,
+    rule.minimumPurchase ?? null,
+    rule.maximumPurchase ?? null,
+    rule.bufferAmount ?? null,
+    rule.cashFloor ?? null,
+    typeFields.btcAllocationMin ?? null,
+    typeFields.btcAllocationMax ?? null,
+    rule.withdrawalAddress ?? null,
+    rule.isAutoWithdrawal,
+    rule.exchangeProvider,
+    JSON.stringify(rule.settings)
+  ];
+}
@@ -0,0 +1,182 @@
+// LIQUID ABT - Treasury Rule Validation
+// Per-rule-type schemas for rules created or edited through the API
+
+import { z } from 'zod';
+import { validate as validateBitcoinAddress } from 'bitcoin-address-validation';
+
+const positiveAmount = z.number().positive().max(100_000_000);
+
+// Shared by every rule type; nullable fields can be cleared with null
+const baseRuleFields = {
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  isActive: z.boolean().default(false),
+  priority: z.number().int().min(0).max(10_000).default(100),
+  combinationMode: z.enum(['stack', 'first_match']).default('stack'),
+  minimumPurchase: positiveAmount.nullable().optional(),
+  maximumPurchase: positiveAmount.nullable().optional(),
+  bufferAmount: z.number().min(0).max(100_000_000).nullable().optional(),
+  cashFloor: z.number().min(0).max(100_000_000).nullable().optional(),
+  withdrawalAddress: z.string().trim()
+    .refine(address => validateBitcoinAddress(address), 'Invalid Bitcoin address')
+    .nullable()
+    .optional(),
+  isAutoWithdrawal: z.boolean().default(false),
+  exchangeProvider: z.enum(['kraken', 'independent_reserve', 'btc_markets', 'zerocap', 'swyftx', 'coinbase', 'mock']).default('kraken')
+};
+
+const conversionPercentage = z.number().positive().max(100);
+
+// Best-execution routing across the tenant's exchange integrations (settings.execution.routing)
+const routingSettings = z.object({
+  splitAcrossVenues: z.boolean().optional(),
+  maxVenues: z.number().int().min(2).max(7).optional(),
+  minimumLegAUD: positiveAmount.optional()
+});
+
+// Optional slicing of large purchases into child orders, or limit orders below the ask (settings.execution)
+const executionSettings = z.object({
+  algorithm: z.enum(['single', 'twap', 'iceberg', 'limit']),
+  minimumAUD: z.number().min(0).optional(),
+  sliceCount: z.number().int().min(1).max(100).optional(),
+  intervalSeconds: z.number().min(0).max(3600).optional(),
+  maxSliceAUD: positiveAmount.optional(),
+  maxSlippagePercent: z.number().positive().max(10).optional(),
+  childOrderType: z.enum(['market', 'limit']).optional(),
+  limitOffsetPercent: z.number().min(0).max(10).optional(),
+  limitTimeoutMinutes: z.number().positive().max(24 * 60).optional(),
+  maxReprices: z.number().int().min(0).max(20).optional(),
+  fallbackToMarket: z.boolean().optional(),
+  routing: routingSettings.optional()
+}).refine(
+  execution => execution.algorithm !== 'iceberg' || execution.maxSliceAUD !== undefined,
+  { message: 'Iceberg execution requires maxSliceAUD', path: ['maxSliceAUD'] }
+).refine(
+  execution => execution.algorithm !== 'limit' || !execution.routing?.splitAcrossVenues,
+  { message: 'Limit orders rest on one exchange and cannot be split across venues', path: ['routing', 'splitAcrossVenues'] }
+);
+
+// Queue conversions and buy them together once the window elapses or flushAtAUD is reached (settings.batching)
+const batchingSettings = z.object({
+  windowMinutes: z.number().int().min(1).max(24 * 60),
+  flushAtAUD: positiveAmount.optional()
+});
+
+// Batches are bought at market so each fill can be allocated straight back to its payments
+const batchedAtMarket = (settings: { batching?: unknown; execution?: { algorithm: string } }) =>
+  !settings.batching || settings.execution?.algorithm !== 'limit';
+
+const batchedAtMarketMessage = { message: 'Batched conversions cannot use limit execution', path: ['execution', 'algorithm'] };
+
+const conversionSettings = z.looseObject({
+  execution: executionSettings.optional(),
+  batching: batchingSettings.optional()
+}).refine(batchedAtMarket, batchedAtMarketMessage);
+
+// Keep cashFloor plus cash obligations due within the horizon unconverted
+const obligationHorizonDays = z.number().int().min(1).max(365);
+
+const thresholdSettings = z.looseObject({
+  execution: executionSettings.optional(),
+  obligationHorizonDays: obligationHorizonDays.optional(),
+  batching: batchingSettings.optional()
+}).refine(batchedAtMarket, batchedAtMarketMessage);
+
+const dcaSettings = z.looseObject({
+  execution: executionSettings.optional(),
+  missedRunPolicy: z.enum(['skip', 'catch_up']).optional(),
+  maxCatchUpPeriods: z.number().int().min(1).max(31).optional()
+});
+
+const marketTimingSettings = z.looseObject({
+  execution: executionSettings.optional(),
+  buyBelowPrice: positiveAmount.optional(),
+  movingAverageHours: z.number().positive().max(24 * 365).optional(),
+  movingAverageDiscountPercent: z.number().min(0).max(100).optional(),
+  drawdownPercent: z.number().positive().max(100).optional(),
+  drawdownLookbackHours: z.number().positive().max(24 * 365).optional(),
+  maxWaitHours: z.number().positive().max(24 * 90).optional()
+});
+
+const rebalanceSettings = z.looseObject({
+  execution: executionSettings.optional(),
+  targetAllocation: z.number().min(0).max(1).optional(),
+  allowSells: z.boolean().optional(),
+  obligationHorizonDays: obligationHorizonDays.optional(),
+  cooldownHours: z.number().positive().max(24 * 30).optional()
+});
+
+// Sell rules: offer part of the holdings for sale once the price reaches a multiple of cost basis
+const takeProfitSettings = z.looseObject({
+  costBasisMultiple: z.number().gt(1).max(100),
+  sellPercent: z.number().positive().max(100),
+  minimumSaleAUD: positiveAmount.optional(),
+  cooldownHours: z.number().positive().max(24 * 90).optional()
+});
+
+const allocation = z.number().min(0).max(1);
+
+export const treasuryRuleSchema = z.discriminatedUnion('ruleType', [
+  z.object({
+    ...baseRuleFields,
+    ruleType: z.literal('percentage'),
+    conversionPercentage,
+    settings: conversionSettings.default({})
+  }),
+  z.object({
+    ...baseRuleFields,
+    ruleType: z.literal('threshold'),
+    thresholdAmount: positiveAmount,
+    settings: thresholdSettings.default({})
+  }),
+  z.object({
+    ...baseRuleFields,
+    ruleType: z.literal('fixed_dca'),
+    fixedAmount: positiveAmount,
+    frequency: z.enum(['daily', 'weekly', 'monthly']),
+    settings: dcaSettings.default({})
+  }),
+  z.object({
+    ...baseRuleFields,
+    ruleType: z.literal('market_timing'),
+    conversionPercentage,
+    settings: marketTimingSettings
+      .refine(
+        settings => settings.buyBelowPrice || settings.movingAverageHours || settings.drawdownPercent,
+        'Market-timing rules need at least one of buyBelowPrice, movingAverageHours or drawdownPercent'
+      )
+  }),
+  z.object({
+    ...baseRuleFields,
+    ruleType: z.literal('rebalance'),
+    btcAllocationMin: allocation,
+    btcAllocationMax: allocation,
+    settings: rebalanceSettings.default({})
+  }),
+  z.object({
+    ...baseRuleFields,
+    ruleType: z.literal('take_profit'),
+    settings: takeProfitSettings
+  })
+]).superRefine((rule, ctx) => {
+  if (rule.minimumPurchase && rule.maximumPurchase && rule.minimumPurchase > rule.maximumPurchase) {
+    ctx.addIssue({ code: 'custom', path: ['minimumPurchase'], message: 'Minimum purchase cannot exceed maximum purchase' });
+  }
+
+  if (rule.isAutoWithdrawal && !rule.withdrawalAddress) {
+    ctx.addIssue({ code: 'custom', path: ['withdrawalAddress'], message: 'Auto-withdrawal requires a withdrawal address' });
+  }
+
+  if (rule.ruleType === 'rebalance') {
+    if (rule.btcAllocationMin > rule.btcAllocationMax) {
+      ctx.addIssue({ code: 'custom', path: ['btcAllocationMin'], message: 'Allocation minimum cannot exceed maximum' });
+    }
+
+    const target = rule.settings.targetAllocation;
+    if (target !== undefined && (target < rule.btcAllocationMin || target > rule.btcAllocationMax)) {
+      ctx.addIssue({ code: 'custom', path: ['settings', 'targetAllocation'], message: 'Target allocation must be inside the allocation band' });
+    }
+  }
+});
+
+export type TreasuryRuleInput = z.infer<typeof treasuryRuleSchema>;
@@ -0,0 +1,100 @@
+// LIQUID ABT - Scheduled Jobs
+// Cron scheduling, overlap guard and per-tenant iteration shared by the treasury background jobs
+
+import cron, { ScheduledTask } from 'node-cron';
+import { getMasterPrisma } from '@/lib/database/connection';
+
+export interface ScheduledJobConfig<T> {
+  name: string;              // Used in log lines, e.g. 'DCA scheduler'
+  cronEnvVar: string;        // Environment variable that overrides the schedule
+  defaultCron: string;
+  isEnabled?: () => boolean; // Checked when the job is started
+  run: () => Promise<T>;
+}
+
+export interface TenantJobConfig extends Omit<ScheduledJobConfig<void>, 'run'> {
+  runForTenant: (tenantId: string) => Promise<void>;
+}
+
+/**
+ * A process-wide cron job. A tick is skipped while the previous run is still going.
+ */
+export class ScheduledJob<T = void> {
+  private task: ScheduledTask | null = null;
+  private isRunning = false;
+
+  constructor(private config: ScheduledJobConfig<T>) {}
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Run once now. Resolves to null without running if the previous run has not finished.
+   */
+  async run(): Promise<T | null> {
+    if (this.isRunning) {
+      console.warn(`${this.config.name} run already in progress - skipping this tick`);
+      return null;
+    }
+
+    this.isRunning = true;
+
+    try {
+      return await this.config.run();
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Start the cron job (no-op while the job is disabled)
+   */
+  start(cronExpression: string = process.env[this.config.cronEnvVar] || this.config.defaultCron): ScheduledTask | null {
+    if (this.config.isEnabled && !this.config.isEnabled()) {
+      return null;
+    }
+
+    if (this.task) {
+      return this.task;
+    }
+
+    this.task = cron.schedule(cronExpression, () => {
+      this.run().catch(error => console.error(`${this.config.name} tick failed:`, error));
+    });
+
+    console.log(`${this.config.name} started (${cronExpression})`);
+    return this.task;
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+}
+
+/**
+ * A cron job that runs for every active tenant in turn. A failure for one tenant is
+ * logged and does not stop the others.
+ */
+export class TenantJob extends ScheduledJob<void> {
+  constructor({ runForTenant, ...config }: TenantJobConfig) {
+    super({
+      ...config,
+      run: async () => {
+        const tenants = await getMasterPrisma().tenant.findMany({
+          where: { isActive: true },
+          select: { id: true }
+        });
+
+        for (const tenant of tenants) {
+          try {
+            await runForTenant(tenant.id);
+          } catch (error) {
+            console.error(`${config.name} run failed for tenant ${tenant.id}:`, error);
+          }
+        }
+      }
+    });
+  }
+}
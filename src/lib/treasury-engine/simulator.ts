@@ -0,0 +1,458 @@
+// LIQUID ABT - Treasury Rule Simulator
+// Replays historical transactions and a local BTC/AUD price file through the processor's rule evaluation
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { addDays, format, isAfter, startOfDay } from 'date-fns';
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { SubscriptionTier } from '@/types/database';
+import {
+  ConversionDecision,
+  EvaluatedTransaction,
+  RuleEvaluationContext,
+  TreasuryProcessor,
+  TreasuryRules
+} from './processor';
+import { ConversionLimitCode, TierLimits, getDefaultTierLimits, loadTenantTierLimits } from './tier-limits';
+import { getPeriodStart } from './dca-scheduler';
+import { CashObligation, CashObligationStore, summarizeUpcomingObligations } from './cash-obligations';
+import { evaluateMarketTimingTriggers, MarketTimingPriceStats, parseMarketTimingSettings } from './market-timing';
+
+export interface PricePoint {
+  date: Date;
+  price: number; // BTC/AUD close
+}
+
+/**
+ * A candidate rule as submitted for simulation (not yet saved)
+ */
+export type CandidateRuleConfig = Partial<Omit<TreasuryRules, 'id' | 'isActive'>> & {
+  ruleType: TreasuryRules['ruleType'];
+};
+
+export interface SimulationCandidate {
+  label: string;
+  rules: CandidateRuleConfig[];
+}
+
+export interface SimulationRequest {
+  candidates: SimulationCandidate[];
+  from?: Date;
+  to?: Date;
+  feePercent?: number;        // Trading fee applied to every simulated buy
+  tier?: SubscriptionTier;    // Simulate under a different tier's default limits
+}
+
+export interface SimulationResult {
+  label: string;
+  totalBTC: number;
+  totalInvestedAUD: number;
+  totalFeesAUD: number;
+  averageCostAUD: number | null; // AUD spent (including fees) per BTC
+  currentValueAUD: number;       // totalBTC at the last price in the range
+  purchaseCount: number;
+  limitHits: Partial<Record<ConversionLimitCode, number>>;
+  cashBuffer: Array<{ date: string; cashAUD: number; pendingPoolAUD: number }>;
+  notes: string[];
+}
+
+export interface SimulationReport {
+  from: string;
+  to: string;
+  transactionCount: number;
+  feePercent: number;
+  tier: SubscriptionTier;
+  results: SimulationResult[];
+}
+
+export class HistoricalPriceFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoricalPriceFileError';
+  }
+}
+
+const DEFAULT_PRICE_FILE = path.join('data', 'btc-aud-daily.csv');
+const DEFAULT_FEE_PERCENT = 0.5;
+
+/**
+ * Load a daily BTC/AUD price series from a local CSV file (date,price per line; header optional)
+ */
+export async function loadHistoricalPrices(
+  filePath: string = process.env.BACKTEST_PRICE_FILE || DEFAULT_PRICE_FILE
+): Promise<PricePoint[]> {
+  const resolvedPath = path.resolve(process.cwd(), filePath);
+  let contents: string;
+
+  try {
+    contents = await fs.readFile(resolvedPath, 'utf8');
+  } catch {
+    throw new HistoricalPriceFileError(`Historical price file not found at ${resolvedPath} (set BACKTEST_PRICE_FILE)`);
+  }
+
+  const points: PricePoint[] = [];
+
+  for (const line of contents.split(/\r?\n/)) {
+    const [dateValue, priceValue] = line.split(',').map(value => value.trim());
+    const date = new Date(dateValue);
+    const price = parseFloat(priceValue);
+
+    // Skips the header row and blank lines
+    if (!dateValue || isNaN(date.getTime()) || !(price > 0)) {
+      continue;
+    }
+
+    points.push({ date, price });
+  }
+
+  if (points.length === 0) {
+    throw new HistoricalPriceFileError(`Historical price file ${resolvedPath} contains no prices`);
+  }
+
+  return points.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Lookups over a sorted price series
+ */
+export class PriceSeries {
+  constructor(private points: PricePoint[]) {}
+
+  get first(): PricePoint {
+    return this.points[0];
+  }
+
+  get last(): PricePoint {
+    return this.points[this.points.length - 1];
+  }
+
+  /**
+   * Latest known price at or before the given time
+   */
+  priceAt(date: Date): number | undefined {
+    let price: number | undefined;
+    for (const point of this.points) {
+      if (point.date.getTime() > date.getTime()) {
+        break;
+      }
+      price = point.price;
+    }
+    return price;
+  }
+
+  /**
+   * Prices recorded in the window ending at the given time
+   */
+  window(end: Date, hours: number): number[] {
+    const start = end.getTime() - hours * 60 * 60 * 1000;
+    return this.points
+      .filter(point => point.date.getTime() >= start && point.date.getTime() <= end.getTime())
+      .map(point => point.price);
+  }
+}
+
+/**
+ * In-memory stand-in for the tenant database while a candidate is replayed
+ */
+class SimulationLedger implements RuleEvaluationContext {
+  now: Date = new Date(0);
+  unconvertedBalance = 0;
+  cashAUD = 0;
+  purchases: Array<{ at: Date; amountAUD: number }> = [];
+  pools = new Map<string, Array<{ amountAUD: number; queuedAt: Date }>>();
+  pooledTransactionIds = new Set<string>();
+
+  constructor(private tierLimits: TierLimits, private obligations: CashObligation[]) {}
+
+  async getTierLimits(): Promise<TierLimits> {
+    return this.tierLimits;
+  }
+
+  async getRollingPurchaseVolume(): Promise<{ daily: number; monthly: number }> {
+    const dayAgo = this.now.getTime() - 24 * 60 * 60 * 1000;
+    const monthAgo = this.now.getTime() - 30 * 24 * 60 * 60 * 1000;
+    let daily = 0;
+    let monthly = 0;
+
+    for (const purchase of this.purchases) {
+      const at = purchase.at.getTime();
+      if (at >= monthAgo && at <= this.now.getTime()) {
+        monthly += purchase.amountAUD;
+        if (at >= dayAgo) {
+          daily += purchase.amountAUD;
+        }
+      }
+    }
+
+    return { daily, monthly };
+  }
+
+  async getUnconvertedBalance(): Promise<number> {
+    return this.unconvertedBalance;
+  }
+
+  // Recurring obligations are projected back over the replayed period as if they had always applied
+  async getObligationsDue(horizonDays: number): Promise<number> {
+    return summarizeUpcomingObligations(this.obligations, this.now, horizonDays).totalAUD;
+  }
+
+  async queueMarketTimingConversion(ruleId: string, transactionId: string, amountAUD: number): Promise<void> {
+    this.pooledTransactionIds.add(transactionId);
+    const pool = this.pools.get(ruleId) || [];
+    pool.push({ amountAUD, queuedAt: this.now });
+    this.pools.set(ruleId, pool);
+  }
+
+  get pendingPoolAUD(): number {
+    let total = 0;
+    this.pools.forEach(pool => {
+      for (const entry of pool) {
+        total += entry.amountAUD;
+      }
+    });
+    return total;
+  }
+}
+
+export class TreasurySimulator {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Replay the tenant's history once per candidate. Read-only: nothing is written to the tenant schema.
+   */
+  async run(request: SimulationRequest, prices?: PricePoint[]): Promise<SimulationReport> {
+    const series = new PriceSeries(prices || await loadHistoricalPrices());
+    const from = startOfDay(request.from && isAfter(request.from, series.first.date) ? request.from : series.first.date);
+    const to = request.to && !isAfter(request.to, series.last.date) ? request.to : series.last.date;
+    const feePercent = request.feePercent ?? DEFAULT_FEE_PERCENT;
+
+    const tierLimits = request.tier
+      ? getDefaultTierLimits(request.tier)
+      : await loadTenantTierLimits(this.tenantId);
+
+    const transactions = await this.getHistoricalTransactions(from, to);
+    const obligations = await new CashObligationStore(this.tenantId).list();
+    const results: SimulationResult[] = [];
+
+    for (const candidate of request.candidates) {
+      results.push(await this.simulateCandidate(candidate, transactions, series, from, to, feePercent, tierLimits, obligations));
+    }
+
+    return {
+      from: format(from, 'yyyy-MM-dd'),
+      to: format(to, 'yyyy-MM-dd'),
+      transactionCount: transactions.length,
+      feePercent,
+      tier: tierLimits.tier,
+      results
+    };
+  }
+
+  private async getHistoricalTransactions(from: Date, to: Date): Promise<Array<EvaluatedTransaction & { createdAt: Date }>> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT id, amount, created_at FROM transactions
+       WHERE status = 'succeeded'
+       AND created_at >= $1 AND created_at <= $2
+       ORDER BY created_at ASC`,
+      [from, to]
+    );
+
+    const transactions: Array<EvaluatedTransaction & { createdAt: Date }> = [];
+
+    for (const row of rows) {
+      transactions.push({ id: row.id, amount: parseFloat(row.amount), createdAt: new Date(row.created_at) });
+    }
+
+    return transactions;
+  }
+
+  private async simulateCandidate(
+    candidate: SimulationCandidate,
+    transactions: Array<EvaluatedTransaction & { createdAt: Date }>,
+    series: PriceSeries,
+    from: Date,
+    to: Date,
+    feePercent: number,
+    tierLimits: TierLimits,
+    obligations: CashObligation[]
+  ): Promise<SimulationResult> {
+    const ledger = new SimulationLedger(tierLimits, obligations);
+    const processor = new TreasuryProcessor(this.tenantId, ledger);
+    const rules = toTreasuryRules(candidate);
+    const notes: string[] = [];
+
+    const result: SimulationResult = {
+      label: candidate.label,
+      totalBTC: 0,
+      totalInvestedAUD: 0,
+      totalFeesAUD: 0,
+      averageCostAUD: null,
+      currentValueAUD: 0,
+      purchaseCount: 0,
+      limitHits: {},
+      cashBuffer: [],
+      notes
+    };
+
+    if (rules.some(rule => rule.ruleType === 'rebalance')) {
+      notes.push('Rebalancing rules depend on live exchange balances and are not simulated');
+    }
+
+    if (rules.some(rule => rule.ruleType === 'take_profit')) {
+      notes.push('Take-profit rules sell only after OWNER approval and are not simulated');
+    }
+
+    const recordLimit = (code?: ConversionLimitCode) => {
+      if (code) {
+        result.limitHits[code] = (result.limitHits[code] || 0) + 1;
+      }
+    };
+
+    const buy = (decision: ConversionDecision, at: Date) => {
+      recordLimit(decision.limit?.code);
+
+      const price = series.priceAt(at);
+      if (!decision.shouldConvert || !price) {
+        return false;
+      }
+
+      const fee = decision.amountToConvert * feePercent / 100;
+      result.totalBTC += (decision.amountToConvert - fee) / price;
+      result.totalInvestedAUD += decision.amountToConvert;
+      result.totalFeesAUD += fee;
+      result.purchaseCount++;
+      ledger.cashAUD -= decision.amountToConvert;
+      ledger.purchases.push({ at, amountAUD: decision.amountToConvert });
+      return true;
+    };
+
+    let transactionIndex = 0;
+
+    for (let day = from; !isAfter(day, to); day = addDays(day, 1)) {
+      const dayEnd = addDays(day, 1);
+
+      // Payments received during the day
+      while (transactionIndex < transactions.length && transactions[transactionIndex].createdAt < dayEnd) {
+        const transaction = transactions[transactionIndex++];
+        ledger.now = transaction.createdAt;
+        ledger.cashAUD += transaction.amount;
+
+        const decision = await processor.evaluateConversionRules(transaction, rules);
+        for (const entry of decision.trace?.rules || []) {
+          recordLimit(entry.limit?.code);
+        }
+
+        if (buy(decision, transaction.createdAt)) {
+          ledger.unconvertedBalance = 0;
+        } else if (!ledger.pooledTransactionIds.has(transaction.id)) {
+          // Pooled payments are held for a market-timing buy, not left unconverted
+          ledger.unconvertedBalance += transaction.amount;
+        }
+      }
+
+      ledger.now = day;
+
+      // Scheduled DCA purchases at the start of each period
+      for (const rule of rules) {
+        if (rule.ruleType !== 'fixed_dca' || !rule.frequency || !rule.fixedAmount) {
+          continue;
+        }
+        if (getPeriodStart(day, rule.frequency).getTime() !== day.getTime()) {
+          continue;
+        }
+
+        buy(await processor.evaluateScheduledPurchase({
+          amountAUD: rule.fixedAmount,
+          minimumPurchase: rule.minimumPurchase,
+          maximumPurchase: rule.maximumPurchase
+        }), day);
+      }
+
+      // Market-timing pools checked against the day's close
+      ledger.now = dayEnd;
+      const closePrice = series.priceAt(dayEnd);
+
+      for (const rule of rules) {
+        const pool = ledger.pools.get(rule.id);
+        if (rule.ruleType !== 'market_timing' || !pool || pool.length === 0 || !closePrice) {
+          continue;
+        }
+
+        const settings = parseMarketTimingSettings(rule.settings);
+        const stats: MarketTimingPriceStats = { currentPrice: closePrice };
+
+        if (settings.movingAverageHours) {
+          const prices = series.window(dayEnd, settings.movingAverageHours);
+          stats.movingAverage = prices.length > 0 ? prices.reduce((sum, price) => sum + price, 0) / prices.length : undefined;
+        }
+        if (settings.drawdownPercent) {
+          const prices = series.window(dayEnd, settings.drawdownLookbackHours);
+          stats.recentHigh = prices.length > 0 ? Math.max(...prices) : undefined;
+        }
+
+        const oldestQueuedAt = pool.reduce((oldest, entry) => entry.queuedAt < oldest ? entry.queuedAt : oldest, pool[0].queuedAt);
+        const evaluation = evaluateMarketTimingTriggers(stats, settings, oldestQueuedAt, dayEnd);
+
+        if (!evaluation.trigger) {
+          continue;
+        }
+
+        const pooledAmount = pool.reduce((sum, entry) => sum + entry.amountAUD, 0);
+        const decision = await processor.evaluateScheduledPurchase({
+          amountAUD: pooledAmount,
+          minimumPurchase: rule.minimumPurchase,
+          maximumPurchase: rule.maximumPurchase
+        });
+
+        if (buy(decision, dayEnd)) {
+          const remainder = pooledAmount - decision.amountToConvert;
+          ledger.pools.set(rule.id, remainder > 0 ? [{ amountAUD: remainder, queuedAt: oldestQueuedAt }] : []);
+        }
+      }
+
+      result.cashBuffer.push({
+        date: format(day, 'yyyy-MM-dd'),
+        cashAUD: round(ledger.cashAUD, 2),
+        pendingPoolAUD: round(ledger.pendingPoolAUD, 2)
+      });
+    }
+
+    const lastPrice = series.priceAt(to) || series.last.price;
+
+    result.totalBTC = round(result.totalBTC, 8);
+    result.totalInvestedAUD = round(result.totalInvestedAUD, 2);
+    result.totalFeesAUD = round(result.totalFeesAUD, 2);
+    result.averageCostAUD = result.totalBTC > 0 ? round(result.totalInvestedAUD / result.totalBTC, 2) : null;
+    result.currentValueAUD = round(result.totalBTC * lastPrice, 2);
+
+    return result;
+  }
+}
+
+/**
+ * Give candidate rules the shape the processor evaluates, in submitted order unless a priority is set
+ */
+function toTreasuryRules(candidate: SimulationCandidate): TreasuryRules[] {
+  return candidate.rules.map((rule, index) => ({
+    ...rule,
+    id: `candidate-${index + 1}`,
+    name: rule.name || `${candidate.label} #${index + 1}`,
+    isActive: true,
+    priority: rule.priority ?? (index + 1) * 10,
+    combinationMode: rule.combinationMode || 'stack',
+    exchangeProvider: rule.exchangeProvider || 'kraken',
+    isAutoWithdrawal: false,
+    withdrawalAddress: undefined,
+    settings: rule.settings || {}
+  })).sort((a, b) => a.priority - b.priority);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,222 @@
+// LIQUID ABT - Take-Profit Monitor
+// Raises OWNER sale approvals when the BTC price reaches a take-profit rule's cost-basis multiple (advanced_treasury_rules)
+
+import { tenantSchemaManager } from '@/lib/database/connection';
+import { FeatureFlags } from '@/lib/features';
+import { TreasuryProcessor } from './processor';
+import { ApprovalWorkflow } from './approvals';
+import { CostBasisSummary, TreasuryDisposals } from './disposals';
+import { TenantJob } from './scheduled-job';
+
+export interface TakeProfitSettings {
+  costBasisMultiple: number; // e.g. 2 sells once BTC trades at twice the average cost
+  sellPercent: number;       // Share of open acquisition lots offered for sale
+  minimumSaleAUD: number;
+  cooldownHours: number;     // Minimum time between take-profit sales for a rule
+}
+
+export interface TakeProfitDecision {
+  shouldSell: boolean;
+  bitcoinAmount: number;
+  reason: string;
+}
+
+export interface TakeProfitCheckSummary {
+  ruleId: string;
+  status: 'requested' | 'skipped';
+  approvalRequestId?: string;
+  bitcoinAmount?: number;
+  reason: string;
+}
+
+interface TakeProfitRule {
+  ruleId: string;
+  name: string;
+  versionId?: string;
+  settings: TakeProfitSettings;
+}
+
+const DEFAULT_COOLDOWN_HOURS = 24;
+
+/**
+ * Decide whether a take-profit rule should offer BTC for sale at the current price
+ */
+export function evaluateTakeProfit(
+  pricePerBTC: number,
+  costBasis: CostBasisSummary,
+  availableBTC: number,
+  settings: TakeProfitSettings
+): TakeProfitDecision {
+  if (costBasis.averageCostAUD === null) {
+    return { shouldSell: false, bitcoinAmount: 0, reason: 'No Bitcoin with a recorded cost basis is held on the exchange' };
+  }
+
+  const triggerPrice = costBasis.averageCostAUD * settings.costBasisMultiple;
+
+  if (pricePerBTC < triggerPrice) {
+    return {
+      shouldSell: false,
+      bitcoinAmount: 0,
+      reason: `Price $${pricePerBTC.toFixed(2)} below take-profit level $${triggerPrice.toFixed(2)} (${settings.costBasisMultiple}x cost basis)`
+    };
+  }
+
+  const bitcoinAmount = Math.floor(Math.min(costBasis.bitcoinAmount * settings.sellPercent / 100, availableBTC) * 1e8) / 1e8;
+
+  if (bitcoinAmount * pricePerBTC < settings.minimumSaleAUD || bitcoinAmount <= 0) {
+    return {
+      shouldSell: false,
+      bitcoinAmount: 0,
+      reason: `Sale of ${bitcoinAmount} BTC is below the minimum sale of $${settings.minimumSaleAUD}`
+    };
+  }
+
+  return {
+    shouldSell: true,
+    bitcoinAmount,
+    reason: `Price $${pricePerBTC.toFixed(2)} is ${(pricePerBTC / costBasis.averageCostAUD).toFixed(2)}x the average cost ` +
+      `of $${costBasis.averageCostAUD.toFixed(2)}; selling ${settings.sellPercent}% of holdings`
+  };
+}
+
+export class TakeProfitMonitor {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  /**
+   * Check every active take-profit rule and request OWNER approval for triggered sales
+   */
+  async runTakeProfitChecks(): Promise<TakeProfitCheckSummary[]> {
+    const summaries: TakeProfitCheckSummary[] = [];
+
+    if (!FeatureFlags.isEnabled('advanced_treasury_rules')) {
+      return summaries;
+    }
+
+    const rules = await this.getActiveRules();
+    if (rules.length === 0) {
+      return summaries;
+    }
+
+    const exchangeProvider = await new TreasuryProcessor(this.tenantId).getExchangeProvider();
+    const disposals = new TreasuryDisposals(this.tenantId);
+
+    for (const rule of rules) {
+      if (await this.hasOpenOrRecentSale(rule)) {
+        summaries.push({ ruleId: rule.ruleId, status: 'skipped', reason: 'Sale pending approval or within cooldown' });
+        continue;
+      }
+
+      const [price, balance, costBasis] = await Promise.all([
+        exchangeProvider.getCurrentPrice('AUD'),
+        exchangeProvider.getBalance(),
+        disposals.getCostBasis()
+      ]);
+
+      const pricePerBTC = price.bid || price.price;
+      const decision = evaluateTakeProfit(pricePerBTC, costBasis, balance.btc?.available || 0, rule.settings);
+
+      if (!decision.shouldSell) {
+        summaries.push({ ruleId: rule.ruleId, status: 'skipped', reason: decision.reason });
+        continue;
+      }
+
+      const approval = await new ApprovalWorkflow(this.tenantId).requestApproval({
+        requestType: 'sale',
+        amountAUD: Math.round(decision.bitcoinAmount * pricePerBTC * 100) / 100,
+        bitcoinAmount: decision.bitcoinAmount,
+        details: {
+          trigger: 'take_profit',
+          treasuryRuleId: rule.ruleId,
+          ruleVersionId: rule.versionId,
+          pricePerBTC,
+          costBasis
+        },
+        reason: `Take-profit rule "${rule.name}": ${decision.reason}`
+      });
+
+      console.log(`Take-profit rule ${rule.ruleId} requested sale of ${decision.bitcoinAmount} BTC (approval ${approval.id})`);
+      summaries.push({
+        ruleId: rule.ruleId,
+        status: 'requested',
+        approvalRequestId: approval.id,
+        bitcoinAmount: decision.bitcoinAmount,
+        reason: decision.reason
+      });
+    }
+
+    return summaries;
+  }
+
+  private async getActiveRules(): Promise<TakeProfitRule[]> {
+    const rows = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT * FROM treasury_rules
+       WHERE is_active = true AND deleted_at IS NULL AND rule_type = 'take_profit'
+       ORDER BY priority ASC`,
+      []
+    );
+
+    const rules: TakeProfitRule[] = [];
+
+    for (const rule of rows) {
+      const settings = rule.settings || {};
+      const costBasisMultiple = Number(settings.costBasisMultiple);
+      const sellPercent = Number(settings.sellPercent);
+
+      if (!(costBasisMultiple > 1) || !(sellPercent > 0 && sellPercent <= 100)) {
+        continue;
+      }
+
+      rules.push({
+        ruleId: rule.id,
+        name: rule.name,
+        versionId: rule.current_version_id || undefined,
+        settings: {
+          costBasisMultiple,
+          sellPercent,
+          minimumSaleAUD: Number(settings.minimumSaleAUD) || 0,
+          cooldownHours: Number(settings.cooldownHours) || DEFAULT_COOLDOWN_HOURS
+        }
+      });
+    }
+
+    return rules;
+  }
+
+  /**
+   * One sale at a time per rule: skip while a request is awaiting a decision or execution,
+   * or while the rule's last sale is inside its cooldown. Failed, rejected and expired requests
+   * are terminal and do not block the next sale.
+   */
+  private async hasOpenOrRecentSale(rule: TakeProfitRule): Promise<boolean> {
+    const result = await tenantSchemaManager.queryTenantSchema(
+      this.tenantId,
+      `SELECT 1 FROM approval_requests
+       WHERE request_type = 'sale' AND details->>'treasuryRuleId' = $1 AND status IN ('pending', 'approved')
+       UNION ALL
+       SELECT 1 FROM bitcoin_disposals
+       WHERE treasury_rule_id = $1 AND created_at >= NOW() - make_interval(hours => $2)
+       LIMIT 1`,
+      [rule.ruleId, rule.settings.cooldownHours]
+    );
+
+    return result.length > 0;
+  }
+}
+
+/**
+ * Take-profit cron job (not started while advanced_treasury_rules is disabled)
+ */
+export const takeProfitJob = new TenantJob({
+  name: 'Take-profit monitor',
+  cronEnvVar: 'TAKE_PROFIT_CRON',
+  defaultCron: '*/30 * * * *',
+  isEnabled: () => FeatureFlags.isEnabled('advanced_treasury_rules'),
+  runForTenant: async tenantId => {
+    await new TakeProfitMonitor(tenantId).runTakeProfitChecks();
+  }
+});
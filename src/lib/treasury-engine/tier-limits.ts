@@ -0,0 +1,94 @@
+// LIQUID ABT - Subscription Tier Conversion Limits
+// Resolves a tenant's effective conversion limits from the master Tenant row
+
+import { getMasterPrisma } from '@/lib/database/connection';
+import { SubscriptionTier, SUBSCRIPTION_LIMITS } from '@/types/database';
+
+export interface TierLimits {
+  tier: SubscriptionTier;
+  maxPercentage: number;
+  maxSingleTransaction: number;
+  maxDailyVolume: number;   // Rolling 24 hours
+  maxMonthlyVolume: number; // Rolling 30 days
+}
+
+export type ConversionLimitCode =
+  | 'TIER_PERCENTAGE_EXCEEDED'
+  | 'MAX_TRANSACTION_CAP'
+  | 'RULE_MAXIMUM_CAP'
+  | 'DAILY_VOLUME_CAP'
+  | 'MONTHLY_VOLUME_CAP'
+  | 'DAILY_VOLUME_EXHAUSTED'
+  | 'MONTHLY_VOLUME_EXHAUSTED'
+  | 'BELOW_MINIMUM';
+
+/**
+ * Structured explanation of why a conversion was capped or rejected (shown on the dashboard)
+ */
+export interface ConversionLimit {
+  code: ConversionLimitCode;
+  tier: SubscriptionTier;
+  limit: number;
+  used?: number; // Volume already converted in the rolling window
+  requestedAmount: number;
+  allowedAmount: number;
+}
+
+// Maximum share of each payment that may be converted (Starter is capped at 5%)
+export const TIER_MAX_CONVERSION_PERCENTAGE: Record<SubscriptionTier, number> = {
+  [SubscriptionTier.FREE]: 5,
+  [SubscriptionTier.GROWTH]: 100,
+  [SubscriptionTier.PRO]: 100,
+  [SubscriptionTier.ENTERPRISE]: 100
+};
+
+/**
+ * Load the tenant's tier and per-tenant limit overrides.
+ * Falls back to Starter (FREE) limits - the most restrictive - if the tenant cannot be found.
+ */
+export async function loadTenantTierLimits(tenantId: string): Promise<TierLimits> {
+  const tenant = await getMasterPrisma().tenant.findUnique({
+    where: { id: tenantId },
+    select: {
+      subscriptionTier: true,
+      monthlyVolumeLimit: true,
+      dailyVolumeLimit: true,
+      maxTransactionLimit: true
+    }
+  });
+
+  if (!tenant) {
+    console.warn(`Tenant ${tenantId} not found - applying Starter tier limits`);
+    return getDefaultTierLimits(SubscriptionTier.FREE);
+  }
+
+  const tier = tenant.subscriptionTier as SubscriptionTier;
+
+  return {
+    tier,
+    maxPercentage: TIER_MAX_CONVERSION_PERCENTAGE[tier] ?? TIER_MAX_CONVERSION_PERCENTAGE[SubscriptionTier.FREE],
+    maxSingleTransaction: toLimit(tenant.maxTransactionLimit),
+    maxDailyVolume: toLimit(tenant.dailyVolumeLimit),
+    maxMonthlyVolume: toLimit(tenant.monthlyVolumeLimit)
+  };
+}
+
+/**
+ * Default limits for a tier, ignoring any per-tenant overrides
+ */
+export function getDefaultTierLimits(tier: SubscriptionTier): TierLimits {
+  const limits = SUBSCRIPTION_LIMITS[tier];
+
+  return {
+    tier,
+    maxPercentage: TIER_MAX_CONVERSION_PERCENTAGE[tier],
+    maxSingleTransaction: toLimit(limits.maxTransactionLimit),
+    maxDailyVolume: toLimit(limits.dailyVolumeLimit),
+    maxMonthlyVolume: toLimit(limits.monthlyVolumeLimit)
+  };
+}
+
+// -1 means unlimited in SUBSCRIPTION_LIMITS and on the Tenant row
+function toLimit(value: number): number {
+  return value < 0 ? Number.MAX_SAFE_INTEGER : value;
+}
@@ -21,6 +21,12 @@ export enum CGTMethod {
   SPECIFIC_ID = 'SPECIFIC_ID'
 }
 
+export enum RefundPolicy {
+  SELL_BACK = 'SELL_BACK',
+  OFFSET = 'OFFSET',
+  RECORD_LIABILITY = 'RECORD_LIABILITY'
+}
+
 export interface Tenant {
   id: string;
   companyName: string;
@@ -41,6 +47,14 @@ export interface Tenant {
   maxUsers: number;
   maxIntegrations: number;
   
+  // Approval Policy
+  approvalThresholdAUD?: number;
+  requiredApprovals: number;
+  approvalExpiryHours: number;
+  
+  // Refunds and chargebacks of converted payments
+  refundPolicy: RefundPolicy;
+  
   // Contact & Business Info
   contactEmail: string;
   businessAddress?: string;
@@ -143,15 +157,20 @@ export interface TreasuryRule {
   conversionPercentage?: number;
   thresholdAmount?: number;
   fixedAmount?: number;
+  frequency?: 'daily' | 'weekly' | 'monthly'; // Schedule for fixed amount / DCA rules
+  
+  // Multi-rule Evaluation
+  priority: number;                          // Lower numbers are evaluated first
+  combinationMode: 'stack' | 'first_match';  // first_match stops lower-priority rules once this one fires
   
   // Conditions
   minTransactionAmount?: number;
   maxTransactionAmount?: number;
   
   // Advanced Settings (Pro/Enterprise)
-  cashFloor?: number;           // Minimum AUD to maintain
-  btcAllocationMin?: number;    // Min % in BTC
-  btcAllocationMax?: number;    // Max % in BTC
+  cashFloor?: number;           // Minimum AUD to maintain on top of upcoming cash obligations
+  btcAllocationMin?: number;    // Min share of portfolio value in BTC, as a 0-1 fraction (e.g. 0.2)
+  btcAllocationMax?: number;    // Max share of portfolio value in BTC, as a 0-1 fraction
   
   // Timestamps
   createdAt: Date;